@@ -1,29 +1,101 @@
-import { useState } from 'react'
-import SpriteEditor from './components/SpriteEditor'
+import { useState, useEffect, useRef } from 'react'
+import SpriteEditor, { DEFAULT_FRAME_ID } from './components/SpriteEditor'
 import Toolbar from './components/Toolbar'
 import LayerPanel from './components/LayerPanel'
 import ColorPicker from './components/ColorPicker'
-import CustomColorTemplatePicker from './components/CustomColorTemplatePicker'
+import CustomColorTemplatePicker, { defaultTemplate, loadColorTemplates } from './components/CustomColorTemplatePicker'
 import HistoryPanel from './components/HistoryPanel'
 import TemplatePanel from './components/TemplatePanel'
+import TimelinePanel from './components/TimelinePanel'
+import SpriteSheetExportModal from './components/SpriteSheetExportModal'
+import PngExportModal from './components/PngExportModal'
+import ImageImportModal from './components/ImageImportModal'
+import CanvasResizeModal from './components/CanvasResizeModal'
+import ReplaceColorModal from './components/ReplaceColorModal'
+import TransformModal from './components/TransformModal'
+import ModifySelectionModal from './components/ModifySelectionModal'
+import PaletteRemapModal from './components/PaletteRemapModal'
 import ErrorBoundary from './components/ErrorBoundary'
-import { Tool, Color, Layer, GridSettings } from './types'
+import ConfirmModal from './components/ConfirmModal'
+import { Tool, Color, Layer, LayerPixels, FramePixels, Frame, OnionSkinSettings, GridSettings, CustomColorTemplate, SpriteSheetOptions, PngExportOptions, ImageImportOptions, ResizeAnchor, SymmetrySettings, FillSettings, ColorMode, ReplaceColorScope, PixelTransform, TransformTarget, SelectionChange, BlendMode, LayerChange, LayerChangeAction, LayerGroup, ProjectDocument, HistoryState } from './types'
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION, DEFAULT_FRAME_DURATION } from './utils/projectFile'
+import { compositeLayers } from './utils/layerCompositing'
+import { layoutSpriteSheet, buildSpriteSheetAtlas, renderSpriteSheet, SpriteSheetFrame } from './utils/spriteSheet'
+import { encodeGif } from './utils/gifEncoder'
+import { getExportRegion, renderPixelsToCanvas, renderPixelsToIndexedPng } from './utils/pngExport'
+import { decodeImageFile, imageToPixels } from './utils/imageImport'
+import { resizeFramePixels } from './utils/canvasResize'
+import { getCenteredSymmetry } from './utils/symmetry'
+import { DEFAULT_FILL_SETTINGS } from './utils/fillRegion'
+import { addLayer, deleteLayer, setLayerVisible, moveLayer, renameLayer, setLayerLocked, setLayerOpacity, setLayerBlendMode, duplicateLayer, mergeLayerDown, flattenLayers } from './utils/layerOperations'
+import { resolveLayerGroups, groupLayer, ungroupLayers, moveLayerToGroup, setGroupVisible, setGroupOpacity } from './utils/layerGroups'
+import { AutosaveSnapshot, AUTOSAVE_INTERVAL, isAutosaveAvailable, createAutosaveSnapshot, saveAutosave, loadAutosave, clearAutosave } from './utils/autosave'
+
+// Trigger a browser download for a file generated in memory
+const downloadFile = (href: string, filename: string) => {
+  const link = document.createElement('a')
+  link.href = href
+  link.download = filename
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
 
 function App() {
   const [selectedTool, setSelectedTool] = useState<Tool>('pencil')
   const [primaryColor, setPrimaryColor] = useState<Color>('#000000')
   const [secondaryColor, setSecondaryColor] = useState<Color>('#ffffff')
   const [brushSize, setBrushSize] = useState(1)
-  const [canvasSize, setCanvasSize] = useState(32)
+  const [canvasWidth, setCanvasWidth] = useState(32)
+  const [canvasHeight, setCanvasHeight] = useState(32)
   const [layers, setLayers] = useState<Layer[]>([
     { id: 1, name: 'Layer 1', visible: true, active: true }
   ])
+  const [layerGroups, setLayerGroups] = useState<LayerGroup[]>([])
   const [canvasRef, setCanvasRef] = useState<React.RefObject<HTMLCanvasElement> | null>(null)
   
   // Canvas reference state
   
-  const [pixels, setPixels] = useState<Map<string, { x: number; y: number; color: string; layerId: number }>>(new Map())
+  const [layerPixels, setLayerPixels] = useState<LayerPixels>(new Map())
+  const [framePixels, setFramePixels] = useState<FramePixels>(new Map())
+  const [frames, setFrames] = useState<Frame[]>([{ id: DEFAULT_FRAME_ID, duration: DEFAULT_FRAME_DURATION }])
+  const [currentFrameId, setCurrentFrameId] = useState(DEFAULT_FRAME_ID)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>({
+    enabled: false,
+    previousFrames: 1,
+    nextFrames: 1,
+    opacity: 0.3,
+    previousTint: '#ff0000',
+    nextTint: '#0000ff'
+  })
+  const [activePalette, setActivePalette] = useState<CustomColorTemplate>(defaultTemplate)
+  const [colorMode, setColorMode] = useState<ColorMode>('rgb')
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>(getCenteredSymmetry(32, 32))
+  const [fillSettings, setFillSettings] = useState<FillSettings>(DEFAULT_FILL_SETTINGS)
+  // Pixels of a newly opened/created project, waiting for the editor to pick them up
+  const [pendingFramePixels, setPendingFramePixels] = useState<FramePixels | null>(null)
+  // History restored from an autosave, loaded into the editor right after its pixels
+  const [pendingHistory, setPendingHistory] = useState<Pick<HistoryState, 'undoStack' | 'redoStack'> | null>(null)
+  // Session found at startup, waiting for the user to restore or discard it
+  const [autosaveOffer, setAutosaveOffer] = useState<AutosaveSnapshot | null>(null)
+  // Autosaving waits until the last session has been restored or discarded, so it is not overwritten
+  const [isAutosaveEnabled, setIsAutosaveEnabled] = useState(false)
+  const projectInputRef = useRef<HTMLInputElement>(null)
+  const [isSpriteSheetModalOpen, setIsSpriteSheetModalOpen] = useState(false)
+  const [isPngModalOpen, setIsPngModalOpen] = useState(false)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  const [isResizeModalOpen, setIsResizeModalOpen] = useState(false)
+  const [isReplaceColorModalOpen, setIsReplaceColorModalOpen] = useState(false)
+  const [isTransformModalOpen, setIsTransformModalOpen] = useState(false)
+  const [isModifySelectionModalOpen, setIsModifySelectionModalOpen] = useState(false)
+  // Palettes offered by the remap dialog, read when it opens
+  const [remapTemplates, setRemapTemplates] = useState<CustomColorTemplate[] | null>(null)
+  // Image dropped onto the canvas, handed to the import dialog
+  const [droppedImageFile, setDroppedImageFile] = useState<File | null>(null)
   const [hasActiveSelection, setHasActiveSelection] = useState(false)
+  const [hasFillPattern, setHasFillPattern] = useState(false)
   const [gridSettings, setGridSettings] = useState<GridSettings>({
     visible: false,
     color: '#333',
@@ -42,13 +114,19 @@ function App() {
       visible: true,
       active: true
     }
-    setLayers(prev => prev.map(l => ({ ...l, active: false })).concat(newLayer))
+    changeLayers('add', current => addLayer(current, newLayer))
   }
 
   const handleLayerToggle = (layerId: number) => {
-    setLayers(prev => prev.map(l => 
-      l.id === layerId ? { ...l, visible: !l.visible } : l
-    ))
+    changeLayers('visibility', current => setLayerVisible(current, layerId, !current.find(l => l.id === layerId)?.visible))
+  }
+
+  const handleLayerOpacityChange = (layerId: number, opacity: number) => {
+    changeLayers('opacity', current => setLayerOpacity(current, layerId, opacity))
+  }
+
+  const handleLayerBlendModeChange = (layerId: number, blendMode: BlendMode) => {
+    changeLayers('blend-mode', current => setLayerBlendMode(current, layerId, blendMode))
   }
 
   const handleLayerSelect = (layerId: number) => {
@@ -56,27 +134,494 @@ function App() {
   }
 
   const handleDeleteLayer = (layerId: number) => {
-    setLayers(prev => {
-      const newLayers = prev.filter(l => l.id !== layerId)
-      // If we're deleting the active layer or if no layers are active, make the first remaining layer active
-      if (newLayers.length > 0 && (prev.find(l => l.id === layerId)?.active || !prev.some(l => l.active))) {
-        newLayers[0].active = true
-      }
-      return newLayers
+    changeLayers('delete', (current, pixels) => deleteLayer(current, pixels, layerId))
+  }
+
+  // Layer stack changes go through the editor so they land in its undo history
+  const changeLayers = (
+    action: LayerChangeAction,
+    change: (layers: Layer[], framePixels: FramePixels, groups: LayerGroup[]) => LayerChange | null
+  ) => {
+    canvasRef?.current?.changeLayers?.(action, change)
+  }
+
+  const handleLayerMove = (layerId: number, toIndex: number) => {
+    changeLayers('reorder', current => moveLayer(current, layerId, toIndex))
+  }
+
+  const handleLayerRename = (layerId: number, name: string) => {
+    changeLayers('rename', current => renameLayer(current, layerId, name))
+  }
+
+  const handleLayerLockToggle = (layerId: number) => {
+    changeLayers('lock', current => setLayerLocked(current, layerId, !current.find(l => l.id === layerId)?.locked))
+  }
+
+  const handleDuplicateLayer = (layerId: number) => {
+    changeLayers('duplicate', (current, pixels) => duplicateLayer(current, pixels, layerId, Date.now()))
+  }
+
+  const handleMergeLayerDown = (layerId: number) => {
+    changeLayers('merge-down', (current, pixels) => mergeLayerDown(current, pixels, layerId))
+  }
+
+  // Flattening composites through the groups, which are left empty and removed
+  const handleFlattenImage = () => {
+    changeLayers('flatten', (current, pixels, groups) => {
+      const result = flattenLayers(resolveLayerGroups(current, groups), pixels)
+      return result && { ...result, groups: [] }
+    })
+  }
+
+  // A new group takes the active layer, inside the group that layer was in
+  const handleNewGroup = () => {
+    const active = layers.find(l => l.active)
+    if (!active) return
+    changeLayers('group', (current, _pixels, groups) => groupLayer(current, groups, active.id, Date.now(), `Group ${groups.length + 1}`))
+  }
+
+  const handleUngroup = (groupId: number) => {
+    changeLayers('ungroup', (current, _pixels, groups) => ungroupLayers(current, groups, groupId))
+  }
+
+  const handleLayerGroupChange = (layerId: number, groupId: number | undefined, toIndex?: number) => {
+    changeLayers('reorder', (current, _pixels, groups) => moveLayerToGroup(current, groups, layerId, groupId, toIndex))
+  }
+
+  const handleGroupToggle = (groupId: number) => {
+    changeLayers('group-visibility', (current, _pixels, groups) => setGroupVisible(current, groups, groupId, !groups.find(g => g.id === groupId)?.visible))
+  }
+
+  const handleGroupCollapseToggle = (groupId: number) => {
+    setLayerGroups(prev => prev.map(g => g.id === groupId ? { ...g, collapsed: !g.collapsed } : g))
+  }
+
+  const handleGroupOpacityChange = (groupId: number, opacity: number) => {
+    changeLayers('group-opacity', (current, _pixels, groups) => setGroupOpacity(current, groups, groupId, opacity))
+  }
+
+  // Layers with their groups' visibility and opacity applied, for exports and thumbnails
+  const compositingLayers = resolveLayerGroups(layers, layerGroups)
+
+  const handleAddFrame = () => {
+    const newFrame: Frame = { id: Date.now(), duration: DEFAULT_FRAME_DURATION }
+    setFrames(prev => {
+      const index = prev.findIndex(f => f.id === currentFrameId)
+      return [...prev.slice(0, index + 1), newFrame, ...prev.slice(index + 1)]
+    })
+    setCurrentFrameId(newFrame.id)
+  }
+
+  const handleDuplicateFrame = () => {
+    const source = frames.find(f => f.id === currentFrameId)
+    const newFrame: Frame = { id: Date.now(), duration: source?.duration ?? DEFAULT_FRAME_DURATION }
+    canvasRef?.current?.copyFramePixels?.(currentFrameId, newFrame.id)
+    setFrames(prev => {
+      const index = prev.findIndex(f => f.id === currentFrameId)
+      return [...prev.slice(0, index + 1), newFrame, ...prev.slice(index + 1)]
     })
+    setCurrentFrameId(newFrame.id)
+  }
+
+  const handleDeleteFrame = (frameId: number) => {
+    // The timeline always keeps at least one frame
+    if (frames.length <= 1) return
+    // Deleting a frame cannot be undone, so ask first unless it is empty
+    const hasPixels = Array.from(framePixels.get(frameId)?.values() ?? []).some(pixels => pixels.size > 0)
+    if (hasPixels && !confirm('Delete this frame? Its pixels cannot be restored.')) return
+
+    const index = frames.findIndex(f => f.id === frameId)
+    const newFrames = frames.filter(f => f.id !== frameId)
+    setFrames(newFrames)
+    if (frameId === currentFrameId) {
+      setCurrentFrameId(newFrames[Math.min(index, newFrames.length - 1)].id)
+    }
+  }
+
+  const handleMoveFrame = (frameId: number, direction: -1 | 1) => {
+    setFrames(prev => {
+      const index = prev.findIndex(f => f.id === frameId)
+      const target = index + direction
+      if (index === -1 || target < 0 || target >= prev.length) return prev
+
+      const newFrames = [...prev]
+      newFrames[index] = prev[target]
+      newFrames[target] = prev[index]
+      return newFrames
+    })
+  }
+
+  const handleFrameDurationChange = (frameId: number, duration: number) => {
+    setFrames(prev => prev.map(f => f.id === frameId ? { ...f, duration } : f))
+  }
+
+  // Preview loop: advance to the next frame after the current frame's duration
+  useEffect(() => {
+    if (!isPlaying || frames.length <= 1) return
+
+    const index = frames.findIndex(f => f.id === currentFrameId)
+    const frame = frames[index] || frames[0]
+    const timeout = setTimeout(() => {
+      setCurrentFrameId(frames[(index + 1) % frames.length].id)
+    }, frame.duration)
+
+    return () => clearTimeout(timeout)
+  }, [isPlaying, frames, currentFrameId])
+
+  // Keep the symmetry axes in the middle of the canvas when its size changes
+  useEffect(() => {
+    setSymmetry(prev => getCenteredSymmetry(canvasWidth, canvasHeight, prev.mode))
+  }, [canvasWidth, canvasHeight])
+
+  // Hand restored pixels to the editor once it has re-rendered at the project's canvas size
+  useEffect(() => {
+    if (!pendingFramePixels || !canvasRef?.current?.loadFramePixels) return
+    canvasRef.current.loadFramePixels(pendingFramePixels)
+    setPendingFramePixels(null)
+    if (pendingHistory) {
+      canvasRef.current.loadHistory?.(pendingHistory)
+      setPendingHistory(null)
+    }
+  }, [pendingFramePixels, pendingHistory, canvasRef, canvasWidth, canvasHeight])
+
+  // Offer the last autosaved session on startup
+  useEffect(() => {
+    if (!isAutosaveAvailable()) return
+
+    let cancelled = false
+    loadAutosave()
+      .then(snapshot => {
+        if (cancelled) return
+        if (snapshot) {
+          setAutosaveOffer(snapshot)
+        } else {
+          setIsAutosaveEnabled(true)
+        }
+      })
+      .catch(error => {
+        console.warn('Could not read autosave:', error)
+        if (!cancelled) setIsAutosaveEnabled(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Set by each committed operation, so unchanged documents are not serialized again
+  const isAutosaveDirtyRef = useRef(false)
+  // Saves the latest state when something changed since the last save
+  const writeAutosaveRef = useRef<() => void>(() => {})
+  writeAutosaveRef.current = () => {
+    if (!isAutosaveDirtyRef.current) return
+    // Without a mounted editor (e.g. after a crash) there is no history to save, so keep the last autosave
+    const history = canvasRef?.current?.getHistoryState?.()
+    if (!history) return
+
+    isAutosaveDirtyRef.current = false
+    const project = serializeProject({
+      canvasWidth,
+      canvasHeight,
+      layers,
+      frames,
+      framePixels,
+      primaryColor,
+      secondaryColor,
+      gridSettings,
+      palette: activePalette,
+      colorMode,
+      layerGroups
+    })
+    saveAutosave(createAutosaveSnapshot(project, history)).catch(error => {
+      console.warn('Autosave failed:', error)
+    })
+  }
+
+  // Autosave on an interval and when the page is hidden or closed, if an operation was committed since the last save
+  useEffect(() => {
+    if (!isAutosaveEnabled) return
+
+    const handleHistoryChange = () => {
+      isAutosaveDirtyRef.current = true
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') writeAutosaveRef.current()
+    }
+    const handleBeforeUnload = () => writeAutosaveRef.current()
+    const interval = setInterval(() => writeAutosaveRef.current(), AUTOSAVE_INTERVAL)
+    document.addEventListener('historyChange', handleHistoryChange)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('beforeunload', handleBeforeUnload)
+
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('historyChange', handleHistoryChange)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('beforeunload', handleBeforeUnload)
+    }
+  }, [isAutosaveEnabled])
+
+  // Put an opened project's document into the editor state
+  const applyProject = (project: ProjectDocument) => {
+    setCanvasWidth(project.canvasWidth)
+    setCanvasHeight(project.canvasHeight)
+    setLayers(project.layers)
+    setLayerGroups(project.layerGroups || [])
+    setFrames(project.frames)
+    setCurrentFrameId(project.frames[0].id)
+    setIsPlaying(false)
+    setPrimaryColor(project.primaryColor)
+    setSecondaryColor(project.secondaryColor)
+    setGridSettings(project.gridSettings)
+    setActivePalette(project.palette)
+    setColorMode(project.colorMode || 'rgb')
+    setPendingFramePixels(project.framePixels)
+  }
+
+  // Restore an autosaved session with its history
+  const restoreAutosave = (snapshot: AutosaveSnapshot): boolean => {
+    try {
+      applyProject(parseProject(snapshot.project, defaultTemplate))
+      setPendingHistory({ undoStack: snapshot.undoStack, redoStack: snapshot.redoStack })
+      return true
+    } catch (error) {
+      console.error('Failed to restore autosave:', error)
+      alert(`Failed to restore autosave: ${error instanceof Error ? error.message : error}`)
+      return false
+    }
+  }
+
+  const handleRestoreAutosave = () => {
+    if (autosaveOffer) restoreAutosave(autosaveOffer)
+    setAutosaveOffer(null)
+    setIsAutosaveEnabled(true)
+  }
+
+  const handleDiscardAutosave = () => {
+    setAutosaveOffer(null)
+    setIsAutosaveEnabled(true)
+    clearAutosave().catch(error => console.warn('Could not clear autosave:', error))
+  }
+
+  // Offered by error boundaries: go back to the last autosave instead of only retrying
+  const handleRecoverAutosave = async () => {
+    try {
+      const snapshot = await loadAutosave()
+      if (!snapshot) {
+        alert('No autosave to recover')
+        return
+      }
+      restoreAutosave(snapshot)
+    } catch (error) {
+      console.error('Failed to recover autosave:', error)
+      alert(`Failed to recover autosave: ${error instanceof Error ? error.message : error}`)
+    }
   }
 
   // File menu handlers
   const handleNewProject = () => {
-    // TODO: Implement new project functionality
+    if (!confirm('Start a new project? Unsaved changes will be lost.')) return
+    
+    setLayers([{ id: 1, name: 'Layer 1', visible: true, active: true }])
+    setLayerGroups([])
+    setFrames([{ id: DEFAULT_FRAME_ID, duration: DEFAULT_FRAME_DURATION }])
+    setCurrentFrameId(DEFAULT_FRAME_ID)
+    setIsPlaying(false)
+    setColorMode('rgb')
+    setPendingFramePixels(new Map())
   }
 
   const handleOpenProject = () => {
-    // TODO: Implement open project functionality
+    projectInputRef.current?.click()
+  }
+
+  const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Reset so selecting the same file again still triggers a change
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      applyProject(parseProject(await file.text(), defaultTemplate))
+    } catch (error) {
+      console.error('Failed to open project:', error)
+      alert(`Failed to open project: ${error instanceof Error ? error.message : error}`)
+    }
   }
 
   const handleSaveProject = () => {
-    // TODO: Implement save project functionality
+    const content = serializeProject({
+      canvasWidth,
+      canvasHeight,
+      layers,
+      frames,
+      framePixels,
+      primaryColor,
+      secondaryColor,
+      gridSettings,
+      palette: activePalette,
+      colorMode,
+      layerGroups
+    })
+    
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }))
+    downloadFile(url, `sprite-${canvasWidth}x${canvasHeight}${PROJECT_FILE_EXTENSION}`)
+    URL.revokeObjectURL(url)
+  }
+
+  // Render the current frame from pixel data, so the grid and selection overlays stay out of the file
+  const handleExportPNG = (options: PngExportOptions) => {
+    const pixels = compositeLayers(compositingLayers, layerPixels)
+    const region = getExportRegion(pixels, canvasWidth, canvasHeight, options.bounds, canvasRef?.current?.getSelectionBounds?.())
+    if (!region) {
+      alert(options.bounds === 'trim' ? 'Nothing to export: the canvas is empty' : 'Nothing to export: no selection')
+      return
+    }
+
+    const filename = `sprite-${region.w}x${region.h}${options.scale > 1 ? `@${options.scale}x` : ''}.png`
+    if (options.indexed) {
+      try {
+        const png = renderPixelsToIndexedPng(pixels, region, options.scale, activePalette.colors, options.background)
+        const url = URL.createObjectURL(new Blob([png.buffer as ArrayBuffer], { type: 'image/png' }))
+        downloadFile(url, filename)
+        URL.revokeObjectURL(url)
+      } catch (error) {
+        console.error('Failed to export indexed PNG:', error)
+        alert(`Failed to export indexed PNG: ${error instanceof Error ? error.message : error}`)
+      }
+      return
+    }
+
+    const canvas = renderPixelsToCanvas(pixels, region, options.scale, options.background)
+    downloadFile(canvas.toDataURL('image/png'), filename)
+  }
+
+  // Palette edits only reach the document when they change the active palette
+  const handleTemplateChange = (template: CustomColorTemplate) => {
+    if (template.id === activePalette.id) {
+      setActivePalette(template)
+    }
+  }
+
+  // Recolor every matching pixel in the chosen scope as one undoable operation
+  const handleReplaceColors = (mapping: Array<[Color, Color]>, scope: ReplaceColorScope) => {
+    const count = canvasRef?.current?.replaceColors?.(mapping, scope) ?? 0
+    if (count === 0) {
+      alert('No pixels to replace: none of the colors were found')
+    }
+  }
+
+  // Flip, scale or rotate the selection or the active layer as one undoable operation
+  const handleTransform = (transform: PixelTransform, target: TransformTarget) => {
+    canvasRef?.current?.transformPixels?.(transform, target)
+  }
+
+  const handlePreviewTransform = (transform: PixelTransform | null, target: TransformTarget) => {
+    canvasRef?.current?.previewTransform?.(transform, target)
+  }
+
+  // Select all, deselect, invert, grow, shrink or select a color across the active layer
+  const handleChangeSelection = (change: SelectionChange) => {
+    canvasRef?.current?.changeSelection?.(change)
+  }
+
+  const handleOpenPaletteRemap = () => {
+    const saved = loadColorTemplates()
+    const templates = [defaultTemplate, ...saved.filter(t => t.id !== defaultTemplate.id)]
+    // The active palette may have unsaved edits, so prefer it over the stored copy
+    setRemapTemplates(templates.some(t => t.id === activePalette.id)
+      ? templates.map(t => t.id === activePalette.id ? activePalette : t)
+      : [...templates, activePalette])
+  }
+
+  // Decode an image and place it on a new layer above the others, in the current frame
+  const handleImportImage = async (file: File, options: ImageImportOptions) => {
+    try {
+      const image = await decodeImageFile(file)
+      const newLayer: Layer = {
+        id: Date.now(),
+        name: file.name.replace(/\.[^.]+$/, '') || `Layer ${layers.length + 1}`,
+        visible: true,
+        active: true
+      }
+
+      const imported = imageToPixels(image, canvasWidth, canvasHeight, newLayer.id, options)
+
+      // The pixels land in the current frame as part of the same undo step as the new layer
+      changeLayers('add', (current, pixels) => {
+        const result = addLayer(current, newLayer)
+        if (!result) return null
+        const layerPixels = new Map(pixels.get(currentFrameId) ?? [])
+        return { ...result, framePixels: new Map(pixels).set(currentFrameId, layerPixels.set(newLayer.id, imported)) }
+      })
+    } catch (error) {
+      console.error('Failed to import image:', error)
+      alert(`Failed to import image: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const handleCanvasDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files?.[0]
+    if (!file || !file.type.startsWith('image/')) return
+
+    e.preventDefault()
+    setDroppedImageFile(file)
+    setIsImportModalOpen(true)
+  }
+
+  // Pack every frame (all visible layers composited) into one PNG plus a JSON atlas
+  const handleExportSpriteSheet = (options: SpriteSheetOptions) => {
+    const baseName = `sprite-${canvasWidth}x${canvasHeight}`
+    const sheetFrames: SpriteSheetFrame[] = frames.map((frame, index) => ({
+      name: `${baseName} ${index}`,
+      pixels: compositeLayers(compositingLayers, framePixels.get(frame.id)),
+      duration: frame.duration
+    }))
+
+    const layout = layoutSpriteSheet(sheetFrames, canvasWidth, canvasHeight, options)
+    const sheet = renderSpriteSheet(sheetFrames, layout)
+    const atlas = buildSpriteSheetAtlas(layout, `${baseName}-sheet.png`, options.format, baseName)
+
+    downloadFile(sheet.toDataURL('image/png'), `${baseName}-sheet.png`)
+    const url = URL.createObjectURL(new Blob([JSON.stringify(atlas, null, 2)], { type: 'application/json' }))
+    downloadFile(url, `${baseName}-sheet.json`)
+    URL.revokeObjectURL(url)
+  }
+
+  // Encode every frame as a looping GIF, upscaled to roughly the size shown in the editor
+  const handleExportGif = () => {
+    try {
+      const gif = encodeGif(
+        frames.map(frame => ({
+          pixels: compositeLayers(compositingLayers, framePixels.get(frame.id)),
+          delay: frame.duration
+        })),
+        canvasWidth,
+        canvasHeight,
+        { loop: 0, scale: Math.max(1, Math.floor(512 / Math.max(canvasWidth, canvasHeight))) }
+      )
+
+      const url = URL.createObjectURL(new Blob([gif.buffer as ArrayBuffer], { type: 'image/gif' }))
+      downloadFile(url, `sprite-${canvasWidth}x${canvasHeight}.gif`)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export GIF:', error)
+      alert(`Failed to export GIF: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const handleCanvasPresetChange = (size: number) => {
+    setCanvasWidth(size)
+    setCanvasHeight(size)
+  }
+
+  // Crop or extend every frame around the anchor, then hand the moved pixels to the editor
+  const handleResizeCanvas = (width: number, height: number, anchor: ResizeAnchor) => {
+    if (width === canvasWidth && height === canvasHeight) return
+
+    setPendingFramePixels(resizeFramePixels(framePixels, canvasWidth, canvasHeight, width, height, anchor))
+    setCanvasWidth(width)
+    setCanvasHeight(height)
   }
 
   const handleSettings = () => {
@@ -114,10 +659,104 @@ function App() {
             onNewProject={handleNewProject}
             onOpenProject={handleOpenProject}
             onSaveProject={handleSaveProject}
+            onExportSpriteSheet={() => setIsSpriteSheetModalOpen(true)}
+            onExportGif={handleExportGif}
             onSettings={handleSettings}
-            canvasSize={canvasSize}
-            onCanvasSizeChange={setCanvasSize}
-            canvasRef={canvasRef}
+            onExportPNG={() => setIsPngModalOpen(true)}
+            onImportImage={() => {
+              setDroppedImageFile(null)
+              setIsImportModalOpen(true)
+            }}
+            onResizeCanvas={() => setIsResizeModalOpen(true)}
+            onReplaceColor={() => setIsReplaceColorModalOpen(true)}
+            onTransform={() => setIsTransformModalOpen(true)}
+            onChangeSelection={handleChangeSelection}
+            onSelectColor={() => handleChangeSelection({ type: 'color', color: primaryColor })}
+            onModifySelection={() => setIsModifySelectionModalOpen(true)}
+            onRemapPalette={handleOpenPaletteRemap}
+            colorMode={colorMode}
+            onColorModeChange={setColorMode}
+            paletteSize={activePalette.colors.length}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            onCanvasSizeChange={handleCanvasPresetChange}
+          />
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json`}
+            onChange={handleProjectFileChange}
+            style={{ display: 'none' }}
+            data-testid="project-file-input"
+          />
+          <ImageImportModal
+            isOpen={isImportModalOpen}
+            onClose={() => setIsImportModalOpen(false)}
+            onImport={handleImportImage}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            palette={activePalette.colors}
+            initialFile={droppedImageFile}
+          />
+          <PngExportModal
+            isOpen={isPngModalOpen}
+            onClose={() => setIsPngModalOpen(false)}
+            onExport={handleExportPNG}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            hasSelection={hasActiveSelection}
+            canExportIndexed={colorMode === 'indexed'}
+          />
+          <SpriteSheetExportModal
+            isOpen={isSpriteSheetModalOpen}
+            onClose={() => setIsSpriteSheetModalOpen(false)}
+            onExport={handleExportSpriteSheet}
+            frameCount={frames.length}
+          />
+          <CanvasResizeModal
+            isOpen={isResizeModalOpen}
+            onClose={() => setIsResizeModalOpen(false)}
+            onResize={handleResizeCanvas}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+          />
+          <ReplaceColorModal
+            isOpen={isReplaceColorModalOpen}
+            onClose={() => setIsReplaceColorModalOpen(false)}
+            onReplace={(from, to, scope) => handleReplaceColors([[from, to]], scope)}
+            initialFrom={primaryColor}
+            initialTo={secondaryColor}
+            hasSelection={hasActiveSelection}
+          />
+          <TransformModal
+            isOpen={isTransformModalOpen}
+            onClose={() => setIsTransformModalOpen(false)}
+            onApply={handleTransform}
+            onPreview={handlePreviewTransform}
+            hasSelection={hasActiveSelection}
+          />
+          <ModifySelectionModal
+            isOpen={isModifySelectionModalOpen}
+            onClose={() => setIsModifySelectionModalOpen(false)}
+            onApply={handleChangeSelection}
+            hasSelection={hasActiveSelection}
+          />
+          <ConfirmModal
+            isOpen={autosaveOffer !== null}
+            title="Restore Session"
+            message={`Restore the session autosaved ${autosaveOffer ? new Date(autosaveOffer.savedAt).toLocaleString() : ''}? Starting fresh discards it.`}
+            onConfirm={handleRestoreAutosave}
+            onCancel={handleDiscardAutosave}
+            confirmText="Restore"
+            cancelText="Start Fresh"
+          />
+          <PaletteRemapModal
+            isOpen={remapTemplates !== null}
+            onClose={() => setRemapTemplates(null)}
+            onRemap={handleReplaceColors}
+            templates={remapTemplates || []}
+            activeTemplateId={activePalette.id}
+            hasSelection={hasActiveSelection}
           />
         </div>
 
@@ -126,7 +765,7 @@ function App() {
           width: '100%',
           flexShrink: 0
         }}>
-          <ErrorBoundary>
+          <ErrorBoundary onRecover={isAutosaveAvailable() ? handleRecoverAutosave : undefined}>
             <ColorPicker
               primaryColor={primaryColor}
               onPrimaryColorChange={setPrimaryColor}
@@ -142,9 +781,12 @@ function App() {
           flexShrink: 0,
           marginTop: '15px'
         }}>
-          <ErrorBoundary>
+          <ErrorBoundary onRecover={isAutosaveAvailable() ? handleRecoverAutosave : undefined}>
             <CustomColorTemplatePicker
               onColorSelect={setPrimaryColor}
+              activeTemplate={activePalette}
+              onTemplateSelect={setActivePalette}
+              onTemplateChange={handleTemplateChange}
             />
           </ErrorBoundary>
         </div>
@@ -171,34 +813,80 @@ function App() {
             gridSettings={gridSettings}
             onGridSettingsChange={setGridSettings}
             hasActiveSelection={hasActiveSelection}
+            symmetry={symmetry}
+            onSymmetryChange={setSymmetry}
+            fillSettings={fillSettings}
+            onFillSettingsChange={setFillSettings}
+            hasFillPattern={hasFillPattern}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
           />
         </div>
 
         {/* Main Canvas Area - Takes remaining space */}
         <div style={{ 
           flex: 1,
+          minHeight: 0,
           display: 'flex',
           justifyContent: 'center',
           alignItems: 'center',
           padding: '20px',
           overflow: 'auto'
-        }}>
-          <ErrorBoundary>
+        }}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleCanvasDrop}
+        >
+          <ErrorBoundary onRecover={isAutosaveAvailable() ? handleRecoverAutosave : undefined}>
             <SpriteEditor
               selectedTool={selectedTool}
               primaryColor={primaryColor}
               secondaryColor={secondaryColor}
               brushSize={brushSize}
-              canvasSize={canvasSize}
+              canvasWidth={canvasWidth}
+              canvasHeight={canvasHeight}
               layers={layers}
               onCanvasRef={setCanvasRef}
               onPrimaryColorChange={setPrimaryColor}
-              onPixelsChange={setPixels}
+              onPixelsChange={setLayerPixels}
               onSelectionChange={setHasActiveSelection}
+              onFillPatternChange={setHasFillPattern}
               gridSettings={gridSettings}
+              frames={frames}
+              currentFrameId={currentFrameId}
+              onFramePixelsChange={setFramePixels}
+              onionSkin={isPlaying ? undefined : onionSkin}
+              symmetry={symmetry}
+              fillSettings={fillSettings}
+              palette={activePalette.colors}
+              indexedPalette={colorMode === 'indexed' ? activePalette.colors : undefined}
+              onLayersChange={setLayers}
+              layerGroups={layerGroups}
+              onLayerGroupsChange={setLayerGroups}
             />
           </ErrorBoundary>
         </div>
+
+        {/* Timeline - Below the canvas */}
+        <div style={{ padding: '0 20px 15px', flexShrink: 0 }}>
+          <TimelinePanel
+            frames={frames}
+            currentFrameId={currentFrameId}
+            framePixels={framePixels}
+            layers={compositingLayers}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            isPlaying={isPlaying}
+            onionSkin={onionSkin}
+            onFrameSelect={setCurrentFrameId}
+            onAddFrame={handleAddFrame}
+            onDuplicateFrame={handleDuplicateFrame}
+            onDeleteFrame={handleDeleteFrame}
+            onMoveFrame={handleMoveFrame}
+            onFrameDurationChange={handleFrameDurationChange}
+            onTogglePlay={() => setIsPlaying(prev => !prev)}
+            onOnionSkinChange={setOnionSkin}
+          />
+        </div>
       </div>
 
       {/* Fixed Right Sidebar Column */}
@@ -221,12 +909,28 @@ function App() {
         }}>
           <LayerPanel
             layers={layers}
-            pixels={pixels}
-            canvasSize={canvasSize}
+            layerPixels={layerPixels}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
             onNewLayer={handleNewLayer}
             onLayerToggle={handleLayerToggle}
             onLayerSelect={handleLayerSelect}
             onDeleteLayer={handleDeleteLayer}
+            onLayerOpacityChange={handleLayerOpacityChange}
+            onLayerBlendModeChange={handleLayerBlendModeChange}
+            onLayerMove={handleLayerMove}
+            onLayerRename={handleLayerRename}
+            onLayerLockToggle={handleLayerLockToggle}
+            onDuplicateLayer={handleDuplicateLayer}
+            onMergeLayerDown={handleMergeLayerDown}
+            onFlattenImage={handleFlattenImage}
+            layerGroups={layerGroups}
+            onNewGroup={handleNewGroup}
+            onUngroup={handleUngroup}
+            onLayerGroupChange={handleLayerGroupChange}
+            onGroupToggle={handleGroupToggle}
+            onGroupCollapseToggle={handleGroupCollapseToggle}
+            onGroupOpacityChange={handleGroupOpacityChange}
           />
         </div>
 
@@ -246,9 +950,10 @@ function App() {
           flex: 1,
           minHeight: 0
         }}>
-          <ErrorBoundary>
+          <ErrorBoundary onRecover={isAutosaveAvailable() ? handleRecoverAutosave : undefined}>
             <TemplatePanel
-              currentCanvasSize={canvasSize}
+              currentCanvasWidth={canvasWidth}
+              currentCanvasHeight={canvasHeight}
               canvasRef={canvasRef || undefined}
             />
           </ErrorBoundary>
@@ -263,37 +968,53 @@ const FileMenu: React.FC<{
   onNewProject: () => void
   onOpenProject: () => void
   onSaveProject: () => void
+  onExportSpriteSheet: () => void
+  onExportGif: () => void
   onSettings: () => void
-  canvasSize: number
+  onExportPNG: () => void
+  onImportImage: () => void
+  onResizeCanvas: () => void
+  onReplaceColor: () => void
+  onTransform: () => void
+  onChangeSelection: (change: SelectionChange) => void
+  onSelectColor: () => void
+  onModifySelection: () => void
+  onRemapPalette: () => void
+  colorMode: ColorMode
+  onColorModeChange: (mode: ColorMode) => void
+  paletteSize: number
+  canvasWidth: number
+  canvasHeight: number
   onCanvasSizeChange: (size: number) => void
-  canvasRef: React.RefObject<HTMLCanvasElement> | null
 }> = ({
   onNewProject,
   onOpenProject,
   onSaveProject,
+  onExportSpriteSheet,
+  onExportGif,
   onSettings,
-  canvasSize,
-  onCanvasSizeChange,
-  canvasRef
+  onExportPNG,
+  onImportImage,
+  onResizeCanvas,
+  onReplaceColor,
+  onTransform,
+  onChangeSelection,
+  onSelectColor,
+  onModifySelection,
+  onRemapPalette,
+  colorMode,
+  onColorModeChange,
+  paletteSize,
+  canvasWidth,
+  canvasHeight,
+  onCanvasSizeChange
 }) => {
   const [isFileMenuOpen, setIsFileMenuOpen] = useState(false)
 
-  const exportAsPNG = () => {
-    if (!canvasRef?.current) return
-    
-    const canvas = canvasRef.current
-    const link = document.createElement('a')
-    link.download = `sprite-${canvasSize}x${canvasSize}.png`
-    link.href = canvas.toDataURL()
-    link.click()
-    setIsFileMenuOpen(false)
-  }
-
-  const exportAsJSON = () => {
-    // This would export the pixel data as JSON for later editing
-    // For now, just show an alert
-    alert('JSON export coming soon!')
+  // Run a file action and close the menu
+  const runAndClose = (action: () => void) => () => {
     setIsFileMenuOpen(false)
+    action()
   }
 
   return (
@@ -372,7 +1093,7 @@ const FileMenu: React.FC<{
             }}
           >
             <button
-              onClick={onNewProject}
+              onClick={runAndClose(onNewProject)}
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -396,7 +1117,7 @@ const FileMenu: React.FC<{
             </button>
             
             <button
-              onClick={onOpenProject}
+              onClick={runAndClose(onOpenProject)}
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -420,7 +1141,7 @@ const FileMenu: React.FC<{
             </button>
             
             <button
-              onClick={onSaveProject}
+              onClick={runAndClose(onSaveProject)}
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -442,6 +1163,30 @@ const FileMenu: React.FC<{
               </svg>
               Save Project
             </button>
+
+            <button
+              onClick={runAndClose(onImportImage)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: '14px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M8.5,13.5L11,16.5L14.5,12L19,18H5M21,19V5C21,3.89 20.1,3 19,3H5A2,2 0 0,0 3,5V19A2,2 0 0,0 5,21H19A2,2 0 0,0 21,19Z" />
+              </svg>
+              Import Image
+            </button>
           </div>
 
           {/* Export Operations */}
@@ -452,7 +1197,7 @@ const FileMenu: React.FC<{
             }}
           >
             <button
-              onClick={exportAsPNG}
+              onClick={runAndClose(onExportPNG)}
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -474,9 +1219,9 @@ const FileMenu: React.FC<{
               </svg>
               Export PNG
             </button>
-            
+
             <button
-              onClick={exportAsJSON}
+              onClick={runAndClose(onExportSpriteSheet)}
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -494,16 +1239,40 @@ const FileMenu: React.FC<{
               onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
             >
               <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
-                <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+                <path d="M3,3H11V11H3V3M13,3H21V11H13V3M3,13H11V21H3V13M13,13H21V21H13V13Z" />
+              </svg>
+              Export Sprite Sheet
+            </button>
+
+            <button
+              onClick={runAndClose(onExportGif)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: '14px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M8,5.14V19.14L19,12.14L8,5.14Z" />
               </svg>
-              Export JSON
+              Export as GIF
             </button>
           </div>
 
           {/* Settings */}
           <div style={{ padding: '8px 0' }}>
             <button
-              onClick={onSettings}
+              onClick={runAndClose(onSettings)}
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -544,14 +1313,14 @@ const FileMenu: React.FC<{
                   padding: '8px 12px',
                   background: 'transparent',
                   border: 'none',
-                  color: canvasSize === size ? '#4CAF50' : '#fff',
+                  color: canvasWidth === size && canvasHeight === size ? '#4CAF50' : '#fff',
                   textAlign: 'left',
                   cursor: 'pointer',
                   fontSize: '14px',
                   display: 'flex',
                   alignItems: 'center',
                   gap: '8px',
-                  fontWeight: canvasSize === size ? 'bold' : 'normal'
+                  fontWeight: canvasWidth === size && canvasHeight === size ? 'bold' : 'normal'
                 }}
                 onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
                 onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
@@ -562,6 +1331,167 @@ const FileMenu: React.FC<{
                 {size}×{size}
               </button>
             ))}
+            <button
+              onClick={runAndClose(onResizeCanvas)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: '14px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M10,21V19H6.41L10.91,14.5L9.5,13.09L5,17.59V14H3V21H10M14.5,10.91L19,6.41V10H21V3H14V5H17.59L13.09,9.5L14.5,10.91Z" />
+              </svg>
+              Resize Canvas ({canvasWidth}×{canvasHeight})
+            </button>
+          </div>
+
+          {/* Color Mode */}
+          <div style={{ padding: '8px 0', borderTop: '1px solid #555' }}>
+            <div style={{ padding: '8px 12px', color: '#ccc', fontSize: '12px', borderBottom: '1px solid #555' }}>
+              Color Mode
+            </div>
+            {(['rgb', 'indexed'] as ColorMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => {
+                  onColorModeChange(mode)
+                  setIsFileMenuOpen(false)
+                }}
+                style={{
+                  width: '100%',
+                  padding: '8px 12px',
+                  background: 'transparent',
+                  border: 'none',
+                  color: colorMode === mode ? '#4CAF50' : '#fff',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  fontWeight: colorMode === mode ? 'bold' : 'normal'
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M12,3A9,9 0 0,0 3,12A9,9 0 0,0 12,21A1.5,1.5 0 0,0 13.5,19.5C13.5,19.11 13.35,18.76 13.11,18.5C12.88,18.23 12.73,17.88 12.73,17.5A1.5,1.5 0 0,1 14.23,16H16A5,5 0 0,0 21,11C21,6.58 16.97,3 12,3M6.5,12A1.5,1.5 0 0,1 5,10.5A1.5,1.5 0 0,1 6.5,9A1.5,1.5 0 0,1 8,10.5A1.5,1.5 0 0,1 6.5,12M9.5,8A1.5,1.5 0 0,1 8,6.5A1.5,1.5 0 0,1 9.5,5A1.5,1.5 0 0,1 11,6.5A1.5,1.5 0 0,1 9.5,8M14.5,8A1.5,1.5 0 0,1 13,6.5A1.5,1.5 0 0,1 14.5,5A1.5,1.5 0 0,1 16,6.5A1.5,1.5 0 0,1 14.5,8M17.5,12A1.5,1.5 0 0,1 16,10.5A1.5,1.5 0 0,1 17.5,9A1.5,1.5 0 0,1 19,10.5A1.5,1.5 0 0,1 17.5,12Z" />
+                </svg>
+                {mode === 'rgb' ? 'RGB' : `Indexed (${paletteSize} colors)`}
+              </button>
+            ))}
+            <button
+              onClick={runAndClose(onReplaceColor)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: '14px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19,8L15,12H18A6,6 0 0,1 12,18C11,18 10.03,17.75 9.2,17.3L7.74,18.76C8.97,19.54 10.43,20 12,20A8,8 0 0,0 20,12H23M6,12A6,6 0 0,1 12,6C13,6 13.97,6.25 14.8,6.7L16.26,5.24C15.03,4.46 13.57,4 12,4A8,8 0 0,0 4,12H1L5,16L9,12" />
+              </svg>
+              Replace Color...
+            </button>
+            <button
+              onClick={runAndClose(onTransform)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: '14px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M12,6V9L16,5L12,1V4A8,8 0 0,0 4,12C4,13.57 4.46,15.03 5.24,16.26L6.7,14.8C6.25,13.97 6,13 6,12A6,6 0 0,1 12,6M18.76,7.74L17.3,9.2C17.74,10.04 18,11 18,12A6,6 0 0,1 12,18V15L8,19L12,23V20A8,8 0 0,0 20,12C20,10.43 19.54,8.97 18.76,7.74Z" />
+              </svg>
+              Transform...
+            </button>
+            {[
+              { label: 'Select All', action: () => onChangeSelection({ type: 'all' }) },
+              { label: 'Deselect', action: () => onChangeSelection({ type: 'none' }) },
+              { label: 'Invert Selection', action: () => onChangeSelection({ type: 'invert' }) },
+              { label: 'Select Color', action: onSelectColor },
+              { label: 'Grow/Shrink Selection...', action: onModifySelection }
+            ].map(({ label, action }) => (
+              <button
+                key={label}
+                onClick={runAndClose(action)}
+                style={{
+                  width: '100%',
+                  padding: '8px 12px',
+                  background: 'transparent',
+                  border: 'none',
+                  color: '#fff',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px'
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M2,4C2,2.89 2.9,2 4,2H5V4H4V5H2V4M22,4V5H20V4H19V2H20A2,2 0 0,1 22,4M20,20V19H22V20C22,21.11 21.1,22 20,22H19V20H20M4,22A2,2 0 0,1 2,20V19H4V20H5V22H4M7,2H9V4H7V2M11,2H13V4H11V2M15,2H17V4H15V2M7,20H9V22H7V20M11,20H13V22H11V20M15,20H17V22H15V20M2,7H4V9H2V7M2,11H4V13H2V11M2,15H4V17H2V15M20,7H22V9H20V7M20,11H22V13H20V11M20,15H22V17H20V15Z" />
+                </svg>
+                {label}
+              </button>
+            ))}
+            <button
+              onClick={runAndClose(onRemapPalette)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                textAlign: 'left',
+                cursor: 'pointer',
+                fontSize: '14px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#3a3a3a'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M21,9L17,5V8H10V10H17V13M7,11L3,15L7,19V16H14V14H7V11Z" />
+              </svg>
+              Remap Palette...
+            </button>
           </div>
           
           {/* Close Button */}
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react'
+import { ResizeAnchor } from '../types'
+
+interface CanvasResizeModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onResize: (width: number, height: number, anchor: ResizeAnchor) => void
+  canvasWidth: number
+  canvasHeight: number
+}
+
+export const MAX_CANVAS_DIMENSION = 1024
+
+// Row by row, matching the 3x3 anchor grid
+const ANCHORS: ResizeAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right'
+]
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  backgroundColor: '#3a3a3a',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  color: '#fff',
+  fontSize: '14px'
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const clampDimension = (value: string) =>
+  Math.min(MAX_CANVAS_DIMENSION, Math.max(1, parseInt(value, 10) || 1))
+
+const CanvasResizeModal: React.FC<CanvasResizeModalProps> = ({
+  isOpen,
+  onClose,
+  onResize,
+  canvasWidth,
+  canvasHeight
+}) => {
+  const [width, setWidth] = useState(canvasWidth)
+  const [height, setHeight] = useState(canvasHeight)
+  const [anchor, setAnchor] = useState<ResizeAnchor>('center')
+
+  // Start from the current size every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setWidth(canvasWidth)
+      setHeight(canvasHeight)
+    }
+  }, [isOpen, canvasWidth, canvasHeight])
+
+  const handleResize = () => {
+    onResize(width, height, anchor)
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Resize Canvas
+        </h3>
+
+        <div style={{ marginBottom: '16px', display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="canvas-resize-width" style={labelStyle}>Width</label>
+            <input
+              id="canvas-resize-width"
+              type="number"
+              min={1}
+              max={MAX_CANVAS_DIMENSION}
+              value={width}
+              onChange={(e) => setWidth(clampDimension(e.target.value))}
+              style={fieldStyle}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="canvas-resize-height" style={labelStyle}>Height</label>
+            <input
+              id="canvas-resize-height"
+              type="number"
+              min={1}
+              max={MAX_CANVAS_DIMENSION}
+              value={height}
+              onChange={(e) => setHeight(clampDimension(e.target.value))}
+              style={fieldStyle}
+            />
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={labelStyle}>Anchor</span>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(3, 32px)',
+            gap: '4px'
+          }}>
+            {ANCHORS.map(position => (
+              <button
+                key={position}
+                onClick={() => setAnchor(position)}
+                title={`Anchor ${position}`}
+                aria-pressed={anchor === position}
+                style={{
+                  width: '32px',
+                  height: '32px',
+                  backgroundColor: anchor === position ? '#007acc' : '#4a4a4a',
+                  border: '1px solid #555',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={{
+            color: '#aaa',
+            fontSize: '12px'
+          }}>
+            {canvasWidth}x{canvasHeight} → {width}x{height}
+          </span>
+        </div>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleResize}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Resize
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CanvasResizeModal
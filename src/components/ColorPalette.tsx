@@ -1,25 +1,27 @@
 import React from 'react'
 import { Color } from '../types'
 
+export const DEFAULT_PALETTE_COLORS: Color[] = [
+  '#000000', '#ffffff', '#ff0000', '#00ff00', '#0000ff',
+  '#ffff00', '#ff00ff', '#00ffff', '#ff8000', '#8000ff',
+  '#00ff80', '#ff0080', '#808000', '#800080', '#008080',
+  '#808080', '#404040', '#c0c0c0', '#e0e0e0', '#a0a0a0'
+]
+
 interface ColorPaletteProps {
   selectedColor: Color
   onColorSelect: (color: Color) => void
+  colors?: Color[] // e.g. an imported palette; falls back to DEFAULT_PALETTE_COLORS
 }
 
 const ColorPalette: React.FC<ColorPaletteProps> = ({
   selectedColor,
-  onColorSelect
+  onColorSelect,
+  colors = DEFAULT_PALETTE_COLORS
 }) => {
-  const defaultColors: Color[] = [
-    '#000000', '#ffffff', '#ff0000', '#00ff00', '#0000ff',
-    '#ffff00', '#ff00ff', '#00ffff', '#ff8000', '#8000ff',
-    '#00ff80', '#ff0080', '#808000', '#800080', '#008080',
-    '#808080', '#404040', '#c0c0c0', '#e0e0e0', '#a0a0a0'
-  ]
-
   return (
     <div className="palette">
-      {defaultColors.map((color, index) => (
+      {colors.map((color, index) => (
         <div
           key={index}
           className={`palette-color ${selectedColor === color ? 'selected' : ''}`}
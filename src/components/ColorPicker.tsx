@@ -4,7 +4,9 @@ import {
   hsvToRgb, 
   rgbToHsv, 
   safeFillRect, 
-  isValidHexColor 
+  isValidHexColor,
+  getAlpha,
+  withAlpha
 } from '../utils/colorUtils'
 
 // Function to determine if text should be black or white based on background color
@@ -60,6 +62,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
   const [hue, setHue] = useState(0)
   const [saturation, setSaturation] = useState(100)
   const [value, setValue] = useState(100)
+  const [alpha, setAlpha] = useState(() => getAlpha(primaryColor))
 
   const [currentColor, setCurrentColor] = useState(primaryColor)
 
@@ -88,7 +91,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
       setHue(hsv.h)
       setSaturation(hsv.s)
       setValue(hsv.v)
-      // Note: alpha is not part of hex colors, so we keep the current alpha value
+      setAlpha(getAlpha(primaryColor))
     } catch (error) {
       console.warn('Failed to convert color to HSV:', error)
       // Set default values if conversion fails
@@ -105,6 +108,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
       setHue(hsv.h)
       setSaturation(hsv.s)
       setValue(hsv.v)
+      setAlpha(getAlpha(color))
       setCurrentColor(color)
     } catch (error) {
       console.warn('Failed to convert color to HSV:', error)
@@ -257,12 +261,12 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
     setValue(v)
     
     try {
-      const newColor = hsvToRgb(hue, s, v)
+      const newColor = hsvToRgb(hue, s, v, alpha)
       handleColorChange(newColor)
     } catch (error) {
       console.warn('Failed to convert HSV to RGB in gradient click:', error)
     }
-  }, [hue, handleColorChange])
+  }, [hue, alpha, handleColorChange])
 
   const handleHueClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = e.currentTarget
@@ -277,12 +281,19 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
     setValue(value)
     
     try {
-      const newColor = hsvToRgb(h, saturation, value)
+      const newColor = hsvToRgb(h, saturation, value, alpha)
       handleColorChange(newColor)
     } catch (error) {
       console.warn('Failed to convert HSV to RGB in hue click:', error)
     }
-  }, [saturation, value, handleColorChange])
+  }, [saturation, value, alpha, handleColorChange])
+
+  // Alpha slider keeps the hue, saturation and value of the primary color
+  const handleAlphaChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const newAlpha = parseInt(e.target.value, 10)
+    setAlpha(newAlpha)
+    handleColorChange(withAlpha(primaryColor, newAlpha))
+  }, [primaryColor, handleColorChange])
 
 
 
@@ -341,7 +352,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
         setHue(hsv.h)
         setSaturation(hsv.s)
         setValue(hsv.v)
-        // Keep current alpha value when changing hex
+        setAlpha(getAlpha(value))
       } catch (error) {
         console.warn('Failed to convert hex to HSV:', error)
       }
@@ -471,16 +482,42 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
             <div style={{
               width: '40px',
               height: '40px',
-              backgroundColor: secondaryColor,
+              position: 'relative',
               border: '2px solid #fff',
               borderRadius: '4px',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              color: getContrastTextColor(secondaryColor),
-              fontWeight: 'bold'
+              overflow: 'hidden'
             }}>
-              II
+              <div style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundImage: `
+                  linear-gradient(45deg, #ccc 25%, transparent 25%),
+                  linear-gradient(-45deg, #ccc 25%, transparent 25%),
+                  linear-gradient(45deg, transparent 75%, #ccc 75%),
+                  linear-gradient(-45deg, transparent 75%, #ccc 75%)
+                `,
+                backgroundSize: '8px 8px',
+                backgroundPosition: '0 0, 0 4px, 4px -4px, -4px 0px'
+              }} />
+              {/* Secondary color display */}
+              <div style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: secondaryColor,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                color: getContrastTextColor(secondaryColor),
+                fontWeight: 'bold'
+              }}>
+                II
+              </div>
             </div>
             <button
               onClick={handleSwapColors}
@@ -574,6 +611,22 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
 
 
 
+      {/* Alpha slider */}
+      <div style={{ marginBottom: '15px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <input
+          type="range"
+          min={0}
+          max={255}
+          value={alpha}
+          onChange={handleAlphaChange}
+          aria-label="Alpha"
+          style={{ flex: 1 }}
+        />
+        <span style={{ fontSize: '10px', color: '#aaa', minWidth: '44px', textAlign: 'right' }}>
+          A: {Math.round((alpha / 255) * 100)}%
+        </span>
+      </div>
+
       {/* Color inputs and HSV values */}
       <div style={{ marginBottom: '15px' }}>
         <div style={{ 
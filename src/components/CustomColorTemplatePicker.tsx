@@ -1,52 +1,73 @@
-import React, { useState, useEffect } from 'react'
-import { Color } from '../types'
+import React, { useState, useEffect, useRef } from 'react'
+import { Color, CustomColorTemplate } from '../types'
+import { PALETTE_FILE_EXTENSIONS, PALETTE_FORMATS, PaletteFormat, readPaletteFile, serializePalette } from '../utils/paletteFile'
 
-interface CustomColorTemplate {
-  id: string
-  name: string
-  colors: Color[]
+// Default template with 10 pastel colors (because pastels are fun!)
+export const defaultTemplate: CustomColorTemplate = {
+  id: 'default',
+  name: 'Default (Pastel)',
+  colors: [
+    '#ffb3ba', '#baffc9', '#bae1ff', '#ffffba', '#ffb3f0',
+    '#f0b3ff', '#b3f0ff', '#ffd4b3', '#d4b3ff', '#b3ffd4'
+  ]
+}
+
+const TEMPLATES_STORAGE_KEY = 'customColorTemplates'
+
+/**
+ * Reads the user's saved color templates (the built-in default is not included)
+ * @returns Saved templates, or an empty list if none are stored or they cannot be parsed
+ */
+export function loadColorTemplates(): CustomColorTemplate[] {
+  const savedTemplates = localStorage.getItem(TEMPLATES_STORAGE_KEY)
+  if (!savedTemplates) return []
+
+  try {
+    const parsed = JSON.parse(savedTemplates)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.warn('Failed to parse saved color templates:', error)
+    return []
+  }
 }
 
 interface CustomColorTemplatePickerProps {
   onColorSelect: (color: Color) => void
+  activeTemplate?: CustomColorTemplate
+  onTemplateSelect?: (template: CustomColorTemplate) => void
+  onTemplateChange?: (template: CustomColorTemplate) => void // Called when an entry of a custom template is edited
 }
 
 const CustomColorTemplatePicker: React.FC<CustomColorTemplatePickerProps> = ({
-  onColorSelect
+  onColorSelect,
+  activeTemplate,
+  onTemplateSelect,
+  onTemplateChange
 }) => {
   const [templates, setTemplates] = useState<CustomColorTemplate[]>([])
   const [isCreating, setIsCreating] = useState(false)
   const [newTemplateName, setNewTemplateName] = useState('')
   const [isCollapsed, setIsCollapsed] = useState(false)
-
-  // Default template with 10 pastel colors (because pastels are fun!)
-  const defaultTemplate: CustomColorTemplate = {
-    id: 'default',
-    name: 'Default (Pastel)',
-    colors: [
-      '#ffb3ba', '#baffc9', '#bae1ff', '#ffffba', '#ffb3f0',
-      '#f0b3ff', '#b3f0ff', '#ffd4b3', '#d4b3ff', '#b3ffd4'
-    ]
-  }
+  const [exportingTemplateId, setExportingTemplateId] = useState<string | null>(null)
+  const [editingEntry, setEditingEntry] = useState<{ templateId: string; index: number } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Load templates from localStorage on mount
   useEffect(() => {
-    const savedTemplates = localStorage.getItem('customColorTemplates')
-    if (savedTemplates) {
-      try {
-        const parsed = JSON.parse(savedTemplates)
-        setTemplates(parsed)
-      } catch (error) {
-        console.warn('Failed to parse saved color templates:', error)
-      }
-    }
+    setTemplates(loadColorTemplates())
   }, [])
 
   // Save templates to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem('customColorTemplates', JSON.stringify(templates))
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates))
   }, [templates])
 
+  // An active template we don't know yet (e.g. from an opened project) is added to the list
+  useEffect(() => {
+    if (!activeTemplate || activeTemplate.id === defaultTemplate.id) return
+    setTemplates(prev => prev.some(t => t.id === activeTemplate.id) ? prev : [...prev, activeTemplate])
+  }, [activeTemplate])
+
   const handleCreateTemplate = () => {
     if (newTemplateName.trim()) {
       const newTemplate: CustomColorTemplate = {
@@ -65,6 +86,35 @@ const CustomColorTemplatePicker: React.FC<CustomColorTemplatePickerProps> = ({
     setTemplates(prev => prev.filter(t => t.id !== templateId))
   }
 
+  const handleImportPalette = async (file: File) => {
+    try {
+      const template = await readPaletteFile(file)
+      setTemplates(prev => [...prev, template])
+      onTemplateSelect?.(template)
+    } catch (error) {
+      console.error('Failed to import palette:', error)
+      alert(`Failed to import palette: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const handleExportPalette = (template: CustomColorTemplate, format: PaletteFormat) => {
+    const content = serializePalette(template, format)
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(new Blob([typeof content === 'string' ? content : content.buffer as ArrayBuffer], { type: 'application/octet-stream' }))
+    link.download = `${template.name.replace(/[^\w-]+/g, '_')}.${format}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(link.href)
+    setExportingTemplateId(null)
+  }
+
+  const handleEntryChange = (template: CustomColorTemplate, index: number, color: Color) => {
+    const updated = { ...template, colors: template.colors.map((c, i) => i === index ? color : c) }
+    setTemplates(prev => prev.map(t => t.id === template.id ? updated : t))
+    onTemplateChange?.(updated)
+  }
+
   const handleColorClick = (color: Color) => {
     onColorSelect(color)
   }
@@ -95,6 +145,37 @@ const CustomColorTemplatePicker: React.FC<CustomColorTemplatePickerProps> = ({
           Color Templates
         </span>
         <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            style={{
+              padding: '4px 8px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '3px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '11px',
+              height: '24px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+            title="Import Palette (GPL, PAL, HEX, ASE)"
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={PALETTE_FILE_EXTENSIONS.join(',')}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImportPalette(file)
+              e.target.value = ''
+            }}
+            style={{ display: 'none' }}
+            data-testid="palette-file-input"
+          />
           <button
             onClick={() => setIsCreating(true)}
             style={{
@@ -247,30 +328,75 @@ const CustomColorTemplatePicker: React.FC<CustomColorTemplatePickerProps> = ({
                 alignItems: 'center',
                 marginBottom: '8px'
               }}>
-                <span style={{
-                  color: '#fff',
-                  fontSize: '12px',
-                  fontWeight: '500'
-                }}>
-                  {template.name}
-                </span>
-                {template.id !== 'default' && (
+                <div style={{ display: 'flex', gap: '6px', alignItems: 'baseline' }}>
+                  <span
+                    onClick={() => onTemplateSelect?.(template)}
+                    style={{
+                      color: activeTemplate?.id === template.id ? '#4CAF50' : '#fff',
+                      fontSize: '12px',
+                      fontWeight: '500',
+                      cursor: onTemplateSelect ? 'pointer' : 'default'
+                    }}
+                    title={onTemplateSelect ? 'Use as active palette' : undefined}
+                  >
+                    {template.name}
+                  </span>
+                  <span style={{ color: '#888', fontSize: '10px' }}>
+                    {template.colors.length} colors
+                  </span>
+                </div>
+                <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                  {exportingTemplateId === template.id && PALETTE_FORMATS.map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportPalette(template, format)}
+                      style={{
+                        padding: '2px 6px',
+                        backgroundColor: '#007acc',
+                        border: '1px solid #007acc',
+                        borderRadius: '3px',
+                        color: '#fff',
+                        cursor: 'pointer',
+                        fontSize: '10px'
+                      }}
+                      title={`Export as .${format}`}
+                    >
+                      .{format}
+                    </button>
+                  ))}
                   <button
-                    onClick={() => handleDeleteTemplate(template.id)}
+                    onClick={() => setExportingTemplateId(exportingTemplateId === template.id ? null : template.id)}
                     style={{
                       padding: '2px 6px',
-                      backgroundColor: '#ff4444',
-                      border: '1px solid #ff4444',
+                      backgroundColor: '#4a4a4a',
+                      border: '1px solid #555',
                       borderRadius: '3px',
                       color: '#fff',
                       cursor: 'pointer',
                       fontSize: '10px'
                     }}
-                    title="Delete Template"
+                    title="Export Palette"
                   >
-                    ×
+                    ⤓
                   </button>
-                )}
+                  {template.id !== 'default' && (
+                    <button
+                      onClick={() => handleDeleteTemplate(template.id)}
+                      style={{
+                        padding: '2px 6px',
+                        backgroundColor: '#ff4444',
+                        border: '1px solid #ff4444',
+                        borderRadius: '3px',
+                        color: '#fff',
+                        cursor: 'pointer',
+                        fontSize: '10px'
+                      }}
+                      title="Delete Template"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
               </div>
 
               {/* Template Colors */}
@@ -283,11 +409,13 @@ const CustomColorTemplatePicker: React.FC<CustomColorTemplatePickerProps> = ({
                   <div
                     key={index}
                     onClick={() => handleColorClick(color)}
+                    onDoubleClick={template.id !== defaultTemplate.id ? () => setEditingEntry({ templateId: template.id, index }) : undefined}
+                    title={template.id !== defaultTemplate.id ? `${color} - double-click to edit` : undefined}
                     style={{
                       width: '22px',
                       height: '22px',
                       backgroundColor: color,
-                      border: '1px solid #555',
+                      border: editingEntry?.templateId === template.id && editingEntry.index === index ? '1px solid #fff' : '1px solid #555',
                       borderRadius: '0px',
                       cursor: 'pointer',
                       position: 'relative'
@@ -295,6 +423,40 @@ const CustomColorTemplatePicker: React.FC<CustomColorTemplatePickerProps> = ({
                   />
                 ))}
               </div>
+
+              {/* Palette Entry Editor */}
+              {editingEntry?.templateId === template.id && editingEntry.index < template.colors.length && (
+                <div style={{
+                  display: 'flex',
+                  gap: '8px',
+                  alignItems: 'center',
+                  marginTop: '8px'
+                }}>
+                  <input
+                    type="color"
+                    value={template.colors[editingEntry.index]}
+                    onChange={(e) => handleEntryChange(template, editingEntry.index, e.target.value)}
+                    aria-label={`Palette entry ${editingEntry.index}`}
+                  />
+                  <span style={{ color: '#ccc', fontSize: '11px' }}>
+                    Entry {editingEntry.index}
+                  </span>
+                  <button
+                    onClick={() => setEditingEntry(null)}
+                    style={{
+                      padding: '2px 6px',
+                      backgroundColor: '#4a4a4a',
+                      border: '1px solid #555',
+                      borderRadius: '3px',
+                      color: '#fff',
+                      cursor: 'pointer',
+                      fontSize: '10px'
+                    }}
+                  >
+                    Done
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -3,11 +3,13 @@ import { Component, ErrorInfo, ReactNode } from 'react'
 interface Props {
   children: ReactNode
   fallback?: ReactNode
+  onRecover?: () => void | Promise<void> // Restores the last autosave; shown as a recovery option
 }
 
 interface State {
   hasError: boolean
   error?: Error
+  isRecovering?: boolean
 }
 
 class ErrorBoundary extends Component<Props, State> {
@@ -24,6 +26,17 @@ class ErrorBoundary extends Component<Props, State> {
     console.error('Error caught by boundary:', error, errorInfo)
   }
 
+  handleRecover = async () => {
+    if (!this.props.onRecover) return
+
+    this.setState({ isRecovering: true })
+    try {
+      await this.props.onRecover()
+    } finally {
+      this.setState({ hasError: false, error: undefined, isRecovering: false })
+    }
+  }
+
   render() {
     if (this.state.hasError) {
       return this.props.fallback || (
@@ -36,7 +49,10 @@ class ErrorBoundary extends Component<Props, State> {
           color: '#fff'
         }}>
           <h3>Something went wrong</h3>
-          <p>An error occurred in the component. Please try refreshing the page.</p>
+          <p>
+            An error occurred in the component. Please try refreshing the page
+            {this.props.onRecover ? ', or recover your last autosave' : ''}.
+          </p>
           <details style={{ marginTop: '10px' }}>
             <summary>Error Details</summary>
             <pre style={{ 
@@ -64,6 +80,24 @@ class ErrorBoundary extends Component<Props, State> {
           >
             Try Again
           </button>
+          {this.props.onRecover && (
+            <button
+              onClick={this.handleRecover}
+              disabled={this.state.isRecovering}
+              style={{
+                marginTop: '15px',
+                marginLeft: '10px',
+                padding: '8px 16px',
+                backgroundColor: '#007acc',
+                border: 'none',
+                borderRadius: '4px',
+                color: '#fff',
+                cursor: this.state.isRecovering ? 'default' : 'pointer'
+              }}
+            >
+              {this.state.isRecovering ? 'Recovering...' : 'Recover Last Autosave'}
+            </button>
+          )}
         </div>
       )
     }
@@ -1,5 +1,8 @@
-import React, { useState, useEffect } from 'react'
-import { StrokeOperation } from '../types'
+import React, { useState, useEffect, useRef } from 'react'
+import { LayerChangeAction, StrokeOperation } from '../types'
+import { HistoryFrameState, rebuildHistoryStates } from '../utils/historyDiff'
+import { resolveLayerGroups } from '../utils/layerGroups'
+import { compositeLayers } from '../utils/layerCompositing'
 
 interface HistoryPanelProps {
   canvasRef: React.RefObject<HTMLCanvasElement> | null
@@ -8,12 +11,32 @@ interface HistoryPanelProps {
 interface HistoryOperation {
   id: string
   tool: string
+  label: string
   thumbnail: string // Base64 data URL of the thumbnail
   timestamp: number
   canUndo: boolean
   canRedo: boolean
 }
 
+// Layer changes are listed by what they did rather than by their tool
+const LAYER_CHANGE_LABELS: Record<LayerChangeAction, string> = {
+  'add': 'New Layer',
+  'delete': 'Delete Layer',
+  'visibility': 'Layer Visibility',
+  'reorder': 'Move Layer',
+  'rename': 'Rename Layer',
+  'duplicate': 'Duplicate Layer',
+  'merge-down': 'Merge Down',
+  'flatten': 'Flatten Image',
+  'lock': 'Layer Lock',
+  'opacity': 'Layer Opacity',
+  'blend-mode': 'Blend Mode',
+  'group': 'New Group',
+  'ungroup': 'Ungroup',
+  'group-visibility': 'Group Visibility',
+  'group-opacity': 'Group Layer Opacity'
+}
+
 const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [history, setHistory] = useState<{
@@ -28,10 +51,13 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
     canRedo: false
   })
 
-  // Generate thumbnail from pixel data
-  const generateThumbnail = (canvasSize: number, operation: any): string => {
+  // Thumbnails by operation id; an operation's thumbnail never changes while it is in the stack
+  const thumbnailCacheRef = useRef(new Map<string, string>())
+
+  // Generate thumbnail from the layers of the operation's frame, rebuilt from history
+  const generateThumbnail = (canvasWidth: number, canvasHeight: number, state: HistoryFrameState | undefined): string => {
     const thumbnailSize = 32 // 32x32 thumbnail
-    const scale = thumbnailSize / canvasSize
+    const scale = thumbnailSize / Math.max(canvasWidth, canvasHeight)
     
     // Create a temporary canvas for the thumbnail
     const canvas = document.createElement('canvas')
@@ -57,11 +83,9 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
       }
     }
     
-    // Use the canvas snapshot if available, otherwise fall back to operation pixels
-    if (operation?.canvasSnapshot && operation.canvasSnapshot instanceof Map) {
-      // Draw the complete canvas state from the snapshot
-      operation.canvasSnapshot.forEach((pixel: any) => {
-        if (pixel && pixel.color && pixel.color !== 'transparent' && 
+    if (state) {
+      compositeLayers(resolveLayerGroups(state.layers, state.groups), state.pixels).forEach(pixel => {
+        if (pixel && pixel.color && pixel.color !== 'transparent' &&
             typeof pixel.x === 'number' && typeof pixel.y === 'number') {
           const scaledX = Math.floor(pixel.x * scale)
           const scaledY = Math.floor(pixel.y * scale)
@@ -71,19 +95,6 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
           ctx.fillRect(scaledX, scaledY, pixelSize, pixelSize)
         }
       })
-    } else if (operation?.pixels && Array.isArray(operation.pixels)) {
-      // Fallback: show just the operation pixels (for backward compatibility)
-      operation.pixels.forEach((pixel: any) => {
-        if (pixel && pixel.newColor && pixel.newColor !== 'transparent' &&
-            typeof pixel.x === 'number' && typeof pixel.y === 'number') {
-          const scaledX = Math.floor(pixel.x * scale)
-          const scaledY = Math.floor(pixel.y * scale)
-          const pixelSize = Math.max(1, Math.floor(scale))
-          
-          ctx.fillStyle = pixel.newColor
-          ctx.fillRect(scaledX, scaledY, pixelSize, pixelSize)
-        }
-      })
     }
     
     return canvas.toDataURL('image/png')
@@ -153,7 +164,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
       const operations: HistoryOperation[] = []
       
       // Get canvas size for thumbnail generation
-      const canvasSize = canvas.getCanvasSize ? canvas.getCanvasSize() : 32
+      const { width: canvasWidth, height: canvasHeight } = canvas.getCanvasDimensions?.() || { width: 32, height: 32 }
 
       // Only show operations that are currently visible in the drawing area
       // These are the operations in the undo stack (applied to canvas)
@@ -165,11 +176,29 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
         
         // Only show operations if all operations in the stack are valid
         if (allOperationsValid) {
-          historyState.undoStack.slice().reverse().forEach((op: StrokeOperation) => {
+          const undoStack: StrokeOperation[] = historyState.undoStack
+          const cache = thumbnailCacheRef.current
+          const cacheKey = (op: StrokeOperation) => `${op.id}@${canvasWidth}x${canvasHeight}`
+
+          // Only operations without a thumbnail yet are rebuilt, from their nearest keyframe
+          const missing = undoStack.flatMap((op, index) => cache.has(cacheKey(op)) ? [] : [index])
+          const states = rebuildHistoryStates(undoStack, missing)
+          missing.forEach(index => {
+            cache.set(cacheKey(undoStack[index]), generateThumbnail(canvasWidth, canvasHeight, states.get(index)))
+          })
+
+          // Forget operations that left the stack
+          const current = new Set(undoStack.map(cacheKey))
+          Array.from(cache.keys()).forEach(key => {
+            if (!current.has(key)) cache.delete(key)
+          })
+
+          undoStack.slice().reverse().forEach(op => {
             operations.push({
               id: op.id,
               tool: op.tool,
-              thumbnail: generateThumbnail(canvasSize, op),
+              label: getOperationLabel(op),
+              thumbnail: cache.get(cacheKey(op)) || '',
               timestamp: op.timestamp,
               canUndo: true,
               canRedo: false
@@ -201,6 +230,11 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
     return tool.charAt(0).toUpperCase() + tool.slice(1)
   }
 
+  const getOperationLabel = (op: StrokeOperation): string => {
+    const layerChange = op.metadata?.layerChange
+    return layerChange ? LAYER_CHANGE_LABELS[layerChange.action] : formatToolName(op.tool)
+  }
+
   const historyOperations = getRealHistoryOperations()
 
   return (
@@ -385,7 +419,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ canvasRef }) => {
                   {/* Operation Info */}
                   <div>
                     <div style={{ color: '#fff', fontSize: '12px', fontWeight: '500' }}>
-                      {formatToolName(operation.tool)}
+                      {operation.label}
                     </div>
                     <div style={{ color: '#999', fontSize: '10px' }}>
                       {formatTimestamp(operation.timestamp)}
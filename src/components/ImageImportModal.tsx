@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { ImageImportOptions, ImageImportPlacement } from '../types'
+import { SUPPORTED_IMAGE_TYPES } from '../utils/imageImport'
+
+interface ImageImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImport: (file: File, options: ImageImportOptions) => void
+  canvasWidth: number
+  canvasHeight: number
+  palette: string[]
+  initialFile?: File | null
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const ImageImportModal: React.FC<ImageImportModalProps> = ({
+  isOpen,
+  onClose,
+  onImport,
+  canvasWidth,
+  canvasHeight,
+  palette,
+  initialFile = null
+}) => {
+  const [file, setFile] = useState<File | null>(initialFile)
+  const [placement, setPlacement] = useState<ImageImportPlacement>('fit')
+  const [alphaThreshold, setAlphaThreshold] = useState(128)
+  const [quantize, setQuantize] = useState(false)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Pick up a file dropped onto the canvas before the dialog opened
+  useEffect(() => {
+    if (isOpen) {
+      setFile(initialFile)
+    }
+  }, [isOpen, initialFile])
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    const dropped = e.dataTransfer.files?.[0]
+    if (dropped) setFile(dropped)
+  }
+
+  const handleImport = () => {
+    if (!file) {
+      alert('Please choose an image to import')
+      return
+    }
+
+    onImport(file, {
+      placement,
+      alphaThreshold,
+      palette: quantize ? palette : undefined
+    })
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Import Image
+        </h3>
+
+        {/* Drop zone */}
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragOver(true)
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+          data-testid="image-drop-zone"
+          style={{
+            marginBottom: '16px',
+            padding: '20px',
+            border: `2px dashed ${isDragOver ? '#007acc' : '#555'}`,
+            borderRadius: '4px',
+            textAlign: 'center',
+            color: '#aaa',
+            fontSize: '13px',
+            cursor: 'pointer'
+          }}
+        >
+          {file ? file.name : 'Drop a PNG, GIF or BMP here, or click to choose'}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SUPPORTED_IMAGE_TYPES.join(',')}
+          onChange={(e) => {
+            const chosen = e.target.files?.[0]
+            if (chosen) setFile(chosen)
+          }}
+          style={{ display: 'none' }}
+          data-testid="image-file-input"
+        />
+
+        <div style={{ marginBottom: '16px' }}>
+          <label htmlFor="image-import-placement" style={labelStyle}>Placement</label>
+          <select
+            id="image-import-placement"
+            value={placement}
+            onChange={(e) => setPlacement(e.target.value as ImageImportPlacement)}
+            style={{
+              width: '100%',
+              padding: '8px 12px',
+              backgroundColor: '#3a3a3a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              fontSize: '14px'
+            }}
+          >
+            <option value="fit">Fit inside canvas</option>
+            <option value="fill">Fill canvas (crop overflow)</option>
+            <option value="center">Original size, centered</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label htmlFor="image-import-alpha" style={labelStyle}>
+            Alpha Threshold: {alphaThreshold}
+          </label>
+          <input
+            id="image-import-alpha"
+            type="range"
+            min={0}
+            max={255}
+            value={alphaThreshold}
+            onChange={(e) => setAlphaThreshold(parseInt(e.target.value, 10))}
+            style={{ width: '100%' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#ccc', fontSize: '13px' }}>
+            <input
+              type="checkbox"
+              checked={quantize}
+              onChange={() => setQuantize(!quantize)}
+            />
+            Snap colors to the active palette ({palette.length} colors)
+          </label>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={{
+            color: '#aaa',
+            fontSize: '12px'
+          }}>
+            Imported into a new layer at {canvasWidth}x{canvasHeight}
+          </span>
+        </div>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!file}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: file ? '#007acc' : '#666',
+              border: `1px solid ${file ? '#007acc' : '#666'}`,
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: file ? 'pointer' : 'not-allowed',
+              fontSize: '14px',
+              fontWeight: '500',
+              opacity: file ? 1 : 0.6
+            }}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ImageImportModal
@@ -1,10 +1,12 @@
 import React, { useState } from 'react'
-import { Layer, PixelData } from '../types'
+import { BlendMode, Layer, LayerGroup, LayerPixels, LayerTreeNode, PixelData } from '../types'
+import { BLEND_MODES, getLayerOpacity } from '../utils/blendModes'
+import { buildLayerTree } from '../utils/layerGroups'
 
 // Function to generate thumbnail for a layer
-const generateLayerThumbnail = (pixels: Map<string, PixelData> | undefined, layerId: number, canvasSize: number): string => {
+const generateLayerThumbnail = (pixels: Map<string, PixelData> | undefined, canvasWidth: number, canvasHeight: number, opacity: number = 1): string => {
   const thumbnailSize = 32 // 32x32 thumbnail
-  const scale = thumbnailSize / canvasSize
+  const scale = thumbnailSize / Math.max(canvasWidth, canvasHeight)
   
   // Create a temporary canvas for the thumbnail
   const canvas = document.createElement('canvas')
@@ -30,10 +32,11 @@ const generateLayerThumbnail = (pixels: Map<string, PixelData> | undefined, laye
     }
   }
   
-  // Filter pixels for this specific layer and draw them
+  // Draw this layer's own pixel buffer, faded by the layer opacity
+  ctx.globalAlpha = opacity
   if (pixels) {
     pixels.forEach((pixel) => {
-      if (pixel.layerId === layerId && pixel.color !== 'transparent') {
+      if (pixel.color !== 'transparent') {
         const scaledX = Math.floor(pixel.x * scale)
         const scaledY = Math.floor(pixel.y * scale)
         const pixelSize = Math.max(1, Math.floor(scale))
@@ -49,24 +52,413 @@ const generateLayerThumbnail = (pixels: Map<string, PixelData> | undefined, laye
 
 interface LayerPanelProps {
   layers: Layer[]
-  pixels: Map<string, PixelData>
-  canvasSize: number
+  layerPixels: LayerPixels
+  canvasWidth: number
+  canvasHeight: number
   onNewLayer: () => void
   onLayerToggle: (layerId: number) => void
   onLayerSelect: (layerId: number) => void
   onDeleteLayer: (layerId: number) => void
+  onLayerOpacityChange?: (layerId: number, opacity: number) => void
+  onLayerBlendModeChange?: (layerId: number, blendMode: BlendMode) => void
+  onLayerMove?: (layerId: number, toIndex: number) => void
+  onLayerRename?: (layerId: number, name: string) => void
+  onLayerLockToggle?: (layerId: number) => void
+  onDuplicateLayer?: (layerId: number) => void
+  onMergeLayerDown?: (layerId: number) => void
+  onFlattenImage?: () => void
+  layerGroups?: LayerGroup[]
+  onNewGroup?: () => void
+  onUngroup?: (groupId: number) => void
+  onLayerGroupChange?: (layerId: number, groupId: number | undefined, toIndex?: number) => void
+  onGroupToggle?: (groupId: number) => void
+  onGroupCollapseToggle?: (groupId: number) => void
+  onGroupOpacityChange?: (groupId: number, opacity: number) => void
+}
+
+const propertyLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  color: '#ccc',
+  fontSize: '12px'
+}
+
+const actionButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  flex: 1,
+  padding: '4px 6px',
+  backgroundColor: '#4a4a4a',
+  border: '1px solid #555',
+  borderRadius: '3px',
+  color: '#fff',
+  cursor: enabled ? 'pointer' : 'default',
+  fontSize: '11px',
+  opacity: enabled ? 1 : 0.5
+})
+
+interface OpacitySliderProps {
+  value: number
+  onCommit: (opacity: number) => void
+  label: string
+  title?: string
+  showValue?: boolean
+  style?: React.CSSProperties
+}
+
+// Follows the drag locally and reports the opacity once it is let go, so a drag is one undo step
+const OpacitySlider: React.FC<OpacitySliderProps> = ({ value, onCommit, label, title, showValue, style }) => {
+  const [draft, setDraft] = useState<number | null>(null)
+
+  const commit = () => {
+    if (draft !== null && draft !== value) onCommit(draft)
+    setDraft(null)
+  }
+
+  return (
+    <>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={draft ?? value}
+        onChange={(e) => setDraft(parseInt(e.target.value, 10))}
+        onMouseUp={commit}
+        onTouchEnd={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        aria-label={label}
+        title={title}
+        style={style}
+      />
+      {showValue && <span style={{ minWidth: '32px', textAlign: 'right' }}>{draft ?? value}%</span>}
+    </>
+  )
 }
 
 const LayerPanel: React.FC<LayerPanelProps> = ({
   layers,
-  pixels,
-  canvasSize,
+  layerPixels,
+  canvasWidth,
+  canvasHeight,
   onNewLayer,
   onLayerToggle,
   onLayerSelect,
-  onDeleteLayer
+  onDeleteLayer,
+  onLayerOpacityChange,
+  onLayerBlendModeChange,
+  onLayerMove,
+  onLayerRename,
+  onLayerLockToggle,
+  onDuplicateLayer,
+  onMergeLayerDown,
+  onFlattenImage,
+  layerGroups,
+  onNewGroup,
+  onUngroup,
+  onLayerGroupChange,
+  onGroupToggle,
+  onGroupCollapseToggle,
+  onGroupOpacityChange
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false)
+  const [editingLayerId, setEditingLayerId] = useState<number | null>(null)
+  const [draggedLayerId, setDraggedLayerId] = useState<number | null>(null)
+  const activeLayer = layers.find(layer => layer.active)
+  const activeIndex = activeLayer ? layers.indexOf(activeLayer) : -1
+  // Locked layers keep their pixels, so they cannot be merged or flattened
+  const canMergeDown = activeIndex > 0 && !layers[activeIndex].locked && !layers[activeIndex - 1].locked
+  const canFlatten = layers.length >= 2 && !layers.some(l => l.locked)
+  const hasLayerActions = onDuplicateLayer || onMergeLayerDown || onFlattenImage
+
+  const commitRename = (layerId: number, name: string) => {
+    setEditingLayerId(null)
+    onLayerRename?.(layerId, name)
+  }
+
+  // Dropping a layer onto another one moves it there, into the target's group if that differs
+  const dropOnLayer = (target: Layer, index: number) => {
+    const dragged = layers.find(l => l.id === draggedLayerId)
+    setDraggedLayerId(null)
+    if (!dragged || dragged.id === target.id) return
+
+    if (dragged.groupId !== target.groupId && onLayerGroupChange) {
+      onLayerGroupChange(dragged.id, target.groupId, index)
+    } else {
+      onLayerMove?.(dragged.id, index)
+    }
+  }
+  const renderLayer = (layer: Layer, index: number, depth: number) => (
+    <div
+      key={layer.id}
+      className={`layer-item ${layer.active ? 'active' : ''}`}
+      onClick={() => onLayerSelect(layer.id)}
+      draggable={!!(onLayerMove || onLayerGroupChange) && editingLayerId !== layer.id}
+      onDragStart={(e) => {
+        setDraggedLayerId(layer.id)
+        e.dataTransfer?.setData('text/plain', String(layer.id))
+      }}
+      onDragOver={(e) => {
+        if (draggedLayerId !== null) e.preventDefault()
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        dropOnLayer(layer, index)
+      }}
+      onDragEnd={() => setDraggedLayerId(null)}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '8px',
+        border: '1px solid #444',
+        borderRadius: '4px',
+        marginBottom: '8px',
+        marginLeft: `${depth * 16}px`,
+        cursor: 'pointer',
+        backgroundColor: layer.active ? '#3a3a3a' : 'transparent',
+        opacity: draggedLayerId === layer.id ? 0.5 : 1,
+        transition: 'background-color 0.2s'
+      }}
+    >
+      <input
+        type="checkbox"
+        className="layer-visibility"
+        checked={layer.visible}
+        onChange={() => onLayerToggle(layer.id)}
+        onClick={(e) => e.stopPropagation()}
+        style={{ margin: 0 }}
+      />
+      
+      {/* Layer Thumbnail */}
+      <div style={{
+        width: '32px',
+        height: '32px',
+        border: '1px solid #555',
+        borderRadius: '2px',
+        overflow: 'hidden',
+        flexShrink: 0
+      }}>
+        <img
+          src={generateLayerThumbnail(layerPixels?.get(layer.id), canvasWidth, canvasHeight, getLayerOpacity(layer))}
+          alt={`${layer.name} thumbnail`}
+          style={{
+            width: '100%',
+            height: '100%',
+            objectFit: 'contain'
+          }}
+        />
+      </div>
+      
+      <div style={{ flex: 1, minWidth: 0, textAlign: 'left' }}>
+        {editingLayerId === layer.id ? (
+          <input
+            type="text"
+            defaultValue={layer.name}
+            autoFocus
+            aria-label="Layer name"
+            onClick={(e) => e.stopPropagation()}
+            onBlur={(e) => commitRename(layer.id, e.target.value)}
+            onKeyDown={(e) => {
+              // Leaving the field commits; Escape restores the old name first so nothing changes
+              if (e.key === 'Escape') e.currentTarget.value = layer.name
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur()
+            }}
+            style={{
+              width: '100%',
+              padding: '1px 4px',
+              backgroundColor: '#3a3a3a',
+              border: '1px solid #007acc',
+              borderRadius: '2px',
+              color: '#fff',
+              fontSize: '12px'
+            }}
+          />
+        ) : (
+          <span
+            onDoubleClick={onLayerRename ? () => setEditingLayerId(layer.id) : undefined}
+            title={onLayerRename ? 'Double-click to rename' : undefined}
+            style={{ 
+              color: '#fff', 
+              fontSize: '12px'
+            }}
+          >
+            {layer.name}
+          </span>
+        )}
+        {/* Only non-default compositing is worth pointing out */}
+        {((layer.blendMode && layer.blendMode !== 'normal') || (layer.opacity ?? 100) < 100) && (
+          <span style={{ display: 'block', color: '#888', fontSize: '10px' }}>
+            {BLEND_MODES.find(mode => mode.id === (layer.blendMode ?? 'normal'))?.name} · {layer.opacity ?? 100}%
+          </span>
+        )}
+      </div>
+
+      {/* Lock Button */}
+      {onLayerLockToggle && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onLayerLockToggle(layer.id)
+          }}
+          style={{
+            padding: '2px',
+            backgroundColor: 'transparent',
+            border: 'none',
+            color: layer.locked ? '#ffb74d' : '#666',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: '16px',
+            height: '16px',
+            borderRadius: '2px'
+          }}
+          title={layer.locked ? 'Unlock Layer' : 'Lock Layer'}
+          aria-pressed={!!layer.locked}
+        >
+          <svg width="10" height="12" viewBox="0 0 10 12" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <rect x="1" y="5" width="8" height="6" rx="1" fill={layer.locked ? 'currentColor' : 'none'} />
+            <path d={layer.locked ? 'M3 5V3.5a2 2 0 0 1 4 0V5' : 'M3 5V3.5a2 2 0 0 1 4 0'} />
+          </svg>
+        </button>
+      )}
+
+      {/* Delete Button */}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onDeleteLayer(layer.id)
+        }}
+        style={{
+          padding: '2px',
+          backgroundColor: 'transparent',
+          border: 'none',
+          color: '#888',
+          cursor: 'pointer',
+          fontSize: '12px',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '16px',
+          height: '16px',
+          borderRadius: '2px',
+          transition: 'all 0.2s'
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = '#555'
+          e.currentTarget.style.color = '#ff6b6b'
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'transparent'
+          e.currentTarget.style.color = '#888'
+        }}
+        title="Delete Layer"
+      >
+        ×
+      </button>
+    </div>
+  )
+
+  const renderGroup = (group: LayerGroup, depth: number, children: LayerTreeNode[]) => (
+    <div key={`group-${group.id}`}>
+      <div
+        className="layer-group"
+        onDragOver={(e) => {
+          if (draggedLayerId !== null && onLayerGroupChange) e.preventDefault()
+        }}
+        onDrop={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          if (draggedLayerId !== null) onLayerGroupChange?.(draggedLayerId, group.id)
+          setDraggedLayerId(null)
+        }}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '4px 8px',
+          border: '1px solid #444',
+          borderRadius: '4px',
+          marginBottom: '8px',
+          marginLeft: `${depth * 16}px`,
+          backgroundColor: '#333'
+        }}
+      >
+        <button
+          onClick={() => onGroupCollapseToggle?.(group.id)}
+          style={{
+            padding: 0,
+            backgroundColor: 'transparent',
+            border: 'none',
+            color: '#ccc',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center'
+          }}
+          title={group.collapsed ? 'Expand Group' : 'Collapse Group'}
+          aria-expanded={!group.collapsed}
+        >
+          <svg
+            width="10"
+            height="10"
+            viewBox="0 0 12 12"
+            style={{
+              transform: group.collapsed ? 'rotate(-90deg)' : 'none',
+              transition: 'transform 0.2s ease'
+            }}
+          >
+            <path d="M2 4l4 4 4-4" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" fill="none"/>
+          </svg>
+        </button>
+        <input
+          type="checkbox"
+          className="group-visibility"
+          checked={group.visible}
+          onChange={() => onGroupToggle?.(group.id)}
+          aria-label={`Show ${group.name}`}
+          style={{ margin: 0 }}
+        />
+        <span style={{ flex: 1, color: '#fff', fontSize: '12px', fontWeight: 500, textAlign: 'left' }}>
+          {group.name}
+        </span>
+        {onGroupOpacityChange && (
+          <OpacitySlider
+            value={group.opacity ?? 100}
+            onCommit={(opacity) => onGroupOpacityChange(group.id, opacity)}
+            label={`${group.name} layer opacity`}
+            title={`Layer opacity, multiplied into each layer: ${group.opacity ?? 100}%`}
+            style={{ width: '60px' }}
+          />
+        )}
+        {onUngroup && (
+          <button
+            onClick={() => onUngroup(group.id)}
+            style={{
+              padding: '2px',
+              backgroundColor: 'transparent',
+              border: 'none',
+              color: '#888',
+              cursor: 'pointer',
+              fontSize: '12px',
+              width: '16px',
+              height: '16px'
+            }}
+            title="Ungroup"
+          >
+            ×
+          </button>
+        )}
+      </div>
+      {!group.collapsed && children.map(renderNode)}
+    </div>
+  )
+
+  const renderNode = (node: LayerTreeNode): React.ReactNode =>
+    node.type === 'group'
+      ? renderGroup(node.group, node.depth, node.children)
+      : renderLayer(node.layer, node.index, node.depth)
+
   return (
     <div style={{
       width: '100%',
@@ -118,6 +510,31 @@ const LayerPanel: React.FC<LayerPanelProps> = ({
             >
               +
             </button>
+            {onNewGroup && (
+              <button
+                onClick={onNewGroup}
+                disabled={!activeLayer}
+                style={{
+                  padding: '4px 8px',
+                  backgroundColor: '#4a4a4a',
+                  border: '1px solid #555',
+                  borderRadius: '3px',
+                  color: '#fff',
+                  cursor: activeLayer ? 'pointer' : 'default',
+                  minWidth: '24px',
+                  height: '24px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  opacity: activeLayer ? 1 : 0.5
+                }}
+                title="New Group"
+              >
+                <svg width="14" height="12" viewBox="0 0 14 12" fill="none" stroke="currentColor" strokeWidth="1.5">
+                  <path d="M1 2.5a1 1 0 0 1 1-1h3l1.5 1.5H12a1 1 0 0 1 1 1V10a1 1 0 0 1-1 1H2a1 1 0 0 1-1-1z" />
+                </svg>
+              </button>
+            )}
             <button
               onClick={() => setIsCollapsed(!isCollapsed)}
               style={{
@@ -155,12 +572,23 @@ const LayerPanel: React.FC<LayerPanelProps> = ({
 
         {/* Layers List */}
         {!isCollapsed && (
-          <div style={{
-            flex: 1,
-            minHeight: 0,
-            overflowY: 'auto',
-            padding: '8px'
-          }}>
+          <div
+            onDragOver={(e) => {
+              if (draggedLayerId !== null && onLayerGroupChange) e.preventDefault()
+            }}
+            onDrop={(e) => {
+              // Dropped below every row: out of all groups, to the top of the stack
+              e.preventDefault()
+              if (draggedLayerId !== null) onLayerGroupChange?.(draggedLayerId, undefined, layers.length - 1)
+              setDraggedLayerId(null)
+            }}
+            style={{
+              flex: 1,
+              minHeight: 0,
+              overflowY: 'auto',
+              padding: '8px'
+            }}
+          >
           {layers.length === 0 ? (
             <div style={{
               padding: '20px',
@@ -171,99 +599,90 @@ const LayerPanel: React.FC<LayerPanelProps> = ({
               Add a layer to edit
             </div>
           ) : (
-            layers.map(layer => (
-              <div
-                key={layer.id}
-                className={`layer-item ${layer.active ? 'active' : ''}`}
-                onClick={() => onLayerSelect(layer.id)}
+            buildLayerTree(layers, layerGroups || []).map(renderNode)
+          )}
+        </div>
+        )}
+
+        {/* Active layer actions */}
+        {!isCollapsed && activeLayer && hasLayerActions && (
+          <div style={{
+            padding: '8px 12px',
+            borderTop: '1px solid #555',
+            display: 'flex',
+            gap: '6px',
+            flexShrink: 0
+          }}>
+            {onDuplicateLayer && (
+              <button onClick={() => onDuplicateLayer(activeLayer.id)} style={actionButtonStyle(true)} title="Duplicate Layer">
+                Duplicate
+              </button>
+            )}
+            {onMergeLayerDown && (
+              <button
+                onClick={() => onMergeLayerDown(activeLayer.id)}
+                disabled={!canMergeDown}
+                style={actionButtonStyle(canMergeDown)}
+                title="Merge Down"
+              >
+                Merge Down
+              </button>
+            )}
+            {onFlattenImage && (
+              <button
+                onClick={onFlattenImage}
+                disabled={!canFlatten}
+                style={actionButtonStyle(canFlatten)}
+                title="Flatten Image"
+              >
+                Flatten
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Active layer compositing */}
+        {!isCollapsed && activeLayer && onLayerOpacityChange && onLayerBlendModeChange && (
+          <div style={{
+            padding: '8px 12px',
+            borderTop: '1px solid #555',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            flexShrink: 0
+          }}>
+            <div style={propertyLabelStyle}>
+              <span style={{ minWidth: '48px' }}>Opacity</span>
+              <OpacitySlider
+                value={activeLayer.opacity ?? 100}
+                onCommit={(opacity) => onLayerOpacityChange(activeLayer.id, opacity)}
+                label="Layer opacity"
+                showValue
+                style={{ flex: 1 }}
+              />
+            </div>
+            <div style={propertyLabelStyle}>
+              <span style={{ minWidth: '48px' }}>Blend</span>
+              <select
+                value={activeLayer.blendMode ?? 'normal'}
+                onChange={(e) => onLayerBlendModeChange(activeLayer.id, e.target.value as BlendMode)}
+                aria-label="Blend mode"
                 style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: '8px',
-                  padding: '8px',
-                  border: '1px solid #444',
-                  borderRadius: '4px',
-                  marginBottom: '8px',
-                  cursor: 'pointer',
-                  backgroundColor: layer.active ? '#3a3a3a' : 'transparent',
-                  transition: 'background-color 0.2s'
+                  flex: 1,
+                  padding: '2px 6px',
+                  backgroundColor: '#3a3a3a',
+                  border: '1px solid #555',
+                  borderRadius: '3px',
+                  color: '#fff',
+                  fontSize: '12px'
                 }}
               >
-                <input
-                  type="checkbox"
-                  className="layer-visibility"
-                  checked={layer.visible}
-                  onChange={() => onLayerToggle(layer.id)}
-                  onClick={(e) => e.stopPropagation()}
-                  style={{ margin: 0 }}
-                />
-                
-                {/* Layer Thumbnail */}
-                <div style={{
-                  width: '32px',
-                  height: '32px',
-                  border: '1px solid #555',
-                  borderRadius: '2px',
-                  overflow: 'hidden',
-                  flexShrink: 0
-                }}>
-                  <img
-                    src={generateLayerThumbnail(pixels, layer.id, canvasSize)}
-                    alt={`${layer.name} thumbnail`}
-                    style={{
-                      width: '100%',
-                      height: '100%',
-                      objectFit: 'contain'
-                    }}
-                  />
-                </div>
-                
-                <span style={{ 
-                  color: '#fff', 
-                  fontSize: '12px',
-                  flex: 1,
-                  textAlign: 'left'
-                }}>
-                  {layer.name}
-                </span>
-
-                {/* Delete Button */}
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    onDeleteLayer(layer.id)
-                  }}
-                  style={{
-                    padding: '2px',
-                    backgroundColor: 'transparent',
-                    border: 'none',
-                    color: '#888',
-                    cursor: 'pointer',
-                    fontSize: '12px',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    width: '16px',
-                    height: '16px',
-                    borderRadius: '2px',
-                    transition: 'all 0.2s'
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = '#555'
-                    e.currentTarget.style.color = '#ff6b6b'
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = 'transparent'
-                    e.currentTarget.style.color = '#888'
-                  }}
-                  title="Delete Layer"
-                >
-                  ×
-                </button>
-              </div>
-            ))
-          )}
-        </div>
+                {BLEND_MODES.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
         )}
       </div>
     </div>
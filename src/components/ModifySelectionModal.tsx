@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react'
+import { SelectionChange } from '../types'
+
+interface ModifySelectionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onApply: (change: SelectionChange) => void
+  hasSelection: boolean
+}
+
+const MAX_AMOUNT = 100
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  color: '#ccc',
+  fontSize: '13px',
+  marginBottom: '4px'
+}
+
+const ModifySelectionModal: React.FC<ModifySelectionModalProps> = ({
+  isOpen,
+  onClose,
+  onApply,
+  hasSelection
+}) => {
+  const [type, setType] = useState<'grow' | 'shrink'>('grow')
+  const [amount, setAmount] = useState(1)
+
+  // Start from a one pixel grow every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setType('grow')
+      setAmount(1)
+    }
+  }, [isOpen])
+
+  const handleApply = () => {
+    onApply({ type, amount })
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '320px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Grow / Shrink Selection
+        </h3>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={optionStyle}>
+            <input type="radio" checked={type === 'grow'} onChange={() => setType('grow')} />
+            Grow
+          </label>
+          <label style={optionStyle}>
+            <input type="radio" checked={type === 'shrink'} onChange={() => setType('shrink')} />
+            Shrink
+          </label>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <label htmlFor="modify-selection-amount" style={labelStyle}>Pixels</label>
+          <input
+            id="modify-selection-amount"
+            type="number"
+            min={1}
+            max={MAX_AMOUNT}
+            value={amount}
+            onChange={(e) => setAmount(Math.min(MAX_AMOUNT, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            style={{
+              width: '100%',
+              padding: '8px 12px',
+              backgroundColor: '#3a3a3a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              fontSize: '14px'
+            }}
+          />
+        </div>
+
+        {!hasSelection && (
+          <div style={{ color: '#ccc', fontSize: '13px', marginBottom: '16px' }}>
+            Select something first.
+          </div>
+        )}
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!hasSelection}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: hasSelection ? 'pointer' : 'not-allowed',
+              opacity: hasSelection ? 1 : 0.5,
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ModifySelectionModal
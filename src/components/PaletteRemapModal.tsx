@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react'
+import { Color, CustomColorTemplate, ReplaceColorScope } from '../types'
+import { buildPaletteMapping } from '../utils/colorReplace'
+
+interface PaletteRemapModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onRemap: (mapping: Array<[Color, Color]>, scope: ReplaceColorScope) => void
+  templates: CustomColorTemplate[]
+  activeTemplateId: string
+  hasSelection: boolean
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  color: '#ccc',
+  fontSize: '13px',
+  marginBottom: '4px'
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  backgroundColor: '#3a3a3a',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  color: '#fff',
+  fontSize: '14px'
+}
+
+const swatchStyle = (color: Color): React.CSSProperties => ({
+  width: '18px',
+  height: '18px',
+  backgroundColor: color,
+  border: '1px solid #555',
+  flexShrink: 0
+})
+
+const PaletteRemapModal: React.FC<PaletteRemapModalProps> = ({
+  isOpen,
+  onClose,
+  onRemap,
+  templates,
+  activeTemplateId,
+  hasSelection
+}) => {
+  const [fromId, setFromId] = useState(activeTemplateId)
+  const [toId, setToId] = useState(activeTemplateId)
+  // Target color chosen for each source entry, by index
+  const [targets, setTargets] = useState<Color[]>([])
+  const [scope, setScope] = useState<ReplaceColorScope>('all-layers')
+
+  const fromTemplate = templates.find(t => t.id === fromId) || templates[0]
+  const toTemplate = templates.find(t => t.id === toId) || templates[0]
+
+  // Remap from the active palette to the first other palette every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFromId(activeTemplateId)
+      setToId(templates.find(t => t.id !== activeTemplateId)?.id || activeTemplateId)
+    }
+  }, [isOpen, activeTemplateId, templates])
+
+  // Pair entries by index whenever either palette changes; the pairs can then be edited one by one
+  useEffect(() => {
+    if (!fromTemplate || !toTemplate) return
+    setTargets(buildPaletteMapping(fromTemplate.colors, toTemplate.colors).map(([, to]) => to))
+  }, [fromTemplate, toTemplate])
+
+  const handleRemap = () => {
+    if (!fromTemplate) return
+    const mapping = fromTemplate.colors.map((color, index): [Color, Color] => [color, targets[index] ?? color])
+    onRemap(mapping, scope === 'selection' && !hasSelection ? 'all-layers' : scope)
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Remap Palette
+        </h3>
+
+        <div style={{ marginBottom: '16px', display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="palette-remap-from" style={labelStyle}>From</label>
+            <select id="palette-remap-from" value={fromTemplate?.id} onChange={(e) => setFromId(e.target.value)} style={fieldStyle}>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="palette-remap-to" style={labelStyle}>To</label>
+            <select id="palette-remap-to" value={toTemplate?.id} onChange={(e) => setToId(e.target.value)} style={fieldStyle}>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Entry mapping */}
+        <div style={{
+          marginBottom: '16px',
+          maxHeight: '200px',
+          overflowY: 'auto',
+          border: '1px solid #555',
+          borderRadius: '4px',
+          padding: '8px'
+        }}>
+          {fromTemplate?.colors.map((color, index) => (
+            <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+              <div style={swatchStyle(color)} title={color} />
+              <span style={{ color: '#aaa', fontSize: '12px' }}>→</span>
+              <div style={swatchStyle(targets[index] ?? color)} />
+              <select
+                value={targets[index] ?? color}
+                onChange={(e) => setTargets(prev => prev.map((target, i) => i === index ? e.target.value : target))}
+                aria-label={`Map ${color}`}
+                style={{ ...fieldStyle, padding: '2px 6px', fontSize: '12px' }}
+              >
+                {/* Keeping a color is always possible, even if it is not in the target palette */}
+                {!toTemplate?.colors.includes(color) && <option value={color}>{color} (keep)</option>}
+                {toTemplate?.colors.map((target, targetIndex) => (
+                  <option key={targetIndex} value={target}>{targetIndex}: {target}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={labelStyle}>Apply to</span>
+          <label style={optionStyle}>
+            <input type="radio" checked={scope === 'layer'} onChange={() => setScope('layer')} />
+            Active layer
+          </label>
+          <label style={optionStyle}>
+            <input type="radio" checked={scope === 'all-layers'} onChange={() => setScope('all-layers')} />
+            All layers
+          </label>
+          <label style={{ ...optionStyle, opacity: hasSelection ? 1 : 0.5 }}>
+            <input
+              type="radio"
+              checked={scope === 'selection'}
+              disabled={!hasSelection}
+              onChange={() => setScope('selection')}
+            />
+            Selection only
+          </label>
+        </div>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRemap}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Remap
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PaletteRemapModal
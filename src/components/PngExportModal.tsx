@@ -0,0 +1,234 @@
+import React, { useState } from 'react'
+import { PngExportBounds, PngExportOptions } from '../types'
+
+interface PngExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onExport: (options: PngExportOptions) => void
+  canvasWidth: number
+  canvasHeight: number
+  hasSelection: boolean
+  canExportIndexed?: boolean // Offered in indexed color mode
+}
+
+const SCALE_PRESETS = [1, 2, 4, 8]
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  color: '#ccc',
+  fontSize: '13px',
+  marginBottom: '4px'
+}
+
+const PngExportModal: React.FC<PngExportModalProps> = ({
+  isOpen,
+  onClose,
+  onExport,
+  canvasWidth,
+  canvasHeight,
+  hasSelection,
+  canExportIndexed = false
+}) => {
+  const [scale, setScale] = useState(1)
+  const [transparent, setTransparent] = useState(true)
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff')
+  const [bounds, setBounds] = useState<PngExportBounds>('canvas')
+  const [indexed, setIndexed] = useState(true)
+
+  const handleExport = () => {
+    onExport({
+      scale,
+      background: transparent ? null : backgroundColor,
+      // Fall back to the whole canvas if the selection went away while the dialog was open
+      bounds: bounds === 'selection' && !hasSelection ? 'canvas' : bounds,
+      ...(canExportIndexed ? { indexed } : {})
+    })
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Export PNG
+        </h3>
+
+        {/* Scale */}
+        <div style={{ marginBottom: '16px' }}>
+          <span style={labelStyle}>Scale</span>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            {SCALE_PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => setScale(preset)}
+                style={{
+                  padding: '6px 10px',
+                  backgroundColor: scale === preset ? '#007acc' : '#4a4a4a',
+                  border: '1px solid #555',
+                  borderRadius: '4px',
+                  color: '#fff',
+                  cursor: 'pointer',
+                  fontSize: '13px'
+                }}
+              >
+                {preset}x
+              </button>
+            ))}
+            <input
+              type="number"
+              min={1}
+              value={scale}
+              onChange={(e) => setScale(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              aria-label="Custom scale"
+              style={{
+                width: '60px',
+                padding: '6px 8px',
+                backgroundColor: '#3a3a3a',
+                border: '1px solid #555',
+                borderRadius: '4px',
+                color: '#fff',
+                fontSize: '13px'
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Background */}
+        <div style={{ marginBottom: '16px' }}>
+          <span style={labelStyle}>Background</span>
+          <label style={optionStyle}>
+            <input type="radio" checked={transparent} onChange={() => setTransparent(true)} />
+            Transparent
+          </label>
+          <label style={optionStyle}>
+            <input type="radio" checked={!transparent} onChange={() => setTransparent(false)} />
+            Solid
+            <input
+              type="color"
+              value={backgroundColor}
+              onChange={(e) => {
+                setBackgroundColor(e.target.value)
+                setTransparent(false)
+              }}
+              aria-label="Background color"
+            />
+          </label>
+        </div>
+
+        {/* Bounds */}
+        <div style={{ marginBottom: '20px' }}>
+          <span style={labelStyle}>Area</span>
+          <label style={optionStyle}>
+            <input type="radio" checked={bounds === 'canvas'} onChange={() => setBounds('canvas')} />
+            Whole canvas
+          </label>
+          <label style={{ ...optionStyle, opacity: hasSelection ? 1 : 0.5 }}>
+            <input
+              type="radio"
+              checked={bounds === 'selection'}
+              disabled={!hasSelection}
+              onChange={() => setBounds('selection')}
+            />
+            Selection only
+          </label>
+          <label style={optionStyle}>
+            <input type="radio" checked={bounds === 'trim'} onChange={() => setBounds('trim')} />
+            Trim to content
+          </label>
+        </div>
+
+        {canExportIndexed && (
+          <div style={{ marginBottom: '20px' }}>
+            <label style={optionStyle}>
+              <input type="checkbox" checked={indexed} onChange={() => setIndexed(!indexed)} />
+              Indexed PNG (keep the palette order)
+            </label>
+          </div>
+        )}
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={{
+            color: '#aaa',
+            fontSize: '12px'
+          }}>
+            {bounds === 'canvas'
+              ? `Output Size: ${canvasWidth * scale}x${canvasHeight * scale}`
+              : `Scale: ${scale}x`}
+          </span>
+        </div>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PngExportModal
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react'
+import { Color, ReplaceColorScope } from '../types'
+
+interface ReplaceColorModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onReplace: (from: Color, to: Color, scope: ReplaceColorScope) => void
+  initialFrom: Color
+  initialTo: Color
+  hasSelection: boolean
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  color: '#ccc',
+  fontSize: '13px',
+  marginBottom: '4px'
+}
+
+const ReplaceColorModal: React.FC<ReplaceColorModalProps> = ({
+  isOpen,
+  onClose,
+  onReplace,
+  initialFrom,
+  initialTo,
+  hasSelection
+}) => {
+  const [from, setFrom] = useState(initialFrom)
+  const [to, setTo] = useState(initialTo)
+  const [scope, setScope] = useState<ReplaceColorScope>('layer')
+
+  // Start from the primary and secondary colors every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFrom(initialFrom)
+      setTo(initialTo)
+    }
+  }, [isOpen, initialFrom, initialTo])
+
+  const handleReplace = () => {
+    // Fall back to the active layer if the selection went away while the dialog was open
+    onReplace(from, to, scope === 'selection' && !hasSelection ? 'layer' : scope)
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Replace Color
+        </h3>
+
+        <div style={{ marginBottom: '16px', display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="replace-color-from" style={labelStyle}>Find</label>
+            <input
+              id="replace-color-from"
+              type="color"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="replace-color-to" style={labelStyle}>Replace with</label>
+            <input
+              id="replace-color-to"
+              type="color"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={labelStyle}>Apply to</span>
+          <label style={optionStyle}>
+            <input type="radio" checked={scope === 'layer'} onChange={() => setScope('layer')} />
+            Active layer
+          </label>
+          <label style={optionStyle}>
+            <input type="radio" checked={scope === 'all-layers'} onChange={() => setScope('all-layers')} />
+            All layers
+          </label>
+          <label style={{ ...optionStyle, opacity: hasSelection ? 1 : 0.5 }}>
+            <input
+              type="radio"
+              checked={scope === 'selection'}
+              disabled={!hasSelection}
+              onChange={() => setScope('selection')}
+            />
+            Selection only
+          </label>
+        </div>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleReplace}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Replace
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReplaceColorModal
@@ -4,7 +4,8 @@ interface SaveTemplateModalProps {
   isOpen: boolean
   onClose: () => void
   onSave: (name: string, description: string, tags: string[]) => void
-  canvasSize: number
+  canvasWidth: number
+  canvasHeight: number
   isLoading?: boolean
 }
 
@@ -12,7 +13,8 @@ const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
   isOpen,
   onClose,
   onSave,
-  canvasSize,
+  canvasWidth,
+  canvasHeight,
   isLoading = false
 }) => {
   const [name, setName] = useState('')
@@ -167,7 +169,7 @@ const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
             color: '#aaa',
             fontSize: '12px'
           }}>
-            Canvas Size: {canvasSize}x{canvasSize}
+            Canvas Size: {canvasWidth}x{canvasHeight}
           </span>
         </div>
 
@@ -219,7 +221,7 @@ const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
           fontSize: '12px',
           color: '#aaa'
         }}>
-          <strong>Template will be saved to:</strong> <code>public/templates/{canvasSize}x{canvasSize}/</code>
+          <strong>Template will be saved to:</strong> <code>public/templates/{canvasWidth}x{canvasHeight}/</code>
         </div>
       </div>
     </div>
@@ -1,42 +1,89 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react'
-import { Tool, Color, Layer, PixelData, GridSettings, StrokeOperation } from '../types'
+import { Tool, Color, FillSettings, Layer, LayerChange, LayerChangeAction, LayerGroup, LayerPixels, FramePixels, Frame, HistoryState, OnionSkinSettings, PixelData, PixelTransform, GridSettings, ReplaceColorScope, SelectionBounds, SelectionChange, SelectionMask, SelectionMode, StrokeOperation, SymmetrySettings, TransformTarget, Viewport } from '../types'
 import { HistoryManager } from '../utils/historyManager'
 import { generateBrushPattern, applyBrushPattern } from '../utils/brushPatterns'
+import { compositeLayers, getCompositeColorAt } from '../utils/layerCompositing'
+import { getAlpha, mixColors, withAlpha } from '../utils/colorUtils'
+import { getMirrorPoints, mirrorPixelChanges } from '../utils/symmetry'
+import { DEFAULT_FILL_SETTINGS, findFillRegion } from '../utils/fillRegion'
+import { createFillPainter } from '../utils/fillStyles'
+import { applyPaletteToFramePixels, bindFramePixelsToPalette, bindPixelsToPalette, clearPaletteIndices } from '../utils/indexedColor'
+import { applyColorChanges, findColorReplacements } from '../utils/colorReplace'
+import { getChangedLayerIds, pickLayerBuffers, restoreLayerBuffers } from '../utils/layerOperations'
+import { resolveLayerGroups } from '../utils/layerGroups'
+import { createHistoryKeyframe } from '../utils/historyDiff'
+import { diffLayerPixels, transformRegion } from '../utils/selectionTransform'
+import { clipToMask, combineMasks, createColorMask, createLassoMask, createRectMask, getMaskBounds, getMaskContent, getMaskOutline, getSelectionMode, growMask, invertMask, shrinkMask, translateMask } from '../utils/selectionMask'
+import { DEFAULT_VIEWPORT, ZOOM_STEP, getActualSizeViewport, screenToPixel, zoomViewportAt } from '../utils/viewport'
+
+// Shared empty buffers for layers and frames that have not been drawn on yet
+const EMPTY_LAYER_PIXELS: Map<string, PixelData> = new Map()
+const EMPTY_FRAME_PIXELS: LayerPixels = new Map()
+
+// Frame used when the editor is rendered without a timeline
+export const DEFAULT_FRAME_ID = 1
 
 interface SpriteEditorProps {
   selectedTool: Tool
   primaryColor: Color
   secondaryColor: Color
   brushSize: number
-  canvasSize: number
+  canvasWidth: number
+  canvasHeight: number
   layers: Layer[]
   onCanvasRef?: (ref: React.RefObject<HTMLCanvasElement>) => void
   onPrimaryColorChange?: (color: Color) => void
-  onPixelsChange?: (pixels: Map<string, PixelData>) => void
+  onPixelsChange?: (layerPixels: LayerPixels) => void
   onSelectionChange?: (hasSelection: boolean) => void
+  onFillPatternChange?: (hasPattern: boolean) => void // Whether pattern fills have copied or selected pixels to tile
   gridSettings: GridSettings
+  frames?: Frame[]
+  currentFrameId?: number
+  onFramePixelsChange?: (framePixels: FramePixels) => void
+  onionSkin?: OnionSkinSettings
+  symmetry?: SymmetrySettings
+  fillSettings?: FillSettings // Fill mode, tolerance, contiguity, connectivity and sampling for fill and the magic wand
+  palette?: Color[] // Colors gradient fills snap to
+  indexedPalette?: Color[] // Set in indexed color mode: every pixel is bound to an entry of this palette
+  onLayersChange?: (layers: Layer[]) => void // Layer changes made or undone through the editor's history
+  layerGroups?: LayerGroup[]
+  onLayerGroupsChange?: (groups: LayerGroup[]) => void // Group changes made or undone through the editor's history
 }
 
 const SpriteEditor: React.FC<SpriteEditorProps> = ({
   selectedTool,
   primaryColor,
-  secondaryColor: _secondaryColor,
+  secondaryColor,
   brushSize,
-  canvasSize,
+  canvasWidth,
+  canvasHeight,
   layers,
   onCanvasRef,
   onPrimaryColorChange,
   onPixelsChange,
   onSelectionChange,
-  gridSettings
+  onFillPatternChange,
+  gridSettings,
+  frames,
+  currentFrameId,
+  onFramePixelsChange,
+  onionSkin,
+  symmetry,
+  fillSettings = DEFAULT_FILL_SETTINGS,
+  palette,
+  indexedPalette,
+  onLayersChange,
+  layerGroups,
+  onLayerGroupsChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isDrawing, setIsDrawing] = useState(false)
-  const [pixels, setPixels] = useState<Map<string, PixelData>>(new Map())
+  const [framePixels, setFramePixels] = useState<FramePixels>(new Map())
   const [lastPos, setLastPos] = useState<{ x: number; y: number } | null>(null)
   
   // History management
-  const historyManagerRef = useRef<HistoryManager>(new HistoryManager(100))
+  // History is bounded by its memory budget rather than by a number of operations
+  const historyManagerRef = useRef<HistoryManager>(new HistoryManager(Infinity))
   const [currentDrawingAction, setCurrentDrawingAction] = useState<{
     tool: Tool
     startPos: { x: number; y: number } | null
@@ -63,10 +110,18 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     rawCurrentPos?: { x: number; y: number } // Store raw coordinates for bounds calculation
     isActive: boolean
     content: Map<string, PixelData> // Store the actual pixel content within selection
+    mask: SelectionMask // The selected pixels; startPos and currentPos are the box around them
   } | null>(null)
   
   // Track if we're actively selecting (mouse down to mouse up)
   const [isSelecting, setIsSelecting] = useState(false)
+
+  // The selection a Shift/Alt drag started from, and how the dragged shape combines with it
+  const [selectionBase, setSelectionBase] = useState<{ mode: SelectionMode; mask: SelectionMask } | null>(null)
+
+  // Outlines are only worked out again when the selection changes, not on every animation frame
+  const selectionOutline = useMemo(() => selection ? getMaskOutline(selection.mask) : [], [selection])
+  const selectionBaseOutline = useMemo(() => selectionBase ? getMaskOutline(selectionBase.mask) : [], [selectionBase])
   
   // State for lasso tool
   const [lassoPath, setLassoPath] = useState<Array<{ x: number; y: number }>>([])
@@ -85,20 +140,164 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
   const [moveStartPos, setMoveStartPos] = useState<{ x: number; y: number } | null>(null)
   const [moveOffset, setMoveOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 })
 
-  const activeLayer = layers.find(l => l.visible && l.active)
-  const pixelSize = Math.max(1, Math.floor(512 / canvasSize))
+  // A transform shown on the canvas before it is applied: the layer's pixels as they would become
+  const [transformPreview, setTransformPreview] = useState<{ layerId: number; pixels: Map<string, PixelData> } | null>(null)
+
+  // Zoom and pan; the canvas element keeps its fit-to-view size and acts as the viewport
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT)
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false)
+  const [panStart, setPanStart] = useState<{ clientX: number; clientY: number; panX: number; panY: number } | null>(null)
+
+  // Layers as they are composited, with the visibility and opacity of their groups applied
+  const compositeStack = useMemo(() => resolveLayerGroups(layers, layerGroups), [layers, layerGroups])
+  // Hidden (also through a hidden group) and locked layers cannot be drawn on
+  const activeLayer = compositeStack.find(l => l.visible && l.active && !l.locked)
+  // Screen pixels per sprite pixel at zoom 1 (fit to view)
+  const pixelSize = Math.max(1, Math.floor(512 / Math.max(canvasWidth, canvasHeight)))
+
+  // Map a mouse position to sprite pixel coordinates through the zoom/pan transform
+  const getPixelCoordinates = useCallback((clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return screenToPixel(viewport, pixelSize, clientX - rect.left, clientY - rect.top)
+  }, [viewport, pixelSize])
+
+  // Drawing tools read and write the active layer's buffer in the current frame; everything else is only composited
+  const frameId = currentFrameId ?? DEFAULT_FRAME_ID
+  const layerPixels = framePixels.get(frameId) || EMPTY_FRAME_PIXELS
+  const frameIdRef = useRef(frameId)
+  frameIdRef.current = frameId
+  const activeLayerId = layers.find(l => l.active)?.id
+  const pixels = (activeLayerId !== undefined && layerPixels.get(activeLayerId)) || EMPTY_LAYER_PIXELS
+  const activeLayerIdRef = useRef(activeLayerId)
+  activeLayerIdRef.current = activeLayerId
+  const indexedPaletteRef = useRef(indexedPalette)
+  indexedPaletteRef.current = indexedPalette
+  // What history keyframes are taken from
+  const documentRef = useRef({ framePixels, layers, layerGroups })
+  documentRef.current = { framePixels, layers, layerGroups }
+
+  // Replace (or update) the pixel buffer of a specific layer, in the current frame unless another one is given
+  const setPixelsForLayer = useCallback((
+    layerId: number,
+    update: Map<string, PixelData> | ((prev: Map<string, PixelData>) => Map<string, PixelData>),
+    targetFrameId: number = frameIdRef.current
+  ) => {
+    setFramePixels(prev => {
+      const frameLayerPixels = prev.get(targetFrameId) || EMPTY_FRAME_PIXELS
+      const current = frameLayerPixels.get(layerId) || EMPTY_LAYER_PIXELS
+      const updated = typeof update === 'function' ? update(current) : update
+      // In indexed mode every tool's output snaps to the nearest palette entry
+      const next = indexedPaletteRef.current ? bindPixelsToPalette(updated, indexedPaletteRef.current) : updated
+      if (next === current) return prev
+
+      const newFrameLayerPixels = new Map(frameLayerPixels)
+      newFrameLayerPixels.set(layerId, next)
+      const newFramePixels = new Map(prev)
+      newFramePixels.set(targetFrameId, newFrameLayerPixels)
+      return newFramePixels
+    })
+  }, [])
+
+  // Replace (or update) the pixel buffer of the active layer
+  const setPixels = useCallback((update: Map<string, PixelData> | ((prev: Map<string, PixelData>) => Map<string, PixelData>)) => {
+    const layerId = activeLayerIdRef.current
+    if (layerId === undefined) return
+    setPixelsForLayer(layerId, update)
+  }, [setPixelsForLayer])
 
   // Memoize brush pattern to avoid regeneration
   const currentBrushPattern = useMemo(() => generateBrushPattern(brushSize), [brushSize])
 
+  // Apply the brush at a position, repeating every brush pixel at its mirror images when symmetry is on
+  const applyMirroredBrush = useCallback((x: number, y: number, plot: (pixelX: number, pixelY: number) => void) => {
+    applyBrushPattern(currentBrushPattern, x, y, (pixelX, pixelY) => {
+      getMirrorPoints(pixelX, pixelY, symmetry).forEach(point => plot(point.x, point.y))
+    })
+  }, [currentBrushPattern, symmetry])
+
+  // While there is a selection, painting only reaches the selected pixels
+  const isPaintable = useCallback((x: number, y: number) => !selection || selection.mask.has(`${x},${y}`), [selection])
+
+  // The eraser takes away as much alpha as the primary color has, so an opaque color erases fully
+  // and a semi-transparent one fades pixels. It starts from the pixels at the beginning of the
+  // stroke, so passing over a pixel twice in one stroke does not fade it further
+  const getErasedColor = useCallback((key: string, strokeStart: Map<string, PixelData> | null): Color => {
+    const strength = getAlpha(primaryColor)
+    const original = (strokeStart || pixels).get(key)
+    if (!original || strength === 255) return 'transparent'
 
+    const alpha = Math.round(getAlpha(original.color) * (1 - strength / 255))
+    return alpha === 0 ? 'transparent' : withAlpha(original.color, alpha)
+  }, [primaryColor, pixels])
+
+  // Record an operation, tagged with the frame it was made on; every few operations of a frame
+  // also keep the frame's layers so history can be rebuilt without replaying it all
+  const recordOperation = useCallback((operation: StrokeOperation) => {
+    if (operation.frameId === undefined) {
+      operation.frameId = frameIdRef.current
+    }
+    if (historyManagerRef.current.needsKeyframe(operation.frameId)) {
+      const { framePixels: currentFramePixels, layers: currentLayers, layerGroups: currentGroups } = documentRef.current
+      operation.keyframe = createHistoryKeyframe(currentLayers, currentGroups ?? [], currentFramePixels.get(operation.frameId), operation)
+    }
+    historyManagerRef.current.pushOperation(operation)
+  }, [])
 
   // Notify parent of pixel changes
   useEffect(() => {
     if (onPixelsChange) {
-      onPixelsChange(pixels)
+      onPixelsChange(layerPixels)
+    }
+  }, [layerPixels, onPixelsChange])
+
+  useEffect(() => {
+    if (onFramePixelsChange) {
+      onFramePixelsChange(framePixels)
+    }
+  }, [framePixels, onFramePixelsChange])
+
+  // Entering indexed mode, editing a palette entry or switching palettes recolors every pixel from its
+  // palette index, across all layers and frames; leaving indexed mode keeps the colors and drops the indices
+  useEffect(() => {
+    setFramePixels(prev => indexedPalette ? applyPaletteToFramePixels(prev, indexedPalette) : clearPaletteIndices(prev))
+  }, [indexedPalette])
+
+  // Drop the buffers of layers (in every frame) and frames that no longer exist
+  useEffect(() => {
+    setFramePixels(prev => {
+      const layerIds = new Set(layers.map(l => l.id))
+      const frameIds = frames ? new Set(frames.map(f => f.id)) : null
+      let changed = false
+      const newFramePixels: FramePixels = new Map()
+
+      prev.forEach((frameLayerPixels, id) => {
+        if (frameIds && !frameIds.has(id)) {
+          changed = true
+          return
+        }
+
+        const staleIds = Array.from(frameLayerPixels.keys()).filter(layerId => !layerIds.has(layerId))
+        if (staleIds.length === 0) {
+          newFramePixels.set(id, frameLayerPixels)
+          return
+        }
+
+        changed = true
+        const newFrameLayerPixels = new Map(frameLayerPixels)
+        staleIds.forEach(layerId => newFrameLayerPixels.delete(layerId))
+        newFramePixels.set(id, newFrameLayerPixels)
+      })
+
+      return changed ? newFramePixels : prev
+    })
+  }, [layers, frames])
+
+  // Forget the history of deleted frames: undoing it would write into a frame that is gone
+  useEffect(() => {
+    if (frames && historyManagerRef.current.removeFrameOperations(new Set(frames.map(f => f.id)))) {
+      dispatchHistoryChange()
     }
-  }, [pixels, onPixelsChange])
+  }, [frames])
 
   // Notify parent of selection changes
   useEffect(() => {
@@ -107,6 +306,46 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     }
   }, [selection, onSelectionChange])
 
+  useEffect(() => {
+    onFillPatternChange?.(clipboard !== null || selection !== null)
+  }, [clipboard, selection, onFillPatternChange])
+
+  // Select exactly the pixels of a mask, with the box around them and the active layer's
+  // pixels under it for the tools that move or transform the selection
+  const selectMask = useCallback((mask: SelectionMask, source: Map<string, PixelData> = pixels) => {
+    const bounds = getMaskBounds(mask)
+    if (!bounds) {
+      setSelection(null)
+      return
+    }
+    setSelection({
+      startPos: { x: bounds.startX, y: bounds.startY },
+      currentPos: { x: bounds.endX, y: bounds.endY },
+      rawCurrentPos: { x: bounds.endX, y: bounds.endY },
+      isActive: true,
+      content: getMaskContent(mask, source, bounds),
+      mask
+    })
+  }, [pixels])
+
+  // Turn a finished rectangle or lasso drag into the selection, combined with the one it started from.
+  // Both the canvas and the document see the mouse go up, so running twice gives the same result
+  const finishSelection = useCallback(() => {
+    if (!selection || (!isSelecting && !isLassoing)) return
+
+    const mask = isLassoing
+      ? createLassoMask(lassoPath, canvasWidth, canvasHeight)
+      : createRectMask({
+          startX: Math.min(selection.startPos.x, selection.rawCurrentPos?.x ?? selection.currentPos.x),
+          startY: Math.min(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y),
+          endX: Math.max(selection.startPos.x, selection.rawCurrentPos?.x ?? selection.currentPos.x),
+          endY: Math.max(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y)
+        }, canvasWidth, canvasHeight)
+    selectMask(selectionBase ? combineMasks(selectionBase.mask, mask, selectionBase.mode) : mask)
+    setSelectionBase(null)
+    setLassoPath([])
+  }, [selection, isSelecting, isLassoing, lassoPath, selectionBase, canvasWidth, canvasHeight, selectMask])
+
   // Copy selected pixels to clipboard
   const handleCopy = useCallback(() => {
     if (!selection || !activeLayer) return
@@ -122,12 +361,12 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     const bounds = {
       startX: Math.max(0, rawBounds.startX),
       startY: Math.max(0, rawBounds.startY),
-      endX: Math.min(canvasSize - 1, rawBounds.endX),
-      endY: Math.min(canvasSize - 1, rawBounds.endY)
+      endX: Math.min(canvasWidth - 1, rawBounds.endX),
+      endY: Math.min(canvasHeight - 1, rawBounds.endY)
     }
     
-    // Use the stored selection content
-    const selectedPixels = selection.content || new Map()
+    // Only the selected pixels are copied, as they are now
+    const selectedPixels = getMaskContent(selection.mask, pixels, bounds)
     
     setClipboard({
       pixels: selectedPixels,
@@ -143,11 +382,12 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     )
     operation.metadata = {
       selectionBounds: bounds,
-      selectionContent: selectedPixels
+      selectionContent: selectedPixels,
+      selectionMask: selection.mask
     }
-    historyManagerRef.current.pushOperation(operation)
+    recordOperation(operation)
     dispatchHistoryChange()
-  }, [selection, activeLayer, canvasSize])
+  }, [selection, pixels, activeLayer, canvasWidth, canvasHeight])
 
   // Cut selected pixels to clipboard
   const handleCut = useCallback(() => {
@@ -164,12 +404,12 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     const bounds = {
       startX: Math.max(0, rawBounds.startX),
       startY: Math.max(0, rawBounds.startY),
-      endX: Math.min(canvasSize - 1, rawBounds.endX),
-      endY: Math.min(canvasSize - 1, rawBounds.endY)
+      endX: Math.min(canvasWidth - 1, rawBounds.endX),
+      endY: Math.min(canvasHeight - 1, rawBounds.endY)
     }
     
-    // Use the stored selection content
-    const selectedPixels = selection.content || new Map()
+    // Only the selected pixels are cut, as they are now
+    const selectedPixels = getMaskContent(selection.mask, pixels, bounds)
     const pixelsToRemove: Array<{ x: number; y: number; color: Color }> = []
     
     // Convert relative coordinates back to absolute for removal
@@ -210,14 +450,15 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     )
     operation.metadata = {
       selectionBounds: bounds,
-      selectionContent: selectedPixels
+      selectionContent: selectedPixels,
+      selectionMask: selection.mask
     }
-    historyManagerRef.current.pushOperation(operation)
+    recordOperation(operation)
     dispatchHistoryChange()
     
     // Clear the selection after cutting
     setSelection(null)
-  }, [selection, pixels, activeLayer, canvasSize])
+  }, [selection, pixels, activeLayer, canvasWidth, canvasHeight])
 
   // Paste pixels from clipboard
   const handlePaste = useCallback(() => {
@@ -229,8 +470,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     const pasteHeight = pasteBounds.endY - pasteBounds.startY + 1
     
     // Center the paste on the canvas
-    const centerX = Math.floor(canvasSize / 2)
-    const centerY = Math.floor(canvasSize / 2)
+    const centerX = Math.floor(canvasWidth / 2)
+    const centerY = Math.floor(canvasHeight / 2)
     const pasteStartX = centerX - Math.floor(pasteWidth / 2)
     const pasteStartY = centerY - Math.floor(pasteHeight / 2)
     
@@ -244,7 +485,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       const absoluteY = pasteStartY + pixel.y
       
       // Only add pixels that are within canvas bounds
-      if (absoluteX >= 0 && absoluteX < canvasSize && absoluteY >= 0 && absoluteY < canvasSize) {
+      if (absoluteX >= 0 && absoluteX < canvasWidth && absoluteY >= 0 && absoluteY < canvasHeight) {
         pixelsToAdd.push({
           x: absoluteX,
           y: absoluteY,
@@ -288,18 +529,12 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       originalClipboardBounds: clipboard.bounds,
       clipboardContent: clipboard.pixels
     }
-    historyManagerRef.current.pushOperation(operation)
+    recordOperation(operation)
     dispatchHistoryChange()
     
-    // Create a new selection around the pasted content
-    setSelection({
-      startPos: { x: pasteStartX, y: pasteStartY },
-      currentPos: { x: pasteStartX + pasteWidth - 1, y: pasteStartY + pasteHeight - 1 },
-      isActive: true,
-
-      content: clipboard.pixels
-    })
-  }, [clipboard, activeLayer, pixels, canvasSize])
+    // Select the pasted pixels
+    selectMask(new Set(pixelsToAdd.filter(p => p.color !== 'transparent').map(p => `${p.x},${p.y}`)), newPixels)
+  }, [clipboard, activeLayer, pixels, canvasWidth, canvasHeight, selectMask])
 
   // Handle keyboard events for selection management
   useEffect(() => {
@@ -336,9 +571,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     const handleGlobalMouseMove = (e: MouseEvent) => {
       if (!canvasRef.current || !activeLayer) return
       
-      const rect = canvasRef.current.getBoundingClientRect()
-      const x = Math.floor((e.clientX - rect.left) / pixelSize)
-      const y = Math.floor((e.clientY - rect.top) / pixelSize)
+      const { x, y } = getPixelCoordinates(e.clientX, e.clientY)
       
       // For move-selection tool, don't allow selection resizing - just track movement
       if (selectedTool === 'move-selection' && isMovingSelection) {
@@ -348,8 +581,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       
       // For select and lasso tools, we want to allow the selection to grow even when cursor is outside canvas
       // We'll clamp the visual display but allow the raw coordinates for selection bounds
-      const clampedX = Math.max(0, Math.min(x, canvasSize - 1))
-      const clampedY = Math.max(0, Math.min(y, canvasSize - 1))
+      const clampedX = Math.max(0, Math.min(x, canvasWidth - 1))
+      const clampedY = Math.max(0, Math.min(y, canvasHeight - 1))
       
       // Update selection with the raw coordinates (for bounds calculation) but clamped for display
       setSelection(prev => prev ? { 
@@ -397,6 +630,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     const handleGlobalMouseUp = (_e: MouseEvent) => {
       if (!selection || (selectedTool !== 'select' && selectedTool !== 'lasso' && selectedTool !== 'move-selection') || (!isSelecting && !isLassoing && !isMovingSelection)) return
       
+      if (selectedTool !== 'move-selection') finishSelection()
       // Complete the selection when mouse is released anywhere
       setIsDrawing(false)
       setLastPos(null)
@@ -411,13 +645,14 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       document.removeEventListener('mousemove', handleGlobalMouseMove)
       document.removeEventListener('mouseup', handleGlobalMouseUp)
     }
-  }, [selection, selectedTool, isSelecting, isLassoing, isMovingSelection, activeLayer, pixelSize, canvasSize])
+  }, [selection, selectedTool, isSelecting, isLassoing, isMovingSelection, activeLayer, getPixelCoordinates, canvasWidth, canvasHeight, finishSelection])
 
   // Initialize canvas when size changes
   useEffect(() => {
-    setPixels(new Map())
+    setFramePixels(new Map())
     setLastPos(null)
     setSelection(null)
+    setViewport(DEFAULT_VIEWPORT)
     historyManagerRef.current.clear()
     setCurrentDrawingAction({
       tool: 'pencil',
@@ -425,7 +660,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       canvasStateBeforeDrawing: null,
       isActive: false
     })
-  }, [canvasSize])
+  }, [canvasWidth, canvasHeight])
 
   // Clear selection when switching away from select tool
   // REMOVED: Selection now persists across tool changes
@@ -458,19 +693,24 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
   const drawWithBrushPattern = useCallback((x: number, y: number, color: Color) => {
     if (!activeLayer || !currentDrawingAction.isActive) return
     
-    applyBrushPattern(currentBrushPattern, x, y, (pixelX, pixelY) => {
+    applyMirroredBrush(x, y, (pixelX, pixelY) => {
       // Check bounds
-      if (pixelX < 0 || pixelX >= canvasSize || pixelY < 0 || pixelY >= canvasSize) return
+      if (pixelX < 0 || pixelX >= canvasWidth || pixelY < 0 || pixelY >= canvasHeight || !isPaintable(pixelX, pixelY)) return
       
       const key = `${pixelX},${pixelY}`
       const existingPixel = pixels.get(key)
       
       // Only update if the pixel actually changes
       if (color === 'transparent') {
-        if (existingPixel) {
+        const erased = existingPixel ? getErasedColor(key, currentDrawingAction.canvasStateBeforeDrawing) : 'transparent'
+        if (existingPixel && existingPixel.color !== erased) {
           setPixels(prevPixels => {
             const newPixels = new Map(prevPixels)
-            newPixels.delete(key)
+            if (erased === 'transparent') {
+              newPixels.delete(key)
+            } else {
+              newPixels.set(key, { x: pixelX, y: pixelY, color: erased, layerId: activeLayer.id })
+            }
             return newPixels
           })
         }
@@ -489,7 +729,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         }
       }
     })
-  }, [pixels, activeLayer, currentDrawingAction.isActive, brushSize, canvasSize, currentBrushPattern])
+  }, [pixels, activeLayer, currentDrawingAction.isActive, currentDrawingAction.canvasStateBeforeDrawing, brushSize, canvasWidth, canvasHeight, applyMirroredBrush, getErasedColor, isPaintable])
 
   // Draw rectangle between two points
   const drawRectangle = useCallback((startX: number, startY: number, endX: number, endY: number, color: Color, isFilled: boolean = true) => {
@@ -506,7 +746,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       // For border only, we need to draw just the outline
       // Draw top edge
       for (let x = minX; x < maxX; x++) {
-        if (x >= 0 && x < canvasSize && minY >= 0 && minY < canvasSize) {
+        if (x >= 0 && x < canvasWidth && minY >= 0 && minY < canvasHeight) {
           const key = `${x},${minY}`
           newPixels.set(key, {
             x,
@@ -518,7 +758,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       }
       // Draw bottom edge
       for (let x = minX; x < maxX; x++) {
-        if (x >= 0 && x < canvasSize && maxY - 1 >= 0 && maxY - 1 < canvasSize) {
+        if (x >= 0 && x < canvasWidth && maxY - 1 >= 0 && maxY - 1 < canvasHeight) {
           const key = `${x},${maxY - 1}`
           newPixels.set(key, {
             x,
@@ -530,7 +770,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       }
       // Draw left edge
       for (let y = minY; y < maxY; y++) {
-        if (minX >= 0 && minX < canvasSize && y >= 0 && y < canvasSize) {
+        if (minX >= 0 && minX < canvasWidth && y >= 0 && y < canvasHeight) {
           const key = `${minX},${y}`
           newPixels.set(key, {
             x: minX,
@@ -542,7 +782,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       }
       // Draw right edge
       for (let y = minY; y < maxY; y++) {
-        if (maxX - 1 >= 0 && maxX - 1 < canvasSize && y >= 0 && y < canvasSize) {
+        if (maxX - 1 >= 0 && maxX - 1 < canvasWidth && y >= 0 && y < canvasHeight) {
           const key = `${maxX - 1},${y}`
           newPixels.set(key, {
             x: maxX - 1,
@@ -556,7 +796,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       // For filled rectangle, fill the entire area
       for (let y = minY; y < maxY; y++) {
         for (let x = minX; x < maxX; x++) {
-          if (x < 0 || x >= canvasSize || y < 0 || y >= canvasSize) continue
+          if (x < 0 || x >= canvasWidth || y < 0 || y >= canvasHeight) continue
           
           const key = `${x},${y}`
           newPixels.set(key, {
@@ -571,7 +811,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     
     setPixels(newPixels)
     return newPixels
-  }, [pixels, activeLayer, canvasSize])
+  }, [pixels, activeLayer, canvasWidth, canvasHeight])
 
   // Draw circle based on bounding box with improved binary pixel system symmetry
   const drawCircle = useCallback((startX: number, startY: number, endX: number, endY: number, color: Color, isFilled: boolean = true) => {
@@ -589,9 +829,9 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (isFilled) {
       // Fill the entire circle area
       const minX = Math.max(0, centerX - radius)
-      const maxX = Math.min(canvasSize - 1, centerX + radius)
+      const maxX = Math.min(canvasWidth - 1, centerX + radius)
       const minY = Math.max(0, centerY - radius)
-      const maxY = Math.min(canvasSize - 1, centerY + radius)
+      const maxY = Math.min(canvasHeight - 1, centerY + radius)
       
       for (let y = minY; y <= maxY; y++) {
         for (let x = minX; x <= maxX; x++) {
@@ -629,7 +869,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         ]
         
         for (const [px, py] of points) {
-          if (px < 0 || px >= canvasSize || py < 0 || py >= canvasSize) continue
+          if (px < 0 || px >= canvasWidth || py < 0 || py >= canvasHeight) continue
           
           const key = `${px},${py}`
           if (!drawnPixels.has(key)) {
@@ -663,7 +903,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         ]
         
         for (const [px, py] of cardinalDirections) {
-          if (px < 0 || px >= canvasSize || py < 0 || py >= canvasSize) continue
+          if (px < 0 || px >= canvasWidth || py < 0 || py >= canvasHeight) continue
           
           const key = `${px},${py}`
           if (drawnPixels.has(key)) {
@@ -681,7 +921,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             
             // Add adjacent pixels if they're within bounds
             for (const [adjX, adjY] of adjacentPoints) {
-              if (adjX < 0 || adjX >= canvasSize || adjY < 0 || adjY >= canvasSize) continue
+              if (adjX < 0 || adjX >= canvasWidth || adjY < 0 || adjY >= canvasHeight) continue
               
               const adjKey = `${adjX},${adjY}`
               if (!drawnPixels.has(adjKey)) {
@@ -714,7 +954,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
           ]
           
           for (const [px, py] of points) {
-            if (px < 0 || px >= canvasSize || py < 0 || py >= canvasSize) continue
+            if (px < 0 || px >= canvasWidth || py < 0 || py >= canvasHeight) continue
             
             const key = `${px},${py}`
             if (!drawnPixels.has(key)) {
@@ -742,7 +982,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     
     setPixels(newPixels)
     return newPixels
-  }, [pixels, activeLayer, canvasSize])
+  }, [pixels, activeLayer, canvasWidth, canvasHeight])
 
   // Draw line between two points using Bresenham's algorithm
   const drawLine = useCallback((startX: number, startY: number, endX: number, endY: number, color: Color) => {
@@ -763,7 +1003,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     let err = dx - dy
     
     while (true) {
-      if (x0 >= 0 && x0 < canvasSize && y0 >= 0 && y0 < canvasSize) {
+      if (x0 >= 0 && x0 < canvasWidth && y0 >= 0 && y0 < canvasHeight) {
         const key = `${x0},${y0}`
         const existingPixel = pixels.get(key)
         
@@ -796,25 +1036,30 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     
     setPixels(newPixels)
     return newPixels
-  }, [pixels, activeLayer, canvasSize])
+  }, [pixels, activeLayer, canvasWidth, canvasHeight])
 
   // New method for drawing with brush patterns that takes drawing action as parameter
   const drawWithBrushPatternWithAction = useCallback((x: number, y: number, color: Color, drawingAction: any) => {
     if (!activeLayer || !drawingAction.isActive) return
     
-    applyBrushPattern(currentBrushPattern, x, y, (pixelX, pixelY) => {
+    applyMirroredBrush(x, y, (pixelX, pixelY) => {
       // Check bounds
-      if (pixelX < 0 || pixelX >= canvasSize || pixelY < 0 || pixelY >= canvasSize) return
+      if (pixelX < 0 || pixelX >= canvasWidth || pixelY < 0 || pixelY >= canvasHeight || !isPaintable(pixelX, pixelY)) return
       
       const key = `${pixelX},${pixelY}`
       const existingPixel = pixels.get(key)
       
       // Only update if the pixel actually changes
       if (color === 'transparent') {
-        if (existingPixel) {
+        const erased = existingPixel ? getErasedColor(key, drawingAction.canvasStateBeforeDrawing) : 'transparent'
+        if (existingPixel && existingPixel.color !== erased) {
           setPixels(prevPixels => {
             const newPixels = new Map(prevPixels)
-            newPixels.delete(key)
+            if (erased === 'transparent') {
+              newPixels.delete(key)
+            } else {
+              newPixels.set(key, { x: pixelX, y: pixelY, color: erased, layerId: activeLayer.id })
+            }
             return newPixels
           })
         }
@@ -833,10 +1078,14 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         }
       }
     })
-  }, [pixels, activeLayer, brushSize, canvasSize, currentBrushPattern])
+  }, [pixels, activeLayer, brushSize, canvasWidth, canvasHeight, applyMirroredBrush, getErasedColor, isPaintable])
 
   // Apply a stroke operation (for undo/redo)
   const applyStrokeOperation = useCallback((operation: StrokeOperation, reverse: boolean = false) => {
+    // Operations always apply to the layer and frame they were recorded on, not the currently active ones
+    const operationFrameId = operation.frameId ?? frameIdRef.current
+    const targetPixels = framePixels.get(operationFrameId)?.get(operation.layerId) || EMPTY_LAYER_PIXELS
+    
     // Handle selection operations
     if (operation.tool === 'select' && operation.metadata?.selectionBounds) {
       if (reverse) {
@@ -850,7 +1099,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
           startPos: { x: bounds.startX, y: bounds.startY },
           currentPos: { x: bounds.endX, y: bounds.endY },
           isActive: true,
-          content: content
+          content: content,
+          mask: operation.metadata.selectionMask ?? createRectMask(bounds, canvasWidth, canvasHeight)
         })
       }
       return
@@ -872,7 +1122,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (operation.tool === 'cut' && operation.metadata?.selectionBounds) {
       if (reverse) {
         // Undo: restore the cut pixels
-        const newPixels = new Map(pixels)
+        const newPixels = new Map(targetPixels)
         operation.pixels.forEach(({ x, y, previousColor }) => {
           if (previousColor !== 'transparent') {
             newPixels.set(`${x},${y}`, {
@@ -883,7 +1133,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             })
           }
         })
-        setPixels(newPixels)
+        setPixelsForLayer(operation.layerId, newPixels, operationFrameId)
         
         // Restore selection
         const bounds = operation.metadata.selectionBounds
@@ -891,7 +1141,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
           startPos: { x: bounds.startX, y: bounds.startY },
           currentPos: { x: bounds.endX, y: bounds.endY },
           isActive: true,
-          content: new Map() // Initialize content for new selection
+          content: new Map(), // Initialize content for new selection
+          mask: operation.metadata.selectionMask ?? createRectMask(bounds, canvasWidth, canvasHeight)
         })
       } else {
         // Redo: re-apply the cut (pixels are already removed)
@@ -901,7 +1152,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
           startPos: { x: bounds.startX, y: bounds.startY },
           currentPos: { x: bounds.endX, y: bounds.endY },
           isActive: true,
-          content: new Map() // Initialize content for new selection
+          content: new Map(), // Initialize content for new selection
+          mask: operation.metadata.selectionMask ?? createRectMask(bounds, canvasWidth, canvasHeight)
         })
       }
       return
@@ -911,7 +1163,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (operation.tool === 'paste' && operation.metadata?.pasteBounds) {
       if (reverse) {
         // Undo: remove the pasted pixels
-        const newPixels = new Map(pixels)
+        const newPixels = new Map(targetPixels)
         operation.pixels.forEach(({ x, y, previousColor }) => {
           if (previousColor === 'transparent') {
             newPixels.delete(`${x},${y}`)
@@ -924,13 +1176,13 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             })
           }
         })
-        setPixels(newPixels)
+        setPixelsForLayer(operation.layerId, newPixels, operationFrameId)
         
         // Clear selection
         setSelection(null)
       } else {
         // Redo: re-apply the paste
-        const newPixels = new Map(pixels)
+        const newPixels = new Map(targetPixels)
         operation.pixels.forEach(({ x, y, newColor }) => {
           if (newColor === 'transparent') {
             newPixels.delete(`${x},${y}`)
@@ -943,7 +1195,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             })
           }
         })
-        setPixels(newPixels)
+        setPixelsForLayer(operation.layerId, newPixels, operationFrameId)
         
         // Restore selection around pasted content
         const bounds = operation.metadata.pasteBounds
@@ -951,17 +1203,28 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
           startPos: { x: bounds.startX, y: bounds.startY },
           currentPos: { x: bounds.endX, y: bounds.endY },
           isActive: true,
-          content: operation.metadata.clipboardContent || new Map()
+          content: operation.metadata.clipboardContent || new Map(),
+          mask: new Set(operation.pixels.filter(p => p.newColor !== 'transparent').map(p => `${p.x},${p.y}`))
         })
       }
       return
     }
     
+    // Handle layer changes: put back the whole layer stack and the buffers the change rewrote
+    if (operation.tool === 'layer' && operation.metadata?.layerChange) {
+      const change = operation.metadata.layerChange
+      setFramePixels(prev => restoreLayerBuffers(prev, reverse ? change.pixelsBefore : change.pixelsAfter, change.layerIds))
+      onLayersChange?.(reverse ? change.layersBefore : change.layersAfter)
+      const groups = reverse ? change.groupsBefore : change.groupsAfter
+      if (groups) onLayerGroupsChange?.(groups)
+      return
+    }
+
     // Handle template operations
     if (operation.tool === 'template') {
       if (reverse) {
         // Undo: restore previous pixels
-        const newPixels = new Map(pixels)
+        const newPixels = new Map(targetPixels)
         operation.pixels.forEach(({ x, y, previousColor }) => {
           if (previousColor === 'transparent') {
             newPixels.delete(`${x},${y}`)
@@ -974,10 +1237,10 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             })
           }
         })
-        setPixels(newPixels)
+        setPixelsForLayer(operation.layerId, newPixels, operationFrameId)
       } else {
         // Redo: apply template pixels
-        const newPixels = new Map(pixels)
+        const newPixels = new Map(targetPixels)
         operation.pixels.forEach(({ x, y, newColor }) => {
           if (newColor === 'transparent') {
             newPixels.delete(`${x},${y}`)
@@ -990,46 +1253,25 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             })
           }
         })
-        setPixels(newPixels)
+        setPixelsForLayer(operation.layerId, newPixels, operationFrameId)
       }
       return
     }
     
-    // Handle pixel-based operations
-    const newPixels = new Map(pixels)
-    
-    operation.pixels.forEach(({ x, y, previousColor, newColor }) => {
-      const key = `${x},${y}`
-      
-      if (reverse) {
-        // Undo: restore previous color
-        if (previousColor === 'transparent') {
-          newPixels.delete(key)
-        } else {
-          newPixels.set(key, {
-            x,
-            y,
-            color: previousColor,
-            layerId: operation.layerId
-          })
-        }
-      } else {
-        // Redo: apply new color
-        if (newColor === 'transparent') {
-          newPixels.delete(key)
-        } else {
-          newPixels.set(key, {
-            x,
-            y,
-            color: newColor,
-            layerId: operation.layerId
-          })
-        }
-      }
+    // Handle pixel-based operations; pixels may carry their own layer when the operation spans several
+    const changesByLayer = new Map<number, StrokeOperation['pixels']>()
+    operation.pixels.forEach(change => {
+      const layerId = change.layerId ?? operation.layerId
+      changesByLayer.set(layerId, [...(changesByLayer.get(layerId) || []), change])
     })
-    
-    setPixels(newPixels)
-  }, [pixels])
+
+    changesByLayer.forEach((changes, layerId) => {
+      const layerBuffer = layerId === operation.layerId
+        ? targetPixels
+        : framePixels.get(operationFrameId)?.get(layerId) || EMPTY_LAYER_PIXELS
+      setPixelsForLayer(layerId, applyColorChanges(layerBuffer, changes, layerId, reverse), operationFrameId)
+    })
+  }, [framePixels, setPixelsForLayer, onLayersChange, onLayerGroupsChange, canvasWidth, canvasHeight])
 
   // Dispatch history change events when operations are added
   const dispatchHistoryChange = useCallback(() => {
@@ -1063,15 +1305,24 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
 
   // Template application method
   const applyTemplate = useCallback((templatePixels: Map<string, PixelData>) => {
+    if (layers.some(l => l.active && l.locked)) return
+    const layerId = activeLayer?.id || 1
+    
     // Store the current state for history
-    const previousPixels = new Map(pixels)
+    const previousPixels = new Map(layerPixels.get(layerId) || EMPTY_LAYER_PIXELS)
+    
+    // Template pixels are placed on the target layer regardless of the layer they were saved from
+    const layerTemplatePixels = new Map<string, PixelData>()
+    templatePixels.forEach((pixel, key) => {
+      layerTemplatePixels.set(key, { ...pixel, layerId })
+    })
     
     // Create a proper history entry for the template application
     // We need to record both what was there before AND what the template puts there
     const templateOperation = {
       id: `template-${Date.now()}`,
       tool: 'template' as Tool,
-      layerId: activeLayer?.id || 1,
+      layerId,
       pixels: [] as Array<{ x: number; y: number; previousColor: Color; newColor: Color }>,
       timestamp: Date.now(),
       metadata: {}
@@ -1109,33 +1360,93 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       }
     })
     
-    // Update internal pixels
-    setPixels(templatePixels)
+    // Update the target layer's pixels (the parent is notified through the layerPixels effect)
+    setPixelsForLayer(layerId, layerTemplatePixels)
     
     // Add to history
-    historyManagerRef.current.pushOperation(templateOperation)
-    
-    // Notify parent of the change
-    if (onPixelsChange) {
-      onPixelsChange(templatePixels)
-    }
+    recordOperation(templateOperation)
     
     // Dispatch history change event
     dispatchHistoryChange()
-  }, [pixels, activeLayer, onPixelsChange, dispatchHistoryChange])
+  }, [layers, layerPixels, activeLayer, setPixelsForLayer, dispatchHistoryChange])
+
+  // Replace every frame's pixels at once (opening or starting a project); history does not carry over
+  const loadFramePixels = useCallback((newFramePixels: FramePixels) => {
+    const loaded = new Map(newFramePixels)
+    setFramePixels(indexedPaletteRef.current ? applyPaletteToFramePixels(loaded, indexedPaletteRef.current) : loaded)
+    setSelection(null)
+    setShapePreview(null)
+    setLastPos(null)
+    historyManagerRef.current.clear()
+    dispatchHistoryChange()
+  }, [dispatchHistoryChange])
+
+  // Bring back undo/redo stacks saved with the pixels that were just loaded
+  const loadHistory = useCallback((history: Pick<HistoryState, 'undoStack' | 'redoStack'>) => {
+    historyManagerRef.current.restore(history.undoStack, history.redoStack)
+    dispatchHistoryChange()
+  }, [dispatchHistoryChange])
+
+  // Copy all layer pixels of one frame into another (used when duplicating frames)
+  const copyFramePixels = useCallback((sourceFrameId: number, targetFrameId: number) => {
+    setFramePixels(prev => {
+      const newFramePixels = new Map(prev)
+      const copy: LayerPixels = new Map()
+      prev.get(sourceFrameId)?.forEach((buffer, layerId) => {
+        copy.set(layerId, new Map(buffer))
+      })
+      newFramePixels.set(targetFrameId, copy)
+      return newFramePixels
+    })
+  }, [])
+
+  // Where fill and the magic wand look for matching colors: the active layer, or what is visible
+  const getFillSource = useCallback((): Map<string, PixelData> => (
+    fillSettings.sampleAllLayers ? compositeLayers(compositeStack, layerPixels) : pixels
+  ), [fillSettings.sampleAllLayers, compositeStack, layerPixels, pixels])
+
+  // Flood fill algorithm with history tracking. Gradient and dither fills run from the start
+  // pixel to gradientEnd
+  const floodFill = useCallback((startX: number, startY: number, replacementColor: Color, gradientEnd = { x: startX, y: startY }) => {
+    const source = getFillSource()
+    const getSourceColor = (x: number, y: number): Color => source.get(`${x},${y}`)?.color ?? 'transparent'
+    const targetColor = getSourceColor(startX, startY)
+
+    // Filling a color with itself changes nothing, unless other pixels or layers can match too
+    if (fillSettings.mode === 'solid' && targetColor === replacementColor && fillSettings.tolerance <= 0 && !fillSettings.sampleAllLayers) return
+
+    // Pattern fills tile whatever was last copied or cut, or else the selected pixels of the active layer.
+    // With neither there is nothing to tile
+    const selectionBounds = fillSettings.mode === 'pattern' && !clipboard && selection ? getMaskBounds(selection.mask) : null
+    const pattern = selectionBounds
+      ? { pixels: getMaskContent(selection!.mask, pixels, selectionBounds), bounds: selectionBounds }
+      : clipboard
+    if (fillSettings.mode === 'pattern' && !pattern) return
+
+    const paint = createFillPainter(fillSettings, {
+      primaryColor: replacementColor,
+      secondaryColor,
+      palette,
+      pattern,
+      start: { x: startX, y: startY },
+      end: gradientEnd
+    })
+
+    // With symmetry on, the mirrored positions are filled in the same pass (and the same history entry).
+    // The fill stops at the edge of the selection, unless the selection is the pattern
+    const region = findFillRegion(
+      getSourceColor,
+      getMirrorPoints(startX, startY, symmetry),
+      targetColor,
+      canvasWidth,
+      canvasHeight,
+      fillSettings,
+      selectionBounds ? undefined : isPaintable
+    )
 
-  // Flood fill algorithm with history tracking
-  const floodFill = useCallback((startX: number, startY: number, targetColor: Color, replacementColor: Color) => {
-    // Only return early if we're trying to fill with the exact same color AND it's not transparent
-    // This allows filling transparent areas with transparent colors (useful for erasing)
-    if (targetColor === replacementColor && targetColor !== 'transparent') return
-    
     // Create a local copy of pixels to avoid race conditions during the fill
     const localPixels = new Map(pixels)
-    const stack: [number, number][] = [[startX, startY]]
-    const visited = new Set<string>()
-    let filledCount = 0
-    
+
     // Track changes for history
     const fillChanges: Array<{
       x: number
@@ -1143,114 +1454,70 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       previousColor: Color
       newColor: Color
     }> = []
-    
-    while (stack.length > 0) {
-      const [x, y] = stack.pop()!
-      const key = `${x},${y}`
-      
-      if (visited.has(key)) continue
-      visited.add(key)
-      
-      // Check if current position matches target color
-      // For transparent areas, we need to check if there's no pixel OR if the pixel is transparent
-      const currentPixel = localPixels.get(key)
-      const currentColor = currentPixel ? currentPixel.color : 'transparent'
-      
-      if (currentColor !== targetColor) continue
-      
-      // Record the change
-      fillChanges.push({
-        x,
-        y,
-        previousColor: currentColor,
-        newColor: replacementColor
-      })
-      
-      // Update the local pixels Map instead of calling drawPixel
-      if (replacementColor === 'transparent') {
+
+    region.forEach(key => {
+      const [x, y] = key.split(',').map(Number)
+      const newColor = paint(x, y)
+      const previousColor = localPixels.get(key)?.color ?? 'transparent'
+      if (newColor === null || previousColor === newColor) return
+
+      fillChanges.push({ x, y, previousColor, newColor })
+      if (newColor === 'transparent') {
         localPixels.delete(key)
       } else {
         localPixels.set(key, {
           x,
           y,
-          color: replacementColor,
+          color: newColor,
           layerId: activeLayer!.id
         })
       }
-      filledCount++
-      
-      // Add neighbors
-      const neighbors = [
-        [x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]
-      ]
-      
-      for (const [nx, ny] of neighbors) {
-        if (nx >= 0 && nx < canvasSize && ny >= 0 && ny < canvasSize) {
-          stack.push([nx, ny])
-        }
-      }
-    }
-    
+    })
+
+    if (fillChanges.length === 0 || !activeLayer) return
+
     // After flood fill is complete, update the state with all changes at once
-    setPixels(new Map(localPixels))
+    setPixels(localPixels)
 
     // Record the fill operation in history
-    if (fillChanges.length > 0 && activeLayer) {
-      const operation = historyManagerRef.current.createStrokeOperation(
-        'fill',
-        activeLayer.id,
-        fillChanges
-      )
-      historyManagerRef.current.pushOperation(operation)
-      dispatchHistoryChange() // Dispatch history change event
-    }
-  }, [pixels, activeLayer, canvasSize])
-
-  // Get color at position
-  const getColorAt = useCallback((x: number, y: number): Color => {
-    const key = `${x},${y}`
-    const pixel = pixels.get(key)
-    return pixel ? pixel.color : 'transparent'
-  }, [pixels])
+    const operation = historyManagerRef.current.createStrokeOperation(
+      'fill',
+      activeLayer.id,
+      fillChanges
+    )
+    recordOperation(operation)
+    dispatchHistoryChange() // Dispatch history change event
+  }, [pixels, activeLayer, canvasWidth, canvasHeight, symmetry, isPaintable, fillSettings, getFillSource, secondaryColor, palette, clipboard, selection])
 
   // Handle mouse events
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Middle mouse or space + drag pans the view instead of using the tool
+    if (e.button === 1 || isSpaceHeld) {
+      e.preventDefault()
+      setPanStart({ clientX: e.clientX, clientY: e.clientY, panX: viewport.panX, panY: viewport.panY })
+      return
+    }
+
     if (!activeLayer) return
     
-    const rect = canvasRef.current!.getBoundingClientRect()
-    const x = Math.floor((e.clientX - rect.left) / pixelSize)
-    const y = Math.floor((e.clientY - rect.top) / pixelSize)
+    const { x, y } = getPixelCoordinates(e.clientX, e.clientY)
     
     // For select tool, allow starting outside canvas boundaries
     // For other tools, require coordinates to be within bounds
-    if (selectedTool !== 'select' && (x < 0 || x >= canvasSize || y < 0 || y >= canvasSize)) return
+    if (selectedTool !== 'select' && (x < 0 || x >= canvasWidth || y < 0 || y >= canvasHeight)) return
+    
+    // Shift adds the new selection to the current one, Alt subtracts it and both intersect
+    const selectionMode = selection ? getSelectionMode(e.shiftKey, e.altKey) : 'replace'
     
           // For select and lasso tools, always clear existing selection when starting a new one
     if ((selectedTool === 'select' || selectedTool === 'lasso' || selectedTool === 'magic-wand') && selection) {
+      setSelectionBase(selectionMode !== 'replace' ? { mode: selectionMode, mask: selection.mask } : null)
       setSelection(null)
       setIsSelecting(false) // Stop any active selecting
       setIsLassoing(false) // Stop any active lassoing
       setLassoPath([]) // Clear lasso path
     }
-    // For move-selection tool, don't clear selection - just start moving
-    else if (selectedTool === 'move-selection' && selection) {
-      // Don't clear selection, just start moving
-      // This prevents the selection from being resized or cleared
-    }
-    // For other tools, clear selection if clicking outside the current selection area
-    else if (selection) {
-      const minX = Math.min(selection.startPos.x, selection.rawCurrentPos?.x ?? selection.currentPos.x)
-      const maxX = Math.max(selection.startPos.x, selection.rawCurrentPos?.x ?? selection.currentPos.x)
-      const minY = Math.min(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y)
-      const maxY = Math.max(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y)
-      
-      if (x < minX || x > maxX || y < minY || y > maxY) {
-        setSelection(null)
-        setIsSelecting(false) // Stop any active selecting
-        setIsLassoing(false) // Stop any active lassoing
-        setLassoPath([]) // Clear lasso path
-      }
-    }
+    // Other tools keep the selection, even when clicking outside it: painting is clipped to it
     
     setIsDrawing(true)
     setLastPos({ x, y })
@@ -1268,12 +1535,17 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     
     // Handle immediate tools (fill, eyedropper) - these don't create drawing actions
     if (selectedTool === 'fill') {
-      const targetColor = getColorAt(x, y)
-      floodFill(x, y, targetColor, primaryColor)
+      if (fillSettings.mode === 'gradient' || fillSettings.mode === 'dither') {
+        // Gradients are dragged out first and fill on mouse up
+        setShapePreview({ tool: 'fill', startPos: { x, y }, currentPos: { x, y } })
+      } else {
+        floodFill(x, y, primaryColor)
+      }
       // Fill tool doesn't create a drawing action, so reset
       setCurrentDrawingAction(prev => ({ ...prev, isActive: false }))
     } else if (selectedTool === 'eyedropper') {
-      const color = getColorAt(x, y)
+      // Sample what is actually visible, not just the active layer
+      const color = getCompositeColorAt(compositeStack, layerPixels, x, y)
       if (color !== 'transparent' && onPrimaryColorChange) {
         onPrimaryColorChange(color)
       }
@@ -1291,28 +1563,30 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     } else if (selectedTool === 'select') {
       // For select tool, start tracking the selection rectangle
       // Clamp coordinates to canvas boundaries for selection tool
-      const clampedX = Math.max(0, Math.min(x, canvasSize - 1))
-      const clampedY = Math.max(0, Math.min(y, canvasSize - 1))
+      const clampedX = Math.max(0, Math.min(x, canvasWidth - 1))
+      const clampedY = Math.max(0, Math.min(y, canvasHeight - 1))
       setSelection({
         startPos: { x: clampedX, y: clampedY },
         currentPos: { x: clampedX, y: clampedY },
         rawCurrentPos: { x: clampedX, y: clampedY }, // Initialize raw coordinates
         isActive: true,
-        content: new Map() // Initialize content for new selection
+        content: new Map(), // Initialize content for new selection
+        mask: new Set()
       })
       setIsSelecting(true) // Start actively selecting
       // Don't create a drawing action - selection is just visual
       setCurrentDrawingAction(prev => ({ ...prev, isActive: false }))
     } else if (selectedTool === 'lasso') {
       // For lasso tool, start tracking the free-form selection path
-      const clampedX = Math.max(0, Math.min(x, canvasSize - 1))
-      const clampedY = Math.max(0, Math.min(y, canvasSize - 1))
+      const clampedX = Math.max(0, Math.min(x, canvasWidth - 1))
+      const clampedY = Math.max(0, Math.min(y, canvasHeight - 1))
       setSelection({
         startPos: { x: clampedX, y: clampedY },
         currentPos: { x: clampedX, y: clampedY },
         rawCurrentPos: { x: clampedX, y: clampedY }, // Initialize raw coordinates
         isActive: true,
-        content: new Map() // Initialize content for new selection
+        content: new Map(), // Initialize content for new selection
+        mask: new Set()
       })
       setIsLassoing(true) // Start actively lassoing
       // Start the lasso path with pixel-perfect coordinates
@@ -1320,39 +1594,16 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       // Don't create a drawing action - lasso is just visual
       setCurrentDrawingAction(prev => ({ ...prev, isActive: false }))
     } else if (selectedTool === 'magic-wand') {
-      // For magic wand tool, select adjacent pixels of the same color
-      const clampedX = Math.max(0, Math.min(x, canvasSize - 1))
-      const clampedY = Math.max(0, Math.min(y, canvasSize - 1))
-      const targetColor = getColorAt(clampedX, clampedY)
-      
-      // Use flood fill algorithm to find all adjacent pixels of the same color
-      const selectedPixels = magicWandSelect(clampedX, clampedY, targetColor)
-      
-      if (selectedPixels.size > 0) {
-        // For magic wand, we need to create a selection that represents the actual pixels
-        // rather than just a bounding rectangle. We'll use the first pixel as start and
-        // create a special selection type that the rendering system can handle.
-        
-        // Find the bounds of the selected pixels
-        let minX = clampedX, maxX = clampedX, minY = clampedY, maxY = clampedY
-        selectedPixels.forEach((pixel: PixelData) => {
-          minX = Math.min(minX, pixel.x)
-          maxX = Math.max(maxX, pixel.x)
-          minY = Math.min(minY, pixel.y)
-          maxY = Math.max(maxY, pixel.y)
-        })
-        
-        // Create a selection that covers the actual selected pixels
-        setSelection({
-          startPos: { x: minX, y: minY },
-          currentPos: { x: maxX, y: maxY },
-          rawCurrentPos: { x: maxX, y: maxY },
-          isActive: true,
-          content: selectedPixels
-        })
-        setIsSelecting(false) // Magic wand doesn't need active selecting
-        setCurrentDrawingAction(prev => ({ ...prev, isActive: false }))
-      }
+      // For magic wand tool, select the pixels matching the clicked color
+      const clampedX = Math.max(0, Math.min(x, canvasWidth - 1))
+      const clampedY = Math.max(0, Math.min(y, canvasHeight - 1))
+      // Flood fill finds all adjacent pixels of the same color; it selects at once, so it
+      // combines with the current selection right away
+      const wandMask = magicWandSelect(clampedX, clampedY)
+      selectMask(selectionMode !== 'replace' ? combineMasks(selection?.mask ?? null, wandMask, selectionMode) : wandMask)
+      setSelectionBase(null)
+      setIsSelecting(false) // Magic wand doesn't need active selecting
+      setCurrentDrawingAction(prev => ({ ...prev, isActive: false }))
     } else if (selectedTool === 'move-selection') {
       // For move-selection tool, check if we have an active selection
       if (selection) {
@@ -1381,9 +1632,16 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
   }
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const rect = canvasRef.current!.getBoundingClientRect()
-    const x = Math.floor((e.clientX - rect.left) / pixelSize)
-    const y = Math.floor((e.clientY - rect.top) / pixelSize)
+    if (panStart) {
+      setViewport(prev => ({
+        ...prev,
+        panX: panStart.panX + e.clientX - panStart.clientX,
+        panY: panStart.panY + e.clientY - panStart.clientY
+      }))
+      return
+    }
+
+    const { x, y } = getPixelCoordinates(e.clientX, e.clientY)
     
     // Handle move-selection tool first (it doesn't require isDrawing or lastPos)
     if (isMovingSelection && moveStartPos && selection) {
@@ -1397,10 +1655,10 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (!isDrawing || !lastPos || !activeLayer) return
     
     // For non-select tools, require coordinates to be within bounds
-    if (x < 0 || x >= canvasSize || y < 0 || y >= canvasSize) return
+    if (x < 0 || x >= canvasWidth || y < 0 || y >= canvasHeight) return
     
     // Handle shape preview updates
-    if (shapePreview && (selectedTool === 'rectangle-border' || selectedTool === 'rectangle-filled' || selectedTool === 'circle-border' || selectedTool === 'circle-filled' || selectedTool === 'line')) {
+    if (shapePreview && (selectedTool === 'rectangle-border' || selectedTool === 'rectangle-filled' || selectedTool === 'circle-border' || selectedTool === 'circle-filled' || selectedTool === 'line' || selectedTool === 'fill')) {
       setShapePreview(prev => prev ? { ...prev, currentPos: { x, y } } : null)
       return
     }
@@ -1437,8 +1695,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         
         while (true) {
           // Apply brush pattern to collect all pixels for this position
-          applyBrushPattern(currentBrushPattern, currentX, currentY, (pixelX, pixelY) => {
-            if (pixelX < 0 || pixelX >= canvasSize || pixelY < 0 || pixelY >= canvasSize) return
+          applyMirroredBrush(currentX, currentY, (pixelX, pixelY) => {
+            if (pixelX < 0 || pixelX >= canvasWidth || pixelY < 0 || pixelY >= canvasHeight || !isPaintable(pixelX, pixelY)) return
             
             const key = `${pixelX},${pixelY}`
             const existingPixel = pixels.get(key)
@@ -1446,9 +1704,10 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             
             // Only add if the pixel actually changes
             if (color === 'transparent') {
-              if (existingPixel) {
-                // Mark for deletion (we'll handle this in the batch update)
-                pixelsToUpdate.set(key, { x: pixelX, y: pixelY, color: 'transparent', layerId: activeLayer.id })
+              const erased = existingPixel ? getErasedColor(key, currentDrawingAction.canvasStateBeforeDrawing) : 'transparent'
+              if (existingPixel && existingPixel.color !== erased) {
+                // Transparent pixels are deleted in the batch update
+                pixelsToUpdate.set(key, { x: pixelX, y: pixelY, color: erased, layerId: activeLayer.id })
               }
             } else {
               if (!existingPixel || existingPixel.color !== color) {
@@ -1493,8 +1752,20 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
   }
 
   const handleMouseUp = () => {
+    if (panStart) {
+      setPanStart(null)
+      return
+    }
+
     setIsDrawing(false)
     setLastPos(null)
+
+    // Complete a gradient or dither fill where the drag ends
+    if (shapePreview?.tool === 'fill') {
+      floodFill(shapePreview.startPos.x, shapePreview.startPos.y, primaryColor, shapePreview.currentPos)
+      setShapePreview(null)
+      return
+    }
     
     // Handle shape completion
     if (shapePreview) {
@@ -1523,6 +1794,18 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       } else {
         newPixels = new Map(pixels)
       }
+
+      // Repeat the shape at its mirror images so the whole result is recorded as one operation
+      if (symmetry && symmetry.mode !== 'none') {
+        newPixels = mirrorPixelChanges(canvasStateBeforeDrawing, newPixels, symmetry, canvasWidth, canvasHeight)
+        setPixels(newPixels)
+      }
+
+      // Only the part of the shape inside the selection is painted
+      if (selection) {
+        newPixels = clipToMask(canvasStateBeforeDrawing, newPixels, selection.mask)
+        setPixels(newPixels)
+      }
       
       // Complete the drawing action and create history entry
       if (drawingAction.canvasStateBeforeDrawing && newPixels) {
@@ -1565,16 +1848,12 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         })
         
         if (pixelChanges.length > 0) {
-          // Capture the current canvas state after the operation
-          const canvasSnapshot = new Map(pixels)
-          
           const operation = historyManagerRef.current.createStrokeOperation(
             currentDrawingAction.tool,
             activeLayer!.id,
-            pixelChanges,
-            canvasSnapshot
+            pixelChanges
           )
-          historyManagerRef.current.pushOperation(operation)
+          recordOperation(operation)
           dispatchHistoryChange() // Dispatch history change event
           
           // If there's an active selection and we drew within it, update selection history
@@ -1586,19 +1865,14 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
               endY: Math.max(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y)
             }
             
-            // Check if any pixels were drawn within the selection bounds
-            const hasDrawnInSelection = pixelChanges.some(({ x, y }) => 
-              x >= bounds.startX && x < bounds.endX + 1 &&
-              y >= bounds.startY && y < bounds.endY + 1
-            )
+            // Check if any pixels were drawn within the selection
+            const hasDrawnInSelection = pixelChanges.some(({ x, y }) => selection.mask.has(`${x},${y}`))
             
             if (hasDrawnInSelection) {
               // Capture the new content within the selection after drawing
               const newSelectionContent = new Map<string, PixelData>()
               pixels.forEach((pixel, _key) => {
-                if (pixel.x >= bounds.startX && pixel.x < bounds.endX + 1 &&
-                    pixel.y >= bounds.startY && pixel.y < bounds.endY + 1 &&
-                    pixel.layerId === activeLayer.id) {
+                if (selection.mask.has(_key) && pixel.layerId === activeLayer.id) {
                   // Store relative coordinates for the selection content
                   const relativeX = pixel.x - bounds.startX
                   const relativeY = pixel.y - bounds.startY
@@ -1619,9 +1893,10 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
               )
               selectionOperation.metadata = {
                 selectionBounds: bounds,
-                selectionContent: newSelectionContent
+                selectionContent: newSelectionContent,
+                selectionMask: selection.mask
               }
-              historyManagerRef.current.pushOperation(selectionOperation)
+              recordOperation(selectionOperation)
               dispatchHistoryChange()
               
               // Update the selection with new content
@@ -1639,52 +1914,9 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     }
     
     // Handle selection completion
-    if (selection && selectedTool === 'select') {
-      // Calculate current selection bounds using raw coordinates - maintain original size
-      const selectionBounds = {
-        startX: Math.min(selection.startPos.x, selection.rawCurrentPos?.x ?? selection.currentPos.x),
-        startY: Math.min(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y),
-        endX: Math.max(selection.startPos.x, selection.rawCurrentPos?.x ?? selection.currentPos.x),
-        endY: Math.max(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y)
-      }
-      
-      // For pixel content, we need to clamp to canvas boundaries since we can only select existing pixels
-      // But the selection bounds themselves should maintain their size
-      const pixelContentBounds = {
-        startX: Math.max(0, selectionBounds.startX),
-        startY: Math.max(0, selectionBounds.startY),
-        endX: Math.min(canvasSize - 1, selectionBounds.endX),
-        endY: Math.min(canvasSize - 1, selectionBounds.endY)
-      }
-      
-      // Capture the actual pixel content within the selection (clamped to canvas)
-      const selectionContent = new Map<string, PixelData>()
-      pixels.forEach((pixel, _key) => {
-        if (pixel.x >= pixelContentBounds.startX && pixel.x < pixelContentBounds.endX + 1 &&
-            pixel.y >= pixelContentBounds.startY && pixel.y < pixelContentBounds.endY + 1 &&
-            pixel.layerId === activeLayer!.id) {
-          // Store relative coordinates for the selection content
-          const relativeX = pixel.x - pixelContentBounds.startX
-          const relativeY = pixel.y - pixelContentBounds.startY
-          const relativeKey = `${relativeX},${relativeY}`
-          selectionContent.set(relativeKey, {
-            ...pixel,
-            x: relativeX,
-            y: relativeY
-          })
-        }
-      })
-      
-      // Update the selection with the original bounds (maintaining size) and pixel content
-      setSelection(prev => prev ? {
-        ...prev,
-        currentPos: { x: selection.rawCurrentPos?.x ?? selection.currentPos.x, y: selection.rawCurrentPos?.y ?? selection.currentPos.y },
-        content: selectionContent
-      } : null)
-      
-      // Keep the selection persistent - don't clear it
-      // The selection will remain visible until explicitly cleared
-      // In the future, this could trigger copy/cut operations or other selection-based actions
+    if (selectedTool === 'select' || selectedTool === 'lasso') {
+      // Keep the selection persistent - it remains until explicitly cleared
+      finishSelection()
     }
     
     // Complete the drawing action and create history entry for other tools
@@ -1728,16 +1960,12 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       })
       
       if (pixelChanges.length > 0) {
-        // Capture the current canvas state after the operation
-        const canvasSnapshot = new Map(pixels)
-        
         const operation = historyManagerRef.current.createStrokeOperation(
           currentDrawingAction.tool,
           activeLayer!.id,
-          pixelChanges,
-          canvasSnapshot
+          pixelChanges
         )
-        historyManagerRef.current.pushOperation(operation)
+        recordOperation(operation)
         dispatchHistoryChange() // Dispatch history change event
         
         // If there's an active selection and we drew within it, update selection history
@@ -1749,19 +1977,14 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             endY: Math.max(selection.startPos.y, selection.rawCurrentPos?.y ?? selection.currentPos.y)
           }
           
-          // Check if any pixels were drawn within the selection bounds
-          const hasDrawnInSelection = pixelChanges.some(({ x, y }) => 
-            x >= bounds.startX && x < bounds.endX + 1 &&
-            y >= bounds.startY && y < bounds.endY + 1
-          )
+          // Check if any pixels were drawn within the selection
+          const hasDrawnInSelection = pixelChanges.some(({ x, y }) => selection.mask.has(`${x},${y}`))
           
           if (hasDrawnInSelection) {
             // Capture the new content within the selection after drawing
             const newSelectionContent = new Map<string, PixelData>()
             pixels.forEach((pixel, _key) => {
-              if (pixel.x >= bounds.startX && pixel.x < bounds.endX + 1 &&
-                  pixel.y >= bounds.startY && pixel.y < bounds.endY + 1 &&
-                  pixel.layerId === activeLayer.id) {
+              if (selection.mask.has(_key) && pixel.layerId === activeLayer.id) {
                 // Store relative coordinates for the selection content
                 const relativeX = pixel.x - bounds.startX
                 const relativeY = pixel.y - bounds.startY
@@ -1782,9 +2005,10 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
             )
             selectionOperation.metadata = {
               selectionBounds: bounds,
-              selectionContent: newSelectionContent
+              selectionContent: newSelectionContent,
+              selectionMask: selection.mask
             }
-            historyManagerRef.current.pushOperation(selectionOperation)
+            recordOperation(selectionOperation)
             dispatchHistoryChange()
             
             // Update the selection with new content
@@ -1799,45 +2023,18 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     
     // Handle move-selection completion
     if (isMovingSelection && moveStartPos && selection && (moveOffset.x !== 0 || moveOffset.y !== 0)) {
-      // Calculate the new position for the selection
-      const newStartX = Math.max(0, Math.min(canvasSize - 1, selection.startPos.x + moveOffset.x))
-      const newStartY = Math.max(0, Math.min(canvasSize - 1, selection.startPos.y + moveOffset.y))
-      
-      // Calculate the new end position
-      const currentEndX = selection.rawCurrentPos?.x ?? selection.currentPos.x
-      const currentEndY = selection.rawCurrentPos?.y ?? selection.currentPos.y
-      const newEndX = Math.max(0, Math.min(canvasSize - 1, currentEndX + moveOffset.x))
-      const newEndY = Math.max(0, Math.min(canvasSize - 1, currentEndY + moveOffset.y))
-      
-      // Create a new map for the moved pixels
+      // Lift the selected pixels off the layer and put them down at the offset
       const newPixels = new Map(pixels)
-      
-      // Remove pixels from the original selection area
-      const originalBounds = {
-        startX: Math.min(selection.startPos.x, currentEndX),
-        startY: Math.min(selection.startPos.y, currentEndY),
-        endX: Math.max(selection.startPos.x, currentEndX),
-        endY: Math.max(selection.startPos.y, currentEndY)
-      }
-      
-      // Remove original pixels
-      for (let x = originalBounds.startX; x <= originalBounds.endX; x++) {
-        for (let y = originalBounds.startY; y <= originalBounds.endY; y++) {
-          const key = `${x},${y}`
-          newPixels.delete(key)
-        }
-      }
-      
-      // Add pixels to the new location
-      selection.content.forEach((pixelData, relativeKey) => {
-        const [relativeX, relativeY] = relativeKey.split(',').map(Number)
-        const newX = newStartX + relativeX
-        const newY = newStartY + relativeY
+      selection.mask.forEach(key => newPixels.delete(key))
+      selection.mask.forEach(key => {
+        const pixelData = pixels.get(key)
+        if (!pixelData) return
+        const newX = pixelData.x + moveOffset.x
+        const newY = pixelData.y + moveOffset.y
         
         // Only add if within canvas bounds
-        if (newX >= 0 && newX < canvasSize && newY >= 0 && newY < canvasSize) {
-          const key = `${newX},${newY}`
-          newPixels.set(key, {
+        if (newX >= 0 && newX < canvasWidth && newY >= 0 && newY < canvasHeight) {
+          newPixels.set(`${newX},${newY}`, {
             ...pixelData,
             x: newX,
             y: newY
@@ -1849,63 +2046,19 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       setPixels(newPixels)
       
       // Create history entry for the move operation
-      const pixelChanges: Array<{
-        x: number
-        y: number
-        previousColor: Color
-        newColor: Color
-      }> = []
-      
-      // Calculate changes (removed pixels)
-      pixels.forEach((pixel, _key) => {
-        if (pixel.x >= originalBounds.startX && pixel.x <= originalBounds.endX &&
-            pixel.y >= originalBounds.startY && pixel.y <= originalBounds.endY) {
-          pixelChanges.push({
-            x: pixel.x,
-            y: pixel.y,
-            previousColor: pixel.color,
-            newColor: 'transparent'
-          })
-        }
-      })
-      
-      // Calculate changes (added pixels)
-      selection.content.forEach((pixelData, relativeKey) => {
-        const [relativeX, relativeY] = relativeKey.split(',').map(Number)
-        const newX = newStartX + relativeX
-        const newY = newStartY + relativeY
-        
-        if (newX >= 0 && newX < canvasSize && newY >= 0 && newY < canvasSize) {
-          pixelChanges.push({
-            x: newX,
-            y: newY,
-            previousColor: 'transparent',
-            newColor: pixelData.color
-          })
-        }
-      })
-      
+      const pixelChanges = diffLayerPixels(pixels, newPixels)
       if (pixelChanges.length > 0) {
-        // Capture the current canvas state after the operation
-        const canvasSnapshot = new Map(pixels)
-        
         const operation = historyManagerRef.current.createStrokeOperation(
           'move-selection',
           activeLayer!.id,
-          pixelChanges,
-          canvasSnapshot
+          pixelChanges
         )
-        historyManagerRef.current.pushOperation(operation)
+        recordOperation(operation)
         dispatchHistoryChange()
       }
       
-      // Update selection position
-      setSelection(prev => prev ? {
-        ...prev,
-        startPos: { x: newStartX, y: newStartY },
-        currentPos: { x: newEndX, y: newEndY },
-        rawCurrentPos: { x: newEndX, y: newEndY }
-      } : null)
+      // The selection moves with its pixels
+      selectMask(translateMask(selection.mask, moveOffset.x, moveOffset.y, canvasWidth, canvasHeight), newPixels)
     }
     
     // Reset move-selection state
@@ -1951,6 +2104,82 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [undo, redo])
 
+  // Zoom in or out around the middle of the view
+  const zoomBy = useCallback((factor: number) => {
+    const centerX = (canvasWidth * pixelSize) / 2
+    const centerY = (canvasHeight * pixelSize) / 2
+    setViewport(prev => zoomViewportAt(prev, prev.zoom * factor, centerX, centerY, pixelSize))
+  }, [canvasWidth, canvasHeight, pixelSize])
+
+  const zoomToFit = useCallback(() => setViewport(DEFAULT_VIEWPORT), [])
+
+  const zoomToActualSize = useCallback(() => {
+    setViewport(getActualSizeViewport(pixelSize, canvasWidth, canvasHeight))
+  }, [pixelSize, canvasWidth, canvasHeight])
+
+  // Mouse wheel zooms around the cursor; registered natively so the page doesn't scroll
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleWheel = (e: WheelEvent) => {
+      if (e.deltaY === 0) return
+      e.preventDefault()
+
+      const rect = canvas.getBoundingClientRect()
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP
+      setViewport(prev => zoomViewportAt(prev, prev.zoom * factor, e.clientX - rect.left, e.clientY - rect.top, pixelSize))
+    }
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [pixelSize])
+
+  // Keyboard zoom (+, -, 0 = fit, 1 = 100%) and space-drag panning
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return
+
+      switch (e.key) {
+        case '+':
+        case '=':
+          e.preventDefault()
+          zoomBy(ZOOM_STEP)
+          break
+        case '-':
+          e.preventDefault()
+          zoomBy(1 / ZOOM_STEP)
+          break
+        case '0':
+          zoomToFit()
+          break
+        case '1':
+          zoomToActualSize()
+          break
+        case ' ':
+          e.preventDefault()
+          setIsSpaceHeld(true)
+          break
+      }
+    }
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') {
+        setIsSpaceHeld(false)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('keyup', handleKeyUp)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('keyup', handleKeyUp)
+    }
+  }, [zoomBy, zoomToFit, zoomToActualSize])
+
   // Render canvas
   useEffect(() => {
     const canvas = canvasRef.current
@@ -1960,20 +2189,32 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (!ctx) return
     
     // Clear canvas
+    if (ctx.setTransform) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+    }
     ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    // Everything below is drawn in document space (pixelSize per sprite pixel) through the zoom/pan transform
+    if (ctx.setTransform) {
+      ctx.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.panX, viewport.panY)
+    }
+    const docWidth = canvasWidth * pixelSize
+    const docHeight = canvasHeight * pixelSize
+    // Keeps outlines and dashes the same on-screen width at any zoom
+    const lineScale = 1 / viewport.zoom
     
     // Draw checkered transparent background aligned with pixel grid
     const checkerSize = 16 * pixelSize // Each checker represents a 16x16 pixel area
     
-    for (let y = 0; y < canvas.height; y += checkerSize) {
-      for (let x = 0; x < canvas.width; x += checkerSize) {
+    for (let y = 0; y < docHeight; y += checkerSize) {
+      for (let x = 0; x < docWidth; x += checkerSize) {
         const isEvenRow = Math.floor(y / checkerSize) % 2 === 0
         const isEvenCol = Math.floor(x / checkerSize) % 2 === 0
         const isLight = (isEvenRow && isEvenCol) || (!isEvenRow && !isEvenCol)
         
         // Calculate actual checker size for this position (handles partial checkers at edges)
-        const actualWidth = Math.min(checkerSize, canvas.width - x)
-        const actualHeight = Math.min(checkerSize, canvas.height - y)
+        const actualWidth = Math.min(checkerSize, docWidth - x)
+        const actualHeight = Math.min(checkerSize, docHeight - y)
         
         ctx.fillStyle = isLight ? '#e0e0e0' : '#c0c0c0'
         ctx.fillRect(x, y, actualWidth, actualHeight)
@@ -1984,18 +2225,21 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (gridSettings.visible) {
       ctx.strokeStyle = gridSettings.color
       ctx.globalAlpha = gridSettings.opacity
-      ctx.lineWidth = 1
+      ctx.lineWidth = lineScale
       
-      for (let i = 0; i <= canvasSize; i++) {
+      for (let i = 0; i <= canvasWidth; i++) {
         const pos = i * pixelSize
         ctx.beginPath()
         ctx.moveTo(pos, 0)
-        ctx.lineTo(pos, canvas.height)
+        ctx.lineTo(pos, docHeight)
         ctx.stroke()
-        
+      }
+
+      for (let i = 0; i <= canvasHeight; i++) {
+        const pos = i * pixelSize
         ctx.beginPath()
         ctx.moveTo(0, pos)
-        ctx.lineTo(canvas.width, pos)
+        ctx.lineTo(docWidth, pos)
         ctx.stroke()
       }
       
@@ -2007,20 +2251,20 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (gridSettings.quarter) {
       ctx.strokeStyle = gridSettings.color
       ctx.globalAlpha = gridSettings.opacity
-      ctx.lineWidth = 1
+      ctx.lineWidth = lineScale
       
       // Draw center vertical line
-      const centerX = (canvasSize / 2) * pixelSize
+      const centerX = (canvasWidth / 2) * pixelSize
       ctx.beginPath()
       ctx.moveTo(centerX, 0)
-      ctx.lineTo(centerX, canvas.height)
+      ctx.lineTo(centerX, docHeight)
       ctx.stroke()
       
       // Draw center horizontal line
-      const centerY = (canvasSize / 2) * pixelSize
+      const centerY = (canvasHeight / 2) * pixelSize
       ctx.beginPath()
       ctx.moveTo(0, centerY)
-      ctx.lineTo(canvas.width, centerY)
+      ctx.lineTo(docWidth, centerY)
       ctx.stroke()
       
       // Reset global alpha
@@ -2031,24 +2275,24 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (gridSettings.eighths) {
       ctx.strokeStyle = gridSettings.color
       ctx.globalAlpha = gridSettings.opacity
-      ctx.lineWidth = 1
+      ctx.lineWidth = lineScale
       
       // Draw vertical division lines at 1/4, 1/2, and 3/4 positions
       const quarterPositions = [1, 2, 3] // 1/4, 2/4, 3/4
       quarterPositions.forEach(quarter => {
-        const pos = (canvasSize * quarter / 4) * pixelSize
+        const pos = (canvasWidth * quarter / 4) * pixelSize
         ctx.beginPath()
         ctx.moveTo(pos, 0)
-        ctx.lineTo(pos, canvas.height)
+        ctx.lineTo(pos, docHeight)
         ctx.stroke()
       })
       
       // Draw horizontal division lines at 1/4, 1/2, and 3/4 positions
       quarterPositions.forEach(quarter => {
-        const pos = (canvasSize * quarter / 4) * pixelSize
+        const pos = (canvasHeight * quarter / 4) * pixelSize
         ctx.beginPath()
         ctx.moveTo(0, pos)
-        ctx.lineTo(canvas.width, pos)
+        ctx.lineTo(docWidth, pos)
         ctx.stroke()
       })
       
@@ -2060,24 +2304,24 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (gridSettings.sixteenths) {
       ctx.strokeStyle = gridSettings.color
       ctx.globalAlpha = gridSettings.opacity
-      ctx.lineWidth = 1
+      ctx.lineWidth = lineScale
       
       // Draw vertical division lines at 1/8, 1/4, 3/8, 1/2, 5/8, 3/4, 7/8 positions
       const eighthPositions = [1, 2, 3, 4, 5, 6, 7] // 1/8, 2/8, 3/8, 4/8, 5/8, 6/8, 7/8
       eighthPositions.forEach(eighth => {
-        const pos = (canvasSize * eighth / 8) * pixelSize
+        const pos = (canvasWidth * eighth / 8) * pixelSize
         ctx.beginPath()
         ctx.moveTo(pos, 0)
-        ctx.lineTo(pos, canvas.height)
+        ctx.lineTo(pos, docHeight)
         ctx.stroke()
       })
       
       // Draw horizontal division lines at 1/8, 1/4, 3/8, 1/2, 5/8, 3/4, 7/8 positions
       eighthPositions.forEach(eighth => {
-        const pos = (canvasSize * eighth / 8) * pixelSize
+        const pos = (canvasHeight * eighth / 8) * pixelSize
         ctx.beginPath()
         ctx.moveTo(0, pos)
-        ctx.lineTo(canvas.width, pos)
+        ctx.lineTo(docWidth, pos)
         ctx.stroke()
       })
       
@@ -2089,24 +2333,24 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (gridSettings.thirtyseconds) {
       ctx.strokeStyle = gridSettings.color
       ctx.globalAlpha = gridSettings.opacity
-      ctx.lineWidth = 1
+      ctx.lineWidth = lineScale
       
       // Draw vertical division lines at 1/16, 1/8, 3/16, 1/4, 5/16, 3/8, 7/16, 1/2, 9/16, 5/8, 11/16, 3/4, 13/16, 7/8, 15/16 positions
       const sixteenthPositions = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15] // 1/16 through 15/16
       sixteenthPositions.forEach(sixteenth => {
-        const pos = (canvasSize * sixteenth / 16) * pixelSize
+        const pos = (canvasWidth * sixteenth / 16) * pixelSize
         ctx.beginPath()
         ctx.moveTo(pos, 0)
-        ctx.lineTo(pos, canvas.height)
+        ctx.lineTo(pos, docHeight)
         ctx.stroke()
       })
       
       // Draw horizontal division lines at 1/16, 1/8, 3/16, 1/4, 5/16, 3/8, 7/16, 1/2, 9/16, 5/8, 11/16, 3/4, 13/16, 7/8, 15/16 positions
       sixteenthPositions.forEach(sixteenth => {
-        const pos = (canvasSize * sixteenth / 16) * pixelSize
+        const pos = (canvasHeight * sixteenth / 16) * pixelSize
         ctx.beginPath()
         ctx.moveTo(0, pos)
-        ctx.lineTo(canvas.width, pos)
+        ctx.lineTo(docWidth, pos)
         ctx.stroke()
       })
       
@@ -2118,24 +2362,24 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
     if (gridSettings.sixtyfourths) {
       ctx.strokeStyle = gridSettings.color
       ctx.globalAlpha = gridSettings.opacity
-      ctx.lineWidth = 1
+      ctx.lineWidth = lineScale
       
       // Draw vertical division lines at 1/32, 1/16, 3/32, 1/8, 5/32, 3/16, 7/32, 1/4, 9/32, 5/16, 11/32, 3/8, 13/32, 7/16, 15/32, 1/2, 17/32, 9/16, 19/32, 5/8, 21/32, 11/16, 23/32, 3/4, 25/32, 13/16, 27/32, 7/8, 29/32, 15/16, 31/32 positions
       const thirtySecondPositions = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31] // 1/32 through 31/32
       thirtySecondPositions.forEach(thirtySecond => {
-        const pos = (canvasSize * thirtySecond / 32) * pixelSize
+        const pos = (canvasWidth * thirtySecond / 32) * pixelSize
         ctx.beginPath()
         ctx.moveTo(pos, 0)
-        ctx.lineTo(pos, canvas.height)
+        ctx.lineTo(pos, docHeight)
         ctx.stroke()
       })
       
       // Draw horizontal division lines at 1/32, 1/16, 3/32, 1/8, 5/32, 3/16, 7/32, 1/4, 9/32, 5/16, 11/32, 3/8, 13/32, 7/16, 15/32, 1/2, 17/32, 9/16, 19/32, 5/8, 21/32, 11/16, 23/32, 3/4, 25/32, 13/16, 27/32, 7/8, 29/32, 15/16, 31/32 positions
       thirtySecondPositions.forEach(thirtySecond => {
-        const pos = (canvasSize * thirtySecond / 32) * pixelSize
+        const pos = (canvasHeight * thirtySecond / 32) * pixelSize
         ctx.beginPath()
         ctx.moveTo(0, pos)
-        ctx.lineTo(canvas.width, pos)
+        ctx.lineTo(docWidth, pos)
         ctx.stroke()
       })
       
@@ -2143,26 +2387,50 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       ctx.globalAlpha = 1.0
     }
     
-    // Draw pixels
-    pixels.forEach((pixel) => {
-      const layer = layers.find(l => l.id === pixel.layerId)
-      
-      if (layer && layer.visible) {
-        ctx.fillStyle = pixel.color
-        ctx.fillRect(
-          pixel.x * pixelSize,
-          pixel.y * pixelSize,
-          pixelSize,
-          pixelSize
-        )
+    // Draw onion skin: neighbouring frames tinted and faded further the further away they are
+    if (onionSkin?.enabled && frames && frames.length > 1) {
+      const currentIndex = frames.findIndex(f => f.id === frameId)
+      const drawOnionFrame = (index: number, distance: number, tint: Color) => {
+        const frame = frames[index]
+        if (!frame) return
+
+        ctx.globalAlpha = onionSkin.opacity / distance
+        compositeLayers(compositeStack, framePixels.get(frame.id)).forEach((pixel) => {
+          ctx.fillStyle = mixColors(pixel.color, tint, 0.5)
+          ctx.fillRect(pixel.x * pixelSize, pixel.y * pixelSize, pixelSize, pixelSize)
+        })
       }
+
+      if (currentIndex !== -1) {
+        for (let distance = onionSkin.previousFrames; distance >= 1; distance--) {
+          drawOnionFrame(currentIndex - distance, distance, onionSkin.previousTint)
+        }
+        for (let distance = onionSkin.nextFrames; distance >= 1; distance--) {
+          drawOnionFrame(currentIndex + distance, distance, onionSkin.nextTint)
+        }
+      }
+      ctx.globalAlpha = 1.0
+    }
+
+    // Draw pixels, compositing visible layers bottom-to-top with their opacity and blend modes
+    const displayedPixels = transformPreview
+      ? new Map(layerPixels).set(transformPreview.layerId, transformPreview.pixels)
+      : layerPixels
+    compositeLayers(compositeStack, displayedPixels).forEach((pixel) => {
+      ctx.fillStyle = pixel.color
+      ctx.fillRect(
+        pixel.x * pixelSize,
+        pixel.y * pixelSize,
+        pixelSize,
+        pixelSize
+      )
     })
     
     // Draw shape preview
     if (shapePreview) {
       const { tool, startPos, currentPos } = shapePreview
       ctx.strokeStyle = primaryColor
-      ctx.lineWidth = 2
+      ctx.lineWidth = 2 * lineScale
       ctx.globalAlpha = 0.7
       
       if (tool === 'rectangle-border' || tool === 'rectangle-filled') {
@@ -2205,7 +2473,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         ctx.beginPath()
         ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI)
         ctx.stroke()
-      } else if (tool === 'line') {
+      } else if (tool === 'line' || tool === 'fill') {
+        // Gradient fills show the line they run along
         ctx.beginPath()
         ctx.moveTo(startPos.x * pixelSize, startPos.y * pixelSize)
         ctx.lineTo(currentPos.x * pixelSize, currentPos.y * pixelSize)
@@ -2215,103 +2484,69 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       ctx.globalAlpha = 1.0
     }
     
-    // Draw selection rectangle or lasso path
+    // Draw the rectangle or lasso path being dragged, otherwise the outline of the selected pixels
     if (selection) {
       const { startPos, currentPos, rawCurrentPos } = selection
       ctx.strokeStyle = '#1e3a8a' // Dark blue selection outline
-      ctx.lineWidth = 2
+      ctx.lineWidth = 2 * lineScale
       ctx.globalAlpha = 0.8
+
+      // Strokes with animated dashed lines
+      const strokeDashed = (stroke: () => void = () => ctx.stroke()) => {
+        if (ctx.setLineDash) {
+          const dashOffset = ((animationTime * 0.5) % 10) * lineScale // Move dash pattern more slowly
+          ctx.setLineDash([5 * lineScale, 5 * lineScale])
+          ctx.lineDashOffset = dashOffset
+          stroke()
+          ctx.setLineDash([]) // Reset to solid line
+          ctx.lineDashOffset = 0 // Reset dash offset
+        } else {
+          // Fallback to solid line if setLineDash is not supported
+          stroke()
+        }
+      }
+      const traceOutline = (outline: typeof selectionOutline) => {
+        ctx.beginPath()
+        outline.forEach(({ x1, y1, x2, y2 }) => {
+          ctx.moveTo(x1 * pixelSize, y1 * pixelSize)
+          ctx.lineTo(x2 * pixelSize, y2 * pixelSize)
+        })
+      }
+
+      // A Shift/Alt drag shows the selection it combines with
+      if (selectionBase && (isSelecting || isLassoing)) {
+        traceOutline(selectionBaseOutline)
+        strokeDashed()
+      }
       
-      if (selectedTool === 'lasso' && lassoPath.length > 1) {
-        // Draw lasso path with animated dashed lines
+      if (isLassoing && lassoPath.length > 1) {
         ctx.beginPath()
         
         // Start at the first point, ensuring pixel-perfect positioning
-        const startX = Math.round(lassoPath[0].x * pixelSize)
-        const startY = Math.round(lassoPath[0].y * pixelSize)
-        ctx.moveTo(startX, startY)
+        ctx.moveTo(Math.round(lassoPath[0].x * pixelSize), Math.round(lassoPath[0].y * pixelSize))
         
         // Draw lines to each subsequent point
         for (let i = 1; i < lassoPath.length; i++) {
-          const x = Math.round(lassoPath[i].x * pixelSize)
-          const y = Math.round(lassoPath[i].y * pixelSize)
-          ctx.lineTo(x, y)
+          ctx.lineTo(Math.round(lassoPath[i].x * pixelSize), Math.round(lassoPath[i].y * pixelSize))
         }
         
         // Close the path if it's long enough to form a proper selection
         if (lassoPath.length > 2) {
           ctx.closePath()
         }
-        
-                  // Apply animated dashed line style
-          if (ctx.setLineDash) {
-            const dashOffset = (animationTime * 0.5) % 10 // Move dash pattern more slowly
-            ctx.setLineDash([5, 5])
-            ctx.lineDashOffset = dashOffset
-            ctx.stroke()
-            ctx.setLineDash([]) // Reset to solid line
-            ctx.lineDashOffset = 0 // Reset dash offset
-          } else {
-            // Fallback to solid line if setLineDash is not supported
-            ctx.stroke()
-          }
-      } else if (selectedTool === 'magic-wand' && selection.content && selection.content.size > 0) {
-        // For magic wand, highlight the actual selected pixels with individual outlines
-        // First draw a subtle highlight of the selected pixels
-        ctx.globalAlpha = 0.3
-        ctx.fillStyle = '#1e3a8a'
-        
-        selection.content.forEach((pixelData) => {
-          const pixelX = pixelData.x * pixelSize
-          const pixelY = pixelData.y * pixelSize
-          ctx.fillRect(pixelX, pixelY, pixelSize, pixelSize)
-        })
-        
-        // Now draw an outline around each selected pixel with animated dashed lines
-        ctx.globalAlpha = 0.8
-        ctx.strokeStyle = '#1e3a8a'
-        ctx.lineWidth = 1
-        
-        // Use animated dashed lines for the pixel outlines
-        if (ctx.setLineDash) {
-          const dashOffset = (animationTime * 0.5) % 10
-          ctx.setLineDash([3, 3])
-          ctx.lineDashOffset = dashOffset
-        }
-        
-        // Draw outline around each selected pixel
-        selection.content.forEach((pixelData) => {
-          const pixelX = pixelData.x * pixelSize
-          const pixelY = pixelData.y * pixelSize
-          ctx.strokeRect(pixelX, pixelY, pixelSize, pixelSize)
-        })
-        
-        if (ctx.setLineDash) {
-          ctx.setLineDash([])
-          ctx.lineDashOffset = 0
-        }
-      } else {
-        // Draw selection rectangle with animated dashed lines
+        strokeDashed()
+      } else if (isSelecting) {
         // Calculate bounds using raw coordinates but clamp to canvas boundaries for display
-        // For visual representation, we extend to canvasSize to fully cover the last pixel
         const actualCurrentPos = rawCurrentPos || currentPos
         const minX = Math.max(0, Math.min(startPos.x, actualCurrentPos.x)) * pixelSize
-        const maxX = Math.min(canvasSize, Math.max(startPos.x, actualCurrentPos.x)) * pixelSize
+        const maxX = Math.min(canvasWidth, Math.max(startPos.x, actualCurrentPos.x)) * pixelSize
         const minY = Math.max(0, Math.min(startPos.y, actualCurrentPos.y)) * pixelSize
-        const maxY = Math.min(canvasSize, Math.max(startPos.y, actualCurrentPos.y)) * pixelSize
+        const maxY = Math.min(canvasHeight, Math.max(startPos.y, actualCurrentPos.y)) * pixelSize
         
-        // Draw selection rectangle with animated dashed lines
-        if (ctx.setLineDash) {
-          const dashOffset = (animationTime * 0.5) % 10 // Move dash pattern more slowly
-          ctx.setLineDash([5, 5])
-          ctx.lineDashOffset = dashOffset
-          ctx.strokeRect(minX, minY, maxX - minX, maxY - minY)
-          ctx.setLineDash([]) // Reset to solid line
-          ctx.lineDashOffset = 0 // Reset dash offset
-        } else {
-          // Fallback to solid line if setLineDash is not supported
-          ctx.strokeRect(minX, minY, maxX - minX, maxY - minY)
-        }
+        strokeDashed(() => ctx.strokeRect(minX, minY, maxX - minX, maxY - minY))
+      } else {
+        traceOutline(selectionOutline)
+        strokeDashed()
       }
       
       ctx.globalAlpha = 1.0
@@ -2323,14 +2558,14 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       const actualCurrentPos = rawCurrentPos || currentPos
       
       // Calculate the preview position
-      const previewStartX = Math.max(0, Math.min(canvasSize - 1, startPos.x + moveOffset.x))
-      const previewStartY = Math.max(0, Math.min(canvasSize - 1, startPos.y + moveOffset.y))
-      const previewEndX = Math.max(0, Math.min(canvasSize - 1, actualCurrentPos.x + moveOffset.x))
-      const previewEndY = Math.max(0, Math.min(canvasSize - 1, actualCurrentPos.y + moveOffset.y))
+      const previewStartX = Math.max(0, Math.min(canvasWidth - 1, startPos.x + moveOffset.x))
+      const previewStartY = Math.max(0, Math.min(canvasHeight - 1, startPos.y + moveOffset.y))
+      const previewEndX = Math.max(0, Math.min(canvasWidth - 1, actualCurrentPos.x + moveOffset.x))
+      const previewEndY = Math.max(0, Math.min(canvasHeight - 1, actualCurrentPos.y + moveOffset.y))
       
       // Draw preview selection rectangle
       ctx.strokeStyle = '#00ff00' // Green preview outline
-      ctx.lineWidth = 2
+      ctx.lineWidth = 2 * lineScale
       ctx.globalAlpha = 0.6
       
       const minX = Math.min(previewStartX, previewEndX) * pixelSize
@@ -2340,8 +2575,8 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       
       // Draw preview rectangle with dashed lines
       if (ctx.setLineDash) {
-        const dashOffset = (animationTime * 0.5) % 10
-        ctx.setLineDash([5, 5])
+        const dashOffset = ((animationTime * 0.5) % 10) * lineScale
+        ctx.setLineDash([5 * lineScale, 5 * lineScale])
         ctx.lineDashOffset = dashOffset
         ctx.strokeRect(minX, minY, maxX - minX, maxY - minY)
         ctx.setLineDash([])
@@ -2357,11 +2592,11 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         // Draw each pixel in the preview location
         content.forEach((pixelData, relativeKey) => {
           const [relativeX, relativeY] = relativeKey.split(',').map(Number)
-          const previewX = previewStartX + relativeX
-          const previewY = previewStartY + relativeY
+          const previewX = startPos.x + moveOffset.x + relativeX
+          const previewY = startPos.y + moveOffset.y + relativeY
           
           // Only draw if within canvas bounds
-          if (previewX >= 0 && previewX < canvasSize && previewY >= 0 && previewY < canvasSize) {
+          if (previewX >= 0 && previewX < canvasWidth && previewY >= 0 && previewY < canvasHeight) {
             const pixelX = previewX * pixelSize
             const pixelY = previewY * pixelSize
             
@@ -2375,7 +2610,7 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         
         // Draw pixel grid for the preview
         ctx.strokeStyle = '#00ff00'
-        ctx.lineWidth = 1
+        ctx.lineWidth = lineScale
         ctx.globalAlpha = 0.3
         
         for (let x = previewStartX; x <= previewEndX; x++) {
@@ -2389,7 +2624,219 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
       
       ctx.globalAlpha = 1.0
     }
-  }, [pixels, layers, canvasSize, pixelSize, gridSettings.visible, gridSettings.color, gridSettings.opacity, gridSettings.quarter, gridSettings.eighths, gridSettings.sixteenths, gridSettings.thirtyseconds, gridSettings.sixtyfourths, shapePreview, primaryColor, selection, selectedTool, lassoPath, animationTime, isMovingSelection, moveOffset])
+
+    // Draw symmetry guide lines
+    if (symmetry && symmetry.mode !== 'none') {
+      ctx.strokeStyle = '#ff00ff'
+      ctx.lineWidth = lineScale
+      ctx.globalAlpha = 0.8
+      if (ctx.setLineDash) {
+        ctx.setLineDash([4 * lineScale, 4 * lineScale])
+      }
+
+      if (symmetry.mode === 'horizontal' || symmetry.mode === 'both') {
+        const axisX = symmetry.axisX * pixelSize
+        ctx.beginPath()
+        ctx.moveTo(axisX, 0)
+        ctx.lineTo(axisX, docHeight)
+        ctx.stroke()
+      }
+      if (symmetry.mode === 'vertical' || symmetry.mode === 'both') {
+        const axisY = symmetry.axisY * pixelSize
+        ctx.beginPath()
+        ctx.moveTo(0, axisY)
+        ctx.lineTo(docWidth, axisY)
+        ctx.stroke()
+      }
+
+      if (ctx.setLineDash) {
+        ctx.setLineDash([])
+      }
+      ctx.globalAlpha = 1.0
+    }
+  }, [layerPixels, framePixels, frames, frameId, onionSkin, compositeStack, canvasWidth, canvasHeight, pixelSize, gridSettings.visible, gridSettings.color, gridSettings.opacity, gridSettings.quarter, gridSettings.eighths, gridSettings.sixteenths, gridSettings.thirtyseconds, gridSettings.sixtyfourths, shapePreview, primaryColor, selection, selectionOutline, selectionBase, selectionBaseOutline, isSelecting, isLassoing, lassoPath, animationTime, isMovingSelection, moveOffset, viewport, symmetry, transformPreview])
+
+  // Current selection rectangle clamped to the canvas, or null when nothing is selected
+  const getSelectionBounds = useCallback((): SelectionBounds | null => {
+    if (!selection || !selection.isActive) return null
+
+    const endX = selection.rawCurrentPos?.x ?? selection.currentPos.x
+    const endY = selection.rawCurrentPos?.y ?? selection.currentPos.y
+    return {
+      startX: Math.max(0, Math.min(selection.startPos.x, endX)),
+      startY: Math.max(0, Math.min(selection.startPos.y, endY)),
+      endX: Math.min(canvasWidth - 1, Math.max(selection.startPos.x, endX)),
+      endY: Math.min(canvasHeight - 1, Math.max(selection.startPos.y, endY))
+    }
+  }, [selection, canvasWidth, canvasHeight])
+
+  // Swap colors on the active layer, every layer or inside the selection of the current frame,
+  // recorded as one operation so a single undo restores every layer
+  const replaceColors = useCallback((mapping: Array<[Color, Color]>, scope: ReplaceColorScope): number => {
+    const activeId = activeLayerIdRef.current
+    if (activeId === undefined) return 0
+
+    const bounds = scope === 'selection' ? getSelectionBounds() : null
+    if (scope === 'selection' && !bounds) return 0
+
+    const layerIds = (scope === 'all-layers' ? layers : layers.filter(l => l.id === activeId))
+      .filter(l => !l.locked)
+      .map(l => l.id)
+    const changes = findColorReplacements(layerPixels, layerIds, mapping, bounds)
+      .filter(change => !selection || scope !== 'selection' || selection.mask.has(`${change.x},${change.y}`))
+    if (changes.length === 0) return 0
+
+    layerIds.forEach(layerId => {
+      const layerChanges = changes.filter(change => change.layerId === layerId)
+      if (layerChanges.length === 0) return
+      setPixelsForLayer(layerId, prev => applyColorChanges(prev, layerChanges, layerId))
+    })
+
+    const operation = historyManagerRef.current.createStrokeOperation('replace-color', activeId, changes)
+    recordOperation(operation)
+    dispatchHistoryChange()
+    return changes.length
+  }, [layers, layerPixels, selection, getSelectionBounds, setPixelsForLayer, recordOperation, dispatchHistoryChange])
+
+  // The active layer after transforming the selection or the whole layer, or null when there is
+  // no editable layer or nothing is selected
+  const getTransformResult = useCallback((transform: PixelTransform, target: TransformTarget) => {
+    if (!activeLayer) return null
+
+    const bounds = target === 'selection'
+      ? getSelectionBounds()
+      : { startX: 0, startY: 0, endX: canvasWidth - 1, endY: canvasHeight - 1 }
+    if (!bounds) return null
+
+    const mask = target === 'selection' ? selection?.mask : undefined
+    return { layerId: activeLayer.id, ...transformRegion(pixels, bounds, transform, canvasWidth, canvasHeight, mask) }
+  }, [activeLayer, pixels, selection, getSelectionBounds, canvasWidth, canvasHeight])
+
+  // Show a transform on the canvas without changing the document; null ends the preview
+  const previewTransform = useCallback((transform: PixelTransform | null, target: TransformTarget) => {
+    setTransformPreview(transform ? getTransformResult(transform, target) : null)
+  }, [getTransformResult])
+
+  // Flip, scale and rotate the selection or the active layer, recorded as one operation. A transformed
+  // selection moves with its pixels; returns false when nothing changes
+  const transformPixels = useCallback((transform: PixelTransform, target: TransformTarget): boolean => {
+    setTransformPreview(null)
+    const result = getTransformResult(transform, target)
+    if (!result) return false
+
+    const changes = diffLayerPixels(pixels, result.pixels)
+    if (changes.length === 0) return false
+
+    setPixelsForLayer(result.layerId, result.pixels)
+    const operation = historyManagerRef.current.createStrokeOperation('transform', result.layerId, changes)
+    recordOperation(operation)
+    dispatchHistoryChange()
+
+    if (target === 'selection') {
+      selectMask(result.mask, result.pixels)
+    }
+    return true
+  }, [pixels, getTransformResult, setPixelsForLayer, recordOperation, dispatchHistoryChange, selectMask])
+
+  // Select everything, nothing, the inverse, a grown or shrunk selection or every pixel of a color
+  // on the active layer; returns false when there is no selection to change
+  const changeSelection = useCallback((change: SelectionChange): boolean => {
+    const current = selection?.mask ?? null
+    let mask: SelectionMask
+    switch (change.type) {
+      case 'all':
+        mask = createRectMask({ startX: 0, startY: 0, endX: canvasWidth - 1, endY: canvasHeight - 1 }, canvasWidth, canvasHeight)
+        break
+      case 'none':
+        if (!current) return false
+        mask = new Set()
+        break
+      case 'invert':
+        mask = invertMask(current ?? new Set(), canvasWidth, canvasHeight)
+        break
+      case 'grow':
+        if (!current) return false
+        mask = growMask(current, change.amount, canvasWidth, canvasHeight)
+        break
+      case 'shrink':
+        if (!current) return false
+        mask = shrinkMask(current, change.amount, canvasWidth, canvasHeight)
+        break
+      case 'color':
+        mask = createColorMask(pixels, change.color, canvasWidth, canvasHeight)
+        break
+    }
+
+    selectMask(mask)
+    setSelectionBase(null)
+    setIsSelecting(false)
+    setIsLassoing(false)
+    setLassoPath([])
+    return true
+  }, [selection, pixels, canvasWidth, canvasHeight, selectMask])
+
+  // Selection shortcuts: Ctrl+A selects all, Ctrl+D deselects and Ctrl+Shift+I inverts
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTyping(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'a' && !e.shiftKey) {
+        e.preventDefault()
+        changeSelection({ type: 'all' })
+      } else if (key === 'd' && !e.shiftKey) {
+        e.preventDefault()
+        changeSelection({ type: 'none' })
+      } else if (key === 'i' && e.shiftKey) {
+        e.preventDefault()
+        changeSelection({ type: 'invert' })
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [changeSelection])
+
+  // Apply a change to the layer stack, recorded as one operation that restores the previous stack and
+  // every pixel buffer the change rewrote in any frame; returns false when the change does nothing
+  const changeLayers = useCallback((
+    action: LayerChangeAction,
+    change: (layers: Layer[], framePixels: FramePixels, groups: LayerGroup[]) => LayerChange | null
+  ): boolean => {
+    const groups = layerGroups ?? []
+    const result = change(layers, framePixels, groups)
+    if (!result) return false
+
+    const layerIds = result.framePixels ? getChangedLayerIds(framePixels, result.framePixels) : []
+    let pixelsAfter: FramePixels = result.framePixels ? pickLayerBuffers(result.framePixels, layerIds) : new Map()
+    // Merged colors are snapped to the palette like any other tool output
+    if (indexedPaletteRef.current) {
+      pixelsAfter = bindFramePixelsToPalette(pixelsAfter, indexedPaletteRef.current)
+    }
+
+    const operation = historyManagerRef.current.createStrokeOperation('layer', activeLayerIdRef.current ?? result.layers[0]?.id ?? 0, [])
+    operation.metadata = {
+      layerChange: {
+        action,
+        layersBefore: layers,
+        layersAfter: result.layers,
+        layerIds,
+        pixelsBefore: pickLayerBuffers(framePixels, layerIds),
+        pixelsAfter,
+        ...(result.groups ? { groupsBefore: groups, groupsAfter: result.groups } : {})
+      }
+    }
+    recordOperation(operation)
+
+    setFramePixels(prev => restoreLayerBuffers(prev, pixelsAfter, layerIds))
+    onLayersChange?.(result.layers)
+    if (result.groups) onLayerGroupsChange?.(result.groups)
+    dispatchHistoryChange()
+    return true
+  }, [layers, layerGroups, framePixels, onLayersChange, onLayerGroupsChange, recordOperation, dispatchHistoryChange])
 
   // Get history state
   const getHistoryState = useCallback(() => {
@@ -2430,71 +2877,99 @@ const SpriteEditor: React.FC<SpriteEditorProps> = ({
         writable: true
       })
       Object.defineProperty(canvasRef.current, 'getCurrentPixels', {
-        value: () => new Map(pixels),
+        value: () => compositeLayers(compositeStack, layerPixels),
         writable: true
       })
-      Object.defineProperty(canvasRef.current, 'getCanvasSize', {
-        value: () => canvasSize,
+      Object.defineProperty(canvasRef.current, 'getCanvasDimensions', {
+        value: () => ({ width: canvasWidth, height: canvasHeight }),
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'getSelectionBounds', {
+        value: getSelectionBounds,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'loadFramePixels', {
+        value: loadFramePixels,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'loadHistory', {
+        value: loadHistory,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'copyFramePixels', {
+        value: copyFramePixels,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'replaceColors', {
+        value: replaceColors,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'changeSelection', {
+        value: changeSelection,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'previewTransform', {
+        value: previewTransform,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'transformPixels', {
+        value: transformPixels,
+        writable: true
+      })
+      Object.defineProperty(canvasRef.current, 'changeLayers', {
+        value: changeLayers,
         writable: true
       })
     }
-  }, [onCanvasRef, undo, redo, canUndo, canRedo, getHistoryState, applyTemplate, pixels, canvasSize])
+  }, [onCanvasRef, undo, redo, canUndo, canRedo, getHistoryState, applyTemplate, getSelectionBounds, loadFramePixels, loadHistory, copyFramePixels, replaceColors, changeSelection, previewTransform, transformPixels, changeLayers, compositeStack, layerPixels, canvasWidth, canvasHeight])
 
-  // Magic wand selection - find all adjacent pixels of the same color
-  const magicWandSelect = useCallback((startX: number, startY: number, targetColor: Color): Map<string, PixelData> => {
-    const selectedPixels = new Map<string, PixelData>()
-    const visited = new Set<string>()
-    const stack: [number, number][] = [[startX, startY]]
-    
-    while (stack.length > 0) {
-      const [x, y] = stack.pop()!
-      const key = `${x},${y}`
-      
-      if (visited.has(key)) continue
-      visited.add(key)
-      
-      // Check if current position matches target color
-      const currentPixel = pixels.get(key)
-      const currentColor = currentPixel ? currentPixel.color : 'transparent'
-      
-      if (currentColor !== targetColor) continue
-      
-      // Add this pixel to selection
-      if (currentPixel) {
-        selectedPixels.set(key, currentPixel)
-      }
-      
-      // Add neighbors
-      const neighbors = [
-        [x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]
-      ]
-      
-      for (const [nx, ny] of neighbors) {
-        if (nx >= 0 && nx < canvasSize && ny >= 0 && ny < canvasSize) {
-          stack.push([nx, ny])
-        }
-      }
-    }
-    
-    return selectedPixels
-  }, [pixels, canvasSize])
+  // Magic wand selection - find the pixels matching the clicked color, empty ones included
+  const magicWandSelect = useCallback((startX: number, startY: number): SelectionMask => {
+    const source = getFillSource()
+    const getSourceColor = (x: number, y: number): Color => source.get(`${x},${y}`)?.color ?? 'transparent'
+    return findFillRegion(getSourceColor, [{ x: startX, y: startY }], getSourceColor(startX, startY), canvasWidth, canvasHeight, fillSettings)
+  }, [getFillSource, canvasWidth, canvasHeight, fillSettings])
+
+  const zoomButtonStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: '#4a4a4a',
+    border: '1px solid #555',
+    borderRadius: '3px',
+    color: '#fff',
+    cursor: 'pointer',
+    fontSize: '12px'
+  }
 
   return (
-    <div className="canvas-container">
-      <canvas
-        ref={canvasRef}
-        width={canvasSize * pixelSize}
-        height={canvasSize * pixelSize}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        style={{
-          cursor: 'crosshair',
-          backgroundColor: 'transparent'
-        }}
-        data-testid="sprite-canvas"
-      />
+    <div style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'center' }}>
+      <div className="canvas-container">
+        <canvas
+          ref={canvasRef}
+          width={canvasWidth * pixelSize}
+          height={canvasHeight * pixelSize}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          style={{
+            cursor: panStart ? 'grabbing' : isSpaceHeld ? 'grab' : 'crosshair',
+            backgroundColor: 'transparent',
+            display: 'block'
+          }}
+          data-testid="sprite-canvas"
+        />
+      </div>
+
+      {/* Zoom controls */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} style={zoomButtonStyle} title="Zoom Out (-)">−</button>
+        <span style={{ color: '#ccc', fontSize: '12px', minWidth: '56px', textAlign: 'center' }} data-testid="zoom-level">
+          {Math.round(pixelSize * viewport.zoom * 100)}%
+        </span>
+        <button onClick={() => zoomBy(ZOOM_STEP)} style={zoomButtonStyle} title="Zoom In (+)">+</button>
+        <button onClick={zoomToFit} style={zoomButtonStyle} title="Zoom to Fit (0)">Fit</button>
+        <button onClick={zoomToActualSize} style={zoomButtonStyle} title="Actual Size (1)">100%</button>
+      </div>
     </div>
   )
 }
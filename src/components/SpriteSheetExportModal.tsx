@@ -0,0 +1,191 @@
+import React, { useState } from 'react'
+import { AtlasFormat, SpriteSheetLayout, SpriteSheetOptions } from '../types'
+
+interface SpriteSheetExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onExport: (options: SpriteSheetOptions) => void
+  frameCount: number
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  backgroundColor: '#3a3a3a',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  color: '#fff',
+  fontSize: '14px'
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const SpriteSheetExportModal: React.FC<SpriteSheetExportModalProps> = ({
+  isOpen,
+  onClose,
+  onExport,
+  frameCount
+}) => {
+  const [layout, setLayout] = useState<SpriteSheetLayout>('grid')
+  const [format, setFormat] = useState<AtlasFormat>('hash')
+  const [columns, setColumns] = useState(0)
+  const [padding, setPadding] = useState(0)
+  const [scale, setScale] = useState(1)
+
+  const handleExport = () => {
+    onExport({ layout, format, columns, padding, scale })
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Export Sprite Sheet
+        </h3>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label htmlFor="sprite-sheet-layout" style={labelStyle}>Layout</label>
+          <select
+            id="sprite-sheet-layout"
+            value={layout}
+            onChange={(e) => setLayout(e.target.value as SpriteSheetLayout)}
+            style={fieldStyle}
+          >
+            <option value="grid">Grid</option>
+            <option value="packed">Packed rows (trimmed)</option>
+          </select>
+        </div>
+
+        {layout === 'grid' && (
+          <div style={{ marginBottom: '16px' }}>
+            <label htmlFor="sprite-sheet-columns" style={labelStyle}>Columns (0 = auto)</label>
+            <input
+              id="sprite-sheet-columns"
+              type="number"
+              min={0}
+              value={columns}
+              onChange={(e) => setColumns(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              style={fieldStyle}
+            />
+          </div>
+        )}
+
+        <div style={{ marginBottom: '16px', display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="sprite-sheet-padding" style={labelStyle}>Padding</label>
+            <input
+              id="sprite-sheet-padding"
+              type="number"
+              min={0}
+              value={padding}
+              onChange={(e) => setPadding(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              style={fieldStyle}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="sprite-sheet-scale" style={labelStyle}>Scale</label>
+            <input
+              id="sprite-sheet-scale"
+              type="number"
+              min={1}
+              value={scale}
+              onChange={(e) => setScale(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              style={fieldStyle}
+            />
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <label htmlFor="sprite-sheet-format" style={labelStyle}>JSON Atlas</label>
+          <select
+            id="sprite-sheet-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as AtlasFormat)}
+            style={fieldStyle}
+          >
+            <option value="hash">Hash (frames keyed by name)</option>
+            <option value="array">Array (frames in order)</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '20px' }}>
+          <span style={{
+            color: '#aaa',
+            fontSize: '12px'
+          }}>
+            Frames: {frameCount}
+          </span>
+        </div>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SpriteSheetExportModal
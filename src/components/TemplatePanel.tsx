@@ -5,12 +5,14 @@ import SaveTemplateModal from './SaveTemplateModal'
 import { TemplateManager } from '../utils/templateManager'
 
 interface TemplatePanelProps {
-  currentCanvasSize?: number
+  currentCanvasWidth?: number
+  currentCanvasHeight?: number
   canvasRef?: React.RefObject<HTMLCanvasElement>
 }
 
 const TemplatePanel: React.FC<TemplatePanelProps> = ({ 
-  currentCanvasSize = 32,
+  currentCanvasWidth = 32,
+  currentCanvasHeight = 32,
   canvasRef
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false)
@@ -47,8 +49,8 @@ const TemplatePanel: React.FC<TemplatePanelProps> = ({
     }
 
     // Validate template size matches current canvas
-    if (selectedTemplate.width !== currentCanvasSize || selectedTemplate.height !== currentCanvasSize) {
-      alert(`Template size (${selectedTemplate.width}x${selectedTemplate.height}) does not match current canvas size (${currentCanvasSize}x${currentCanvasSize}). Templates can only be applied to canvases of the same size.`)
+    if (selectedTemplate.width !== currentCanvasWidth || selectedTemplate.height !== currentCanvasHeight) {
+      alert(`Template size (${selectedTemplate.width}x${selectedTemplate.height}) does not match current canvas size (${currentCanvasWidth}x${currentCanvasHeight}). Templates can only be applied to canvases of the same size.`)
       setShowConfirmModal(false)
       setSelectedTemplate(null)
       return
@@ -97,28 +99,28 @@ const TemplatePanel: React.FC<TemplatePanelProps> = ({
       
       // Get current canvas pixels and size
       const currentPixels = (canvasRef.current as any).getCurrentPixels?.()
-      const canvasSize = (canvasRef.current as any).getCanvasSize?.()
+      const dimensions = canvasRef.current.getCanvasDimensions?.()
       
-      if (!currentPixels || !canvasSize) {
+      if (!currentPixels || !dimensions) {
         alert('Unable to get canvas data')
         return
       }
 
       // Add canvas size to tags for better organization
-      const sizeTag = `${canvasSize}x${canvasSize}`
+      const sizeTag = `${dimensions.width}x${dimensions.height}`
       const updatedTags = tags.includes(sizeTag) ? tags : [...tags, sizeTag]
 
       await templateManager.saveTemplate(
         name,
         description,
-        canvasSize,
-        canvasSize,
+        dimensions.width,
+        dimensions.height,
         currentPixels,
         updatedTags
       )
       
       loadTemplates() // Refresh the list
-      alert(`Template "${name}" saved successfully for ${canvasSize}x${canvasSize} canvas!`)
+      alert(`Template "${name}" saved successfully for ${dimensions.width}x${dimensions.height} canvas!`)
     } catch (error) {
       console.error('Failed to save template:', error)
       alert('Failed to save template. Please try again.')
@@ -136,7 +138,7 @@ const TemplatePanel: React.FC<TemplatePanelProps> = ({
 
   const filteredTemplates = templates.filter(template => {
     // First filter by canvas size - templates must match current canvas size
-    if (template.width !== currentCanvasSize || template.height !== currentCanvasSize) {
+    if (template.width !== currentCanvasWidth || template.height !== currentCanvasHeight) {
       return false
     }
     
@@ -340,7 +342,7 @@ const TemplatePanel: React.FC<TemplatePanelProps> = ({
                   color: '#666',
                   fontSize: '12px'
                 }}>
-                  No templates found for {currentCanvasSize}x{currentCanvasSize} canvas
+                  No templates found for {currentCanvasWidth}x{currentCanvasHeight} canvas
                 </div>
               ) : (
                 filteredTemplates.map(template => (
@@ -539,7 +541,8 @@ const TemplatePanel: React.FC<TemplatePanelProps> = ({
         isOpen={showSaveModal}
         onClose={() => !isSaving && setShowSaveModal(false)}
         onSave={handleSaveTemplate}
-        canvasSize={currentCanvasSize}
+        canvasWidth={currentCanvasWidth}
+        canvasHeight={currentCanvasHeight}
         isLoading={isSaving}
       />
 
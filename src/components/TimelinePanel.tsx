@@ -0,0 +1,252 @@
+import React from 'react'
+import { Frame, FramePixels, Layer, OnionSkinSettings } from '../types'
+import { compositeLayers } from '../utils/layerCompositing'
+
+// Function to generate thumbnail for a frame (all visible layers composited)
+const generateFrameThumbnail = (layers: Layer[], framePixels: FramePixels, frameId: number, canvasWidth: number, canvasHeight: number): string => {
+  const thumbnailSize = 32 // 32x32 thumbnail
+  const scale = thumbnailSize / Math.max(canvasWidth, canvasHeight)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = thumbnailSize
+  canvas.height = thumbnailSize
+  const ctx = canvas.getContext('2d')
+
+  if (!ctx) return ''
+
+  ctx.fillStyle = '#e0e0e0'
+  ctx.fillRect(0, 0, thumbnailSize, thumbnailSize)
+
+  compositeLayers(layers, framePixels.get(frameId)).forEach((pixel) => {
+    const pixelSize = Math.max(1, Math.floor(scale))
+    ctx.fillStyle = pixel.color
+    ctx.fillRect(Math.floor(pixel.x * scale), Math.floor(pixel.y * scale), pixelSize, pixelSize)
+  })
+
+  return canvas.toDataURL('image/png')
+}
+
+interface TimelinePanelProps {
+  frames: Frame[]
+  currentFrameId: number
+  framePixels: FramePixels
+  layers: Layer[]
+  canvasWidth: number
+  canvasHeight: number
+  isPlaying: boolean
+  onionSkin: OnionSkinSettings
+  onFrameSelect: (frameId: number) => void
+  onAddFrame: () => void
+  onDuplicateFrame: () => void
+  onDeleteFrame: (frameId: number) => void
+  onMoveFrame: (frameId: number, direction: -1 | 1) => void
+  onFrameDurationChange: (frameId: number, duration: number) => void
+  onTogglePlay: () => void
+  onOnionSkinChange: (settings: OnionSkinSettings) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  backgroundColor: '#4a4a4a',
+  border: '1px solid #555',
+  borderRadius: '3px',
+  color: '#fff',
+  cursor: 'pointer',
+  fontSize: '12px'
+}
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  frames,
+  currentFrameId,
+  framePixels,
+  layers,
+  canvasWidth,
+  canvasHeight,
+  isPlaying,
+  onionSkin,
+  onFrameSelect,
+  onAddFrame,
+  onDuplicateFrame,
+  onDeleteFrame,
+  onMoveFrame,
+  onFrameDurationChange,
+  onTogglePlay,
+  onOnionSkinChange
+}) => {
+  const currentIndex = frames.findIndex(f => f.id === currentFrameId)
+  const currentFrame = frames[currentIndex]
+
+  return (
+    <div style={{
+      backgroundColor: '#2a2a2a',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      width: '100%'
+    }}>
+      {/* Timeline Header */}
+      <div style={{
+        padding: '8px 12px',
+        borderBottom: '1px solid #555',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        flexWrap: 'wrap'
+      }}>
+        <span style={{ color: '#fff', fontSize: '14px', fontWeight: '500', marginRight: 'auto' }}>
+          Timeline
+        </span>
+        <button onClick={onTogglePlay} style={buttonStyle} title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        <button onClick={onAddFrame} style={buttonStyle} title="New Frame">+</button>
+        <button onClick={onDuplicateFrame} style={buttonStyle} title="Duplicate Frame">⧉</button>
+        <button
+          onClick={() => onMoveFrame(currentFrameId, -1)}
+          disabled={currentIndex <= 0}
+          style={buttonStyle}
+          title="Move Frame Left"
+        >
+          ◀
+        </button>
+        <button
+          onClick={() => onMoveFrame(currentFrameId, 1)}
+          disabled={currentIndex === -1 || currentIndex >= frames.length - 1}
+          style={buttonStyle}
+          title="Move Frame Right"
+        >
+          ▶
+        </button>
+        <button
+          onClick={() => onDeleteFrame(currentFrameId)}
+          disabled={frames.length <= 1}
+          style={buttonStyle}
+          title="Delete Frame"
+        >
+          ×
+        </button>
+        {currentFrame && (
+          <label style={{ color: '#ccc', fontSize: '12px', display: 'flex', alignItems: 'center', gap: '4px' }}>
+            Duration
+            <input
+              type="number"
+              min={10}
+              step={10}
+              value={currentFrame.duration}
+              onChange={(e) => {
+                const duration = parseInt(e.target.value, 10)
+                if (duration > 0) onFrameDurationChange(currentFrame.id, duration)
+              }}
+              style={{ width: '60px', backgroundColor: '#1e1e1e', color: '#fff', border: '1px solid #555' }}
+              aria-label="Frame duration"
+            />
+            ms
+          </label>
+        )}
+      </div>
+
+      {/* Frame Strip */}
+      <div style={{
+        display: 'flex',
+        gap: '6px',
+        padding: '8px',
+        overflowX: 'auto'
+      }}>
+        {frames.map((frame, index) => (
+          <div
+            key={frame.id}
+            className={`timeline-frame ${frame.id === currentFrameId ? 'active' : ''}`}
+            onClick={() => onFrameSelect(frame.id)}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              padding: '4px',
+              border: `1px solid ${frame.id === currentFrameId ? '#4CAF50' : '#444'}`,
+              borderRadius: '4px',
+              cursor: 'pointer',
+              backgroundColor: frame.id === currentFrameId ? '#3a3a3a' : 'transparent',
+              flexShrink: 0
+            }}
+          >
+            <img
+              src={generateFrameThumbnail(layers, framePixels, frame.id, canvasWidth, canvasHeight)}
+              alt={`Frame ${index + 1} thumbnail`}
+              style={{ width: '32px', height: '32px', imageRendering: 'pixelated' }}
+            />
+            <span style={{ color: '#ccc', fontSize: '10px' }}>{index + 1}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Onion Skin Settings */}
+      <div style={{
+        padding: '8px 12px',
+        borderTop: '1px solid #555',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        flexWrap: 'wrap',
+        color: '#ccc',
+        fontSize: '12px'
+      }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type="checkbox"
+            checked={onionSkin.enabled}
+            onChange={() => onOnionSkinChange({ ...onionSkin, enabled: !onionSkin.enabled })}
+          />
+          Onion Skin
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          Before
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={onionSkin.previousFrames}
+            onChange={(e) => onOnionSkinChange({ ...onionSkin, previousFrames: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            style={{ width: '40px', backgroundColor: '#1e1e1e', color: '#fff', border: '1px solid #555' }}
+            aria-label="Onion skin previous frames"
+          />
+          <input
+            type="color"
+            value={onionSkin.previousTint}
+            onChange={(e) => onOnionSkinChange({ ...onionSkin, previousTint: e.target.value })}
+            aria-label="Onion skin previous tint"
+          />
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          After
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={onionSkin.nextFrames}
+            onChange={(e) => onOnionSkinChange({ ...onionSkin, nextFrames: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            style={{ width: '40px', backgroundColor: '#1e1e1e', color: '#fff', border: '1px solid #555' }}
+            aria-label="Onion skin next frames"
+          />
+          <input
+            type="color"
+            value={onionSkin.nextTint}
+            onChange={(e) => onOnionSkinChange({ ...onionSkin, nextTint: e.target.value })}
+            aria-label="Onion skin next tint"
+          />
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          Opacity
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(onionSkin.opacity * 100)}
+            onChange={(e) => onOnionSkinChange({ ...onionSkin, opacity: parseInt(e.target.value, 10) / 100 })}
+            aria-label="Onion skin opacity"
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
+
+export default TimelinePanel
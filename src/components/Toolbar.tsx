@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { Tool, Color, GridSettings } from '../types'
+import { Tool, Color, FillMode, FillSettings, GradientShape, GridSettings, SymmetrySettings, SymmetryMode } from '../types'
+import { getCenteredSymmetry } from '../utils/symmetry'
+import { DEFAULT_FILL_SETTINGS } from '../utils/fillRegion'
 
 interface ToolbarProps {
   selectedTool: Tool
@@ -13,6 +15,13 @@ interface ToolbarProps {
   gridSettings: GridSettings
   onGridSettingsChange: (settings: GridSettings) => void
   hasActiveSelection?: boolean
+  symmetry?: SymmetrySettings
+  onSymmetryChange?: (settings: SymmetrySettings) => void
+  fillSettings?: FillSettings
+  onFillSettingsChange?: (settings: FillSettings) => void
+  hasFillPattern?: boolean // Whether there are copied or selected pixels for pattern fills
+  canvasWidth?: number
+  canvasHeight?: number
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -24,7 +33,14 @@ const Toolbar: React.FC<ToolbarProps> = ({
   onBrushSizeChange,
   gridSettings,
   onGridSettingsChange,
-  hasActiveSelection = false
+  hasActiveSelection = false,
+  symmetry,
+  onSymmetryChange,
+  fillSettings,
+  onFillSettingsChange,
+  hasFillPattern = true,
+  canvasWidth = 32,
+  canvasHeight = 32
 }) => {
   // Safe grid settings with defaults
   const safeGridSettings = gridSettings || {
@@ -54,6 +70,22 @@ const Toolbar: React.FC<ToolbarProps> = ({
     }
   }
 
+  const safeSymmetryChange = (settings: SymmetrySettings) => {
+    try {
+      onSymmetryChange?.(settings)
+    } catch (error) {
+      console.warn('Error in symmetry change callback:', error)
+    }
+  }
+
+  const safeFillSettingsChange = (settings: FillSettings) => {
+    try {
+      onFillSettingsChange?.(settings)
+    } catch (error) {
+      console.warn('Error in fill settings change callback:', error)
+    }
+  }
+
   const safeGridSettingsChange = (settings: GridSettings) => {
     try {
       onGridSettingsChange(settings)
@@ -67,6 +99,8 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const [isRectangleDropdownOpen, setIsRectangleDropdownOpen] = useState(false)
   const [isCircleDropdownOpen, setIsCircleDropdownOpen] = useState(false)
   const [isBrushDropdownOpen, setIsBrushDropdownOpen] = useState(false)
+  const [isSymmetryDropdownOpen, setIsSymmetryDropdownOpen] = useState(false)
+  const [isFillDropdownOpen, setIsFillDropdownOpen] = useState(false)
   
   // State for tracking last selected variants
   const [lastRectangleVariant, setLastRectangleVariant] = useState<'rectangle-border' | 'rectangle-filled'>('rectangle-border')
@@ -76,6 +110,8 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const rectangleDropdownRef = useRef<HTMLDivElement>(null)
   const circleDropdownRef = useRef<HTMLDivElement>(null)
   const brushDropdownRef = useRef<HTMLDivElement>(null)
+  const symmetryDropdownRef = useRef<HTMLDivElement>(null)
+  const fillDropdownRef = useRef<HTMLDivElement>(null)
 
   // Click outside handler to close dropdowns
   useEffect(() => {
@@ -92,6 +128,12 @@ const Toolbar: React.FC<ToolbarProps> = ({
       if (brushDropdownRef.current && !brushDropdownRef.current.contains(event.target as Node)) {
         setIsBrushDropdownOpen(false)
       }
+      if (symmetryDropdownRef.current && !symmetryDropdownRef.current.contains(event.target as Node)) {
+        setIsSymmetryDropdownOpen(false)
+      }
+      if (fillDropdownRef.current && !fillDropdownRef.current.contains(event.target as Node)) {
+        setIsFillDropdownOpen(false)
+      }
     }
 
     document.addEventListener('mousedown', handleClickOutside)
@@ -161,6 +203,17 @@ const Toolbar: React.FC<ToolbarProps> = ({
     safeGridSettingsChange(newSettings)
   }
 
+  const safeSymmetry = symmetry || getCenteredSymmetry(canvasWidth, canvasHeight)
+  const isSymmetryOn = safeSymmetry.mode !== 'none'
+
+  // Axis positions snap to whole or half pixels and stay on the canvas
+  const clampAxis = (value: string, max: number) =>
+    Math.min(max, Math.max(0, Math.round((parseFloat(value) || 0) * 2) / 2))
+
+  const safeFillSettings = fillSettings || DEFAULT_FILL_SETTINGS
+  const fillOptionStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '6px', padding: '3px 8px', color: '#ccc', fontSize: '12px' }
+  const fillSelectStyle: React.CSSProperties = { flex: 1, backgroundColor: '#1e1e1e', color: '#fff', border: '1px solid #555' }
+
 
 
   const tools: { id: Tool; name: string; icon: string; iconType: 'svg' | 'png' }[] = [
@@ -687,6 +740,319 @@ const Toolbar: React.FC<ToolbarProps> = ({
             </div>
           )}
         </div>
+
+        {/* Symmetry Controls */}
+        {onSymmetryChange && (
+          <div
+            ref={symmetryDropdownRef}
+            style={{ position: 'relative' }}
+          >
+            <button
+              className={`tool-button ${isSymmetryOn ? 'active' : ''}`}
+              onClick={() => setIsSymmetryDropdownOpen(!isSymmetryDropdownOpen)}
+              title={`Symmetry - Currently ${isSymmetryOn ? safeSymmetry.mode.toUpperCase() : 'OFF'}`}
+              style={{ position: 'relative' }}
+            >
+              <img
+                src={isSymmetryOn ? '/icons/gimp-all/default-svg/gimp-symmetry.svg' : '/icons/gimp-all/default-svg/gimp-symmetry-symbolic.svg'}
+                alt="Symmetry"
+                style={{ width: '20px', height: '20px' }}
+              />
+
+              {/* Dropdown arrow indicator */}
+              <div style={{
+                position: 'absolute',
+                bottom: '2px',
+                right: '2px',
+                width: '0',
+                height: '0',
+                borderLeft: '4px solid transparent',
+                borderRight: '4px solid transparent',
+                borderTop: '4px solid #ccc',
+                fontSize: '8px'
+              }} />
+            </button>
+
+            {/* Symmetry Options Dropdown */}
+            {isSymmetryDropdownOpen && (
+              <div style={{
+                position: 'absolute',
+                top: '100%',
+                left: '0',
+                backgroundColor: '#4a4a4a',
+                border: '1px solid #666',
+                borderRadius: '4px',
+                padding: '4px',
+                zIndex: 9999,
+                minWidth: '160px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+                marginTop: '2px'
+              }}>
+                {([
+                  { value: 'none', label: 'No Symmetry', icon: '/icons/gimp-all/default-svg/gimp-symmetry-symbolic.svg' },
+                  { value: 'horizontal', label: 'Mirror Horizontally', icon: '/icons/gimp-all/default-svg/object-flip-horizontal.svg' },
+                  { value: 'vertical', label: 'Mirror Vertically', icon: '/icons/gimp-all/default-svg/object-flip-vertical.svg' },
+                  { value: 'both', label: 'Mirror Both Axes', icon: '/icons/gimp-all/default-svg/gimp-symmetry.svg' }
+                ] as { value: SymmetryMode; label: string; icon: string }[]).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => safeSymmetryChange({ ...safeSymmetry, mode: option.value })}
+                    style={{
+                      width: '100%',
+                      padding: '6px 8px',
+                      backgroundColor: safeSymmetry.mode === option.value ? '#666' : 'transparent',
+                      border: 'none',
+                      color: '#fff',
+                      fontSize: '12px',
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      borderRadius: '2px'
+                    }}
+                    title={option.label}
+                  >
+                    <img
+                      src={option.icon}
+                      alt={option.label}
+                      style={{ width: '16px', height: '16px' }}
+                    />
+                    {option.label}
+                  </button>
+                ))}
+
+                <div style={{
+                  height: '1px',
+                  backgroundColor: '#666',
+                  margin: '4px 0'
+                }} />
+
+                {/* Axis positions */}
+                <div style={{ display: 'flex', gap: '6px', padding: '4px 8px', color: '#ccc', fontSize: '12px' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    X
+                    <input
+                      type="number"
+                      min={0}
+                      max={canvasWidth}
+                      step={0.5}
+                      value={safeSymmetry.axisX}
+                      onChange={(e) => safeSymmetryChange({ ...safeSymmetry, axisX: clampAxis(e.target.value, canvasWidth) })}
+                      style={{ width: '52px', backgroundColor: '#1e1e1e', color: '#fff', border: '1px solid #555' }}
+                      aria-label="Symmetry axis X"
+                    />
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    Y
+                    <input
+                      type="number"
+                      min={0}
+                      max={canvasHeight}
+                      step={0.5}
+                      value={safeSymmetry.axisY}
+                      onChange={(e) => safeSymmetryChange({ ...safeSymmetry, axisY: clampAxis(e.target.value, canvasHeight) })}
+                      style={{ width: '52px', backgroundColor: '#1e1e1e', color: '#fff', border: '1px solid #555' }}
+                      aria-label="Symmetry axis Y"
+                    />
+                  </label>
+                </div>
+                <button
+                  onClick={() => safeSymmetryChange(getCenteredSymmetry(canvasWidth, canvasHeight, safeSymmetry.mode))}
+                  style={{
+                    width: '100%',
+                    padding: '6px 8px',
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    color: '#fff',
+                    fontSize: '12px',
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                    borderRadius: '2px'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  Center Axes
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Fill and magic wand matching options */}
+        {onFillSettingsChange && (
+          <div
+            ref={fillDropdownRef}
+            style={{ position: 'relative' }}
+          >
+            <button
+              className={`tool-button ${isFillDropdownOpen ? 'active' : ''}`}
+              onClick={() => setIsFillDropdownOpen(!isFillDropdownOpen)}
+              title={`Fill Options - ${safeFillSettings.mode.charAt(0).toUpperCase()}${safeFillSettings.mode.slice(1)}, Tolerance ${safeFillSettings.tolerance}%`}
+              style={{ position: 'relative' }}
+            >
+              <img
+                src="/icons/gimp-all/default-svg/gimp-tool-options.svg"
+                alt="Fill Options"
+                style={{ width: '20px', height: '20px' }}
+              />
+
+              {/* Dropdown arrow indicator */}
+              <div style={{
+                position: 'absolute',
+                bottom: '2px',
+                right: '2px',
+                width: '0',
+                height: '0',
+                borderLeft: '4px solid transparent',
+                borderRight: '4px solid transparent',
+                borderTop: '4px solid #ccc',
+                fontSize: '8px'
+              }} />
+            </button>
+
+            {/* Fill Options Dropdown */}
+            {isFillDropdownOpen && (
+              <div style={{
+                position: 'absolute',
+                top: '100%',
+                left: '0',
+                backgroundColor: '#4a4a4a',
+                border: '1px solid #666',
+                borderRadius: '4px',
+                padding: '4px',
+                zIndex: 9999,
+                minWidth: '200px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+                marginTop: '2px'
+              }}>
+                <label style={fillOptionStyle}>
+                  Fill
+                  <select
+                    value={safeFillSettings.mode}
+                    onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, mode: e.target.value as FillMode })}
+                    style={fillSelectStyle}
+                    aria-label="Fill mode"
+                  >
+                    <option value="solid">Solid</option>
+                    <option value="pattern" disabled={!hasFillPattern}>Pattern (copied or selected pixels)</option>
+                    <option value="gradient">Gradient</option>
+                    <option value="dither">Dither</option>
+                  </select>
+                </label>
+
+                {safeFillSettings.mode === 'pattern' && !hasFillPattern && (
+                  <div style={{ ...fillOptionStyle, color: '#f0ad4e' }}>
+                    Copy or select pixels to fill with
+                  </div>
+                )}
+
+                {(safeFillSettings.mode === 'gradient' || safeFillSettings.mode === 'dither') && (
+                  <label style={fillOptionStyle}>
+                    Shape
+                    <select
+                      value={safeFillSettings.gradient}
+                      onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, gradient: e.target.value as GradientShape })}
+                      style={fillSelectStyle}
+                      aria-label="Gradient shape"
+                    >
+                      <option value="linear">Linear</option>
+                      <option value="radial">Radial</option>
+                    </select>
+                  </label>
+                )}
+
+                {safeFillSettings.mode === 'dither' && (
+                  <label style={fillOptionStyle}>
+                    Bayer
+                    <select
+                      value={safeFillSettings.ditherSize}
+                      onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, ditherSize: Number(e.target.value) as FillSettings['ditherSize'] })}
+                      style={fillSelectStyle}
+                      aria-label="Dither size"
+                    >
+                      <option value={2}>2x2</option>
+                      <option value={4}>4x4</option>
+                      <option value={8}>8x8</option>
+                    </select>
+                  </label>
+                )}
+
+                <div style={{
+                  height: '1px',
+                  backgroundColor: '#666',
+                  margin: '4px 0'
+                }} />
+
+                <div style={{ padding: '4px 8px', color: '#fff', fontSize: '12px' }}>Fill & Magic Wand</div>
+
+                <label style={fillOptionStyle}>
+                  Tolerance
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={safeFillSettings.tolerance}
+                    onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, tolerance: Number(e.target.value) })}
+                    style={{ flex: 1 }}
+                    aria-label="Fill tolerance"
+                  />
+                  <span style={{ width: '32px', textAlign: 'right' }}>{safeFillSettings.tolerance}%</span>
+                </label>
+
+                <label style={fillOptionStyle}>
+                  Distance
+                  <select
+                    value={safeFillSettings.distance}
+                    onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, distance: e.target.value as FillSettings['distance'] })}
+                    style={fillSelectStyle}
+                    aria-label="Color distance"
+                  >
+                    <option value="rgb">RGB</option>
+                    <option value="perceptual">Perceptual</option>
+                  </select>
+                </label>
+
+                <div style={{
+                  height: '1px',
+                  backgroundColor: '#666',
+                  margin: '4px 0'
+                }} />
+
+                <label style={fillOptionStyle}>
+                  <input
+                    type="checkbox"
+                    checked={safeFillSettings.contiguous}
+                    onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, contiguous: e.target.checked })}
+                  />
+                  Contiguous
+                </label>
+                <div style={fillOptionStyle}>
+                  {([4, 8] as const).map(connectivity => (
+                    <label key={connectivity} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                      <input
+                        type="radio"
+                        checked={safeFillSettings.connectivity === connectivity}
+                        disabled={!safeFillSettings.contiguous}
+                        onChange={() => safeFillSettingsChange({ ...safeFillSettings, connectivity })}
+                      />
+                      {connectivity}-way
+                    </label>
+                  ))}
+                </div>
+                <label style={fillOptionStyle}>
+                  <input
+                    type="checkbox"
+                    checked={safeFillSettings.sampleAllLayers}
+                    onChange={(e) => safeFillSettingsChange({ ...safeFillSettings, sampleAllLayers: e.target.checked })}
+                  />
+                  Sample all layers
+                </label>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Color Display - Single icon box split diagonally */}
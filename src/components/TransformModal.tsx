@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { PixelTransform, TransformTarget } from '../types'
+import { isIdentityTransform } from '../utils/selectionTransform'
+
+interface TransformModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onApply: (transform: PixelTransform, target: TransformTarget) => void
+  onPreview: (transform: PixelTransform | null, target: TransformTarget) => void
+  hasSelection: boolean
+}
+
+const MAX_SCALE_PERCENT = 1000
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  backgroundColor: '#3a3a3a',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  color: '#fff',
+  fontSize: '14px'
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: '#fff',
+  marginBottom: '8px',
+  fontSize: '14px'
+}
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  color: '#ccc',
+  fontSize: '13px',
+  marginBottom: '4px'
+}
+
+const quickButtonStyle = (active: boolean): React.CSSProperties => ({
+  flex: 1,
+  padding: '6px 8px',
+  backgroundColor: active ? '#007acc' : '#4a4a4a',
+  border: `1px solid ${active ? '#007acc' : '#555'}`,
+  borderRadius: '4px',
+  color: '#fff',
+  cursor: 'pointer',
+  fontSize: '13px'
+})
+
+const clampPercent = (value: string) =>
+  Math.min(MAX_SCALE_PERCENT, Math.max(1, parseInt(value, 10) || 1))
+
+// Angles are kept between -180 and 180 so the slider can show them
+const normalizeAngle = (value: number) => {
+  const angle = ((value % 360) + 360) % 360
+  return angle > 180 ? angle - 360 : angle
+}
+
+const TransformModal: React.FC<TransformModalProps> = ({
+  isOpen,
+  onClose,
+  onApply,
+  onPreview,
+  hasSelection
+}) => {
+  const [flipHorizontal, setFlipHorizontal] = useState(false)
+  const [flipVertical, setFlipVertical] = useState(false)
+  const [angle, setAngle] = useState(0)
+  const [scaleX, setScaleX] = useState(100)
+  const [scaleY, setScaleY] = useState(100)
+  const [keepProportions, setKeepProportions] = useState(true)
+  const [target, setTarget] = useState<TransformTarget>('layer')
+  const [showPreview, setShowPreview] = useState(true)
+
+  // The preview follows the latest callback without re-running on every parent render
+  const onPreviewRef = useRef(onPreview)
+  onPreviewRef.current = onPreview
+
+  // Start without any transform every time the dialog opens, on the selection if there is one
+  useEffect(() => {
+    if (isOpen) {
+      setFlipHorizontal(false)
+      setFlipVertical(false)
+      setAngle(0)
+      setScaleX(100)
+      setScaleY(100)
+      setTarget(hasSelection ? 'selection' : 'layer')
+    }
+  }, [isOpen])
+
+  const transform: PixelTransform = {
+    flipHorizontal,
+    flipVertical,
+    scaleX: scaleX / 100,
+    scaleY: scaleY / 100,
+    angle
+  }
+  // Fall back to the active layer if the selection went away while the dialog was open
+  const effectiveTarget: TransformTarget = target === 'selection' && !hasSelection ? 'layer' : target
+
+  // Show the transform on the canvas while the dialog is open; closing it takes the preview away
+  useEffect(() => {
+    if (!isOpen || !showPreview) return
+    onPreviewRef.current(transform, effectiveTarget)
+    return () => onPreviewRef.current(null, effectiveTarget)
+  }, [isOpen, showPreview, flipHorizontal, flipVertical, angle, scaleX, scaleY, effectiveTarget])
+
+  const handleScaleX = (value: string) => {
+    const percent = clampPercent(value)
+    setScaleX(percent)
+    if (keepProportions) setScaleY(percent)
+  }
+
+  const handleScaleY = (value: string) => {
+    const percent = clampPercent(value)
+    setScaleY(percent)
+    if (keepProportions) setScaleX(percent)
+  }
+
+  const handleApply = () => {
+    onApply(transform, effectiveTarget)
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#2a2a2a',
+        border: '1px solid #555',
+        borderRadius: '8px',
+        padding: '24px',
+        width: '400px',
+        maxWidth: '90vw'
+      }}>
+        <h3 style={{
+          color: '#fff',
+          margin: '0 0 20px 0',
+          fontSize: '18px',
+          fontWeight: '600'
+        }}>
+          Transform
+        </h3>
+
+        <div style={{ marginBottom: '16px' }}>
+          <span style={labelStyle}>Flip</span>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button style={quickButtonStyle(flipHorizontal)} onClick={() => setFlipHorizontal(!flipHorizontal)}>
+              Flip Horizontal
+            </button>
+            <button style={quickButtonStyle(flipVertical)} onClick={() => setFlipVertical(!flipVertical)}>
+              Flip Vertical
+            </button>
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label htmlFor="transform-angle" style={labelStyle}>Angle</label>
+          <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+            {[90, 180, 270].map(quarter => (
+              <button
+                key={quarter}
+                style={quickButtonStyle(angle === normalizeAngle(quarter))}
+                onClick={() => setAngle(normalizeAngle(quarter))}
+              >
+                {quarter}°
+              </button>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={angle}
+              onChange={(e) => setAngle(normalizeAngle(Number(e.target.value)))}
+              style={{ flex: 1 }}
+              aria-label="Angle slider"
+            />
+            <input
+              id="transform-angle"
+              type="number"
+              min={-180}
+              max={180}
+              value={angle}
+              onChange={(e) => setAngle(normalizeAngle(parseFloat(e.target.value) || 0))}
+              style={{ ...fieldStyle, width: '80px' }}
+            />
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '8px', display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="transform-scale-x" style={labelStyle}>Width %</label>
+            <input
+              id="transform-scale-x"
+              type="number"
+              min={1}
+              max={MAX_SCALE_PERCENT}
+              value={scaleX}
+              onChange={(e) => handleScaleX(e.target.value)}
+              style={fieldStyle}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="transform-scale-y" style={labelStyle}>Height %</label>
+            <input
+              id="transform-scale-y"
+              type="number"
+              min={1}
+              max={MAX_SCALE_PERCENT}
+              value={scaleY}
+              onChange={(e) => handleScaleY(e.target.value)}
+              style={fieldStyle}
+            />
+          </div>
+        </div>
+        <label style={{ ...optionStyle, marginBottom: '16px' }}>
+          <input type="checkbox" checked={keepProportions} onChange={(e) => setKeepProportions(e.target.checked)} />
+          Keep proportions
+        </label>
+
+        <div style={{ marginBottom: '16px' }}>
+          <span style={labelStyle}>Apply to</span>
+          <label style={{ ...optionStyle, opacity: hasSelection ? 1 : 0.5 }}>
+            <input
+              type="radio"
+              checked={effectiveTarget === 'selection'}
+              disabled={!hasSelection}
+              onChange={() => setTarget('selection')}
+            />
+            Selection
+          </label>
+          <label style={optionStyle}>
+            <input type="radio" checked={effectiveTarget === 'layer'} onChange={() => setTarget('layer')} />
+            Whole layer
+          </label>
+        </div>
+
+        <label style={{ ...optionStyle, marginBottom: '20px' }}>
+          <input type="checkbox" checked={showPreview} onChange={(e) => setShowPreview(e.target.checked)} />
+          Preview
+        </label>
+
+        <div style={{
+          display: 'flex',
+          gap: '12px',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4a4a4a',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isIdentityTransform(transform)}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#007acc',
+              border: '1px solid #007acc',
+              borderRadius: '4px',
+              color: '#fff',
+              cursor: isIdentityTransform(transform) ? 'not-allowed' : 'pointer',
+              opacity: isIdentityTransform(transform) ? 0.5 : 1,
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TransformModal
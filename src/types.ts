@@ -1,19 +1,218 @@
-export type Tool = 'pencil' | 'eraser' | 'fill' | 'eyedropper' | 'rectangle-border' | 'rectangle-filled' | 'circle-border' | 'circle-filled' | 'line' | 'select' | 'lasso' | 'magic-wand' | 'copy' | 'cut' | 'paste' | 'move-selection' | 'brush-size' | 'template'
+export type Tool = 'pencil' | 'eraser' | 'fill' | 'eyedropper' | 'rectangle-border' | 'rectangle-filled' | 'circle-border' | 'circle-filled' | 'line' | 'select' | 'lasso' | 'magic-wand' | 'copy' | 'cut' | 'paste' | 'move-selection' | 'brush-size' | 'template' | 'replace-color' | 'transform' | 'layer'
 
 export type Color = string
 
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'add' | 'subtract' | 'darken' | 'lighten'
+
 export interface Layer {
   id: number
   name: string
   visible: boolean
   active: boolean
+  opacity?: number // 0-100, 100 if missing
+  blendMode?: BlendMode // 'normal' if missing
+  locked?: boolean // Locked layers cannot be drawn on
+  groupId?: number // Group the layer belongs to (top level if missing)
+}
+
+// Folder in the layer panel; a group's visibility applies to every layer and group inside it
+export interface LayerGroup {
+  id: number
+  name: string
+  visible: boolean
+  collapsed: boolean
+  opacity?: number // 0-100, 100 if missing; multiplied into each layer's opacity, not applied to the group as a whole
+  parentId?: number // Group this group is nested in (top level if missing)
 }
 
+// Layers and groups as shown in the layer panel, bottom first; index is the layer's position in Layer[]
+export type LayerTreeNode =
+  | { type: 'layer'; layer: Layer; index: number; depth: number }
+  | { type: 'group'; group: LayerGroup; depth: number; children: LayerTreeNode[] }
+
 export interface PixelData {
   x: number
   y: number
   color: Color
   layerId: number
+  paletteIndex?: number // Indexed mode only: the palette entry this pixel uses; color mirrors that entry
+}
+
+// 'rgb' stores free colors; 'indexed' binds every pixel to an entry of the active palette
+export type ColorMode = 'rgb' | 'indexed'
+
+// Each layer owns its own pixel buffer keyed by "x,y"; the outer map is keyed by layer id
+export type LayerPixels = Map<number, Map<string, PixelData>>
+
+// Animation frame; every frame has its own pixels for every layer
+export interface Frame {
+  id: number
+  duration: number // Display time in milliseconds
+}
+
+// Per-frame layer pixels, keyed by frame id
+export type FramePixels = Map<number, LayerPixels>
+
+export interface OnionSkinSettings {
+  enabled: boolean
+  previousFrames: number // How many frames before the current one to show
+  nextFrames: number // How many frames after the current one to show
+  opacity: number // 0-1, applied to the nearest frame and faded for further ones
+  previousTint: Color
+  nextTint: Color
+}
+
+// Sprite sheet export: 'grid' keeps every frame in a fixed-size cell, 'packed' trims
+// frames to their content and packs them into rows
+export type SpriteSheetLayout = 'grid' | 'packed'
+
+// JSON atlas flavour: frames keyed by name ('hash') or listed in order ('array')
+export type AtlasFormat = 'hash' | 'array'
+
+export interface SpriteSheetOptions {
+  layout: SpriteSheetLayout
+  format: AtlasFormat
+  columns: number // Grid layout only; 0 picks a roughly square grid
+  padding: number // Empty pixels between frames, in sprite pixels
+  scale: number // Integer upscale applied to the exported image
+}
+
+// Region a PNG export covers: the whole canvas, the selection, or the drawn content
+export type PngExportBounds = 'canvas' | 'selection' | 'trim'
+
+export interface PngExportOptions {
+  scale: number // Integer upscale, e.g. 1, 2, 4, 8
+  background: Color | null // Solid background color, or null for transparent
+  bounds: PngExportBounds
+  indexed?: boolean // Write a palette-based (color type 3) PNG using the document palette
+}
+
+// How an imported image is placed on the canvas: scaled to fit inside, scaled to
+// cover (cropping the overflow), or kept at 1:1 and centered
+export type ImageImportPlacement = 'fit' | 'fill' | 'center'
+
+export interface ImageImportOptions {
+  placement: ImageImportPlacement
+  alphaThreshold: number // 0-255; pixels with lower alpha become transparent
+  palette?: Color[] // When set, every color is snapped to the nearest palette color
+}
+
+// Which edge/corner stays fixed when the canvas is resized; the canvas grows or is cropped on the other sides
+export type ResizeAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right'
+
+// Where Replace Color and palette remaps apply, within the current frame
+export type ReplaceColorScope = 'layer' | 'all-layers' | 'selection'
+
+// What a transform applies to: the selected region or the whole active layer
+export type TransformTarget = 'selection' | 'layer'
+
+// Flips, then scaling, then a clockwise rotation about the center of the transformed region
+export interface PixelTransform {
+  flipHorizontal: boolean
+  flipVertical: boolean
+  scaleX: number // 1 keeps the size
+  scaleY: number
+  angle: number // Degrees clockwise
+}
+
+// Changes to the layer stack itself, undone as a whole rather than pixel by pixel
+export type LayerChangeAction = 'add' | 'delete' | 'visibility' | 'reorder' | 'rename' | 'duplicate' | 'merge-down' | 'flatten' | 'lock' | 'opacity' | 'blend-mode' | 'group' | 'ungroup' | 'group-visibility' | 'group-opacity'
+
+// The layer stack after a layer change, with the pixels of every frame and the
+// layer groups when the change rewrites them
+export interface LayerChange {
+  layers: Layer[]
+  framePixels?: FramePixels
+  groups?: LayerGroup[]
+}
+
+// Mirror drawing: 'horizontal' mirrors left/right across a vertical axis, 'vertical' mirrors
+// top/bottom across a horizontal axis, 'both' mirrors into all four quadrants
+export type SymmetryMode = 'none' | 'horizontal' | 'vertical' | 'both'
+
+export interface SymmetrySettings {
+  mode: SymmetryMode
+  axisX: number // Position of the vertical axis in sprite pixels; x.5 runs through the middle of a pixel
+  axisY: number // Position of the horizontal axis in sprite pixels
+}
+
+// How the fill bucket and magic wand decide which pixels match the one clicked.
+// tolerance is 0-100: 0 matches the exact color, 100 matches everything. 'rgb' measures the
+// straight distance between channels, 'perceptual' the CIELAB difference the eye sees
+export type ColorDistanceMode = 'rgb' | 'perceptual'
+
+// What the fill bucket paints: the primary color, the copied pixels tiled, a gradient from the
+// primary to the secondary color snapped to the palette, or the same gradient as an ordered
+// Bayer dither of just those two colors
+export type FillMode = 'solid' | 'pattern' | 'gradient' | 'dither'
+
+export type GradientShape = 'linear' | 'radial'
+
+export interface FillSettings {
+  mode: FillMode
+  gradient: GradientShape
+  ditherSize: 2 | 4 | 8 // Side of the Bayer matrix; larger ones give more shades between the two colors
+  tolerance: number
+  distance: ColorDistanceMode
+  contiguous: boolean // Only pixels connected to the clicked one; off matches the whole canvas
+  connectivity: 4 | 8 // 8 also connects pixels that only touch at a corner
+  sampleAllLayers: boolean // Match against the visible image instead of the active layer
+}
+
+// Editor zoom and pan. zoom multiplies the fit-to-view cell size; panX/panY offset the
+// sprite inside the editor viewport, in screen pixels
+export interface Viewport {
+  zoom: number
+  panX: number
+  panY: number
+}
+
+// Inclusive pixel bounds of a rectangular selection
+export interface SelectionBounds {
+  startX: number
+  startY: number
+  endX: number
+  endY: number
+}
+
+// The selected pixels, by "x,y" key; every selection tool writes one
+export type SelectionMask = Set<string>
+
+// How a new selection combines with the current one
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect'
+
+// Commands that change the whole selection at once
+export type SelectionChange =
+  | { type: 'all' }
+  | { type: 'none' }
+  | { type: 'invert' }
+  | { type: 'grow'; amount: number }
+  | { type: 'shrink'; amount: number }
+  | { type: 'color'; color: Color }
+
+// Named color palette shown in the color template picker
+export interface CustomColorTemplate {
+  id: string
+  name: string
+  colors: Color[]
+}
+
+// Everything needed to restore an editing session from a project file
+export interface ProjectDocument {
+  canvasWidth: number
+  canvasHeight: number
+  layers: Layer[]
+  frames: Frame[]
+  framePixels: FramePixels
+  primaryColor: Color
+  secondaryColor: Color
+  gridSettings: GridSettings
+  palette: CustomColorTemplate
+  colorMode?: ColorMode // Missing means 'rgb'
+  layerGroups?: LayerGroup[] // Missing means no groups
 }
 
 // Template system types
@@ -49,18 +248,29 @@ export interface SavedTemplate {
 }
 
 // New types for undo/redo system
+
+// A frame's layers right after an operation, so its state can be rebuilt from the nearest
+// keyframe and the diffs after it instead of from the whole history
+export interface HistoryKeyframe {
+  layers: Layer[]
+  groups: LayerGroup[]
+  pixels: LayerPixels
+}
+
 export interface StrokeOperation {
   id: string
   tool: Tool
   layerId: number
+  frameId?: number // Frame the operation was recorded on (current frame if missing)
   pixels: Array<{
     x: number
     y: number
     previousColor: Color
     newColor: Color
+    layerId?: number // Set when one operation spans several layers (layerId above if missing)
   }>
   timestamp: number
-  canvasSnapshot?: Map<string, PixelData> // Store the complete canvas state after this operation
+  keyframe?: HistoryKeyframe // Carried by every few operations of a frame; the others only keep their diff
   metadata?: {
     selectionBounds?: {
       startX: number
@@ -74,6 +284,7 @@ export interface StrokeOperation {
       color: Color
       layerId: number
     }>
+    selectionMask?: SelectionMask // The selected pixels, when the selection is not a rectangle
     pasteBounds?: {
       startX: number
       startY: number
@@ -92,6 +303,16 @@ export interface StrokeOperation {
       color: Color
       layerId: number
     }>
+    layerChange?: {
+      action: LayerChangeAction
+      layersBefore: Layer[]
+      layersAfter: Layer[]
+      layerIds: number[] // Layers whose pixel buffers the change rewrote
+      pixelsBefore: FramePixels // Buffers of those layers in every frame, before and after
+      pixelsAfter: FramePixels
+      groupsBefore?: LayerGroup[] // Only set when the change rewrote the layer groups
+      groupsAfter?: LayerGroup[]
+    }
   }
 }
 
@@ -99,6 +320,7 @@ export interface HistoryState {
   undoStack: StrokeOperation[]
   redoStack: StrokeOperation[]
   maxHistorySize: number
+  maxHistoryBytes: number // Memory budget for both stacks, by estimated size
 }
 
 export interface CanvasState {
@@ -130,6 +352,18 @@ declare global {
     addToHistory?: (operation: StrokeOperation) => void
     applyTemplate?: (templatePixels: Map<string, PixelData>) => void
     getCurrentPixels?: () => Map<string, PixelData>
-    getCanvasSize?: () => number
+    getCanvasDimensions?: () => { width: number; height: number }
+    getSelectionBounds?: () => SelectionBounds | null
+    loadFramePixels?: (framePixels: FramePixels) => void
+    loadHistory?: (history: Pick<HistoryState, 'undoStack' | 'redoStack'>) => void
+    copyFramePixels?: (sourceFrameId: number, targetFrameId: number) => void
+    replaceColors?: (mapping: Array<[Color, Color]>, scope: ReplaceColorScope) => number
+    changeSelection?: (change: SelectionChange) => boolean
+    previewTransform?: (transform: PixelTransform | null, target: TransformTarget) => void
+    transformPixels?: (transform: PixelTransform, target: TransformTarget) => boolean
+    changeLayers?: (
+      action: LayerChangeAction,
+      change: (layers: Layer[], framePixels: FramePixels, groups: LayerGroup[]) => LayerChange | null
+    ) => boolean
   }
 }
@@ -0,0 +1,112 @@
+import { HistoryState, StrokeOperation } from '../types'
+import { dropOldestOperations } from './historyDiff'
+
+export const AUTOSAVE_DATABASE_NAME = 'spritemaker'
+export const AUTOSAVE_INTERVAL = 30000 // ms between timed saves
+export const AUTOSAVE_HISTORY_LIMIT = 50 // Operations kept from each history stack
+
+const DATABASE_VERSION = 1
+const STORE_NAME = 'autosave'
+const SESSION_KEY = 'session'
+
+// The last autosaved editing session
+export interface AutosaveSnapshot {
+  project: string // Document in the project file format
+  undoStack: StrokeOperation[]
+  redoStack: StrokeOperation[]
+  savedAt: number
+}
+
+/**
+ * Checks whether this browser can keep autosaves
+ * @returns True if IndexedDB is available
+ */
+export function isAutosaveAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Builds an autosave from a serialized document and the editor history, keeping
+ * only the most recent operations of each stack
+ * @param project - Document serialized with serializeProject
+ * @param history - The editor's undo and redo stacks
+ * @param limit - Operations to keep from each stack
+ * @returns The snapshot to store
+ */
+export function createAutosaveSnapshot(
+  project: string,
+  history: Pick<HistoryState, 'undoStack' | 'redoStack'>,
+  limit: number = AUTOSAVE_HISTORY_LIMIT
+): AutosaveSnapshot {
+  return {
+    project,
+    // The ends of both stacks are the operations closest to the current state. Undo operations
+    // are rebuilt from keyframes before them, so those carry over to the operations kept
+    undoStack: limit > 0 ? dropOldestOperations(history.undoStack, Math.max(0, history.undoStack.length - limit)) : [],
+    redoStack: limit > 0 ? history.redoStack.slice(-limit) : [],
+    savedAt: Date.now()
+  }
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (!isAutosaveAvailable()) {
+    reject(new Error('IndexedDB is not available'))
+    return
+  }
+
+  const request = indexedDB.open(AUTOSAVE_DATABASE_NAME, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME)
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+// Runs one request against the autosave store and resolves once its transaction completes
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode)
+      const request = makeRequest(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    database.close()
+  }
+}
+
+/**
+ * Stores a snapshot as the last session, replacing the previous one
+ * @param snapshot - The session to keep
+ */
+export async function saveAutosave(snapshot: AutosaveSnapshot): Promise<void> {
+  await runInStore('readwrite', store => store.put(snapshot, SESSION_KEY))
+}
+
+/**
+ * Reads the last autosaved session
+ * @returns The snapshot, or null if there is none
+ */
+export async function loadAutosave(): Promise<AutosaveSnapshot | null> {
+  const snapshot = await runInStore<AutosaveSnapshot | undefined>('readonly', store => store.get(SESSION_KEY))
+  if (!snapshot || typeof snapshot.project !== 'string') return null
+
+  return {
+    ...snapshot,
+    undoStack: Array.isArray(snapshot.undoStack) ? snapshot.undoStack : [],
+    redoStack: Array.isArray(snapshot.redoStack) ? snapshot.redoStack : []
+  }
+}
+
+/**
+ * Forgets the last autosaved session
+ */
+export async function clearAutosave(): Promise<void> {
+  await runInStore('readwrite', store => store.delete(SESSION_KEY))
+}
@@ -0,0 +1,73 @@
+import { BlendMode, Color, Layer } from '../types'
+import { hexToRgba, rgbaToHex } from './colorUtils'
+
+export const BLEND_MODES: Array<{ id: BlendMode; name: string }> = [
+  { id: 'normal', name: 'Normal' },
+  { id: 'multiply', name: 'Multiply' },
+  { id: 'screen', name: 'Screen' },
+  { id: 'overlay', name: 'Overlay' },
+  { id: 'add', name: 'Add' },
+  { id: 'subtract', name: 'Subtract' },
+  { id: 'darken', name: 'Darken' },
+  { id: 'lighten', name: 'Lighten' }
+]
+
+// Blend functions per channel (0-1): backdrop is the color underneath, source the layer's color
+const BLEND_FUNCTIONS: Record<BlendMode, (backdrop: number, source: number) => number> = {
+  normal: (_backdrop, source) => source,
+  multiply: (backdrop, source) => backdrop * source,
+  screen: (backdrop, source) => backdrop + source - backdrop * source,
+  overlay: (backdrop, source) => backdrop <= 0.5
+    ? 2 * backdrop * source
+    : 1 - 2 * (1 - backdrop) * (1 - source),
+  add: (backdrop, source) => Math.min(1, backdrop + source),
+  subtract: (backdrop, source) => Math.max(0, backdrop - source),
+  darken: (backdrop, source) => Math.min(backdrop, source),
+  lighten: (backdrop, source) => Math.max(backdrop, source)
+}
+
+/**
+ * Layer opacity as a 0-1 factor
+ * @param layer - The layer
+ * @returns 1 for layers without an opacity
+ */
+export function getLayerOpacity(layer: Layer): number {
+  return Math.max(0, Math.min(100, layer.opacity ?? 100)) / 100
+}
+
+/**
+ * Composites a layer's pixel color over the color underneath, using the layer's
+ * blend mode and opacity (the W3C compositing model: the blend result only
+ * shows where the backdrop is opaque, and source-over alpha is applied after)
+ * @param source - The layer's pixel color
+ * @param backdrop - The composited color underneath, or 'transparent'
+ * @param mode - The layer's blend mode
+ * @param opacity - The layer's opacity (0-1)
+ * @returns The composited color, or 'transparent' if nothing is left
+ */
+export function blendLayerColor(source: Color, backdrop: Color, mode: BlendMode = 'normal', opacity: number = 1): Color {
+  const top = hexToRgba(source)
+  if (!top) return backdrop
+
+  const sourceAlpha = (top.a / 255) * opacity
+  if (sourceAlpha <= 0) return backdrop
+
+  const bottom = backdrop === 'transparent' ? null : hexToRgba(backdrop)
+  const backdropAlpha = bottom ? bottom.a / 255 : 0
+  const blend = BLEND_FUNCTIONS[mode] || BLEND_FUNCTIONS.normal
+
+  const alpha = sourceAlpha + backdropAlpha * (1 - sourceAlpha)
+  const channel = (sourceValue: number, backdropValue: number) => {
+    const s = sourceValue / 255
+    const b = backdropValue / 255
+    const mixed = (1 - backdropAlpha) * s + backdropAlpha * blend(b, s)
+    return ((sourceAlpha * mixed + backdropAlpha * (1 - sourceAlpha) * b) / alpha) * 255
+  }
+
+  return rgbaToHex(
+    channel(top.r, bottom?.r ?? 0),
+    channel(top.g, bottom?.g ?? 0),
+    channel(top.b, bottom?.b ?? 0),
+    alpha * 255
+  )
+}
@@ -0,0 +1,85 @@
+import { FramePixels, PixelData, ResizeAnchor } from '../types'
+
+/**
+ * Works out how far existing pixels move when the canvas is resized around an anchor
+ * @param oldWidth - Current canvas width
+ * @param oldHeight - Current canvas height
+ * @param newWidth - New canvas width
+ * @param newHeight - New canvas height
+ * @param anchor - Edge or corner that stays in place
+ * @returns Offset to add to every pixel position
+ */
+export function getResizeOffset(
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+  anchor: ResizeAnchor
+): { dx: number; dy: number } {
+  const horizontal = anchor.includes('left') ? 0 : anchor.includes('right') ? 1 : 0.5
+  const vertical = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5
+
+  return {
+    dx: Math.floor((newWidth - oldWidth) * horizontal),
+    dy: Math.floor((newHeight - oldHeight) * vertical)
+  }
+}
+
+/**
+ * Moves a layer's pixels for a resized canvas, dropping any that fall outside it
+ * @param pixels - Pixel map keyed by "x,y"
+ * @param offset - Result of getResizeOffset
+ * @param newWidth - New canvas width
+ * @param newHeight - New canvas height
+ * @returns New pixel map keyed by the moved positions
+ */
+export function resizeLayerPixels(
+  pixels: Map<string, PixelData>,
+  offset: { dx: number; dy: number },
+  newWidth: number,
+  newHeight: number
+): Map<string, PixelData> {
+  const resized = new Map<string, PixelData>()
+
+  pixels.forEach(pixel => {
+    const x = pixel.x + offset.dx
+    const y = pixel.y + offset.dy
+    if (x < 0 || x >= newWidth || y < 0 || y >= newHeight) return
+
+    resized.set(`${x},${y}`, { ...pixel, x, y })
+  })
+
+  return resized
+}
+
+/**
+ * Resizes every layer of every frame around an anchor (crops or extends with transparency)
+ * @param framePixels - Per-frame layer pixels
+ * @param oldWidth - Current canvas width
+ * @param oldHeight - Current canvas height
+ * @param newWidth - New canvas width
+ * @param newHeight - New canvas height
+ * @param anchor - Edge or corner that stays in place
+ * @returns The resized frame pixels
+ */
+export function resizeFramePixels(
+  framePixels: FramePixels,
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+  anchor: ResizeAnchor
+): FramePixels {
+  const offset = getResizeOffset(oldWidth, oldHeight, newWidth, newHeight, anchor)
+  const resized: FramePixels = new Map()
+
+  framePixels.forEach((layerPixels, frameId) => {
+    const resizedLayers = new Map<number, Map<string, PixelData>>()
+    layerPixels.forEach((pixels, layerId) => {
+      resizedLayers.set(layerId, resizeLayerPixels(pixels, offset, newWidth, newHeight))
+    })
+    resized.set(frameId, resizedLayers)
+  })
+
+  return resized
+}
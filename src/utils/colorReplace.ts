@@ -0,0 +1,93 @@
+import { Color, LayerPixels, PixelData, SelectionBounds } from '../types'
+import { hexToRgb } from './colorUtils'
+import { nearestPaletteIndex } from './indexedColor'
+
+// One recolored pixel, with the layer it lives on so a single operation can span layers
+export interface ColorChange {
+  x: number
+  y: number
+  layerId: number
+  previousColor: Color
+  newColor: Color
+}
+
+/**
+ * Pairs every entry of one palette with the entry at the same index in another.
+ * Entries past the end of the target palette map to its nearest color
+ * @param from - Palette to remap from
+ * @param to - Palette to remap to
+ * @returns Source color to target color, one pair per source entry
+ */
+export function buildPaletteMapping(from: Color[], to: Color[]): Array<[Color, Color]> {
+  return from.map((color, index) => {
+    if (index < to.length) return [color, to[index]]
+
+    const rgb = hexToRgb(color)
+    const nearest = rgb ? nearestPaletteIndex(rgb.r, rgb.g, rgb.b, to) : -1
+    return [color, nearest === -1 ? color : to[nearest]]
+  })
+}
+
+/**
+ * Finds every pixel whose color appears in the mapping, on any of the given layers.
+ * Unlike a flood fill this also catches regions that are not connected
+ * @param layerPixels - Per-layer pixel buffers of one frame
+ * @param layerIds - Layers to search
+ * @param mapping - Colors to replace and their replacements (matched case-insensitively)
+ * @param bounds - Only pixels inside these bounds are replaced, if given
+ * @returns The pixel changes, ready to apply and record as one operation
+ */
+export function findColorReplacements(
+  layerPixels: LayerPixels,
+  layerIds: number[],
+  mapping: Array<[Color, Color]>,
+  bounds: SelectionBounds | null = null
+): ColorChange[] {
+  const replacements = new Map<string, Color>()
+  mapping.forEach(([from, to]) => {
+    // The first pair wins if a color is listed twice
+    const key = from.toLowerCase()
+    if (!replacements.has(key)) replacements.set(key, to)
+  })
+
+  const changes: ColorChange[] = []
+  layerIds.forEach(layerId => {
+    layerPixels.get(layerId)?.forEach(pixel => {
+      if (bounds && (pixel.x < bounds.startX || pixel.x > bounds.endX || pixel.y < bounds.startY || pixel.y > bounds.endY)) return
+
+      const newColor = replacements.get(pixel.color.toLowerCase())
+      if (newColor === undefined || newColor.toLowerCase() === pixel.color.toLowerCase()) return
+
+      changes.push({ x: pixel.x, y: pixel.y, layerId, previousColor: pixel.color, newColor })
+    })
+  })
+
+  return changes
+}
+
+/**
+ * Applies color changes to one layer's pixel buffer
+ * @param pixels - The layer's current pixels
+ * @param changes - Changes for this layer
+ * @param layerId - The layer the buffer belongs to
+ * @param reverse - Restore the previous colors instead (undo)
+ * @returns The updated buffer
+ */
+export function applyColorChanges(
+  pixels: Map<string, PixelData>,
+  changes: Array<{ x: number; y: number; previousColor: Color; newColor: Color }>,
+  layerId: number,
+  reverse: boolean = false
+): Map<string, PixelData> {
+  const newPixels = new Map(pixels)
+  changes.forEach(({ x, y, previousColor, newColor }) => {
+    const key = `${x},${y}`
+    const color = reverse ? previousColor : newColor
+    if (color === 'transparent') {
+      newPixels.delete(key)
+    } else {
+      newPixels.set(key, { x, y, color, layerId })
+    }
+  })
+  return newPixels
+}
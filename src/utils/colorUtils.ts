@@ -1,10 +1,10 @@
 import { Color } from '../types'
 
 /**
- * Validates if a string is a valid hex color
+ * Validates if a string is a valid hex color (#rrggbb, or #rrggbbaa with alpha)
  */
 export const isValidHexColor = (color: string): boolean => {
-  return /^#[0-9A-Fa-f]{6}$/.test(color)
+  return /^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/.test(color)
 }
 
 /**
@@ -21,9 +21,9 @@ export const isValidColor = (color: string): boolean => {
 }
 
 /**
- * Safely converts HSV to RGB with validation
+ * Safely converts HSV to RGB with validation; an alpha below 255 is appended as #rrggbbaa
  */
-export const hsvToRgb = (h: number, s: number, v: number): Color => {
+export const hsvToRgb = (h: number, s: number, v: number, alpha: number = 255): Color => {
   // Ensure values are within valid ranges
   const hue = Math.max(0, Math.min(360, h))
   const saturation = Math.max(0, Math.min(100, s)) / 100 // Convert to 0-1
@@ -58,11 +58,11 @@ export const hsvToRgb = (h: number, s: number, v: number): Color => {
   const clampedGreen = Math.max(0, Math.min(255, green))
   const clampedBlue = Math.max(0, Math.min(255, blue))
   
-  return `#${clampedRed.toString(16).padStart(2, '0')}${clampedGreen.toString(16).padStart(2, '0')}${clampedBlue.toString(16).padStart(2, '0')}`
+  return rgbaToHex(clampedRed, clampedGreen, clampedBlue, alpha)
 }
 
 /**
- * Safely converts RGB to HSV with validation
+ * Safely converts RGB to HSV with validation; the alpha of #rrggbbaa colors is ignored (see getAlpha)
  */
 export const rgbToHsv = (color: Color): { h: number; s: number; v: number } => {
   try {
@@ -162,3 +162,97 @@ export const safeFillRect = (
 export const getSafeColor = (color: string, fallback: string = '#000000'): string => {
   return isValidColor(color) ? color : fallback
 }
+
+/**
+ * Mixes two hex colors, alpha included; amount 0 returns the first color, 1 returns the second
+ */
+export const mixColors = (color: Color, other: Color, amount: number): Color => {
+  const from = isValidHexColor(color) ? hexToRgba(color) : null
+  const to = isValidHexColor(other) ? hexToRgba(other) : null
+  if (!from || !to) return color
+
+  const t = Math.max(0, Math.min(1, amount))
+  const mix = (a: number, b: number) => a + (b - a) * t
+  return rgbaToHex(mix(from.r, to.r), mix(from.g, to.g), mix(from.b, to.b), mix(from.a, to.a))
+}
+
+/**
+ * Parses a #rrggbb, #rrggbbaa or #rgb color into its RGB channels (alpha is dropped),
+ * or null if it is not a hex color
+ */
+export const hexToRgb = (color: Color): { r: number; g: number; b: number } | null => {
+  const rgba = hexToRgba(color)
+  return rgba && { r: rgba.r, g: rgba.g, b: rgba.b }
+}
+
+/**
+ * Parses a #rrggbb, #rrggbbaa or #rgb color into its channels (0-255), or null if it is
+ * not a hex color; colors without an alpha channel are opaque
+ */
+export const hexToRgba = (color: Color): { r: number; g: number; b: number; a: number } | null => {
+  const short = /^#([0-9A-Fa-f])([0-9A-Fa-f])([0-9A-Fa-f])$/.exec(color)
+  const hex = short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : color
+  if (!isValidHexColor(hex)) return null
+
+  return {
+    r: parseInt(hex.slice(1, 3), 16),
+    g: parseInt(hex.slice(3, 5), 16),
+    b: parseInt(hex.slice(5, 7), 16),
+    a: hex.length === 9 ? parseInt(hex.slice(7, 9), 16) : 255
+  }
+}
+
+const toHexChannel = (value: number) => Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0')
+
+/**
+ * Formats RGB channels (0-255) as a #rrggbb color
+ */
+export const rgbToHex = (r: number, g: number, b: number): Color => {
+  return `#${toHexChannel(r)}${toHexChannel(g)}${toHexChannel(b)}`
+}
+
+/**
+ * Formats RGBA channels (0-255) as a color: #rrggbb when opaque, #rrggbbaa otherwise
+ */
+export const rgbaToHex = (r: number, g: number, b: number, a: number = 255): Color => {
+  const alpha = Math.max(0, Math.min(255, Math.round(a)))
+  return alpha === 255 ? rgbToHex(r, g, b) : `${rgbToHex(r, g, b)}${toHexChannel(alpha)}`
+}
+
+/**
+ * Gets the alpha (0-255) of a color; 'transparent' is 0 and colors without an alpha channel are opaque
+ */
+export const getAlpha = (color: Color): number => {
+  if (color === 'transparent') return 0
+  return hexToRgba(color)?.a ?? 255
+}
+
+/**
+ * Returns a color with its alpha (0-255) replaced; non-hex colors are returned unchanged
+ */
+export const withAlpha = (color: Color, alpha: number): Color => {
+  const rgba = hexToRgba(color)
+  return rgba ? rgbaToHex(rgba.r, rgba.g, rgba.b, alpha) : color
+}
+
+/**
+ * Composites one color over another ("source over"), as the canvas does when
+ * drawing layers on top of each other
+ * @param top - The upper color
+ * @param bottom - The color underneath
+ * @returns The blended color, 'transparent' if both are fully transparent
+ */
+export const blendColors = (top: Color, bottom: Color): Color => {
+  if (top === 'transparent') return bottom
+  const over = hexToRgba(top)
+  const under = hexToRgba(bottom)
+  if (!over || over.a === 255 || !under || under.a === 0) return top
+  if (over.a === 0) return bottom
+
+  const topAlpha = over.a / 255
+  const bottomAlpha = (under.a / 255) * (1 - topAlpha)
+  const alpha = topAlpha + bottomAlpha
+  const channel = (a: number, b: number) => (a * topAlpha + b * bottomAlpha) / alpha
+
+  return rgbaToHex(channel(over.r, under.r), channel(over.g, under.g), channel(over.b, under.b), alpha * 255)
+}
@@ -0,0 +1,140 @@
+import { Color, ColorDistanceMode, FillSettings, SelectionMask } from '../types'
+import { hexToRgba } from './colorUtils'
+
+// A solid fill with exact, connected matching on the active layer: how fill and the magic wand
+// have always behaved
+export const DEFAULT_FILL_SETTINGS: FillSettings = {
+  mode: 'solid',
+  gradient: 'linear',
+  ditherSize: 4,
+  tolerance: 0,
+  distance: 'rgb',
+  contiguous: true,
+  connectivity: 4,
+  sampleAllLayers: false
+}
+
+const FOUR_NEIGHBOURS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const EIGHT_NEIGHBOURS: Array<[number, number]> = [...FOUR_NEIGHBOURS, [1, 1], [1, -1], [-1, 1], [-1, -1]]
+
+// Straight RGBA distance between black and white, opaque and clear (all four channels 0 to 255)
+const MAX_RGBA_DISTANCE = 510
+
+// A difference of 100 in CIELAB is black against white; anything further counts as the same
+const MAX_LAB_DISTANCE = 100
+
+const toRgba = (color: Color) => (color === 'transparent' ? null : hexToRgba(color)) ?? { r: 0, g: 0, b: 0, a: 0 }
+
+// sRGB channel (0-255) to linear light
+const toLinear = (channel: number) => {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+// sRGB to CIELAB under the D65 white point
+const toLab = (r: number, g: number, b: number) => {
+  const lr = toLinear(r)
+  const lg = toLinear(g)
+  const lb = toLinear(b)
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116
+  const fx = f((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047)
+  const fy = f(0.2126 * lr + 0.7152 * lg + 0.0722 * lb)
+  const fz = f((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883)
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) }
+}
+
+/**
+ * Measures how different two colors look. Fully transparent colors are all the same, and
+ * partly transparent ones differ in color less the more see-through they are
+ * @param color - One color ('transparent' or hex)
+ * @param other - The other color
+ * @param mode - 'rgb' for the distance between channels, 'perceptual' for the CIELAB difference
+ * @returns 0 for identical colors up to 1 for black against white or clear against opaque
+ */
+export function colorDistance(color: Color, other: Color, mode: ColorDistanceMode): number {
+  if (color.toLowerCase() === other.toLowerCase()) return 0
+
+  const from = toRgba(color)
+  const to = toRgba(other)
+  if (mode === 'rgb') {
+    // Premultiplied, so every fully transparent color sits at the same point
+    const channel = (a: number, b: number) => (a * from.a - b * to.a) / 255
+    const distance = Math.hypot(channel(from.r, to.r), channel(from.g, to.g), channel(from.b, to.b), from.a - to.a)
+    return Math.min(1, distance / MAX_RGBA_DISTANCE)
+  }
+
+  const fromLab = toLab(from.r, from.g, from.b)
+  const toLabColor = toLab(to.r, to.g, to.b)
+  const deltaE = Math.hypot(fromLab.l - toLabColor.l, fromLab.a - toLabColor.a, fromLab.b - toLabColor.b)
+  const visible = Math.min(from.a, to.a) / 255
+  const alpha = Math.abs(from.a - to.a) / 255 * MAX_LAB_DISTANCE
+  return Math.min(1, Math.hypot(deltaE * visible, alpha) / MAX_LAB_DISTANCE)
+}
+
+/**
+ * Finds the pixels a fill or magic wand click reaches
+ * @param getColor - Color of the pixel at a position, 'transparent' where empty
+ * @param starts - The clicked pixels (several with symmetry on)
+ * @param targetColor - Color the found pixels must match
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @param settings - Tolerance, distance, contiguity and connectivity
+ * @param isIncluded - Pixels it may not reach (outside the selection, for fills) are left out
+ *   and, when contiguous, not crossed either
+ * @returns The matching pixels
+ */
+export function findFillRegion(
+  getColor: (x: number, y: number) => Color,
+  starts: Array<{ x: number; y: number }>,
+  targetColor: Color,
+  canvasWidth: number,
+  canvasHeight: number,
+  settings: FillSettings,
+  isIncluded: (x: number, y: number) => boolean = () => true
+): SelectionMask {
+  // Images use few colors, so each is compared once
+  const matches = new Map<Color, boolean>()
+  const isMatch = (x: number, y: number) => {
+    if (!isIncluded(x, y)) return false
+    const color = getColor(x, y)
+    let match = matches.get(color)
+    if (match === undefined) {
+      match = settings.tolerance <= 0
+        ? color.toLowerCase() === targetColor.toLowerCase()
+        : colorDistance(color, targetColor, settings.distance) * 100 <= settings.tolerance
+      matches.set(color, match)
+    }
+    return match
+  }
+
+  const region: SelectionMask = new Set()
+  if (!settings.contiguous) {
+    for (let y = 0; y < canvasHeight; y++) {
+      for (let x = 0; x < canvasWidth; x++) {
+        if (isMatch(x, y)) region.add(`${x},${y}`)
+      }
+    }
+    return region
+  }
+
+  const neighbours = settings.connectivity === 8 ? EIGHT_NEIGHBOURS : FOUR_NEIGHBOURS
+  const visited = new Set<string>()
+  const stack = starts
+    .filter(({ x, y }) => x >= 0 && x < canvasWidth && y >= 0 && y < canvasHeight)
+    .map(({ x, y }): [number, number] => [x, y])
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!
+    const key = `${x},${y}`
+    if (visited.has(key)) continue
+    visited.add(key)
+    if (!isMatch(x, y)) continue
+
+    region.add(key)
+    neighbours.forEach(([dx, dy]) => {
+      const nx = x + dx
+      const ny = y + dy
+      if (nx >= 0 && nx < canvasWidth && ny >= 0 && ny < canvasHeight) stack.push([nx, ny])
+    })
+  }
+  return region
+}
@@ -0,0 +1,116 @@
+import { Color, FillSettings, GradientShape, PixelData, SelectionBounds } from '../types'
+import { hexToRgba, mixColors } from './colorUtils'
+import { nearestPaletteIndex } from './indexedColor'
+
+// Pixels copied from a selection, keyed relative to the top-left corner of their bounds
+export interface FillPattern {
+  pixels: Map<string, PixelData>
+  bounds: SelectionBounds
+}
+
+export interface FillStyleOptions {
+  primaryColor: Color
+  secondaryColor: Color
+  palette?: Color[] // Gradients snap to these colors; unsnapped without one
+  pattern?: FillPattern | null
+  start: { x: number; y: number } // Where the gradient starts (its center, if radial)
+  end: { x: number; y: number } // Where it reaches the secondary color
+}
+
+// Positive remainder, so patterns and dithers tile the same way left and above the origin
+const wrap = (value: number, size: number) => ((value % size) + size) % size
+
+/**
+ * Builds an ordered dither (Bayer) matrix
+ * @param size - Side of the matrix: 2, 4 or 8
+ * @returns size x size thresholds, each of 0 to size² - 1 appearing once
+ */
+export function getBayerMatrix(size: 2 | 4 | 8): number[][] {
+  let matrix = [[0]]
+  while (matrix.length < size) {
+    // Each step doubles the matrix: 4M, 4M+2 on top and 4M+3, 4M+1 below
+    const n = matrix.length
+    matrix = Array.from({ length: n * 2 }, (_, y) =>
+      Array.from({ length: n * 2 }, (_, x) => {
+        const base = 4 * matrix[y % n][x % n]
+        const quadrant = [[0, 2], [3, 1]][Math.floor(y / n)][Math.floor(x / n)]
+        return base + quadrant
+      })
+    )
+  }
+  return matrix
+}
+
+/**
+ * Measures how far along a gradient a pixel is
+ * @param x - Pixel x
+ * @param y - Pixel y
+ * @param start - Gradient start, or the center of a radial gradient
+ * @param end - Gradient end, or a point on the outer edge of a radial gradient
+ * @param shape - 'linear' runs along the line from start to end, 'radial' outward from start
+ * @returns 0 at the start up to 1 at the end and beyond; halfway everywhere if start and end
+ *   are the same pixel
+ */
+export function getGradientAmount(
+  x: number,
+  y: number,
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  shape: GradientShape
+): number {
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return 0.5
+
+  const amount = shape === 'radial'
+    ? Math.hypot(x - start.x, y - start.y) / Math.sqrt(lengthSquared)
+    : ((x - start.x) * dx + (y - start.y) * dy) / lengthSquared
+  return Math.max(0, Math.min(1, amount))
+}
+
+/**
+ * Picks the color a fill paints at each pixel for the current fill mode
+ * @param settings - Fill mode, gradient shape and dither size
+ * @param options - Colors, palette, pattern and gradient end points
+ * @returns Color for a pixel, or null to leave the pixel as it is (empty pattern pixels)
+ */
+export function createFillPainter(settings: FillSettings, options: FillStyleOptions): (x: number, y: number) => Color | null {
+  const { primaryColor, secondaryColor, palette, pattern, start, end } = options
+
+  if (settings.mode === 'pattern') {
+    if (!pattern) return () => null
+    const width = pattern.bounds.endX - pattern.bounds.startX + 1
+    const height = pattern.bounds.endY - pattern.bounds.startY + 1
+    // Tiled from where the pattern was copied, so filling around the original lines up with it
+    return (x, y) => pattern.pixels.get(`${wrap(x - pattern.bounds.startX, width)},${wrap(y - pattern.bounds.startY, height)}`)?.color ?? null
+  }
+
+  if (settings.mode === 'dither') {
+    const matrix = getBayerMatrix(settings.ditherSize)
+    const levels = settings.ditherSize * settings.ditherSize
+    return (x, y) => {
+      const threshold = (matrix[wrap(y, settings.ditherSize)][wrap(x, settings.ditherSize)] + 0.5) / levels
+      return getGradientAmount(x, y, start, end, settings.gradient) < threshold ? primaryColor : secondaryColor
+    }
+  }
+
+  if (settings.mode === 'gradient') {
+    // Gradients use few distinct colors, so each is snapped to the palette once
+    const snapped = new Map<Color, Color>()
+    const snap = (color: Color) => {
+      if (!palette || palette.length === 0) return color
+      let result = snapped.get(color)
+      if (result === undefined) {
+        const rgba = hexToRgba(color)
+        const index = rgba ? nearestPaletteIndex(rgba.r, rgba.g, rgba.b, palette) : -1
+        result = index >= 0 ? palette[index] : color
+        snapped.set(color, result)
+      }
+      return result
+    }
+    return (x, y) => snap(mixColors(primaryColor, secondaryColor, getGradientAmount(x, y, start, end, settings.gradient)))
+  }
+
+  return () => primaryColor
+}
@@ -0,0 +1,285 @@
+import { Color, PixelData } from '../types'
+import { getAlpha, hexToRgb, rgbToHex } from './colorUtils'
+
+export interface GifFrame {
+  pixels: Map<string, PixelData>
+  delay: number // Milliseconds
+}
+
+export interface GifOptions {
+  loop?: number // Times to repeat; 0 loops forever (default)
+  scale?: number // Integer upscale applied to every frame (default 1)
+}
+
+type RGB = [number, number, number]
+
+// Palette index 0 is reserved for transparent pixels
+const TRANSPARENT_INDEX = 0
+const MAX_COLORS = 255
+// GIF transparency is all or nothing: pixels below this alpha (0-255) are dropped, the rest become opaque
+const ALPHA_THRESHOLD = 128
+
+// Grows a byte array without knowing the final size up front
+class ByteWriter {
+  private bytes: number[] = []
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff)
+  }
+
+  word(value: number) {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i))
+  }
+
+  data(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.bytes.push(values[i])
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes)
+  }
+}
+
+/**
+ * Reduces a set of colors to at most maxColors using median cut
+ * @param colors - Distinct colors with how often each occurs
+ * @param maxColors - Palette size limit
+ * @returns The reduced palette
+ */
+export function quantizeColors(colors: Map<string, { rgb: RGB; count: number }>, maxColors: number): RGB[] {
+  const entries = Array.from(colors.values())
+  if (entries.length <= maxColors) return entries.map(entry => entry.rgb)
+
+  let boxes = [entries]
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range
+    let boxIndex = -1
+    let channel = 0
+    let widest = 0
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return
+      for (let c = 0; c < 3; c++) {
+        const values = box.map(entry => entry.rgb[c])
+        const range = Math.max(...values) - Math.min(...values)
+        if (range > widest) {
+          widest = range
+          boxIndex = index
+          channel = c
+        }
+      }
+    })
+    if (boxIndex === -1) break
+
+    const box = boxes[boxIndex].slice().sort((a, b) => a.rgb[channel] - b.rgb[channel])
+    const total = box.reduce((sum, entry) => sum + entry.count, 0)
+    let running = 0
+    let split = 1
+    for (let i = 0; i < box.length - 1; i++) {
+      running += box[i].count
+      split = i + 1
+      if (running >= total / 2) break
+    }
+
+    boxes = [...boxes.slice(0, boxIndex), box.slice(0, split), box.slice(split), ...boxes.slice(boxIndex + 1)]
+  }
+
+  // Each box becomes the count-weighted average of its colors
+  return boxes.map(box => {
+    const total = box.reduce((sum, entry) => sum + entry.count, 0)
+    return [0, 1, 2].map(c => Math.round(box.reduce((sum, entry) => sum + entry.rgb[c] * entry.count, 0) / total)) as RGB
+  })
+}
+
+/**
+ * LZW-compresses palette indices the way GIF image data expects
+ * @param indices - One palette index per pixel
+ * @param minCodeSize - LZW minimum code size (bits per palette index, at least 2)
+ * @returns Compressed bytes, not yet split into sub-blocks
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const output = new ByteWriter()
+
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  // Keyed by prefix code * 256 + next index, so entries never need the full string
+  let dictionary = new Map<number, number>()
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const writeCode = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      output.byte(bitBuffer & 0xff)
+      bitBuffer >>= 8
+      bitCount -= 8
+    }
+  }
+
+  const resetDictionary = () => {
+    dictionary = new Map()
+    codeSize = minCodeSize + 1
+    nextCode = endCode + 1
+  }
+
+  writeCode(clearCode)
+  if (indices.length === 0) {
+    writeCode(endCode)
+  } else {
+    let currentCode = indices[0]
+
+    for (let i = 1; i < indices.length; i++) {
+      const next = currentCode * 256 + indices[i]
+      const known = dictionary.get(next)
+      if (known !== undefined) {
+        currentCode = known
+        continue
+      }
+
+      writeCode(currentCode)
+      if (nextCode < 4096) {
+        dictionary.set(next, nextCode++)
+        // The decoder grows its code size one code later than we add entries
+        if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++
+      } else {
+        writeCode(clearCode)
+        resetDictionary()
+      }
+      currentCode = indices[i]
+    }
+
+    writeCode(currentCode)
+    writeCode(endCode)
+  }
+
+  if (bitCount > 0) output.byte(bitBuffer)
+  return output.toUint8Array()
+}
+
+/**
+ * Encodes frames as an animated GIF89a. Colors across all frames share one global
+ * palette (median-cut down to 255 colors when needed) with index 0 kept for transparency.
+ * @param frames - Frames in playback order
+ * @param width - Frame width in sprite pixels
+ * @param height - Frame height in sprite pixels
+ * @param options - Loop count and scale
+ * @returns The GIF file bytes
+ */
+export function encodeGif(frames: GifFrame[], width: number, height: number, options: GifOptions = {}): Uint8Array {
+  const scale = Math.max(1, Math.floor(options.scale ?? 1))
+  const loop = Math.max(0, Math.floor(options.loop ?? 0))
+  const outWidth = width * scale
+  const outHeight = height * scale
+
+  // Collect every color used in any frame
+  const colorCounts = new Map<string, { rgb: RGB; count: number }>()
+  frames.forEach(frame => {
+    frame.pixels.forEach(pixel => {
+      const rgb = hexToRgb(pixel.color)
+      if (!rgb || getAlpha(pixel.color) < ALPHA_THRESHOLD) return
+      const key = rgbToHex(rgb.r, rgb.g, rgb.b)
+      const entry = colorCounts.get(key)
+      if (entry) entry.count++
+      else colorCounts.set(key, { rgb: [rgb.r, rgb.g, rgb.b], count: 1 })
+    })
+  })
+
+  const palette = quantizeColors(colorCounts, MAX_COLORS)
+  const indexCache = new Map<Color, number>()
+  const paletteIndexOf = (color: Color): number => {
+    const cached = indexCache.get(color)
+    if (cached !== undefined) return cached
+
+    const rgb = hexToRgb(color)
+    let best = TRANSPARENT_INDEX
+    if (rgb && getAlpha(color) >= ALPHA_THRESHOLD) {
+      let bestDistance = Infinity
+      palette.forEach(([r, g, b], i) => {
+        const distance = (r - rgb.r) ** 2 + (g - rgb.g) ** 2 + (b - rgb.b) ** 2
+        if (distance < bestDistance) {
+          bestDistance = distance
+          best = i + 1
+        }
+      })
+    }
+    indexCache.set(color, best)
+    return best
+  }
+
+  // Global color table size must be a power of two (2..256 entries)
+  let tableBits = 1
+  while ((1 << tableBits) < palette.length + 1) tableBits++
+  const tableSize = 1 << tableBits
+  const minCodeSize = Math.max(2, tableBits)
+
+  const out = new ByteWriter()
+
+  // Header and logical screen descriptor
+  out.string('GIF89a')
+  out.word(outWidth)
+  out.word(outHeight)
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)) // Global table, color resolution, table size
+  out.byte(TRANSPARENT_INDEX) // Background color index
+  out.byte(0) // Pixel aspect ratio
+
+  // Global color table; entry 0 (transparent) is black
+  out.data([0, 0, 0])
+  palette.forEach(rgb => out.data(rgb))
+  for (let i = palette.length + 1; i < tableSize; i++) out.data([0, 0, 0])
+
+  // NETSCAPE2.0 application extension: loop count
+  if (frames.length > 1) {
+    out.data([0x21, 0xff, 0x0b])
+    out.string('NETSCAPE2.0')
+    out.data([0x03, 0x01])
+    out.word(loop)
+    out.byte(0)
+  }
+
+  frames.forEach(frame => {
+    // Graphic control extension: restore to background, transparency, delay in 1/100s
+    out.data([0x21, 0xf9, 0x04])
+    out.byte((2 << 2) | 0x01)
+    out.word(Math.max(2, Math.round(frame.delay / 10)))
+    out.byte(TRANSPARENT_INDEX)
+    out.byte(0)
+
+    // Image descriptor covering the whole canvas, no local color table
+    out.byte(0x2c)
+    out.word(0)
+    out.word(0)
+    out.word(outWidth)
+    out.word(outHeight)
+    out.byte(0)
+
+    const indices = new Uint8Array(outWidth * outHeight)
+    frame.pixels.forEach(pixel => {
+      if (pixel.x < 0 || pixel.x >= width || pixel.y < 0 || pixel.y >= height) return
+      const index = paletteIndexOf(pixel.color)
+      for (let dy = 0; dy < scale; dy++) {
+        const row = (pixel.y * scale + dy) * outWidth + pixel.x * scale
+        indices.fill(index, row, row + scale)
+      }
+    })
+
+    // Image data: min code size, then compressed bytes in sub-blocks of up to 255
+    const compressed = lzwEncode(indices, minCodeSize)
+    out.byte(minCodeSize)
+    for (let i = 0; i < compressed.length; i += 255) {
+      const block = compressed.subarray(i, i + 255)
+      out.byte(block.length)
+      out.data(block)
+    }
+    out.byte(0)
+  })
+
+  out.byte(0x3b) // Trailer
+  return out.toUint8Array()
+}
@@ -0,0 +1,195 @@
+import { HistoryKeyframe, Layer, LayerGroup, LayerPixels, PixelData, StrokeOperation } from '../types'
+import { applyColorChanges } from './colorReplace'
+
+export const HISTORY_KEYFRAME_INTERVAL = 25 // Operations of a frame between keyframes
+export const DEFAULT_HISTORY_BYTES = 64 * 1024 * 1024
+
+// Rough in-memory sizes, used to keep the history within its budget
+const OPERATION_BYTES = 256
+const PIXEL_CHANGE_BYTES = 96
+const STORED_PIXEL_BYTES = 120
+
+// The layers of one frame, as rebuilt from history
+export interface HistoryFrameState {
+  layers: Layer[]
+  groups: LayerGroup[]
+  pixels: LayerPixels
+}
+
+const EMPTY_STATE: HistoryFrameState = { layers: [], groups: [], pixels: new Map() }
+
+// Buffers are shared with the document and other operations, so those already counted are skipped
+const countLayerPixels = (pixels: LayerPixels | undefined, counted?: WeakSet<object>): number => {
+  let count = 0
+  pixels?.forEach(buffer => {
+    if (!buffer || counted?.has(buffer)) return
+    counted?.add(buffer)
+    count += buffer.size
+  })
+  return count
+}
+
+/**
+ * Estimates how much memory an operation holds on to: its pixel diff, its keyframe
+ * and any buffers or selection content kept to undo it
+ * @param operation - A history operation
+ * @param counted - Layer buffers already counted elsewhere; they are left out, and this
+ *   operation's buffers are added, so buffers shared between operations count once
+ * @returns Approximate size in bytes
+ */
+export function estimateOperationBytes(operation: StrokeOperation, counted?: WeakSet<object>): number {
+  if (!operation) return 0
+
+  let pixels = countLayerPixels(operation.keyframe?.pixels, counted)
+  pixels += operation.metadata?.selectionContent?.size || 0
+  pixels += operation.metadata?.clipboardContent?.size || 0
+  pixels += operation.metadata?.selectionMask?.size || 0
+  operation.metadata?.layerChange?.pixelsBefore?.forEach(layerPixels => {
+    pixels += countLayerPixels(layerPixels, counted)
+  })
+  operation.metadata?.layerChange?.pixelsAfter?.forEach(layerPixels => {
+    pixels += countLayerPixels(layerPixels, counted)
+  })
+
+  const changes = Array.isArray(operation.pixels) ? operation.pixels.length : 0
+  return OPERATION_BYTES + changes * PIXEL_CHANGE_BYTES + pixels * STORED_PIXEL_BYTES
+}
+
+/**
+ * Applies an operation to the layers of a frame, as redo would. Applying an operation
+ * to a state that already contains it changes nothing.
+ * @param state - The frame's layers before the operation
+ * @param operation - The operation to apply
+ * @param frameId - The frame the state belongs to, the operation's own by default. Layer
+ *   changes cover every frame; pixel diffs only apply to their own
+ * @returns The frame's layers after it; unchanged buffers are shared with the input
+ */
+export function applyOperationToFrame(
+  state: HistoryFrameState,
+  operation: StrokeOperation,
+  frameId: number | undefined = operation.frameId
+): HistoryFrameState {
+  const change = operation.metadata?.layerChange
+  if (change) {
+    const after = frameId !== undefined ? change.pixelsAfter.get(frameId) : undefined
+    const pixels: LayerPixels = new Map(state.pixels)
+    change.layerIds.forEach(layerId => {
+      const buffer = after?.get(layerId)
+      if (buffer) {
+        pixels.set(layerId, buffer)
+      } else {
+        pixels.delete(layerId)
+      }
+    })
+    return { layers: change.layersAfter, groups: change.groupsAfter ?? state.groups, pixels }
+  }
+
+  if (!Array.isArray(operation.pixels) || operation.pixels.length === 0) return state
+
+  const changesByLayer = new Map<number, StrokeOperation['pixels']>()
+  operation.pixels.forEach(pixel => {
+    const layerId = pixel.layerId ?? operation.layerId
+    changesByLayer.set(layerId, [...(changesByLayer.get(layerId) || []), pixel])
+  })
+
+  const pixels: LayerPixels = new Map(state.pixels)
+  let layers = state.layers
+  changesByLayer.forEach((changes, layerId) => {
+    pixels.set(layerId, applyColorChanges(pixels.get(layerId) || new Map<string, PixelData>(), changes, layerId))
+    // Layers the state does not know about (no keyframe yet) are shown on top
+    if (!layers.some(l => l.id === layerId)) {
+      layers = [...layers, { id: layerId, name: '', visible: true, active: false }]
+    }
+  })
+
+  return { layers, groups: state.groups, pixels }
+}
+
+/**
+ * Builds the keyframe an operation carries: its frame's layers right after it
+ * @param layers - Document layers
+ * @param groups - Layer groups
+ * @param pixels - The frame's layer buffers, from before or after the operation
+ * @param operation - The operation being recorded
+ * @returns The keyframe
+ */
+export function createHistoryKeyframe(
+  layers: Layer[],
+  groups: LayerGroup[],
+  pixels: LayerPixels | undefined,
+  operation: StrokeOperation
+): HistoryKeyframe {
+  const after = applyOperationToFrame({ layers, groups, pixels: pixels || new Map() }, operation)
+  return { layers: after.layers, groups: after.groups, pixels: after.pixels }
+}
+
+/**
+ * Rebuilds the layers of an operation's frame right after some operations of a history
+ * stack, replaying diffs from the nearest keyframe before each of them. Frames without a
+ * keyframe start out empty.
+ * @param operations - Undo stack, oldest first
+ * @param indices - Positions in the stack to rebuild
+ * @returns The frame state after each requested operation, by position
+ */
+export function rebuildHistoryStates(operations: StrokeOperation[], indices: number[]): Map<number, HistoryFrameState> {
+  const states = new Map<number, HistoryFrameState>()
+  if (indices.length === 0) return states
+
+  // Replay starts at the earliest keyframe any requested operation depends on
+  const start = Math.min(...indices.map(index => {
+    const frameId = operations[index]?.frameId
+    for (let i = index; i >= 0; i--) {
+      if (operations[i]?.frameId === frameId && operations[i].keyframe) return i
+    }
+    return 0
+  }))
+  const end = Math.max(...indices)
+  const wanted = new Set(indices)
+
+  const frames = new Map<number | undefined, HistoryFrameState>()
+  for (let i = start; i <= end && i < operations.length; i++) {
+    const operation = operations[i]
+    if (!operation) continue
+
+    const current = frames.get(operation.frameId) || EMPTY_STATE
+    const next = operation.keyframe
+      ? { layers: operation.keyframe.layers, groups: operation.keyframe.groups, pixels: operation.keyframe.pixels }
+      : applyOperationToFrame(current, operation)
+    frames.set(operation.frameId, next)
+
+    // Layers added, removed or merged change every frame, not just the one it was made on
+    if (operation.metadata?.layerChange) {
+      frames.forEach((state, frameId) => {
+        if (frameId !== operation.frameId) frames.set(frameId, applyOperationToFrame(state, operation, frameId))
+      })
+    }
+
+    if (wanted.has(i)) states.set(i, next)
+  }
+
+  return states
+}
+
+/**
+ * Drops the oldest operations of an undo stack without losing the keyframes later operations
+ * are rebuilt from: for each frame that loses a keyframe, its first remaining operation gets
+ * one, rebuilt from the dropped keyframe and the diffs after it
+ * @param operations - Undo stack, oldest first
+ * @param count - How many operations to drop
+ * @returns The remaining operations; those given a keyframe are copies
+ */
+export function dropOldestOperations(operations: StrokeOperation[], count: number): StrokeOperation[] {
+  const framesLosingKeyframes = new Set(operations.slice(0, count).filter(op => op?.keyframe).map(op => op.frameId))
+  const indices: number[] = []
+  for (let i = count; i < operations.length && framesLosingKeyframes.size > 0; i++) {
+    const frameId = operations[i]?.frameId
+    if (!framesLosingKeyframes.delete(frameId)) continue
+    if (!operations[i].keyframe) indices.push(i)
+  }
+
+  const states = rebuildHistoryStates(operations, indices)
+  return operations.slice(count).map((operation, i) => {
+    const state = states.get(count + i)
+    return state ? { ...operation, keyframe: { layers: state.layers, groups: state.groups, pixels: state.pixels } } : operation
+  })
+}
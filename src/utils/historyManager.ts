@@ -1,13 +1,15 @@
 import { StrokeOperation, HistoryState, Color, Tool } from '../types'
+import { DEFAULT_HISTORY_BYTES, HISTORY_KEYFRAME_INTERVAL, estimateOperationBytes, dropOldestOperations } from './historyDiff'
 
 export class HistoryManager {
   private state: HistoryState
 
-  constructor(maxHistorySize: number = 100) {
+  constructor(maxHistorySize: number = 100, maxHistoryBytes: number = DEFAULT_HISTORY_BYTES) {
     this.state = {
       undoStack: [],
       redoStack: [],
-      maxHistorySize
+      maxHistorySize,
+      maxHistoryBytes
     }
   }
 
@@ -19,10 +21,60 @@ export class HistoryManager {
     // Add to undo stack
     this.state.undoStack.push(operation)
     
-    // Maintain max history size
-    if (this.state.undoStack.length > this.state.maxHistorySize) {
-      this.state.undoStack.shift()
+    this.trimUndoStack()
+  }
+
+  // Drop the oldest operations until the history fits its size and memory budget; the latest operation always stays.
+  // A dropped keyframe moves on to the next operation of its frame
+  private trimUndoStack(): void {
+    const { undoStack, maxHistorySize, maxHistoryBytes } = this.state
+    const { total, undoBytes } = this.measureHistory()
+
+    let bytes = total
+    let count = 0
+    while (
+      undoStack.length - count > maxHistorySize ||
+      (undoStack.length - count > 1 && bytes > maxHistoryBytes)
+    ) {
+      bytes -= undoBytes[count]
+      count++
     }
+    if (count > 0) this.state.undoStack = dropOldestOperations(undoStack, count)
+  }
+
+  // Estimated memory held by both stacks, and by each undo operation. A buffer shared between
+  // operations counts once, towards the newest of them, so dropping the oldest operations
+  // frees what they are counted with
+  private measureHistory(): { total: number; undoBytes: number[] } {
+    const counted = new WeakSet<object>()
+    let total = 0
+    this.state.redoStack.forEach(operation => {
+      total += estimateOperationBytes(operation, counted)
+    })
+    const undoBytes: number[] = []
+    for (let i = this.state.undoStack.length - 1; i >= 0; i--) {
+      undoBytes[i] = estimateOperationBytes(this.state.undoStack[i], counted)
+      total += undoBytes[i]
+    }
+    return { total, undoBytes }
+  }
+
+  // Estimated memory held by both stacks
+  getHistoryBytes(): number {
+    return this.measureHistory().total
+  }
+
+  // Whether the next operation on a frame should carry a keyframe: the frame has none in the
+  // undo stack, or its latest one is a full interval of operations back
+  needsKeyframe(frameId?: number): boolean {
+    let operationsSince = 0
+    for (let i = this.state.undoStack.length - 1; i >= 0; i--) {
+      const operation = this.state.undoStack[i]
+      if (operation?.frameId !== frameId) continue
+      if (operation.keyframe) return operationsSince >= HISTORY_KEYFRAME_INTERVAL - 1
+      operationsSince++
+    }
+    return true
   }
 
   // Undo the last operation
@@ -61,12 +113,33 @@ export class HistoryManager {
     this.state.redoStack = []
   }
 
+  // Forget the operations recorded on frames that no longer exist, so undo does not write into
+  // a deleted frame. Layer changes stay: they cover every frame. Returns whether any were dropped
+  removeFrameOperations(frameIds: Set<number>): boolean {
+    const isKept = (operation: StrokeOperation) =>
+      operation.frameId === undefined || frameIds.has(operation.frameId) || !!operation.metadata?.layerChange
+    const undoStack = this.state.undoStack.filter(isKept)
+    const redoStack = this.state.redoStack.filter(isKept)
+    const removed = undoStack.length !== this.state.undoStack.length || redoStack.length !== this.state.redoStack.length
+    this.state.undoStack = undoStack
+    this.state.redoStack = redoStack
+    return removed
+  }
+
+  // Replace both stacks, e.g. with history restored from an autosave
+  restore(undoStack: StrokeOperation[], redoStack: StrokeOperation[]): void {
+    this.state.undoStack = [...undoStack]
+    this.state.redoStack = [...redoStack]
+    this.trimUndoStack()
+  }
+
   // Get current history state
   getState(): HistoryState {
     return {
       undoStack: [...this.state.undoStack],
       redoStack: [...this.state.redoStack],
-      maxHistorySize: this.state.maxHistorySize
+      maxHistorySize: this.state.maxHistorySize,
+      maxHistoryBytes: this.state.maxHistoryBytes
     }
   }
 
@@ -107,21 +180,14 @@ export class HistoryManager {
   createStrokeOperation(
     tool: Tool,
     layerId: number,
-    pixels: Array<{
-      x: number
-      y: number
-      previousColor: Color
-      newColor: Color
-    }>,
-    canvasSnapshot?: Map<string, any>
+    pixels: StrokeOperation['pixels']
   ): StrokeOperation {
     return {
       id: `${Date.now()}-${Math.random()}`,
       tool,
       layerId,
       pixels,
-      timestamp: Date.now(),
-      canvasSnapshot
+      timestamp: Date.now()
     }
   }
 
@@ -0,0 +1,120 @@
+import { Color, ImageImportOptions, PixelData } from '../types'
+import { rgbToHex } from './colorUtils'
+import { nearestPaletteIndex } from './indexedColor'
+
+// Raw RGBA pixels, as returned by CanvasRenderingContext2D.getImageData
+export interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray | number[]
+}
+
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/gif', 'image/bmp']
+
+/**
+ * Finds the palette color closest to an RGB value
+ * @param r - Red channel (0-255)
+ * @param g - Green channel (0-255)
+ * @param b - Blue channel (0-255)
+ * @param palette - Hex colors to choose from
+ * @returns The nearest palette color, or null if the palette has no usable colors
+ */
+export function nearestPaletteColor(r: number, g: number, b: number, palette: Color[]): Color | null {
+  const index = nearestPaletteIndex(r, g, b, palette)
+  return index === -1 ? null : palette[index]
+}
+
+/**
+ * Converts decoded image pixels into layer pixels that fit the canvas
+ * @param image - Decoded RGBA image
+ * @param canvasWidth - Canvas width in sprite pixels
+ * @param canvasHeight - Canvas height in sprite pixels
+ * @param layerId - Layer the pixels will belong to
+ * @param options - Placement, alpha threshold and optional palette
+ * @returns Pixel map keyed by "x,y"
+ */
+export function imageToPixels(
+  image: RgbaImage,
+  canvasWidth: number,
+  canvasHeight: number,
+  layerId: number,
+  options: ImageImportOptions
+): Map<string, PixelData> {
+  const pixels = new Map<string, PixelData>()
+  if (image.width === 0 || image.height === 0) return pixels
+
+  // Scale from image to canvas: 'fit' keeps the whole image, 'fill' covers the canvas, 'center' keeps 1:1
+  let scale = 1
+  if (options.placement === 'fit') {
+    scale = Math.min(canvasWidth / image.width, canvasHeight / image.height)
+  } else if (options.placement === 'fill') {
+    scale = Math.max(canvasWidth / image.width, canvasHeight / image.height)
+  }
+
+  const scaledWidth = Math.max(1, Math.round(image.width * scale))
+  const scaledHeight = Math.max(1, Math.round(image.height * scale))
+  const offsetX = Math.floor((canvasWidth - scaledWidth) / 2)
+  const offsetY = Math.floor((canvasHeight - scaledHeight) / 2)
+  const paletteCache = new Map<string, Color | null>()
+
+  for (let y = 0; y < canvasHeight; y++) {
+    for (let x = 0; x < canvasWidth; x++) {
+      const localX = x - offsetX
+      const localY = y - offsetY
+      if (localX < 0 || localX >= scaledWidth || localY < 0 || localY >= scaledHeight) continue
+
+      // Nearest-neighbour sampling keeps hard pixel edges
+      const sourceX = Math.min(image.width - 1, Math.floor(localX * image.width / scaledWidth))
+      const sourceY = Math.min(image.height - 1, Math.floor(localY * image.height / scaledHeight))
+      const offset = (sourceY * image.width + sourceX) * 4
+      const alpha = image.data[offset + 3]
+      if (alpha < options.alphaThreshold) continue
+
+      let color = rgbToHex(image.data[offset], image.data[offset + 1], image.data[offset + 2])
+      if (options.palette && options.palette.length > 0) {
+        if (!paletteCache.has(color)) {
+          paletteCache.set(color, nearestPaletteColor(image.data[offset], image.data[offset + 1], image.data[offset + 2], options.palette))
+        }
+        color = paletteCache.get(color) ?? color
+      }
+
+      pixels.set(`${x},${y}`, { x, y, color, layerId })
+    }
+  }
+
+  return pixels
+}
+
+/**
+ * Decodes a PNG, GIF or BMP file in the browser (GIFs use their first frame)
+ * @param file - The image file
+ * @returns The decoded RGBA pixels
+ */
+export async function decodeImageFile(file: File): Promise<RgbaImage> {
+  if (file.type && !SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`Unsupported image type: ${file.type}`)
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image()
+      img.onload = () => resolve(img)
+      img.onerror = () => reject(new Error(`Could not decode image: ${file.name}`))
+      img.src = url
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = image.naturalWidth
+    canvas.height = image.naturalHeight
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available')
+    }
+
+    ctx.drawImage(image, 0, 0)
+    return ctx.getImageData(0, 0, canvas.width, canvas.height)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
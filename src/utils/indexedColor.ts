@@ -0,0 +1,166 @@
+import { Color, FramePixels, LayerPixels, PixelData } from '../types'
+import { hexToRgb } from './colorUtils'
+
+/**
+ * Finds the palette entry closest to an RGB value
+ * @param r - Red channel (0-255)
+ * @param g - Green channel (0-255)
+ * @param b - Blue channel (0-255)
+ * @param palette - Hex colors to choose from
+ * @returns Index of the nearest palette entry, or -1 if the palette has no usable colors
+ */
+export function nearestPaletteIndex(r: number, g: number, b: number, palette: Color[]): number {
+  let best = -1
+  let bestDistance = Infinity
+
+  palette.forEach((color, index) => {
+    const rgb = hexToRgb(color)
+    if (!rgb) return
+
+    const distance = (rgb.r - r) ** 2 + (rgb.g - g) ** 2 + (rgb.b - b) ** 2
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = index
+    }
+  })
+
+  return best
+}
+
+// Resolves colors to palette indices, caching each color so large buffers only search the palette once per color
+const createIndexLookup = (palette: Color[]) => {
+  const cache = new Map<string, number>()
+  palette.forEach((color, index) => {
+    const key = color.toLowerCase()
+    if (!cache.has(key)) cache.set(key, index)
+  })
+
+  return (color: Color): number => {
+    const key = color.toLowerCase()
+    const cached = cache.get(key)
+    if (cached !== undefined) return cached
+
+    const rgb = hexToRgb(color)
+    const index = rgb ? nearestPaletteIndex(rgb.r, rgb.g, rgb.b, palette) : -1
+    cache.set(key, index)
+    return index
+  }
+}
+
+// Applies a per-pixel mapping to every layer of every frame, keeping untouched maps so React can skip them
+const mapFramePixels = (
+  framePixels: FramePixels,
+  mapBuffer: (buffer: Map<string, PixelData>) => Map<string, PixelData>
+): FramePixels => {
+  let framesChanged = false
+  const newFramePixels: FramePixels = new Map()
+
+  framePixels.forEach((layerPixels, frameId) => {
+    let layersChanged = false
+    const newLayerPixels: LayerPixels = new Map()
+    layerPixels.forEach((buffer, layerId) => {
+      const next = mapBuffer(buffer)
+      if (next !== buffer) layersChanged = true
+      newLayerPixels.set(layerId, next)
+    })
+
+    if (layersChanged) framesChanged = true
+    newFramePixels.set(frameId, layersChanged ? newLayerPixels : layerPixels)
+  })
+
+  return framesChanged ? newFramePixels : framePixels
+}
+
+/**
+ * Snaps pixels to the palette by color: every pixel whose color is not exactly
+ * its palette entry is moved to the nearest entry. Used while drawing in indexed mode
+ * @param pixels - Pixel buffer to bind
+ * @param palette - The document palette
+ * @returns The bound buffer, or the same map if every pixel was already bound
+ */
+export function bindPixelsToPalette(pixels: Map<string, PixelData>, palette: Color[]): Map<string, PixelData> {
+  if (palette.length === 0) return pixels
+
+  const lookup = createIndexLookup(palette)
+  let result: Map<string, PixelData> | null = null
+
+  pixels.forEach((pixel, key) => {
+    if (pixel.color === 'transparent') return
+    if (pixel.paletteIndex !== undefined && palette[pixel.paletteIndex] === pixel.color) return
+
+    const index = lookup(pixel.color)
+    if (index === -1) return
+
+    result = result || new Map(pixels)
+    result.set(key, { ...pixel, color: palette[index], paletteIndex: index })
+  })
+
+  return result || pixels
+}
+
+/**
+ * Recolors pixels from their palette index, so editing or swapping the palette
+ * changes every pixel that uses an entry. Pixels without a valid index are snapped
+ * to the nearest entry by color
+ * @param pixels - Pixel buffer to recolor
+ * @param palette - The document palette
+ * @returns The recolored buffer, or the same map if nothing changed
+ */
+export function applyPaletteToPixels(pixels: Map<string, PixelData>, palette: Color[]): Map<string, PixelData> {
+  if (palette.length === 0) return pixels
+
+  const lookup = createIndexLookup(palette)
+  let result: Map<string, PixelData> | null = null
+
+  pixels.forEach((pixel, key) => {
+    if (pixel.color === 'transparent') return
+
+    const index = pixel.paletteIndex !== undefined && pixel.paletteIndex < palette.length
+      ? pixel.paletteIndex
+      : lookup(pixel.color)
+    if (index === -1 || (index === pixel.paletteIndex && palette[index] === pixel.color)) return
+
+    result = result || new Map(pixels)
+    result.set(key, { ...pixel, color: palette[index], paletteIndex: index })
+  })
+
+  return result || pixels
+}
+
+/**
+ * Recolors every layer of every frame from the palette (see applyPaletteToPixels)
+ * @param framePixels - Pixels of all frames
+ * @param palette - The document palette
+ * @returns The recolored frames, or the same map if nothing changed
+ */
+export function applyPaletteToFramePixels(framePixels: FramePixels, palette: Color[]): FramePixels {
+  return mapFramePixels(framePixels, buffer => applyPaletteToPixels(buffer, palette))
+}
+
+/**
+ * Snaps every layer of every frame to the palette by color (see bindPixelsToPalette)
+ * @param framePixels - Pixels of all frames
+ * @param palette - The document palette
+ * @returns The bound frames, or the same map if nothing changed
+ */
+export function bindFramePixelsToPalette(framePixels: FramePixels, palette: Color[]): FramePixels {
+  return mapFramePixels(framePixels, buffer => bindPixelsToPalette(buffer, palette))
+}
+
+/**
+ * Drops palette indices from every pixel when leaving indexed mode; colors are kept
+ * @param framePixels - Pixels of all frames
+ * @returns The unbound frames, or the same map if no pixel had an index
+ */
+export function clearPaletteIndices(framePixels: FramePixels): FramePixels {
+  return mapFramePixels(framePixels, buffer => {
+    let result: Map<string, PixelData> | null = null
+    buffer.forEach((pixel, key) => {
+      if (pixel.paletteIndex === undefined) return
+      const { paletteIndex, ...rest } = pixel
+      result = result || new Map(buffer)
+      result.set(key, rest)
+    })
+    return result || buffer
+  })
+}
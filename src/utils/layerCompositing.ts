@@ -0,0 +1,80 @@
+import { Color, Layer, LayerPixels, PixelData } from '../types'
+import { blendColors } from './colorUtils'
+import { blendLayerColor, getLayerOpacity } from './blendModes'
+
+/**
+ * Gets the pixel buffer for a layer, or an empty buffer if the layer has none yet
+ * @param layerPixels - Per-layer pixel buffers
+ * @param layerId - The layer to look up
+ * @returns The layer's pixel map keyed by "x,y"
+ */
+export function getLayerPixels(layerPixels: LayerPixels | undefined, layerId: number): Map<string, PixelData> {
+  return layerPixels?.get(layerId) ?? new Map()
+}
+
+// Composites one layer's pixel over the color below it
+const compositePixel = (layer: Layer, color: Color, below: Color): Color => {
+  const opacity = getLayerOpacity(layer)
+  const mode = layer.blendMode ?? 'normal'
+  if (mode === 'normal' && opacity === 1) {
+    return below === 'transparent' ? color : blendColors(color, below)
+  }
+  return blendLayerColor(color, below, mode, opacity)
+}
+
+/**
+ * Composites all visible layers bottom-to-top into a single pixel map.
+ * Layers are ordered bottom-first, so a pixel on a later layer covers
+ * the pixel at the same position on an earlier one; semi-transparent
+ * pixels, layer opacity and blend modes mix it with what is underneath.
+ * @param layers - Document layers, bottom layer first
+ * @param layerPixels - Per-layer pixel buffers
+ * @returns Flattened pixel map keyed by "x,y"
+ */
+export function compositeLayers(layers: Layer[], layerPixels: LayerPixels | undefined): Map<string, PixelData> {
+  const composite = new Map<string, PixelData>()
+  if (!layerPixels) return composite
+
+  layers.forEach(layer => {
+    if (!layer.visible) return
+
+    const buffer = layerPixels.get(layer.id)
+    if (!buffer) return
+
+    buffer.forEach((pixel, key) => {
+      if (pixel.color === 'transparent') return
+
+      const below = composite.get(key)
+      const color = compositePixel(layer, pixel.color, below ? below.color : 'transparent')
+      if (color === 'transparent') return
+      composite.set(key, color === pixel.color ? pixel : { ...pixel, color })
+    })
+  })
+
+  return composite
+}
+
+/**
+ * Gets the color visible at a position after compositing all visible layers
+ * @param layers - Document layers, bottom layer first
+ * @param layerPixels - Per-layer pixel buffers
+ * @param x - The X coordinate
+ * @param y - The Y coordinate
+ * @returns The blended color, with alpha if nothing opaque is underneath, or 'transparent'
+ */
+export function getCompositeColorAt(layers: Layer[], layerPixels: LayerPixels | undefined, x: number, y: number): Color {
+  if (!layerPixels) return 'transparent'
+
+  const key = `${x},${y}`
+  let color: Color = 'transparent'
+  layers.forEach(layer => {
+    if (!layer.visible) return
+
+    const pixel = layerPixels.get(layer.id)?.get(key)
+    if (pixel && pixel.color !== 'transparent') {
+      color = compositePixel(layer, pixel.color, color)
+    }
+  })
+
+  return color
+}
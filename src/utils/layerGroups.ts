@@ -0,0 +1,221 @@
+import { Layer, LayerChange, LayerGroup, LayerTreeNode } from '../types'
+
+/**
+ * Gets the groups a group sits in, itself included. Missing groups end the
+ * chain and a group nested in itself is only visited once
+ * @param groups - All layer groups
+ * @param groupId - The innermost group (top level if missing)
+ * @returns The groups from the outermost one to the given one
+ */
+export function getGroupPath(groups: LayerGroup[], groupId: number | undefined): LayerGroup[] {
+  const path: LayerGroup[] = []
+  let current = groupId === undefined ? undefined : groups.find(g => g.id === groupId)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    const parentId: number | undefined = current.parentId
+    current = parentId === undefined ? undefined : groups.find(g => g.id === parentId)
+  }
+  return path
+}
+
+/**
+ * Applies group visibility and opacity to the layers inside them, so compositing
+ * can keep working on a flat layer list: a layer in a hidden group is hidden and
+ * group opacities multiply into the layer opacity. Groups are not composited as a
+ * unit, so overlapping layers in a faded group still show through each other
+ * @param layers - Document layers, bottom layer first
+ * @param groups - All layer groups
+ * @returns The layers as they should be composited, or the same array when nothing is grouped
+ */
+export function resolveLayerGroups(layers: Layer[], groups: LayerGroup[] | undefined): Layer[] {
+  if (!groups || groups.length === 0 || !layers.some(l => l.groupId !== undefined)) return layers
+
+  return layers.map(layer => {
+    const path = getGroupPath(groups, layer.groupId)
+    if (path.length === 0) return layer
+
+    const visible = layer.visible && path.every(g => g.visible)
+    const opacity = path.reduce((total, g) => total * (g.opacity ?? 100) / 100, layer.opacity ?? 100)
+    return visible === layer.visible && opacity === (layer.opacity ?? 100)
+      ? layer
+      : { ...layer, visible, opacity }
+  })
+}
+
+/**
+ * Arranges layers into the group hierarchy shown by the layer panel. Layers keep their
+ * stacking order; consecutive layers of a group share one group node. Groups without
+ * layers are listed after the layers of their parent
+ * @param layers - Document layers, bottom layer first
+ * @param groups - All layer groups
+ * @returns Top level nodes, bottom first
+ */
+export function buildLayerTree(layers: Layer[], groups: LayerGroup[]): LayerTreeNode[] {
+  const root: LayerTreeNode[] = []
+  const placed = new Map<number, Extract<LayerTreeNode, { type: 'group' }>>()
+  // Groups containing the previous layer, outermost first
+  let openGroups: Array<Extract<LayerTreeNode, { type: 'group' }>> = []
+
+  layers.forEach((layer, index) => {
+    const path = getGroupPath(groups, layer.groupId)
+    let shared = 0
+    while (shared < openGroups.length && shared < path.length && openGroups[shared].group === path[shared]) {
+      shared++
+    }
+
+    openGroups = openGroups.slice(0, shared)
+    path.slice(shared).forEach(group => {
+      const node: Extract<LayerTreeNode, { type: 'group' }> = { type: 'group', group, depth: openGroups.length, children: [] }
+      ;(openGroups.length > 0 ? openGroups[openGroups.length - 1].children : root).push(node)
+      openGroups.push(node)
+      if (!placed.has(group.id)) placed.set(group.id, node)
+    })
+
+    ;(openGroups.length > 0 ? openGroups[openGroups.length - 1].children : root)
+      .push({ type: 'layer', layer, index, depth: openGroups.length })
+  })
+
+  // Empty groups go into their parent, once the parent has a place in the tree
+  let remaining = groups.filter(g => !placed.has(g.id))
+  while (remaining.length > 0) {
+    const ready = remaining.filter(g => g.parentId === undefined || placed.has(g.parentId) || !groups.some(p => p.id === g.parentId))
+    if (ready.length === 0) break
+
+    ready.forEach(group => {
+      const parent = group.parentId === undefined ? undefined : placed.get(group.parentId)
+      const node: Extract<LayerTreeNode, { type: 'group' }> = {
+        type: 'group',
+        group,
+        depth: parent ? parent.depth + 1 : 0,
+        children: []
+      }
+      ;(parent ? parent.children : root).push(node)
+      placed.set(group.id, node)
+    })
+    remaining = remaining.filter(g => !ready.includes(g))
+  }
+
+  return root
+}
+
+/**
+ * Moves a layer into a group, or out to the top level. Without a target index the
+ * layer goes just above the group's other layers so groups stay together
+ * @param layers - Document layers, bottom layer first
+ * @param groups - All layer groups
+ * @param layerId - The layer to move
+ * @param groupId - The group to move it into (top level if missing)
+ * @param toIndex - Index the layer ends up at, clamped to the stack
+ * @returns The updated stack, or null if nothing changes
+ */
+export function moveLayerToGroup(
+  layers: Layer[],
+  groups: LayerGroup[],
+  layerId: number,
+  groupId: number | undefined,
+  toIndex?: number
+): LayerChange | null {
+  const index = layers.findIndex(l => l.id === layerId)
+  if (index === -1 || (toIndex === undefined && layers[index].groupId === groupId)) return null
+
+  const { groupId: _previousGroupId, ...ungrouped } = layers[index]
+  const moved: Layer = groupId === undefined ? ungrouped : { ...ungrouped, groupId }
+  const others = layers.filter(l => l.id !== layerId)
+
+  let target = index
+  if (toIndex !== undefined) {
+    target = Math.max(0, Math.min(others.length, toIndex))
+  } else if (groupId !== undefined) {
+    const lastMember = others.reduce(
+      (last, layer, i) => getGroupPath(groups, layer.groupId).some(g => g.id === groupId) ? i : last,
+      -1
+    )
+    if (lastMember !== -1) target = lastMember + 1
+  }
+
+  if (target === index && moved.groupId === layers[index].groupId) return null
+
+  others.splice(target, 0, moved)
+  return { layers: others }
+}
+
+/**
+ * Puts a layer into a new group, nested in the group the layer was in
+ * @param layers - Document layers
+ * @param groups - All layer groups
+ * @param layerId - The layer to group
+ * @param groupId - Id of the new group
+ * @param name - Name of the new group
+ * @returns The updated stack and groups, or null if the layer does not exist
+ */
+export function groupLayer(layers: Layer[], groups: LayerGroup[], layerId: number, groupId: number, name: string): LayerChange | null {
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer) return null
+
+  const group: LayerGroup = {
+    id: groupId,
+    name,
+    visible: true,
+    collapsed: false,
+    ...(layer.groupId !== undefined ? { parentId: layer.groupId } : {})
+  }
+
+  return {
+    layers: layers.map(l => l.id === layerId ? { ...l, groupId } : l),
+    groups: [...groups, group]
+  }
+}
+
+/**
+ * Removes a group, moving its layers and groups up into its parent
+ * @param layers - Document layers
+ * @param groups - All layer groups
+ * @param groupId - The group to remove
+ * @returns The updated stack and groups, or null if the group does not exist
+ */
+export function ungroupLayers(layers: Layer[], groups: LayerGroup[], groupId: number): LayerChange | null {
+  const group = groups.find(g => g.id === groupId)
+  if (!group) return null
+
+  // Children take over the removed group's parent, or go to the top level
+  const reparent = <T extends { groupId?: number; parentId?: number }>(item: T, key: 'groupId' | 'parentId'): T => {
+    if (item[key] !== groupId) return item
+    const { [key]: _removed, ...rest } = item
+    return (group.parentId === undefined ? rest : { ...rest, [key]: group.parentId }) as T
+  }
+
+  return {
+    layers: layers.map(l => reparent(l, 'groupId')),
+    groups: groups.filter(g => g.id !== groupId).map(g => reparent(g, 'parentId'))
+  }
+}
+
+/**
+ * Shows or hides a group, and with it everything inside
+ * @param layers - Document layers
+ * @param groups - All layer groups
+ * @param groupId - The group to change
+ * @param visible - Whether the group should be shown
+ * @returns The stack and updated groups, or null if nothing changes
+ */
+export function setGroupVisible(layers: Layer[], groups: LayerGroup[], groupId: number, visible: boolean): LayerChange | null {
+  const group = groups.find(g => g.id === groupId)
+  if (!group || group.visible === visible) return null
+
+  return { layers, groups: groups.map(g => g.id === groupId ? { ...g, visible } : g) }
+}
+
+/**
+ * Sets the opacity a group multiplies into the opacity of each layer inside it
+ * @param layers - Document layers
+ * @param groups - All layer groups
+ * @param groupId - The group to change
+ * @param opacity - Opacity from 0 to 100
+ * @returns The stack and updated groups, or null if nothing changes
+ */
+export function setGroupOpacity(layers: Layer[], groups: LayerGroup[], groupId: number, opacity: number): LayerChange | null {
+  const group = groups.find(g => g.id === groupId)
+  if (!group || (group.opacity ?? 100) === opacity) return null
+
+  return { layers, groups: groups.map(g => g.id === groupId ? { ...g, opacity } : g) }
+}
@@ -0,0 +1,312 @@
+import { BlendMode, FramePixels, Layer, LayerChange, LayerPixels, PixelData } from '../types'
+import { compositeLayers } from './layerCompositing'
+
+// Copies a pixel buffer onto another layer
+const retagPixels = (pixels: Map<string, PixelData>, layerId: number): Map<string, PixelData> => {
+  const retagged = new Map<string, PixelData>()
+  pixels.forEach((pixel, key) => {
+    retagged.set(key, pixel.layerId === layerId ? pixel : { ...pixel, layerId })
+  })
+  return retagged
+}
+
+// Makes one layer the active one
+const activate = (layers: Layer[], layerId: number): Layer[] =>
+  layers.map(l => l.active === (l.id === layerId) ? l : { ...l, active: l.id === layerId })
+
+/**
+ * Moves a layer to another position in the stack
+ * @param layers - Document layers, bottom layer first
+ * @param layerId - The layer to move
+ * @param toIndex - Index the layer ends up at, clamped to the stack
+ * @returns The reordered stack, or null if the layer does not move
+ */
+export function moveLayer(layers: Layer[], layerId: number, toIndex: number): LayerChange | null {
+  const index = layers.findIndex(l => l.id === layerId)
+  const target = Math.max(0, Math.min(layers.length - 1, toIndex))
+  if (index === -1 || index === target) return null
+
+  const reordered = layers.filter(l => l.id !== layerId)
+  reordered.splice(target, 0, layers[index])
+  return { layers: reordered }
+}
+
+/**
+ * Renames a layer
+ * @param layers - Document layers
+ * @param layerId - The layer to rename
+ * @param name - New name; surrounding whitespace is dropped
+ * @returns The renamed stack, or null if the name is empty or unchanged
+ */
+export function renameLayer(layers: Layer[], layerId: number, name: string): LayerChange | null {
+  const trimmed = name.trim()
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer || !trimmed || trimmed === layer.name) return null
+
+  return { layers: layers.map(l => l.id === layerId ? { ...l, name: trimmed } : l) }
+}
+
+/**
+ * Locks or unlocks a layer against drawing
+ * @param layers - Document layers
+ * @param layerId - The layer to change
+ * @param locked - Whether the layer should be locked
+ * @returns The updated stack, or null if nothing changes
+ */
+export function setLayerLocked(layers: Layer[], layerId: number, locked: boolean): LayerChange | null {
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer || !!layer.locked === locked) return null
+
+  return { layers: layers.map(l => l.id === layerId ? { ...l, locked } : l) }
+}
+
+/**
+ * Sets how opaque a layer is drawn
+ * @param layers - Document layers
+ * @param layerId - The layer to change
+ * @param opacity - Opacity from 0 to 100
+ * @returns The updated stack, or null if nothing changes
+ */
+export function setLayerOpacity(layers: Layer[], layerId: number, opacity: number): LayerChange | null {
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer || (layer.opacity ?? 100) === opacity) return null
+
+  return { layers: layers.map(l => l.id === layerId ? { ...l, opacity } : l) }
+}
+
+/**
+ * Sets how a layer blends with the layers below it
+ * @param layers - Document layers
+ * @param layerId - The layer to change
+ * @param blendMode - The new blend mode
+ * @returns The updated stack, or null if nothing changes
+ */
+export function setLayerBlendMode(layers: Layer[], layerId: number, blendMode: BlendMode): LayerChange | null {
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer || (layer.blendMode ?? 'normal') === blendMode) return null
+
+  return { layers: layers.map(l => l.id === layerId ? { ...l, blendMode } : l) }
+}
+
+/**
+ * Adds a layer on top of the stack and makes it the active layer
+ * @param layers - Document layers, bottom layer first
+ * @param layer - The new layer
+ * @returns The stack with the layer added, or null if its id is taken
+ */
+export function addLayer(layers: Layer[], layer: Layer): LayerChange | null {
+  if (layers.some(l => l.id === layer.id)) return null
+
+  return { layers: activate([...layers, layer], layer.id) }
+}
+
+/**
+ * Removes a layer together with its pixels in every frame. When the removed layer
+ * was active, or no layer is, the bottom remaining layer becomes active.
+ * @param layers - Document layers, bottom layer first
+ * @param framePixels - Per-frame layer pixel buffers
+ * @param layerId - The layer to remove
+ * @returns The stack and pixels without the layer, or null if it does not exist
+ */
+export function deleteLayer(layers: Layer[], framePixels: FramePixels, layerId: number): LayerChange | null {
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer) return null
+
+  let remaining = layers.filter(l => l.id !== layerId)
+  if (remaining.length > 0 && (layer.active || !remaining.some(l => l.active))) {
+    remaining = activate(remaining, remaining[0].id)
+  }
+
+  const newFramePixels: FramePixels = new Map()
+  framePixels.forEach((layerPixels, frameId) => {
+    if (!layerPixels.has(layerId)) {
+      newFramePixels.set(frameId, layerPixels)
+      return
+    }
+    const without = new Map(layerPixels)
+    without.delete(layerId)
+    newFramePixels.set(frameId, without)
+  })
+
+  return { layers: remaining, framePixels: newFramePixels }
+}
+
+/**
+ * Shows or hides a layer
+ * @param layers - Document layers
+ * @param layerId - The layer to change
+ * @param visible - Whether the layer should be shown
+ * @returns The updated stack, or null if nothing changes
+ */
+export function setLayerVisible(layers: Layer[], layerId: number, visible: boolean): LayerChange | null {
+  const layer = layers.find(l => l.id === layerId)
+  if (!layer || layer.visible === visible) return null
+
+  return { layers: layers.map(l => l.id === layerId ? { ...l, visible } : l) }
+}
+
+/**
+ * Copies a layer, with its pixels in every frame, into a new layer just above it.
+ * The copy becomes the active layer.
+ * @param layers - Document layers, bottom layer first
+ * @param framePixels - Per-frame layer pixel buffers
+ * @param layerId - The layer to copy
+ * @param newId - Id of the new layer
+ * @returns The stack and pixels with the copy added, or null if the layer does not exist
+ */
+export function duplicateLayer(layers: Layer[], framePixels: FramePixels, layerId: number, newId: number): LayerChange | null {
+  const index = layers.findIndex(l => l.id === layerId)
+  if (index === -1) return null
+
+  const copy: Layer = { ...layers[index], id: newId, name: `${layers[index].name} copy` }
+  const newLayers = activate([...layers.slice(0, index + 1), copy, ...layers.slice(index + 1)], newId)
+
+  const newFramePixels: FramePixels = new Map()
+  framePixels.forEach((layerPixels, frameId) => {
+    const source = layerPixels.get(layerId)
+    newFramePixels.set(frameId, source ? new Map(layerPixels).set(newId, retagPixels(source, newId)) : layerPixels)
+  })
+
+  return { layers: newLayers, framePixels: newFramePixels }
+}
+
+/**
+ * Merges a layer into the layer below it, in every frame. The upper layer's pixels are
+ * composited with its opacity and blend mode; a hidden upper layer is dropped like
+ * flattenLayers does. The result keeps the lower layer's settings and becomes the active layer.
+ * @param layers - Document layers, bottom layer first
+ * @param framePixels - Per-frame layer pixel buffers
+ * @param layerId - The upper layer
+ * @returns The stack and pixels after the merge, or null for the bottom layer or when either layer is locked
+ */
+export function mergeLayerDown(layers: Layer[], framePixels: FramePixels, layerId: number): LayerChange | null {
+  const index = layers.findIndex(l => l.id === layerId)
+  if (index <= 0) return null
+
+  const upper = layers[index]
+  const below = layers[index - 1]
+  if (upper.locked || below.locked) return null
+
+  // The lower layer's own pixels go in unchanged; its settings still apply to the merged result
+  const mergeStack: Layer[] = [
+    { id: below.id, name: below.name, visible: true, active: false },
+    upper
+  ]
+
+  const newFramePixels: FramePixels = new Map()
+  framePixels.forEach((layerPixels, frameId) => {
+    if (!layerPixels.has(upper.id)) {
+      newFramePixels.set(frameId, layerPixels)
+      return
+    }
+
+    const merged = new Map(layerPixels)
+    if (upper.visible) {
+      merged.set(below.id, retagPixels(compositeLayers(mergeStack, layerPixels), below.id))
+    }
+    merged.delete(upper.id)
+    newFramePixels.set(frameId, merged)
+  })
+
+  return {
+    layers: activate(layers.filter(l => l.id !== upper.id), below.id),
+    framePixels: newFramePixels
+  }
+}
+
+/**
+ * Composites every visible layer into the bottom layer, in every frame. Hidden layers are
+ * discarded and the result is a plain, unlocked layer at full opacity.
+ * @param layers - Document layers, bottom layer first
+ * @param framePixels - Per-frame layer pixel buffers
+ * @returns The single-layer stack and its pixels, or null if there is nothing to flatten or a layer is locked
+ */
+export function flattenLayers(layers: Layer[], framePixels: FramePixels): LayerChange | null {
+  if (layers.length < 2 || layers.some(l => l.locked)) return null
+
+  const bottom = layers[0]
+  const newFramePixels: FramePixels = new Map()
+  framePixels.forEach((layerPixels, frameId) => {
+    const flattened: LayerPixels = new Map()
+    flattened.set(bottom.id, retagPixels(compositeLayers(layers, layerPixels), bottom.id))
+    newFramePixels.set(frameId, flattened)
+  })
+
+  return {
+    layers: [{ id: bottom.id, name: bottom.name, visible: true, active: true }],
+    framePixels: newFramePixels
+  }
+}
+
+/**
+ * Finds the layers whose pixel buffer differs between two versions of the frame pixels
+ * @param before - Frame pixels before a change
+ * @param after - Frame pixels after it
+ * @returns Ids of the layers with a different buffer in at least one frame
+ */
+export function getChangedLayerIds(before: FramePixels, after: FramePixels): number[] {
+  const changed = new Set<number>()
+  const frameIds = new Set([...Array.from(before.keys()), ...Array.from(after.keys())])
+
+  frameIds.forEach(frameId => {
+    const beforeLayers = before.get(frameId)
+    const afterLayers = after.get(frameId)
+    if (beforeLayers === afterLayers) return
+
+    const layerIds = new Set([...Array.from(beforeLayers?.keys() || []), ...Array.from(afterLayers?.keys() || [])])
+    layerIds.forEach(layerId => {
+      if (beforeLayers?.get(layerId) !== afterLayers?.get(layerId)) {
+        changed.add(layerId)
+      }
+    })
+  })
+
+  return Array.from(changed)
+}
+
+/**
+ * Takes the buffers of some layers out of every frame
+ * @param framePixels - Per-frame layer pixel buffers
+ * @param layerIds - Layers to keep
+ * @returns Frame pixels holding only those layers' buffers
+ */
+export function pickLayerBuffers(framePixels: FramePixels, layerIds: number[]): FramePixels {
+  const picked: FramePixels = new Map()
+  framePixels.forEach((layerPixels, frameId) => {
+    const frameBuffers: LayerPixels = new Map()
+    layerIds.forEach(layerId => {
+      const buffer = layerPixels.get(layerId)
+      if (buffer) frameBuffers.set(layerId, buffer)
+    })
+    if (frameBuffers.size > 0) picked.set(frameId, frameBuffers)
+  })
+  return picked
+}
+
+/**
+ * Puts saved layer buffers back into every frame; layers missing from the saved
+ * buffers of a frame lose their buffer there. Other layers are left alone.
+ * @param framePixels - Current per-frame layer pixel buffers
+ * @param saved - Buffers taken with pickLayerBuffers
+ * @param layerIds - The layers that were picked
+ * @returns The restored frame pixels
+ */
+export function restoreLayerBuffers(framePixels: FramePixels, saved: FramePixels, layerIds: number[]): FramePixels {
+  if (layerIds.length === 0) return framePixels
+
+  const restored: FramePixels = new Map(framePixels)
+  const frameIds = new Set([...Array.from(framePixels.keys()), ...Array.from(saved.keys())])
+  frameIds.forEach(frameId => {
+    const layerPixels: LayerPixels = new Map(framePixels.get(frameId) || [])
+    layerIds.forEach(layerId => {
+      const buffer = saved.get(frameId)?.get(layerId)
+      if (buffer) {
+        layerPixels.set(layerId, buffer)
+      } else {
+        layerPixels.delete(layerId)
+      }
+    })
+    restored.set(frameId, layerPixels)
+  })
+  return restored
+}
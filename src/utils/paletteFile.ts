@@ -0,0 +1,336 @@
+import { Color, CustomColorTemplate } from '../types'
+import { hexToRgb, rgbToHex } from './colorUtils'
+
+// GIMP (.gpl), JASC/Paint Shop Pro (.pal), one-hex-per-line (.hex, as used by Lospec)
+// and Adobe Swatch Exchange (.ase)
+export type PaletteFormat = 'gpl' | 'pal' | 'hex' | 'ase'
+
+export const PALETTE_FORMATS: PaletteFormat[] = ['gpl', 'pal', 'hex', 'ase']
+
+export const PALETTE_FILE_EXTENSIONS = PALETTE_FORMATS.map(format => `.${format}`)
+
+const GPL_HEADER = 'GIMP Palette'
+const PAL_HEADER = 'JASC-PAL'
+const PAL_VERSION = '0100'
+
+const ASE_SIGNATURE = 'ASEF'
+const ASE_GROUP_START = 0xc001
+const ASE_GROUP_END = 0xc002
+const ASE_COLOR_ENTRY = 0x0001
+const ASE_COLOR_TYPE_NORMAL = 2
+
+/**
+ * Works out the palette format from a file name
+ * @param filename - Name of the palette file
+ * @returns The format, or null if the extension is not a supported palette type
+ */
+export function getPaletteFormat(filename: string): PaletteFormat | null {
+  const extension = filename.toLowerCase().split('.').pop()
+  return PALETTE_FORMATS.find(format => format === extension) || null
+}
+
+// File name without its extension, used when the file itself does not name the palette
+const baseName = (filename: string) => filename.replace(/\.[^.]+$/, '') || 'Imported Palette'
+
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.trim())
+
+const channelsToHex = (values: string[], source: string): Color => {
+  const channels = values.slice(0, 3).map(value => parseInt(value, 10))
+  if (channels.length < 3 || channels.some(channel => isNaN(channel) || channel < 0 || channel > 255)) {
+    throw new Error(`Invalid color entry: "${source}"`)
+  }
+  return rgbToHex(channels[0], channels[1], channels[2])
+}
+
+/**
+ * Parses a GIMP palette
+ * @param text - Contents of the .gpl file
+ * @returns The palette name (if the file sets one) and its colors
+ */
+export function parseGpl(text: string): { name?: string; colors: Color[] } {
+  const [header, ...rest] = lines(text)
+  if (header !== GPL_HEADER) {
+    throw new Error('Not a GIMP palette: missing "GIMP Palette" header')
+  }
+
+  let name: string | undefined
+  const colors: Color[] = []
+
+  rest.forEach(line => {
+    if (!line || line.startsWith('#') || line.startsWith('Columns:')) return
+    if (line.startsWith('Name:')) {
+      name = line.slice('Name:'.length).trim() || undefined
+      return
+    }
+    colors.push(channelsToHex(line.split(/\s+/), line))
+  })
+
+  return { name, colors }
+}
+
+/**
+ * Parses a JASC palette
+ * @param text - Contents of the .pal file
+ * @returns The palette colors
+ */
+export function parsePal(text: string): { colors: Color[] } {
+  const [header, , count, ...entries] = lines(text)
+  if (header !== PAL_HEADER) {
+    throw new Error('Not a JASC palette: missing "JASC-PAL" header')
+  }
+
+  const colorCount = parseInt(count, 10)
+  if (isNaN(colorCount)) {
+    throw new Error('Not a JASC palette: missing color count')
+  }
+
+  const colors = entries
+    .filter(line => line.length > 0)
+    .slice(0, colorCount)
+    .map(line => channelsToHex(line.split(/\s+/), line))
+
+  return { colors }
+}
+
+/**
+ * Parses a plain hex palette: one RRGGBB color per line, with or without a leading #
+ * @param text - Contents of the .hex file
+ * @returns The palette colors
+ */
+export function parseHex(text: string): { colors: Color[] } {
+  const colors = lines(text)
+    .filter(line => line.length > 0)
+    .map(line => {
+      const hex = line.replace(/^#/, '')
+      // RRGGBBAA entries keep their color and drop the alpha
+      if (!/^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(hex)) {
+        throw new Error(`Invalid color entry: "${line}"`)
+      }
+      return `#${hex.slice(0, 6).toLowerCase()}`
+    })
+
+  return { colors }
+}
+
+/**
+ * Parses an Adobe Swatch Exchange file. RGB, CMYK and grayscale swatches are read;
+ * LAB swatches are skipped
+ * @param buffer - Contents of the .ase file
+ * @returns The name of the first group (if any) and the palette colors
+ */
+export function parseAse(buffer: ArrayBuffer): { name?: string; colors: Color[] } {
+  const view = new DataView(buffer)
+  const readString = (offset: number) => {
+    const length = view.getUint16(offset)
+    let value = ''
+    // Length counts UTF-16 code units including the null terminator
+    for (let i = 0; i < length - 1; i++) {
+      value += String.fromCharCode(view.getUint16(offset + 2 + i * 2))
+    }
+    return value
+  }
+
+  const signature = String.fromCharCode(...new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)))
+  if (buffer.byteLength < 12 || signature !== ASE_SIGNATURE) {
+    throw new Error('Not an Adobe Swatch Exchange file: missing "ASEF" signature')
+  }
+
+  const blockCount = view.getUint32(8)
+  let offset = 12
+  let name: string | undefined
+  const colors: Color[] = []
+
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > buffer.byteLength) {
+      throw new Error('Adobe Swatch Exchange file is truncated')
+    }
+
+    const type = view.getUint16(offset)
+    const length = view.getUint32(offset + 2)
+    const body = offset + 6
+    if (body + length > buffer.byteLength) {
+      throw new Error('Adobe Swatch Exchange file is truncated')
+    }
+
+    if (type === ASE_GROUP_START && name === undefined) {
+      name = readString(body) || undefined
+    } else if (type === ASE_COLOR_ENTRY) {
+      const modelOffset = body + 2 + view.getUint16(body) * 2
+      const model = String.fromCharCode(...new Uint8Array(buffer, modelOffset, 4))
+      const value = (index: number) => view.getFloat32(modelOffset + 4 + index * 4)
+
+      if (model === 'RGB ') {
+        colors.push(rgbToHex(value(0) * 255, value(1) * 255, value(2) * 255))
+      } else if (model === 'CMYK') {
+        const k = 1 - value(3)
+        colors.push(rgbToHex(255 * (1 - value(0)) * k, 255 * (1 - value(1)) * k, 255 * (1 - value(2)) * k))
+      } else if (model === 'Gray') {
+        colors.push(rgbToHex(value(0) * 255, value(0) * 255, value(0) * 255))
+      }
+    }
+
+    offset = body + length
+  }
+
+  return { name, colors }
+}
+
+/**
+ * Reads a palette from file contents
+ * @param data - Raw file contents
+ * @param filename - Name of the file; picks the format and names palettes that have no name of their own
+ * @returns A color template holding the imported colors
+ */
+export function parsePaletteFile(data: ArrayBuffer, filename: string): CustomColorTemplate {
+  const format = getPaletteFormat(filename)
+  if (!format) {
+    throw new Error(`Unsupported palette file: ${filename}`)
+  }
+
+  const text = () => new TextDecoder().decode(data)
+  const parsed: { name?: string; colors: Color[] } =
+    format === 'gpl' ? parseGpl(text()) :
+    format === 'pal' ? parsePal(text()) :
+    format === 'hex' ? parseHex(text()) :
+    parseAse(data)
+
+  if (parsed.colors.length === 0) {
+    throw new Error(`No colors found in ${filename}`)
+  }
+
+  return {
+    id: Date.now().toString(),
+    name: parsed.name || baseName(filename),
+    colors: parsed.colors
+  }
+}
+
+/**
+ * Reads a palette file chosen or dropped by the user
+ * @param file - The palette file
+ * @returns A color template holding the imported colors
+ */
+export async function readPaletteFile(file: File): Promise<CustomColorTemplate> {
+  const data = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(new Error(`Could not read file: ${file.name}`))
+    reader.readAsArrayBuffer(file)
+  })
+  return parsePaletteFile(data, file.name)
+}
+
+// Palette colors as RGB triples, skipping anything that is not a valid hex color
+const paletteRgb = (palette: CustomColorTemplate) =>
+  palette.colors
+    .map(color => hexToRgb(color))
+    .filter((rgb): rgb is { r: number; g: number; b: number } => rgb !== null)
+
+const pad = (value: number) => value.toString().padStart(3, ' ')
+
+/**
+ * Writes a palette as a GIMP palette
+ * @param palette - The palette to write
+ * @returns Contents of the .gpl file
+ */
+export function serializeGpl(palette: CustomColorTemplate): string {
+  const entries = paletteRgb(palette).map(({ r, g, b }) =>
+    `${pad(r)} ${pad(g)} ${pad(b)}\t${rgbToHex(r, g, b).slice(1)}`
+  )
+  return [GPL_HEADER, `Name: ${palette.name}`, 'Columns: 0', '#', ...entries].join('\n') + '\n'
+}
+
+/**
+ * Writes a palette as a JASC palette
+ * @param palette - The palette to write
+ * @returns Contents of the .pal file
+ */
+export function serializePal(palette: CustomColorTemplate): string {
+  const colors = paletteRgb(palette)
+  const entries = colors.map(({ r, g, b }) => `${r} ${g} ${b}`)
+  // JASC palettes use CRLF line endings
+  return [PAL_HEADER, PAL_VERSION, colors.length.toString(), ...entries].join('\r\n') + '\r\n'
+}
+
+/**
+ * Writes a palette as a plain hex list
+ * @param palette - The palette to write
+ * @returns Contents of the .hex file
+ */
+export function serializeHex(palette: CustomColorTemplate): string {
+  return paletteRgb(palette).map(({ r, g, b }) => rgbToHex(r, g, b).slice(1)).join('\n') + '\n'
+}
+
+/**
+ * Writes a palette as an Adobe Swatch Exchange file, with the colors in one named group
+ * @param palette - The palette to write
+ * @returns Contents of the .ase file
+ */
+export function serializeAse(palette: CustomColorTemplate): Uint8Array {
+  const colors = paletteRgb(palette)
+  const nameSize = (value: string) => 2 + (value.length + 1) * 2
+  const groupLength = nameSize(palette.name)
+  // Name, model, three float channels and the color type
+  const entryLength = (hex: string) => nameSize(hex) + 4 + 12 + 2
+
+  const hexes = colors.map(({ r, g, b }) => rgbToHex(r, g, b))
+  const size = 12 + (6 + groupLength) + hexes.reduce((total, hex) => total + 6 + entryLength(hex), 0) + 6
+  const view = new DataView(new ArrayBuffer(size))
+  let offset = 0
+
+  const writeAscii = (value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset++, value.charCodeAt(i))
+  }
+  const writeName = (value: string) => {
+    view.setUint16(offset, value.length + 1)
+    offset += 2
+    for (let i = 0; i < value.length; i++, offset += 2) view.setUint16(offset, value.charCodeAt(i))
+    view.setUint16(offset, 0)
+    offset += 2
+  }
+  const writeBlockHeader = (type: number, length: number) => {
+    view.setUint16(offset, type)
+    view.setUint32(offset + 2, length)
+    offset += 6
+  }
+
+  writeAscii(ASE_SIGNATURE)
+  view.setUint16(4, 1)
+  view.setUint16(6, 0)
+  view.setUint32(8, hexes.length + 2)
+  offset = 12
+
+  writeBlockHeader(ASE_GROUP_START, groupLength)
+  writeName(palette.name)
+
+  colors.forEach(({ r, g, b }, index) => {
+    writeBlockHeader(ASE_COLOR_ENTRY, entryLength(hexes[index]))
+    writeName(hexes[index])
+    writeAscii('RGB ')
+    ;[r, g, b].forEach(channel => {
+      view.setFloat32(offset, channel / 255)
+      offset += 4
+    })
+    view.setUint16(offset, ASE_COLOR_TYPE_NORMAL)
+    offset += 2
+  })
+
+  writeBlockHeader(ASE_GROUP_END, 0)
+
+  return new Uint8Array(view.buffer)
+}
+
+/**
+ * Writes a palette in the given format
+ * @param palette - The palette to write
+ * @param format - Target file format
+ * @returns The file contents, ready to wrap in a Blob
+ */
+export function serializePalette(palette: CustomColorTemplate, format: PaletteFormat): string | Uint8Array {
+  switch (format) {
+    case 'gpl': return serializeGpl(palette)
+    case 'pal': return serializePal(palette)
+    case 'hex': return serializeHex(palette)
+    case 'ase': return serializeAse(palette)
+  }
+}
@@ -0,0 +1,183 @@
+import { Color } from '../types'
+import { hexToRgb } from './colorUtils'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const COLOR_TYPE_INDEXED = 3
+// Largest payload of an uncompressed deflate block
+const MAX_STORED_BLOCK = 0xffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * CRC-32 as used by PNG chunks
+ * @param bytes - Data to checksum
+ * @returns The unsigned CRC
+ */
+export function crc32(bytes: ArrayLike<number>): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Adler-32 checksum that closes a zlib stream
+ * @param bytes - Uncompressed data
+ * @returns The unsigned checksum
+ */
+export function adler32(bytes: ArrayLike<number>): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+/**
+ * Wraps data in a zlib stream of stored (uncompressed) deflate blocks. Indexed
+ * sprites are small, so skipping compression keeps the encoder simple and synchronous
+ * @param data - Bytes to wrap
+ * @returns A valid zlib stream
+ */
+export function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK))
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4)
+  let offset = 0
+
+  // CMF/FLG: deflate with a 32K window, no preset dictionary, header divisible by 31
+  out[offset++] = 0x78
+  out[offset++] = 0x01
+
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK
+    const length = Math.min(MAX_STORED_BLOCK, data.length - start)
+    out[offset++] = block === blockCount - 1 ? 1 : 0
+    out[offset++] = length & 0xff
+    out[offset++] = length >> 8
+    out[offset++] = ~length & 0xff
+    out[offset++] = (~length >> 8) & 0xff
+    out.set(data.subarray(start, start + length), offset)
+    offset += length
+  }
+
+  const checksum = adler32(data)
+  out[offset++] = checksum >>> 24
+  out[offset++] = (checksum >>> 16) & 0xff
+  out[offset++] = (checksum >>> 8) & 0xff
+  out[offset++] = checksum & 0xff
+
+  return out
+}
+
+// Length, type, data and CRC of one PNG chunk
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    out.set(part, offset)
+    offset += part.length
+  })
+  return out
+}
+
+/**
+ * Smallest PNG bit depth that can hold every palette index
+ * @param paletteSize - Number of palette entries (1-256)
+ * @returns 1, 2, 4 or 8
+ */
+export function getIndexedBitDepth(paletteSize: number): number {
+  if (paletteSize <= 2) return 1
+  if (paletteSize <= 4) return 2
+  if (paletteSize <= 16) return 4
+  return 8
+}
+
+/**
+ * Encodes a palette-based (color type 3) PNG
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param indices - One palette index per pixel, row by row
+ * @param palette - Hex colors, at most 256
+ * @param transparentIndex - Entry written as fully transparent, if any
+ * @returns The PNG file contents
+ */
+export function encodeIndexedPng(
+  width: number,
+  height: number,
+  indices: Uint8Array,
+  palette: Color[],
+  transparentIndex: number | null = null
+): Uint8Array {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error(`Indexed PNGs need 1 to 256 palette colors, got ${palette.length}`)
+  }
+  if (indices.length !== width * height) {
+    throw new Error(`Expected ${width * height} palette indices, got ${indices.length}`)
+  }
+
+  const bitDepth = getIndexedBitDepth(palette.length)
+  const pixelsPerByte = 8 / bitDepth
+  const rowBytes = Math.ceil(width / pixelsPerByte)
+
+  // Every scanline starts with filter type 0 (none)
+  const raw = new Uint8Array(height * (rowBytes + 1))
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowBytes + 1) + 1
+    for (let x = 0; x < width; x++) {
+      const index = indices[y * width + x]
+      const shift = 8 - bitDepth * (x % pixelsPerByte + 1)
+      raw[rowStart + Math.floor(x / pixelsPerByte)] |= index << shift
+    }
+  }
+
+  const header = new Uint8Array(13)
+  const headerView = new DataView(header.buffer)
+  headerView.setUint32(0, width)
+  headerView.setUint32(4, height)
+  header[8] = bitDepth
+  header[9] = COLOR_TYPE_INDEXED
+
+  const plte = new Uint8Array(palette.length * 3)
+  palette.forEach((color, index) => {
+    const rgb = hexToRgb(color) || { r: 0, g: 0, b: 0 }
+    plte.set([rgb.r, rgb.g, rgb.b], index * 3)
+  })
+
+  const chunks = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('PLTE', plte)
+  ]
+  if (transparentIndex !== null) {
+    // tRNS lists alpha for entries up to the last non-opaque one
+    const alpha = new Uint8Array(transparentIndex + 1).fill(255)
+    alpha[transparentIndex] = 0
+    chunks.push(chunk('tRNS', alpha))
+  }
+  chunks.push(chunk('IDAT', zlibStore(raw)), chunk('IEND', new Uint8Array(0)))
+
+  return concat(chunks)
+}
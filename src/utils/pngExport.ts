@@ -0,0 +1,139 @@
+import { Color, PixelData, PngExportBounds, SelectionBounds } from '../types'
+import { getPixelBounds, Rect } from './spriteSheet'
+import { hexToRgb } from './colorUtils'
+import { nearestPaletteIndex } from './indexedColor'
+import { encodeIndexedPng } from './pngEncoder'
+
+/**
+ * Works out which part of the canvas a PNG export covers
+ * @param pixels - Composited pixels to export
+ * @param canvasWidth - Canvas width in sprite pixels
+ * @param canvasHeight - Canvas height in sprite pixels
+ * @param bounds - Which region to export
+ * @param selectionBounds - Current selection, required for 'selection'
+ * @returns The region in sprite pixels, or null if there is nothing to export
+ */
+export function getExportRegion(
+  pixels: Map<string, PixelData>,
+  canvasWidth: number,
+  canvasHeight: number,
+  bounds: PngExportBounds,
+  selectionBounds?: SelectionBounds | null
+): Rect | null {
+  if (bounds === 'trim') {
+    return getPixelBounds(pixels)
+  }
+
+  if (bounds === 'selection') {
+    if (!selectionBounds) return null
+
+    const startX = Math.max(0, selectionBounds.startX)
+    const startY = Math.max(0, selectionBounds.startY)
+    const endX = Math.min(canvasWidth - 1, selectionBounds.endX)
+    const endY = Math.min(canvasHeight - 1, selectionBounds.endY)
+    if (endX < startX || endY < startY) return null
+
+    return { x: startX, y: startY, w: endX - startX + 1, h: endY - startY + 1 }
+  }
+
+  return { x: 0, y: 0, w: canvasWidth, h: canvasHeight }
+}
+
+/**
+ * Renders pixel data (no grid or editor overlays) onto a new canvas
+ * @param pixels - Composited pixels to draw
+ * @param region - Part of the sprite to draw, in sprite pixels
+ * @param scale - Integer upscale
+ * @param background - Solid background color, or null to keep transparency
+ * @returns Canvas of size region * scale
+ */
+export function renderPixelsToCanvas(
+  pixels: Map<string, PixelData>,
+  region: Rect,
+  scale: number,
+  background: Color | null = null
+): HTMLCanvasElement {
+  const pixelScale = Math.max(1, Math.floor(scale))
+  const canvas = document.createElement('canvas')
+  canvas.width = region.w * pixelScale
+  canvas.height = region.h * pixelScale
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return canvas
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  if (background) {
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  pixels.forEach(pixel => {
+    if (pixel.color === 'transparent') return
+    if (pixel.x < region.x || pixel.x >= region.x + region.w || pixel.y < region.y || pixel.y >= region.y + region.h) return
+
+    ctx.fillStyle = pixel.color
+    ctx.fillRect((pixel.x - region.x) * pixelScale, (pixel.y - region.y) * pixelScale, pixelScale, pixelScale)
+  })
+
+  return canvas
+}
+
+/**
+ * Encodes pixel data as a palette-based PNG that uses the document palette's own
+ * indices. Empty pixels get an extra transparent entry after the palette, or the
+ * palette entry nearest to the background color
+ * @param pixels - Composited pixels to encode
+ * @param region - Part of the sprite to encode, in sprite pixels
+ * @param scale - Integer upscale
+ * @param palette - The document palette
+ * @param background - Solid background color, or null to keep transparency
+ * @returns The PNG file contents
+ */
+export function renderPixelsToIndexedPng(
+  pixels: Map<string, PixelData>,
+  region: Rect,
+  scale: number,
+  palette: Color[],
+  background: Color | null = null
+): Uint8Array {
+  const pixelScale = Math.max(1, Math.floor(scale))
+  const width = region.w * pixelScale
+  const height = region.h * pixelScale
+
+  const indexOf = (pixel: PixelData): number => {
+    if (pixel.paletteIndex !== undefined && palette[pixel.paletteIndex] === pixel.color) return pixel.paletteIndex
+    const rgb = hexToRgb(pixel.color)
+    return rgb ? nearestPaletteIndex(rgb.r, rgb.g, rgb.b, palette) : -1
+  }
+
+  let backgroundIndex: number
+  let outputPalette = palette
+  let transparentIndex: number | null = null
+  if (background) {
+    const rgb = hexToRgb(background)
+    backgroundIndex = rgb ? nearestPaletteIndex(rgb.r, rgb.g, rgb.b, palette) : 0
+  } else {
+    if (palette.length >= 256) {
+      throw new Error('The palette has 256 colors, leaving no entry for transparency; export with a solid background instead')
+    }
+    backgroundIndex = palette.length
+    outputPalette = [...palette, '#000000']
+    transparentIndex = backgroundIndex
+  }
+
+  const indices = new Uint8Array(width * height).fill(Math.max(0, backgroundIndex))
+  pixels.forEach(pixel => {
+    if (pixel.color === 'transparent') return
+    if (pixel.x < region.x || pixel.x >= region.x + region.w || pixel.y < region.y || pixel.y >= region.y + region.h) return
+
+    const index = indexOf(pixel)
+    if (index === -1) return
+
+    const startX = (pixel.x - region.x) * pixelScale
+    const startY = (pixel.y - region.y) * pixelScale
+    for (let y = startY; y < startY + pixelScale; y++) {
+      indices.fill(index, y * width + startX, y * width + startX + pixelScale)
+    }
+  })
+
+  return encodeIndexedPng(width, height, indices, outputPalette, transparentIndex)
+}
@@ -0,0 +1,341 @@
+import { BlendMode, Color, ColorMode, CustomColorTemplate, Frame, FramePixels, GridSettings, Layer, LayerGroup, LayerPixels, PixelData, ProjectDocument } from '../types'
+import { BLEND_MODES } from './blendModes'
+
+export const PROJECT_FILE_EXTENSION = '.spritemaker'
+export const PROJECT_FILE_VERSION = 2
+export const DEFAULT_FRAME_DURATION = 100
+
+interface SerializedPixel {
+  x: number
+  y: number
+  color: Color
+  index?: number // Palette index, indexed projects only
+}
+
+interface SerializedLayer {
+  id: number
+  name: string
+  visible: boolean
+  active: boolean
+  opacity?: number // Only written when below 100
+  blendMode?: BlendMode // Only written when not 'normal'
+  locked?: boolean // Only written when locked
+  groupId?: number // Only written for layers inside a group
+}
+
+interface SerializedGroup {
+  id: number
+  name: string
+  visible: boolean
+  collapsed: boolean
+  opacity?: number // Only written when below 100
+  parentId?: number // Only written for nested groups
+}
+
+// A layer's pixels within one frame
+interface SerializedCel {
+  layerId: number
+  pixels: SerializedPixel[]
+}
+
+interface SerializedFrame {
+  id: number
+  duration: number
+  cels: SerializedCel[]
+}
+
+interface SerializedProject {
+  format: 'spritemaker'
+  version: number
+  width: number
+  height: number
+  layers: SerializedLayer[]
+  groups?: SerializedGroup[] // Only written when the project has layer groups
+  frames: SerializedFrame[]
+  primaryColor: Color
+  secondaryColor: Color
+  gridSettings: GridSettings
+  palette: CustomColorTemplate
+  colorMode?: ColorMode // Missing in files saved before indexed mode existed
+  savedAt: number
+}
+
+const DEFAULT_GRID_SETTINGS: GridSettings = {
+  visible: false,
+  color: '#333',
+  opacity: 0.5,
+  quarter: false,
+  eighths: false,
+  sixteenths: false,
+  thirtyseconds: false,
+  sixtyfourths: false
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each one must return data
+ * in the shape of the next version, so files of any older version can be
+ * walked forward one step at a time until they reach PROJECT_FILE_VERSION.
+ */
+const migrations: Record<number, (data: any) => any> = {
+  // Version 0: a bare saved template ({ name, width, height, pixels }) opened as a project
+  0: (data: any) => ({
+    format: 'spritemaker',
+    version: 1,
+    width: data.width,
+    height: data.height,
+    layers: [{
+      id: 1,
+      name: data.name || 'Layer 1',
+      visible: true,
+      active: true,
+      pixels: Array.isArray(data.pixels) ? data.pixels : []
+    }],
+    primaryColor: '#000000',
+    secondaryColor: '#ffffff',
+    gridSettings: DEFAULT_GRID_SETTINGS,
+    palette: undefined,
+    savedAt: data.updatedAt || Date.now()
+  }),
+  // Version 1: pixels stored on each layer; move them into a single frame
+  1: (data: any) => ({
+    ...data,
+    version: 2,
+    layers: Array.isArray(data.layers) ? data.layers.map(({ pixels, ...layer }: any) => layer) : data.layers,
+    frames: [{
+      id: 1,
+      duration: DEFAULT_FRAME_DURATION,
+      cels: (Array.isArray(data.layers) ? data.layers : []).map((layer: any) => ({
+        layerId: layer.id,
+        pixels: Array.isArray(layer.pixels) ? layer.pixels : []
+      }))
+    }]
+  })
+}
+
+/**
+ * Serializes the current editing session into the project file format
+ * @param document - The document to save
+ * @returns Project file contents as a JSON string
+ */
+export function serializeProject(document: ProjectDocument): string {
+  const project: SerializedProject = {
+    format: 'spritemaker',
+    version: PROJECT_FILE_VERSION,
+    width: document.canvasWidth,
+    height: document.canvasHeight,
+    layers: document.layers.map(layer => ({
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible,
+      active: layer.active,
+      ...(layer.opacity !== undefined && layer.opacity < 100 ? { opacity: layer.opacity } : {}),
+      ...(layer.blendMode && layer.blendMode !== 'normal' ? { blendMode: layer.blendMode } : {}),
+      ...(layer.locked ? { locked: true } : {}),
+      ...(layer.groupId !== undefined ? { groupId: layer.groupId } : {})
+    })),
+    ...(document.layerGroups && document.layerGroups.length > 0 ? {
+      groups: document.layerGroups.map(group => ({
+        id: group.id,
+        name: group.name,
+        visible: group.visible,
+        collapsed: group.collapsed,
+        ...(group.opacity !== undefined && group.opacity < 100 ? { opacity: group.opacity } : {}),
+        ...(group.parentId !== undefined ? { parentId: group.parentId } : {})
+      }))
+    } : {}),
+    frames: document.frames.map(frame => ({
+      id: frame.id,
+      duration: frame.duration,
+      cels: document.layers.map(layer => ({
+        layerId: layer.id,
+        pixels: Array.from(document.framePixels.get(frame.id)?.get(layer.id)?.values() ?? [])
+          .filter(pixel => pixel.color !== 'transparent')
+          .map(({ x, y, color, paletteIndex }) => paletteIndex === undefined ? { x, y, color } : { x, y, color, index: paletteIndex })
+      }))
+    })),
+    primaryColor: document.primaryColor,
+    secondaryColor: document.secondaryColor,
+    gridSettings: document.gridSettings,
+    palette: document.palette,
+    colorMode: document.colorMode || 'rgb',
+    savedAt: Date.now()
+  }
+
+  return JSON.stringify(project)
+}
+
+/**
+ * Upgrades parsed project data of any supported version to the current version
+ * @param data - Parsed project file contents
+ * @returns Project data at PROJECT_FILE_VERSION
+ */
+export function migrateProject(data: any): SerializedProject {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid project file: not a JSON object')
+  }
+
+  let project = data
+  let version = typeof project.version === 'number' ? project.version : 0
+
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${version} is newer than this editor supports (${PROJECT_FILE_VERSION})`)
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) {
+      throw new Error(`Unsupported project file version: ${version}`)
+    }
+    project = migrate(project)
+    version = project.version
+  }
+
+  return project as SerializedProject
+}
+
+// The first id that appears more than once, if any
+const findDuplicateId = (items: Array<{ id: number }>): number | undefined => {
+  const seen = new Set<number>()
+  return items.find(({ id }) => {
+    if (seen.has(id)) return true
+    seen.add(id)
+    return false
+  })?.id
+}
+
+// Group parent links that point at groups in the file, minus any link that would close a
+// cycle (A in B in A): walking in file order, a group whose parent chain leads back to
+// itself loses its parentId
+const resolveGroupParents = (groups: SerializedGroup[]): Map<number, number> => {
+  const groupIds = new Set(groups.map(group => group.id))
+  const parents = new Map<number, number>()
+  groups.forEach(group => {
+    if (group.parentId !== undefined && groupIds.has(group.parentId) && group.parentId !== group.id) {
+      parents.set(group.id, group.parentId)
+    }
+  })
+
+  groups.forEach(group => {
+    const visited = new Set<number>()
+    let ancestor = parents.get(group.id)
+    while (ancestor !== undefined && !visited.has(ancestor)) {
+      if (ancestor === group.id) {
+        parents.delete(group.id)
+        break
+      }
+      visited.add(ancestor)
+      ancestor = parents.get(ancestor)
+    }
+  })
+  return parents
+}
+
+/**
+ * Parses a project file and restores the editing session it describes
+ * @param text - Project file contents
+ * @param fallbackPalette - Palette to use when the file does not carry one
+ * @returns The restored document
+ */
+export function parseProject(text: string, fallbackPalette: CustomColorTemplate): ProjectDocument {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new Error('Invalid project file: not valid JSON')
+  }
+
+  const project = migrateProject(data)
+
+  if (!project.width || !project.height || !Array.isArray(project.layers)) {
+    throw new Error('Invalid project file: missing canvas size or layers')
+  }
+  if (!Number.isInteger(project.width) || !Number.isInteger(project.height) || project.width <= 0 || project.height <= 0) {
+    throw new Error('Invalid project file: canvas size must be whole numbers above 0')
+  }
+  if (project.layers.length === 0) {
+    throw new Error('Invalid project file: no layers')
+  }
+  const duplicateLayerId = findDuplicateId(project.layers)
+  if (duplicateLayerId !== undefined) {
+    throw new Error(`Invalid project file: duplicate layer id ${duplicateLayerId}`)
+  }
+  const duplicateFrameId = Array.isArray(project.frames) ? findDuplicateId(project.frames) : undefined
+  if (duplicateFrameId !== undefined) {
+    throw new Error(`Invalid project file: duplicate frame id ${duplicateFrameId}`)
+  }
+
+  // Links to groups that are not in the file are dropped, putting those layers and groups at the top level
+  const serializedGroups = Array.isArray(project.groups) ? project.groups : []
+  const groupIds = new Set(serializedGroups.map(group => group.id))
+  const groupParents = resolveGroupParents(serializedGroups)
+  const layerGroups: LayerGroup[] = serializedGroups.map(group => ({
+    id: group.id,
+    name: group.name,
+    visible: group.visible !== false,
+    collapsed: !!group.collapsed,
+    ...(typeof group.opacity === 'number' ? { opacity: Math.max(0, Math.min(100, group.opacity)) } : {}),
+    ...(groupParents.has(group.id) ? { parentId: groupParents.get(group.id) } : {})
+  }))
+
+  const layers: Layer[] = project.layers.map(layer => ({
+    id: layer.id,
+    name: layer.name,
+    visible: layer.visible !== false,
+    active: !!layer.active,
+    ...(typeof layer.opacity === 'number' ? { opacity: Math.max(0, Math.min(100, layer.opacity)) } : {}),
+    ...(layer.blendMode && BLEND_MODES.some(mode => mode.id === layer.blendMode) ? { blendMode: layer.blendMode } : {}),
+    ...(layer.locked === true ? { locked: true } : {}),
+    ...(layer.groupId !== undefined && groupIds.has(layer.groupId) ? { groupId: layer.groupId } : {})
+  }))
+
+  // Exactly one layer must be active for drawing to work: the first active one, or the bottom layer
+  const activeIndex = Math.max(0, layers.findIndex(layer => layer.active))
+  layers.forEach((layer, index) => {
+    layer.active = index === activeIndex
+  })
+
+  // A project always has at least one frame to draw on
+  const serializedFrames = Array.isArray(project.frames) && project.frames.length > 0
+    ? project.frames
+    : [{ id: 1, duration: DEFAULT_FRAME_DURATION, cels: [] }]
+
+  const colorMode: ColorMode = project.colorMode === 'indexed' ? 'indexed' : 'rgb'
+  const layerIds = new Set(layers.map(layer => layer.id))
+  const frames: Frame[] = []
+  const framePixels: FramePixels = new Map()
+  serializedFrames.forEach(frame => {
+    frames.push({
+      id: frame.id,
+      duration: frame.duration > 0 ? frame.duration : DEFAULT_FRAME_DURATION
+    })
+
+    const layerPixels: LayerPixels = new Map()
+    ;(frame.cels || []).forEach(cel => {
+      if (!layerIds.has(cel.layerId)) return
+
+      const buffer = new Map<string, PixelData>()
+      ;(cel.pixels || []).forEach(({ x, y, color, index }) => {
+        if (x < 0 || x >= project.width || y < 0 || y >= project.height) return
+        const pixel: PixelData = { x, y, color, layerId: cel.layerId }
+        if (colorMode === 'indexed' && typeof index === 'number') pixel.paletteIndex = index
+        buffer.set(`${x},${y}`, pixel)
+      })
+      layerPixels.set(cel.layerId, buffer)
+    })
+    framePixels.set(frame.id, layerPixels)
+  })
+
+  return {
+    canvasWidth: project.width,
+    canvasHeight: project.height,
+    layers,
+    frames,
+    framePixels,
+    primaryColor: project.primaryColor || '#000000',
+    secondaryColor: project.secondaryColor || '#ffffff',
+    gridSettings: { ...DEFAULT_GRID_SETTINGS, ...project.gridSettings },
+    palette: project.palette && Array.isArray(project.palette.colors) ? project.palette : fallbackPalette,
+    colorMode,
+    layerGroups
+  }
+}
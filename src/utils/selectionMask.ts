@@ -0,0 +1,277 @@
+import { Color, PixelData, SelectionBounds, SelectionMask, SelectionMode } from '../types'
+
+// Offsets of the eight pixels around a pixel
+const NEIGHBOURS: Array<[number, number]> = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1]
+]
+
+const parseKey = (key: string): [number, number] => {
+  const [x, y] = key.split(',').map(Number)
+  return [x, y]
+}
+
+/**
+ * Picks how a new selection combines with the current one from the modifier keys
+ * held when it starts: Shift adds, Alt subtracts and both intersect
+ * @param shiftKey - Whether Shift is held
+ * @param altKey - Whether Alt is held
+ * @returns The selection mode
+ */
+export function getSelectionMode(shiftKey: boolean, altKey: boolean): SelectionMode {
+  if (shiftKey && altKey) return 'intersect'
+  if (shiftKey) return 'add'
+  if (altKey) return 'subtract'
+  return 'replace'
+}
+
+/**
+ * Selects a rectangle
+ * @param bounds - The rectangle (inclusive); parts outside the canvas are left out
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The mask
+ */
+export function createRectMask(bounds: SelectionBounds, canvasWidth: number, canvasHeight: number): SelectionMask {
+  const mask: SelectionMask = new Set()
+  for (let y = Math.max(0, bounds.startY); y <= Math.min(canvasHeight - 1, bounds.endY); y++) {
+    for (let x = Math.max(0, bounds.startX); x <= Math.min(canvasWidth - 1, bounds.endX); x++) {
+      mask.add(`${x},${y}`)
+    }
+  }
+  return mask
+}
+
+/**
+ * Selects the pixels on a closed free-form path and the pixels whose centers it encloses
+ * @param path - The path through pixel coordinates, closed back to its first point
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The mask
+ */
+export function createLassoMask(path: Array<{ x: number; y: number }>, canvasWidth: number, canvasHeight: number): SelectionMask {
+  const mask: SelectionMask = new Set()
+  path.forEach(({ x, y }) => {
+    if (x >= 0 && x < canvasWidth && y >= 0 && y < canvasHeight) mask.add(`${x},${y}`)
+  })
+  if (path.length < 3) return mask
+
+  const minY = Math.max(0, Math.min(...path.map(p => p.y)))
+  const maxY = Math.min(canvasHeight - 1, Math.max(...path.map(p => p.y)))
+  for (let y = minY; y <= maxY; y++) {
+    // Where the path crosses this row, through the pixel centers
+    const crossings: number[] = []
+    path.forEach((from, index) => {
+      const to = path[(index + 1) % path.length]
+      if ((from.y <= y) !== (to.y <= y)) {
+        crossings.push(from.x + (y - from.y) * (to.x - from.x) / (to.y - from.y))
+      }
+    })
+    crossings.sort((a, b) => a - b)
+
+    // Even-odd: pixels between each pair of crossings are inside
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      for (let x = Math.max(0, Math.ceil(crossings[i])); x <= Math.min(canvasWidth - 1, Math.floor(crossings[i + 1])); x++) {
+        mask.add(`${x},${y}`)
+      }
+    }
+  }
+  return mask
+}
+
+/**
+ * Selects every pixel of a color on a layer, whether or not the pixels touch
+ * @param pixels - The layer's pixels
+ * @param color - Color to select (matched case-insensitively); transparent selects the empty pixels
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The mask
+ */
+export function createColorMask(pixels: Map<string, PixelData>, color: Color, canvasWidth: number, canvasHeight: number): SelectionMask {
+  const target = color.toLowerCase()
+  const mask: SelectionMask = new Set()
+  for (let y = 0; y < canvasHeight; y++) {
+    for (let x = 0; x < canvasWidth; x++) {
+      const key = `${x},${y}`
+      if ((pixels.get(key)?.color.toLowerCase() ?? 'transparent') === target) mask.add(key)
+    }
+  }
+  return mask
+}
+
+/**
+ * Combines a new selection with the current one
+ * @param current - The current selection, if any
+ * @param mask - The new selection
+ * @param mode - How to combine them
+ * @returns The resulting mask
+ */
+export function combineMasks(current: SelectionMask | null, mask: SelectionMask, mode: SelectionMode): SelectionMask {
+  if (mode === 'replace' || !current) return mode === 'subtract' || mode === 'intersect' ? new Set() : mask
+
+  if (mode === 'add') return new Set([...Array.from(current), ...Array.from(mask)])
+  if (mode === 'subtract') return new Set(Array.from(current).filter(key => !mask.has(key)))
+  return new Set(Array.from(current).filter(key => mask.has(key)))
+}
+
+/**
+ * Selects everything that is not selected
+ * @param mask - The current selection
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The inverted mask
+ */
+export function invertMask(mask: SelectionMask, canvasWidth: number, canvasHeight: number): SelectionMask {
+  const inverted: SelectionMask = new Set()
+  for (let y = 0; y < canvasHeight; y++) {
+    for (let x = 0; x < canvasWidth; x++) {
+      const key = `${x},${y}`
+      if (!mask.has(key)) inverted.add(key)
+    }
+  }
+  return inverted
+}
+
+/**
+ * Grows a selection outward, one ring of pixels (diagonals included) per step
+ * @param mask - The current selection
+ * @param amount - Pixels to grow by
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The grown mask
+ */
+export function growMask(mask: SelectionMask, amount: number, canvasWidth: number, canvasHeight: number): SelectionMask {
+  const grown = new Set(mask)
+  let edge = Array.from(mask)
+  for (let step = 0; step < amount && edge.length > 0; step++) {
+    const added: string[] = []
+    edge.forEach(key => {
+      const [x, y] = parseKey(key)
+      NEIGHBOURS.forEach(([dx, dy]) => {
+        const nx = x + dx
+        const ny = y + dy
+        const neighbour = `${nx},${ny}`
+        if (nx < 0 || nx >= canvasWidth || ny < 0 || ny >= canvasHeight || grown.has(neighbour)) return
+        grown.add(neighbour)
+        added.push(neighbour)
+      })
+    })
+    edge = added
+  }
+  return grown
+}
+
+/**
+ * Shrinks a selection inward, one ring of pixels (diagonals included) per step. The canvas
+ * edge does not count as unselected, so a selection touching it only shrinks on its other sides
+ * @param mask - The current selection
+ * @param amount - Pixels to shrink by
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The shrunk mask
+ */
+export function shrinkMask(mask: SelectionMask, amount: number, canvasWidth: number, canvasHeight: number): SelectionMask {
+  // Shrinking the selection grows what is not selected
+  const outside = invertMask(mask, canvasWidth, canvasHeight)
+  return invertMask(growMask(outside, amount, canvasWidth, canvasHeight), canvasWidth, canvasHeight)
+}
+
+/**
+ * Moves a selection, dropping the pixels that leave the canvas
+ * @param mask - The selection
+ * @param dx - Horizontal offset
+ * @param dy - Vertical offset
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @returns The moved mask
+ */
+export function translateMask(mask: SelectionMask, dx: number, dy: number, canvasWidth: number, canvasHeight: number): SelectionMask {
+  const moved: SelectionMask = new Set()
+  mask.forEach(key => {
+    const [x, y] = parseKey(key)
+    if (x + dx >= 0 && x + dx < canvasWidth && y + dy >= 0 && y + dy < canvasHeight) {
+      moved.add(`${x + dx},${y + dy}`)
+    }
+  })
+  return moved
+}
+
+/**
+ * Gets the rectangle around a selection
+ * @param mask - The selection
+ * @returns Inclusive bounds, or null if nothing is selected
+ */
+export function getMaskBounds(mask: SelectionMask): SelectionBounds | null {
+  if (mask.size === 0) return null
+
+  let startX = Infinity, startY = Infinity, endX = -Infinity, endY = -Infinity
+  mask.forEach(key => {
+    const [x, y] = parseKey(key)
+    startX = Math.min(startX, x)
+    startY = Math.min(startY, y)
+    endX = Math.max(endX, x)
+    endY = Math.max(endY, y)
+  })
+  return { startX, startY, endX, endY }
+}
+
+/**
+ * Takes the selected pixels out of a layer, positioned relative to a corner
+ * @param mask - The selection
+ * @param pixels - The layer's pixels
+ * @param bounds - Bounds of the selection; pixel positions are made relative to its top-left corner
+ * @returns The selected pixels, keyed by their relative position
+ */
+export function getMaskContent(mask: SelectionMask, pixels: Map<string, PixelData>, bounds: SelectionBounds): Map<string, PixelData> {
+  const content = new Map<string, PixelData>()
+  mask.forEach(key => {
+    const pixel = pixels.get(key)
+    if (!pixel) return
+    const x = pixel.x - bounds.startX
+    const y = pixel.y - bounds.startY
+    content.set(`${x},${y}`, { ...pixel, x, y })
+  })
+  return content
+}
+
+/**
+ * Undoes the part of a change that falls outside a selection
+ * @param before - A layer's pixels before the change
+ * @param after - The same layer after it
+ * @param mask - The selection
+ * @returns The layer after the change, with every pixel outside the selection as it was before
+ */
+export function clipToMask(before: Map<string, PixelData>, after: Map<string, PixelData>, mask: SelectionMask): Map<string, PixelData> {
+  const clipped = new Map(after)
+  after.forEach((pixel, key) => {
+    if (mask.has(key) || before.get(key) === pixel) return
+    const previous = before.get(key)
+    if (previous) {
+      clipped.set(key, previous)
+    } else {
+      clipped.delete(key)
+    }
+  })
+  before.forEach((pixel, key) => {
+    if (!mask.has(key) && !after.has(key)) clipped.set(key, pixel)
+  })
+  return clipped
+}
+
+/**
+ * Finds the edges between selected and unselected pixels, for drawing the selection outline
+ * @param mask - The selection
+ * @returns Unit-length segments in pixel coordinates
+ */
+export function getMaskOutline(mask: SelectionMask): Array<{ x1: number; y1: number; x2: number; y2: number }> {
+  const segments: Array<{ x1: number; y1: number; x2: number; y2: number }> = []
+  mask.forEach(key => {
+    const [x, y] = parseKey(key)
+    if (!mask.has(`${x},${y - 1}`)) segments.push({ x1: x, y1: y, x2: x + 1, y2: y })
+    if (!mask.has(`${x + 1},${y}`)) segments.push({ x1: x + 1, y1: y, x2: x + 1, y2: y + 1 })
+    if (!mask.has(`${x},${y + 1}`)) segments.push({ x1: x, y1: y + 1, x2: x + 1, y2: y + 1 })
+    if (!mask.has(`${x - 1},${y}`)) segments.push({ x1: x, y1: y, x2: x, y2: y + 1 })
+  })
+  return segments
+}
@@ -0,0 +1,296 @@
+import { Color, PixelData, PixelTransform, SelectionBounds, SelectionMask } from '../types'
+
+// Three Scale2x passes enlarge 8x before a RotSprite rotation samples back down; large
+// regions get fewer passes so the enlarged grid stays within ROTSPRITE_MAX_CELLS
+const ROTSPRITE_PASSES = 3
+const ROTSPRITE_MAX_CELLS = 4 * 1024 * 1024
+// Angles this close to a quarter turn are rotated exactly
+const ANGLE_EPSILON = 1e-6
+
+// Stands in for a selected empty pixel, so the selection follows the transform where there are no pixels
+const SELECTED_EMPTY_CELL: PixelData = { x: 0, y: 0, color: 'transparent', layerId: 0 }
+
+// A rectangle of pixels, row by row; null cells are transparent
+interface PixelGrid {
+  width: number
+  height: number
+  cells: Array<PixelData | null>
+}
+
+// One changed pixel of a transformed layer
+export interface TransformChange {
+  x: number
+  y: number
+  previousColor: Color
+  newColor: Color
+}
+
+// A layer buffer after a transform, and where the transformed pixels ended up
+export interface TransformResult {
+  pixels: Map<string, PixelData>
+  bounds: SelectionBounds | null // Clipped to the canvas; null when nothing is left on it
+  mask: SelectionMask // The transformed pixels' new positions on the canvas, empty ones included
+}
+
+const sameColor = (a: PixelData | null, b: PixelData | null): boolean =>
+  (a ? a.color.toLowerCase() : null) === (b ? b.color.toLowerCase() : null)
+
+const readGrid = (pixels: Map<string, PixelData>, bounds: SelectionBounds, mask?: SelectionMask): PixelGrid => {
+  const width = bounds.endX - bounds.startX + 1
+  const height = bounds.endY - bounds.startY + 1
+  const cells: Array<PixelData | null> = new Array(width * height).fill(null)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const key = `${bounds.startX + x},${bounds.startY + y}`
+      if (!mask) {
+        cells[y * width + x] = pixels.get(key) || null
+      } else if (mask.has(key)) {
+        cells[y * width + x] = pixels.get(key) || SELECTED_EMPTY_CELL
+      }
+    }
+  }
+  return { width, height, cells }
+}
+
+const flipGrid = (grid: PixelGrid, horizontal: boolean, vertical: boolean): PixelGrid => {
+  if (!horizontal && !vertical) return grid
+
+  const cells = grid.cells.map((_, index) => {
+    const x = index % grid.width
+    const y = Math.floor(index / grid.width)
+    const sourceX = horizontal ? grid.width - 1 - x : x
+    const sourceY = vertical ? grid.height - 1 - y : y
+    return grid.cells[sourceY * grid.width + sourceX]
+  })
+  return { ...grid, cells }
+}
+
+// Rotates clockwise by whole quarter turns, without any resampling
+const rotateGridQuarters = (grid: PixelGrid, quarters: number): PixelGrid => {
+  const turns = ((quarters % 4) + 4) % 4
+  if (turns === 0) return grid
+  if (turns === 2) return flipGrid(grid, true, true)
+
+  const width = grid.height
+  const height = grid.width
+  const cells: Array<PixelData | null> = new Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sourceX = turns === 1 ? y : grid.width - 1 - y
+      const sourceY = turns === 1 ? grid.height - 1 - x : x
+      cells[y * width + x] = grid.cells[sourceY * grid.width + sourceX]
+    }
+  }
+  return { width, height, cells }
+}
+
+const scaleGrid = (grid: PixelGrid, scaleX: number, scaleY: number): PixelGrid => {
+  const width = Math.max(1, Math.round(grid.width * scaleX))
+  const height = Math.max(1, Math.round(grid.height * scaleY))
+  if (width === grid.width && height === grid.height) return grid
+
+  // Nearest neighbour: every target pixel takes the source pixel under its center
+  const cells: Array<PixelData | null> = new Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(grid.height - 1, Math.floor((y + 0.5) * grid.height / height))
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(grid.width - 1, Math.floor((x + 0.5) * grid.width / width))
+      cells[y * width + x] = grid.cells[sourceY * grid.width + sourceX]
+    }
+  }
+  return { width, height, cells }
+}
+
+// Scale2x (EPX): doubles the grid, rounding diagonal edges instead of making them blocky.
+// Everything outside the grid counts as transparent
+const scale2x = (grid: PixelGrid): PixelGrid => {
+  const { width, height } = grid
+  const at = (x: number, y: number) => x < 0 || x >= width || y < 0 || y >= height ? null : grid.cells[y * width + x]
+  const cells: Array<PixelData | null> = new Array(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = at(x, y)
+      const up = at(x, y - 1)
+      const right = at(x + 1, y)
+      const left = at(x - 1, y)
+      const down = at(x, y + 1)
+      const row = y * 2 * width * 2
+
+      if (!sameColor(up, down) && !sameColor(left, right)) {
+        cells[row + x * 2] = sameColor(left, up) ? up : center
+        cells[row + x * 2 + 1] = sameColor(up, right) ? right : center
+        cells[row + width * 2 + x * 2] = sameColor(left, down) ? left : center
+        cells[row + width * 2 + x * 2 + 1] = sameColor(down, right) ? down : center
+      } else {
+        cells[row + x * 2] = center
+        cells[row + x * 2 + 1] = center
+        cells[row + width * 2 + x * 2] = center
+        cells[row + width * 2 + x * 2 + 1] = center
+      }
+    }
+  }
+  return { width: width * 2, height: height * 2, cells }
+}
+
+// RotSprite: enlarge with Scale2x, then rotate by sampling the enlarged grid at the
+// center of every target pixel, which keeps lines clean and adds no new colors
+const rotSprite = (grid: PixelGrid, angle: number): PixelGrid => {
+  // Only the pixels and a transparent border around them need enlarging
+  let minX = grid.width, minY = grid.height, maxX = -1, maxY = -1
+  grid.cells.forEach((pixel, index) => {
+    if (!pixel) return
+    const x = index % grid.width
+    const y = Math.floor(index / grid.width)
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+  })
+  const cropX = minX - 1
+  const cropY = minY - 1
+  const crop: PixelGrid = { width: maxX < 0 ? 0 : maxX - minX + 3, height: maxY < 0 ? 0 : maxY - minY + 3, cells: [] }
+  for (let y = 0; y < crop.height; y++) {
+    for (let x = 0; x < crop.width; x++) {
+      const sourceX = cropX + x
+      const sourceY = cropY + y
+      crop.cells.push(sourceX >= 0 && sourceX < grid.width && sourceY >= 0 && sourceY < grid.height
+        ? grid.cells[sourceY * grid.width + sourceX]
+        : null)
+    }
+  }
+
+  let enlarged = crop
+  for (let pass = 0; pass < ROTSPRITE_PASSES && enlarged.cells.length * 4 <= ROTSPRITE_MAX_CELLS; pass++) {
+    enlarged = scale2x(enlarged)
+  }
+  const factor = crop.width > 0 ? enlarged.width / crop.width : 1
+
+  const radians = angle * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  const width = Math.max(1, Math.ceil(Math.abs(grid.width * cos) + Math.abs(grid.height * sin) - ANGLE_EPSILON))
+  const height = Math.max(1, Math.ceil(Math.abs(grid.width * sin) + Math.abs(grid.height * cos) - ANGLE_EPSILON))
+
+  const cells: Array<PixelData | null> = new Array(width * height).fill(null)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Turn the target pixel's center back onto the source
+      const dx = x + 0.5 - width / 2
+      const dy = y + 0.5 - height / 2
+      const sourceX = Math.floor((dx * cos + dy * sin + grid.width / 2 - cropX) * factor)
+      const sourceY = Math.floor((-dx * sin + dy * cos + grid.height / 2 - cropY) * factor)
+      if (sourceX >= 0 && sourceX < enlarged.width && sourceY >= 0 && sourceY < enlarged.height) {
+        cells[y * width + x] = enlarged.cells[sourceY * enlarged.width + sourceX]
+      }
+    }
+  }
+  return { width, height, cells }
+}
+
+const rotateGrid = (grid: PixelGrid, angle: number): PixelGrid => {
+  const normalized = ((angle % 360) + 360) % 360
+  const quarters = Math.round(normalized / 90)
+  if (Math.abs(normalized - quarters * 90) < ANGLE_EPSILON) {
+    return rotateGridQuarters(grid, quarters)
+  }
+  return rotSprite(grid, normalized)
+}
+
+/**
+ * Checks whether a transform leaves pixels where they are
+ * @param transform - The transform to check
+ * @returns True if applying it changes nothing
+ */
+export function isIdentityTransform(transform: PixelTransform): boolean {
+  const quarters = Math.round(transform.angle / 90)
+  return !transform.flipHorizontal &&
+    !transform.flipVertical &&
+    transform.scaleX === 1 &&
+    transform.scaleY === 1 &&
+    Math.abs(transform.angle - quarters * 90) < ANGLE_EPSILON &&
+    quarters % 4 === 0
+}
+
+/**
+ * Flips, scales and rotates a region of a layer. Flips come first, then nearest-neighbour
+ * scaling, then a clockwise rotation about the region's center: quarter turns are exact and
+ * other angles use RotSprite. The region is cleared and the result is centered where it was;
+ * pixels that land off the canvas are dropped.
+ * @param pixels - The layer's pixels
+ * @param bounds - The region to transform (inclusive)
+ * @param transform - What to do with it
+ * @param canvasWidth - Canvas width in pixels
+ * @param canvasHeight - Canvas height in pixels
+ * @param mask - Only transform these pixels of the region, leaving the rest in place
+ * @returns The layer's pixels after the transform and where the region ended up
+ */
+export function transformRegion(
+  pixels: Map<string, PixelData>,
+  bounds: SelectionBounds,
+  transform: PixelTransform,
+  canvasWidth: number,
+  canvasHeight: number,
+  mask?: SelectionMask
+): TransformResult {
+  const source = readGrid(pixels, bounds, mask)
+  const grid = rotateGrid(
+    scaleGrid(flipGrid(source, transform.flipHorizontal, transform.flipVertical), transform.scaleX, transform.scaleY),
+    transform.angle
+  )
+
+  const result = new Map(pixels)
+  if (mask) {
+    mask.forEach(key => result.delete(key))
+  } else {
+    for (let y = bounds.startY; y <= bounds.endY; y++) {
+      for (let x = bounds.startX; x <= bounds.endX; x++) {
+        result.delete(`${x},${y}`)
+      }
+    }
+  }
+
+  const originX = bounds.startX + Math.floor((source.width - grid.width) / 2)
+  const originY = bounds.startY + Math.floor((source.height - grid.height) / 2)
+  const resultMask: SelectionMask = new Set()
+  grid.cells.forEach((pixel, index) => {
+    if (!pixel) return
+    const x = originX + index % grid.width
+    const y = originY + Math.floor(index / grid.width)
+    if (x < 0 || x >= canvasWidth || y < 0 || y >= canvasHeight) return
+    resultMask.add(`${x},${y}`)
+    if (pixel !== SELECTED_EMPTY_CELL) result.set(`${x},${y}`, { ...pixel, x, y })
+  })
+
+  const startX = Math.max(0, originX)
+  const startY = Math.max(0, originY)
+  const endX = Math.min(canvasWidth - 1, originX + grid.width - 1)
+  const endY = Math.min(canvasHeight - 1, originY + grid.height - 1)
+  return {
+    pixels: result,
+    bounds: startX <= endX && startY <= endY ? { startX, startY, endX, endY } : null,
+    mask: resultMask
+  }
+}
+
+/**
+ * Lists the pixels that differ between two versions of a layer buffer
+ * @param before - The buffer before a change
+ * @param after - The buffer after it
+ * @returns One change per differing pixel, ready to record as an operation
+ */
+export function diffLayerPixels(before: Map<string, PixelData>, after: Map<string, PixelData>): TransformChange[] {
+  const changes: TransformChange[] = []
+  before.forEach((pixel, key) => {
+    const newColor = after.get(key)?.color ?? 'transparent'
+    if (newColor !== pixel.color) {
+      changes.push({ x: pixel.x, y: pixel.y, previousColor: pixel.color, newColor })
+    }
+  })
+  after.forEach((pixel, key) => {
+    if (!before.has(key)) {
+      changes.push({ x: pixel.x, y: pixel.y, previousColor: 'transparent', newColor: pixel.color })
+    }
+  })
+  return changes
+}
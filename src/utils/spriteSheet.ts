@@ -0,0 +1,217 @@
+import { AtlasFormat, PixelData, SpriteSheetOptions } from '../types'
+
+export interface SpriteSheetFrame {
+  name: string
+  pixels: Map<string, PixelData>
+  duration: number
+}
+
+export interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+// Where one frame ends up on the sheet, in Aseprite/TexturePacker terms
+export interface SpriteSheetPlacement {
+  filename: string
+  frame: Rect // Region of the sheet holding the frame
+  rotated: false
+  trimmed: boolean
+  spriteSourceSize: Rect // Region of the original frame that was kept
+  sourceSize: { w: number; h: number }
+  duration: number
+}
+
+export interface SpriteSheetLayoutResult {
+  width: number
+  height: number
+  scale: number
+  placements: SpriteSheetPlacement[]
+}
+
+/**
+ * Gets the bounding box of all non-transparent pixels
+ * @param pixels - Pixel map keyed by "x,y"
+ * @returns The bounds, or null if there are no visible pixels
+ */
+export function getPixelBounds(pixels: Map<string, PixelData>): Rect | null {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+
+  pixels.forEach(pixel => {
+    if (pixel.color === 'transparent') return
+    minX = Math.min(minX, pixel.x)
+    minY = Math.min(minY, pixel.y)
+    maxX = Math.max(maxX, pixel.x)
+    maxY = Math.max(maxY, pixel.y)
+  })
+
+  if (minX === Infinity) return null
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 }
+}
+
+/**
+ * Works out where each frame goes on the sprite sheet
+ * @param frames - Frames to pack, in playback order
+ * @param frameWidth - Width of a frame in sprite pixels
+ * @param frameHeight - Height of a frame in sprite pixels
+ * @param options - Layout, padding and scale
+ * @returns Sheet size and one placement per frame (sheet coordinates include the scale)
+ */
+export function layoutSpriteSheet(
+  frames: SpriteSheetFrame[],
+  frameWidth: number,
+  frameHeight: number,
+  options: Pick<SpriteSheetOptions, 'layout' | 'columns' | 'padding' | 'scale'>
+): SpriteSheetLayoutResult {
+  const scale = Math.max(1, Math.floor(options.scale))
+  const padding = Math.max(0, Math.floor(options.padding)) * scale
+  const sourceSize = { w: frameWidth * scale, h: frameHeight * scale }
+
+  if (frames.length === 0) {
+    return { width: 0, height: 0, scale, placements: [] }
+  }
+
+  if (options.layout === 'grid') {
+    const columns = options.columns > 0
+      ? Math.min(options.columns, frames.length)
+      : Math.ceil(Math.sqrt(frames.length))
+    const rows = Math.ceil(frames.length / columns)
+
+    return {
+      width: columns * sourceSize.w + (columns - 1) * padding,
+      height: rows * sourceSize.h + (rows - 1) * padding,
+      scale,
+      placements: frames.map((frame, index) => ({
+        filename: frame.name,
+        frame: {
+          x: (index % columns) * (sourceSize.w + padding),
+          y: Math.floor(index / columns) * (sourceSize.h + padding),
+          w: sourceSize.w,
+          h: sourceSize.h
+        },
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, ...sourceSize },
+        sourceSize,
+        duration: frame.duration
+      }))
+    }
+  }
+
+  // Packed: trim each frame to its content, then fill rows left to right (shelf packing)
+  const trimmedRects = frames.map(frame => {
+    const bounds = getPixelBounds(frame.pixels) || { x: 0, y: 0, w: 1, h: 1 }
+    return { x: bounds.x * scale, y: bounds.y * scale, w: bounds.w * scale, h: bounds.h * scale }
+  })
+  const totalArea = trimmedRects.reduce((sum, rect) => sum + (rect.w + padding) * (rect.h + padding), 0)
+  const rowLimit = Math.max(
+    Math.max(...trimmedRects.map(rect => rect.w)),
+    Math.ceil(Math.sqrt(totalArea))
+  )
+
+  let cursorX = 0
+  let cursorY = 0
+  let rowHeight = 0
+  let width = 0
+  const placements = frames.map((frame, index) => {
+    const rect = trimmedRects[index]
+    if (cursorX > 0 && cursorX + rect.w > rowLimit) {
+      cursorX = 0
+      cursorY += rowHeight + padding
+      rowHeight = 0
+    }
+
+    const placement: SpriteSheetPlacement = {
+      filename: frame.name,
+      frame: { x: cursorX, y: cursorY, w: rect.w, h: rect.h },
+      rotated: false,
+      trimmed: rect.w !== sourceSize.w || rect.h !== sourceSize.h,
+      spriteSourceSize: rect,
+      sourceSize,
+      duration: frame.duration
+    }
+
+    cursorX += rect.w + padding
+    rowHeight = Math.max(rowHeight, rect.h)
+    width = Math.max(width, cursorX - padding)
+    return placement
+  })
+
+  return { width, height: cursorY + rowHeight, scale, placements }
+}
+
+/**
+ * Builds the JSON atlas describing a sprite sheet, in the layout Phaser and Aseprite use
+ * @param layout - Result of layoutSpriteSheet
+ * @param imageName - File name of the sheet image the atlas refers to
+ * @param format - 'hash' keys frames by name, 'array' lists them in order
+ * @param animationName - Name of the frame tag covering all frames
+ * @returns The atlas object, ready for JSON.stringify
+ */
+export function buildSpriteSheetAtlas(
+  layout: SpriteSheetLayoutResult,
+  imageName: string,
+  format: AtlasFormat,
+  animationName: string = 'animation'
+) {
+  const frames = format === 'hash'
+    ? Object.fromEntries(layout.placements.map(({ filename, ...placement }) => [filename, placement]))
+    : layout.placements
+
+  return {
+    frames,
+    meta: {
+      app: 'spritemaker',
+      version: '1.0',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: String(layout.scale),
+      frameTags: layout.placements.length > 0
+        ? [{ name: animationName, from: 0, to: layout.placements.length - 1, direction: 'forward' }]
+        : []
+    }
+  }
+}
+
+/**
+ * Draws the frames onto a new canvas at the positions given by the layout.
+ * Only pixel data is drawn, so nothing from the editor (grid, selection) ends up in the sheet.
+ * @param frames - The frames that were laid out, in the same order
+ * @param layout - Result of layoutSpriteSheet
+ * @returns Canvas holding the sprite sheet
+ */
+export function renderSpriteSheet(frames: SpriteSheetFrame[], layout: SpriteSheetLayoutResult): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, layout.width)
+  canvas.height = Math.max(1, layout.height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return canvas
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  frames.forEach((frame, index) => {
+    const placement = layout.placements[index]
+    if (!placement) return
+
+    // Shift from frame coordinates into the placement, dropping the trimmed margin
+    const offsetX = placement.frame.x - placement.spriteSourceSize.x
+    const offsetY = placement.frame.y - placement.spriteSourceSize.y
+    frame.pixels.forEach(pixel => {
+      if (pixel.color === 'transparent') return
+      ctx.fillStyle = pixel.color
+      ctx.fillRect(
+        offsetX + pixel.x * layout.scale,
+        offsetY + pixel.y * layout.scale,
+        layout.scale,
+        layout.scale
+      )
+    })
+  })
+
+  return canvas
+}
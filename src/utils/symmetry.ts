@@ -0,0 +1,92 @@
+import { PixelData, SymmetrySettings } from '../types'
+
+/**
+ * Symmetry settings with both axes through the middle of the canvas
+ * @param canvasWidth - Canvas width in sprite pixels
+ * @param canvasHeight - Canvas height in sprite pixels
+ * @param mode - Mirror mode to start with
+ * @returns Centered symmetry settings
+ */
+export function getCenteredSymmetry(
+  canvasWidth: number,
+  canvasHeight: number,
+  mode: SymmetrySettings['mode'] = 'none'
+): SymmetrySettings {
+  return { mode, axisX: canvasWidth / 2, axisY: canvasHeight / 2 }
+}
+
+/**
+ * Lists a pixel and its mirror images for the current symmetry mode
+ * @param x - Pixel x
+ * @param y - Pixel y
+ * @param symmetry - Symmetry settings (undefined or 'none' returns just the pixel)
+ * @returns Distinct pixel positions, starting with the original
+ */
+export function getMirrorPoints(x: number, y: number, symmetry?: SymmetrySettings): Array<{ x: number; y: number }> {
+  const points = [{ x, y }]
+  if (!symmetry || symmetry.mode === 'none') return points
+
+  // A pixel's mirror across an axis at edge position a is 2a - 1 - x
+  const mirrorX = Math.round(2 * symmetry.axisX - 1 - x)
+  const mirrorY = Math.round(2 * symmetry.axisY - 1 - y)
+
+  if (symmetry.mode === 'horizontal' || symmetry.mode === 'both') {
+    points.push({ x: mirrorX, y })
+  }
+  if (symmetry.mode === 'vertical' || symmetry.mode === 'both') {
+    points.push({ x, y: mirrorY })
+  }
+  if (symmetry.mode === 'both') {
+    points.push({ x: mirrorX, y: mirrorY })
+  }
+
+  return points.filter((point, index) =>
+    points.findIndex(other => other.x === point.x && other.y === point.y) === index
+  )
+}
+
+/**
+ * Repeats every change between two pixel buffers at its mirrored positions
+ * @param before - Layer pixels before the change
+ * @param after - Layer pixels after the change (not modified)
+ * @param symmetry - Symmetry settings
+ * @param canvasWidth - Canvas width, mirrored pixels outside it are dropped
+ * @param canvasHeight - Canvas height
+ * @returns New pixel buffer with the mirrored changes applied
+ */
+export function mirrorPixelChanges(
+  before: Map<string, PixelData>,
+  after: Map<string, PixelData>,
+  symmetry: SymmetrySettings,
+  canvasWidth: number,
+  canvasHeight: number
+): Map<string, PixelData> {
+  if (symmetry.mode === 'none') return after
+
+  const result = new Map(after)
+  const mirror = (x: number, y: number, pixel: PixelData | undefined) => {
+    getMirrorPoints(x, y, symmetry).slice(1).forEach(point => {
+      if (point.x < 0 || point.x >= canvasWidth || point.y < 0 || point.y >= canvasHeight) return
+
+      const key = `${point.x},${point.y}`
+      if (pixel) {
+        result.set(key, { ...pixel, x: point.x, y: point.y })
+      } else {
+        result.delete(key)
+      }
+    })
+  }
+
+  after.forEach((pixel, key) => {
+    if (before.get(key)?.color !== pixel.color) {
+      mirror(pixel.x, pixel.y, pixel)
+    }
+  })
+  before.forEach((pixel, key) => {
+    if (!after.has(key)) {
+      mirror(pixel.x, pixel.y, undefined)
+    }
+  })
+
+  return result
+}
@@ -0,0 +1,89 @@
+import { Viewport } from '../types'
+
+// Fit-to-view: the sprite fills the editor at its base cell size
+export const DEFAULT_VIEWPORT: Viewport = { zoom: 1, panX: 0, panY: 0 }
+
+// Each zoom step doubles or halves the cell size, keeping cells whole screen pixels
+export const ZOOM_STEP = 2
+
+// Largest on-screen size of a single sprite pixel
+export const MAX_CELL_SIZE = 128
+
+/**
+ * Zoom range for a canvas shown at the given fit-to-view cell size
+ * @param basePixelSize - Screen pixels per sprite pixel at zoom 1
+ * @returns Smallest zoom (100%, one screen pixel per sprite pixel) and largest zoom
+ */
+export function getZoomLimits(basePixelSize: number): { min: number; max: number } {
+  return {
+    min: Math.min(1, 1 / basePixelSize),
+    max: Math.max(1, MAX_CELL_SIZE / basePixelSize)
+  }
+}
+
+/**
+ * Changes the zoom while keeping one screen point (usually the cursor) over the same sprite position
+ * @param viewport - Current viewport
+ * @param zoom - Requested zoom, clamped to the allowed range
+ * @param anchorX - Screen x relative to the editor canvas
+ * @param anchorY - Screen y relative to the editor canvas
+ * @param basePixelSize - Screen pixels per sprite pixel at zoom 1
+ * @returns The zoomed viewport
+ */
+export function zoomViewportAt(
+  viewport: Viewport,
+  zoom: number,
+  anchorX: number,
+  anchorY: number,
+  basePixelSize: number
+): Viewport {
+  const { min, max } = getZoomLimits(basePixelSize)
+  const nextZoom = Math.min(max, Math.max(min, zoom))
+  const ratio = nextZoom / viewport.zoom
+
+  return {
+    zoom: nextZoom,
+    panX: Math.round(anchorX - (anchorX - viewport.panX) * ratio),
+    panY: Math.round(anchorY - (anchorY - viewport.panY) * ratio)
+  }
+}
+
+/**
+ * Viewport showing the sprite at 100% (one screen pixel per sprite pixel), centered
+ * @param basePixelSize - Screen pixels per sprite pixel at zoom 1
+ * @param canvasWidth - Sprite width in pixels
+ * @param canvasHeight - Sprite height in pixels
+ * @returns The 100% viewport
+ */
+export function getActualSizeViewport(basePixelSize: number, canvasWidth: number, canvasHeight: number): Viewport {
+  const viewWidth = canvasWidth * basePixelSize
+  const viewHeight = canvasHeight * basePixelSize
+
+  return {
+    zoom: 1 / basePixelSize,
+    panX: Math.round((viewWidth - canvasWidth) / 2),
+    panY: Math.round((viewHeight - canvasHeight) / 2)
+  }
+}
+
+/**
+ * Maps a screen position on the editor canvas to sprite pixel coordinates
+ * @param viewport - Current viewport
+ * @param basePixelSize - Screen pixels per sprite pixel at zoom 1
+ * @param screenX - Screen x relative to the editor canvas
+ * @param screenY - Screen y relative to the editor canvas
+ * @returns Sprite pixel coordinates (may fall outside the canvas)
+ */
+export function screenToPixel(
+  viewport: Viewport,
+  basePixelSize: number,
+  screenX: number,
+  screenY: number
+): { x: number; y: number } {
+  const cellSize = basePixelSize * viewport.zoom
+
+  return {
+    x: Math.floor((screenX - viewport.panX) / cellSize),
+    y: Math.floor((screenY - viewport.panY) / cellSize)
+  }
+}
@@ -0,0 +1,173 @@
+import React, { useEffect } from 'react'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { serializeProject } from '../../src/utils/projectFile'
+import { AutosaveSnapshot, AUTOSAVE_INTERVAL } from '../../src/utils/autosave'
+
+const mockLoadAutosave = jest.fn<Promise<AutosaveSnapshot | null>, []>()
+const mockClearAutosave = jest.fn(() => Promise.resolve())
+const mockSaveAutosave = jest.fn((_snapshot: AutosaveSnapshot) => Promise.resolve())
+
+jest.mock('../../src/utils/autosave', () => ({
+  ...jest.requireActual('../../src/utils/autosave'),
+  isAutosaveAvailable: () => true,
+  loadAutosave: () => mockLoadAutosave(),
+  saveAutosave: (snapshot: AutosaveSnapshot) => mockSaveAutosave(snapshot),
+  clearAutosave: () => mockClearAutosave()
+}))
+
+// The editor lists the layers it was given, so restored documents are visible, and hands
+// out an empty history to autosave
+jest.mock('../../src/components/SpriteEditor', () => {
+  return function MockSpriteEditor({ layers, onCanvasRef }: any) {
+    useEffect(() => {
+      onCanvasRef({ current: { getHistoryState: () => ({ undoStack: [], redoStack: [] }) } })
+    }, [onCanvasRef])
+    return <div data-testid="sprite-editor">{layers.map((layer: any) => layer.name).join(', ')}</div>
+  }
+})
+
+jest.mock('../../src/components/HistoryPanel', () => {
+  return function MockHistoryPanel() {
+    return <div data-testid="history-panel">History Panel</div>
+  }
+})
+
+jest.mock('../../src/components/ColorPicker', () => {
+  return function MockColorPicker() {
+    return <div data-testid="color-picker">Color Picker</div>
+  }
+})
+
+// Import App after mocking
+import App from '../../src/App'
+
+describe('App - Autosave', () => {
+  const snapshot: AutosaveSnapshot = {
+    project: serializeProject({
+      canvasWidth: 16,
+      canvasHeight: 16,
+      layers: [{ id: 7, name: 'Restored sketch', visible: true, active: true }],
+      frames: [{ id: 1, duration: 100 }],
+      framePixels: new Map(),
+      primaryColor: '#000000',
+      secondaryColor: '#ffffff',
+      gridSettings: {
+        visible: false,
+        color: '#333',
+        opacity: 0.5,
+        quarter: false,
+        eighths: false,
+        sixteenths: false,
+        thirtyseconds: false,
+        sixtyfourths: false
+      },
+      palette: { id: 'default', name: 'Default', colors: ['#000000'] }
+    }),
+    undoStack: [],
+    redoStack: [],
+    savedAt: Date.now()
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    localStorage.clear()
+  })
+
+  it('should offer to restore the last session and load it', async () => {
+    mockLoadAutosave.mockResolvedValue(snapshot)
+    render(<App />)
+
+    await waitFor(() => expect(screen.getByText('Restore Session')).toBeInTheDocument())
+    fireEvent.click(screen.getByText('Restore'))
+
+    expect(screen.queryByText('Restore Session')).not.toBeInTheDocument()
+    expect(screen.getByTestId('sprite-editor')).toHaveTextContent('Restored sketch')
+  })
+
+  it('should discard the last session when starting fresh', async () => {
+    mockLoadAutosave.mockResolvedValue(snapshot)
+    render(<App />)
+
+    await waitFor(() => expect(screen.getByText('Restore Session')).toBeInTheDocument())
+    fireEvent.click(screen.getByText('Start Fresh'))
+
+    expect(mockClearAutosave).toHaveBeenCalled()
+    expect(screen.getByTestId('sprite-editor')).toHaveTextContent('Layer 1')
+  })
+
+  it('should not prompt when there is no autosave', async () => {
+    mockLoadAutosave.mockResolvedValue(null)
+    render(<App />)
+
+    await waitFor(() => expect(mockLoadAutosave).toHaveBeenCalled())
+    expect(screen.queryByText('Restore Session')).not.toBeInTheDocument()
+  })
+
+  describe('saving', () => {
+    const commitOperation = () => act(() => {
+      document.dispatchEvent(new CustomEvent('historyChange'))
+    })
+
+    const setVisibility = (visibilityState: DocumentVisibilityState) => {
+      Object.defineProperty(document, 'visibilityState', { configurable: true, value: visibilityState })
+      act(() => {
+        document.dispatchEvent(new Event('visibilitychange'))
+      })
+    }
+
+    // Saving starts once the startup check found no session to offer
+    const renderApp = async () => {
+      render(<App />)
+      await act(async () => {
+        await mockLoadAutosave.mock.results[0].value
+      })
+    }
+
+    beforeEach(() => {
+      mockLoadAutosave.mockResolvedValue(null)
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+      Object.defineProperty(document, 'visibilityState', { configurable: true, value: 'visible' })
+    })
+
+    it('should save on the interval only after an operation was committed', async () => {
+      jest.useFakeTimers()
+      await renderApp()
+
+      act(() => { jest.advanceTimersByTime(AUTOSAVE_INTERVAL) })
+      expect(mockSaveAutosave).not.toHaveBeenCalled()
+
+      commitOperation()
+      commitOperation()
+      expect(mockSaveAutosave).not.toHaveBeenCalled()
+
+      act(() => { jest.advanceTimersByTime(AUTOSAVE_INTERVAL) })
+      expect(mockSaveAutosave).toHaveBeenCalledTimes(1)
+
+      act(() => { jest.advanceTimersByTime(AUTOSAVE_INTERVAL) })
+      expect(mockSaveAutosave).toHaveBeenCalledTimes(1)
+    })
+
+    it('should save pending changes when the page is hidden or closed', async () => {
+      await renderApp()
+
+      commitOperation()
+      setVisibility('hidden')
+      expect(mockSaveAutosave).toHaveBeenCalledTimes(1)
+      expect(JSON.parse(mockSaveAutosave.mock.calls[0][0].project).layers[0].name).toBe('Layer 1')
+
+      setVisibility('visible')
+      setVisibility('hidden')
+      expect(mockSaveAutosave).toHaveBeenCalledTimes(1)
+
+      commitOperation()
+      act(() => {
+        window.dispatchEvent(new Event('beforeunload'))
+      })
+      expect(mockSaveAutosave).toHaveBeenCalledTimes(2)
+    })
+  })
+})
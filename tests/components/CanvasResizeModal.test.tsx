@@ -0,0 +1,66 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import CanvasResizeModal from '../../src/components/CanvasResizeModal'
+
+describe('CanvasResizeModal', () => {
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onResize: jest.fn(),
+    canvasWidth: 32,
+    canvasHeight: 16,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<CanvasResizeModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Resize Canvas')).not.toBeInTheDocument()
+  })
+
+  it('should start from the current size with a centered anchor', () => {
+    const props = createProps()
+    render(<CanvasResizeModal {...props} />)
+
+    expect(screen.getByLabelText('Width')).toHaveValue(32)
+    expect(screen.getByLabelText('Height')).toHaveValue(16)
+    expect(screen.getByTitle('Anchor center')).toHaveAttribute('aria-pressed', 'true')
+
+    fireEvent.click(screen.getByText('Resize'))
+    expect(props.onResize).toHaveBeenCalledWith(32, 16, 'center')
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should resize with the chosen dimensions and anchor', () => {
+    const props = createProps()
+    render(<CanvasResizeModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Width'), { target: { value: '48' } })
+    fireEvent.change(screen.getByLabelText('Height'), { target: { value: '8' } })
+    fireEvent.click(screen.getByTitle('Anchor bottom-right'))
+
+    expect(screen.getByText('32x16 → 48x8')).toBeInTheDocument()
+    fireEvent.click(screen.getByText('Resize'))
+    expect(props.onResize).toHaveBeenCalledWith(48, 8, 'bottom-right')
+  })
+
+  it('should clamp dimensions to a usable range', () => {
+    const props = createProps()
+    render(<CanvasResizeModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Width'), { target: { value: '0' } })
+    fireEvent.change(screen.getByLabelText('Height'), { target: { value: '5000' } })
+    fireEvent.click(screen.getByText('Resize'))
+
+    expect(props.onResize).toHaveBeenCalledWith(1, 1024, 'center')
+  })
+
+  it('should close without resizing on cancel', () => {
+    const props = createProps()
+    render(<CanvasResizeModal {...props} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+    expect(props.onClose).toHaveBeenCalled()
+    expect(props.onResize).not.toHaveBeenCalled()
+  })
+})
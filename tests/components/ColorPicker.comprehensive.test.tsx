@@ -45,7 +45,9 @@ jest.mock('../../src/utils/colorUtils', () => ({
   })),
   safeFillRect: jest.fn(),
   getSafeColor: jest.fn((color: string) => color),
-  isValidHexColor: jest.fn((color: string) => /^#[0-9A-Fa-f]{6}$/.test(color))
+  isValidHexColor: jest.fn((color: string) => /^#[0-9A-Fa-f]{6}$/.test(color)),
+  getAlpha: jest.requireActual('../../src/utils/colorUtils').getAlpha,
+  withAlpha: jest.requireActual('../../src/utils/colorUtils').withAlpha
 }));
 
 describe('ColorPicker - Comprehensive Tests', () => {
@@ -25,7 +25,9 @@ jest.mock('../../src/utils/colorUtils', () => ({
   })),
   safeFillRect: jest.fn(),
   getSafeColor: jest.fn((color: string) => color),
-  isValidHexColor: jest.fn((color: string) => /^#[0-9A-Fa-f]{6}$/.test(color))
+  isValidHexColor: jest.fn((color: string) => /^#[0-9A-Fa-f]{6}$/.test(color)),
+  getAlpha: jest.requireActual('../../src/utils/colorUtils').getAlpha,
+  withAlpha: jest.requireActual('../../src/utils/colorUtils').withAlpha
 }));
 
 describe('ColorPicker', () => {
@@ -123,4 +125,22 @@ describe('ColorPicker', () => {
     expect(screen.getByText('I')).toBeInTheDocument()
     expect(screen.getByText('II')).toBeInTheDocument()
   })
+
+  it('should change only the alpha of the primary color with the alpha slider', () => {
+    render(<ColorPicker {...defaultProps} />)
+
+    const slider = screen.getByLabelText('Alpha')
+    expect(slider).toHaveValue('255')
+    expect(screen.getByText('A: 100%')).toBeInTheDocument()
+
+    fireEvent.change(slider, { target: { value: '128' } })
+    expect(defaultProps.onPrimaryColorChange).toHaveBeenCalledWith('#ff000080')
+  })
+
+  it('should show the alpha of a semi-transparent primary color', () => {
+    render(<ColorPicker {...defaultProps} primaryColor="#ff000040" />)
+
+    expect(screen.getByLabelText('Alpha')).toHaveValue('64')
+    expect(screen.getByText('A: 25%')).toBeInTheDocument()
+  })
 });
@@ -1,5 +1,5 @@
 import React from 'react'
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import '@testing-library/jest-dom'
 import CustomColorTemplatePicker from '../../src/components/CustomColorTemplatePicker'
 
@@ -140,4 +140,76 @@ describe('CustomColorTemplatePicker', () => {
     // Should have called setItem to save to localStorage
     expect(localStorageMock.setItem).toHaveBeenCalled()
   })
+
+  describe('Palette files', () => {
+    const gpl = 'GIMP Palette\nName: Sweetie 16\n#\n 26  28  44\n 93  39  93\n'
+
+    it('should import a palette file as a new active template', async () => {
+      const onTemplateSelect = jest.fn()
+      render(<CustomColorTemplatePicker {...defaultProps} onTemplateSelect={onTemplateSelect} />)
+
+      const file = new File([gpl], 'sweetie.gpl')
+      fireEvent.change(screen.getByTestId('palette-file-input'), { target: { files: [file] } })
+
+      await waitFor(() => expect(screen.getByText('Sweetie 16')).toBeInTheDocument())
+      expect(onTemplateSelect).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Sweetie 16',
+        colors: ['#1a1c2c', '#5d275d']
+      }))
+    })
+
+    it('should alert when a palette file cannot be read', async () => {
+      const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {})
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      render(<CustomColorTemplatePicker {...defaultProps} />)
+
+      fireEvent.change(screen.getByTestId('palette-file-input'), { target: { files: [new File(['nope'], 'broken.gpl')] } })
+
+      await waitFor(() => expect(alertSpy).toHaveBeenCalledWith(expect.stringContaining('Failed to import palette: Not a GIMP palette')))
+      alertSpy.mockRestore()
+      errorSpy.mockRestore()
+    })
+
+    it('should export a template in the chosen format', () => {
+      const createObjectURL = jest.fn(() => 'blob:palette')
+      const revokeObjectURL = jest.fn()
+      Object.defineProperty(URL, 'createObjectURL', { value: createObjectURL, writable: true })
+      Object.defineProperty(URL, 'revokeObjectURL', { value: revokeObjectURL, writable: true })
+      const clickSpy = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+      render(<CustomColorTemplatePicker {...defaultProps} />)
+      fireEvent.click(screen.getByTitle('Export Palette'))
+      fireEvent.click(screen.getByTitle('Export as .hex'))
+
+      expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+      const link = clickSpy.mock.instances[0] as unknown as HTMLAnchorElement
+      expect(link.download).toBe('Default_Pastel_.hex')
+      expect(screen.queryByTitle('Export as .hex')).not.toBeInTheDocument()
+      clickSpy.mockRestore()
+    })
+  })
+
+  describe('Palette entry editing', () => {
+    const savedTemplates = [{ id: 'game', name: 'Game Palette', colors: ['#000000', '#ff0000'] }]
+
+    it('should edit an entry of a custom template', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify(savedTemplates))
+      const onTemplateChange = jest.fn()
+      render(<CustomColorTemplatePicker {...defaultProps} onTemplateChange={onTemplateChange} />)
+
+      fireEvent.doubleClick(screen.getByTitle('#ff0000 - double-click to edit'))
+      fireEvent.change(screen.getByLabelText('Palette entry 1'), { target: { value: '#ffff00' } })
+
+      expect(onTemplateChange).toHaveBeenCalledWith({ id: 'game', name: 'Game Palette', colors: ['#000000', '#ffff00'] })
+      expect(screen.getByTitle('#ffff00 - double-click to edit')).toBeInTheDocument()
+
+      fireEvent.click(screen.getByText('Done'))
+      expect(screen.queryByLabelText('Palette entry 1')).not.toBeInTheDocument()
+    })
+
+    it('should not edit the built-in default template', () => {
+      render(<CustomColorTemplatePicker {...defaultProps} />)
+      expect(screen.queryByTitle(/double-click to edit/)).not.toBeInTheDocument()
+    })
+  })
 })
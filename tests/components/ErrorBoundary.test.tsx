@@ -0,0 +1,42 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import ErrorBoundary from '../../src/components/ErrorBoundary'
+
+describe('ErrorBoundary', () => {
+  let shouldThrow = true
+
+  const Crashing = () => {
+    if (shouldThrow) throw new Error('Boom')
+    return <div>Recovered content</div>
+  }
+
+  beforeEach(() => {
+    shouldThrow = true
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should show the error instead of the crashed children', () => {
+    render(<ErrorBoundary><Crashing /></ErrorBoundary>)
+
+    expect(screen.getByText('Something went wrong')).toBeInTheDocument()
+    expect(screen.getByText('Error: Boom')).toBeInTheDocument()
+    expect(screen.queryByText('Recover Last Autosave')).not.toBeInTheDocument()
+  })
+
+  it('should recover the last autosave and render the children again', async () => {
+    const onRecover = jest.fn(async () => {
+      shouldThrow = false
+    })
+    render(<ErrorBoundary onRecover={onRecover}><Crashing /></ErrorBoundary>)
+
+    fireEvent.click(screen.getByText('Recover Last Autosave'))
+
+    await waitFor(() => expect(screen.getByText('Recovered content')).toBeInTheDocument())
+    expect(onRecover).toHaveBeenCalledTimes(1)
+  })
+})
@@ -195,6 +195,28 @@ describe('HistoryPanel', () => {
       expect(screen.getByText('Eraser')).toBeInTheDocument()
     })
 
+    it('should name layer changes by what they did', () => {
+      const layers = [{ id: 1, name: 'Layer 1', visible: true, active: true }]
+      const deletion: StrokeOperation = {
+        ...createMockOperation('layer', 1, 0),
+        metadata: {
+          layerChange: {
+            action: 'delete',
+            layersBefore: layers,
+            layersAfter: [],
+            layerIds: [1],
+            pixelsBefore: new Map(),
+            pixelsAfter: new Map()
+          }
+        }
+      }
+      const historyState = { undoStack: [deletion], redoStack: [], maxHistorySize: 100 }
+
+      render(<HistoryPanel canvasRef={createMockRef(createMockCanvas(historyState))} />)
+
+      expect(screen.getByText('Delete Layer')).toBeInTheDocument()
+    })
+
     it('should display pixel counts correctly', () => {
       const historyState = {
         undoStack: [
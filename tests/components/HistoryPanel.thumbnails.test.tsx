@@ -10,7 +10,7 @@ describe('HistoryPanel - Thumbnail Functionality', () => {
     canUndo: jest.fn(() => historyState.undoStack?.length > 0),
     canRedo: jest.fn(() => historyState.redoStack?.length > 0),
     getHistoryState: jest.fn(() => historyState),
-    getCanvasSize: jest.fn(() => 32)
+    getCanvasDimensions: jest.fn(() => ({ width: 32, height: 32 }))
   })
 
   const createMockRef = (canvas: any) => ({
@@ -83,7 +83,7 @@ describe('HistoryPanel - Thumbnail Functionality', () => {
     it('should handle different canvas sizes for thumbnail generation', () => {
       const mockCanvas = {
         ...createMockCanvas({ undoStack: [createMockOperation('pencil', 5)], redoStack: [] }),
-        getCanvasSize: jest.fn(() => 64) // Different canvas size
+        getCanvasDimensions: jest.fn(() => ({ width: 64, height: 64 })) // Different canvas size
       }
       const mockRef = createMockRef(mockCanvas)
       
@@ -267,7 +267,7 @@ describe('HistoryPanel - Thumbnail Functionality', () => {
     it('should handle missing canvas size gracefully', () => {
       const mockCanvas = {
         ...createMockCanvas({ undoStack: [createMockOperation('pencil', 5)], redoStack: [] }),
-        getCanvasSize: jest.fn(() => undefined) // Missing canvas size
+        getCanvasDimensions: jest.fn(() => undefined) // Missing canvas size
       }
       const mockRef = createMockRef(mockCanvas)
       
@@ -10,7 +10,7 @@ describe('HistoryPanel - Undo/Redo Display Logic', () => {
     canUndo: jest.fn(() => historyState.undoStack?.length > 0),
     canRedo: jest.fn(() => historyState.redoStack?.length > 0),
     getHistoryState: jest.fn(() => historyState),
-    getCanvasSize: jest.fn(() => 32)
+    getCanvasDimensions: jest.fn(() => ({ width: 32, height: 32 }))
   })
 
   const createMockRef = (canvas: any) => ({
@@ -0,0 +1,62 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import ImageImportModal from '../../src/components/ImageImportModal'
+
+describe('ImageImportModal', () => {
+  const palette = ['#000000', '#ffffff']
+  const createFile = () => new File(['png'], 'hero.png', { type: 'image/png' })
+
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onImport: jest.fn(),
+    canvasWidth: 32,
+    canvasHeight: 32,
+    palette,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<ImageImportModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Import Image')).not.toBeInTheDocument()
+  })
+
+  it('should disable importing until a file is chosen', () => {
+    render(<ImageImportModal {...createProps()} />)
+    expect(screen.getByText('Import')).toBeDisabled()
+  })
+
+  it('should import a chosen file with the default options', () => {
+    const props = createProps()
+    render(<ImageImportModal {...props} />)
+
+    const file = createFile()
+    fireEvent.change(screen.getByTestId('image-file-input'), { target: { files: [file] } })
+    expect(screen.getByText('hero.png')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Import'))
+
+    expect(props.onImport).toHaveBeenCalledWith(file, { placement: 'fit', alphaThreshold: 128, palette: undefined })
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should accept a dropped file and pass the chosen options', () => {
+    const props = createProps()
+    render(<ImageImportModal {...props} />)
+
+    const file = createFile()
+    fireEvent.drop(screen.getByTestId('image-drop-zone'), { dataTransfer: { files: [file] } })
+    fireEvent.change(screen.getByLabelText('Placement'), { target: { value: 'center' } })
+    fireEvent.change(screen.getByLabelText('Alpha Threshold: 128'), { target: { value: '10' } })
+    fireEvent.click(screen.getByRole('checkbox'))
+    fireEvent.click(screen.getByText('Import'))
+
+    expect(props.onImport).toHaveBeenCalledWith(file, { placement: 'center', alphaThreshold: 10, palette })
+  })
+
+  it('should start with a file dropped onto the canvas', () => {
+    render(<ImageImportModal {...createProps({ initialFile: createFile() })} />)
+    expect(screen.getByText('hero.png')).toBeInTheDocument()
+  })
+})
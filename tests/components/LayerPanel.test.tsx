@@ -27,17 +27,22 @@ describe('LayerPanel', () => {
     { id: 3, name: 'Layer 3', visible: false, active: false }
   ]
 
-  const mockPixels = new Map<string, PixelData>([
-    ['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1 }],
-    ['1,0', { x: 1, y: 0, color: '#00ff00', layerId: 1 }],
-    ['0,1', { x: 0, y: 1, color: '#0000ff', layerId: 2 }],
-    ['1,1', { x: 1, y: 1, color: '#ffff00', layerId: 2 }]
+  const mockLayerPixels = new Map<number, Map<string, PixelData>>([
+    [1, new Map<string, PixelData>([
+      ['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1 }],
+      ['1,0', { x: 1, y: 0, color: '#00ff00', layerId: 1 }]
+    ])],
+    [2, new Map<string, PixelData>([
+      ['0,1', { x: 0, y: 1, color: '#0000ff', layerId: 2 }],
+      ['1,1', { x: 1, y: 1, color: '#ffff00', layerId: 2 }]
+    ])]
   ])
 
   const defaultProps = {
     layers: mockLayers,
-    pixels: mockPixels,
-    canvasSize: 16,
+    layerPixels: mockLayerPixels,
+    canvasWidth: 16,
+    canvasHeight: 16,
     onNewLayer: jest.fn(),
     onLayerToggle: jest.fn(),
     onLayerSelect: jest.fn(),
@@ -140,7 +145,7 @@ describe('LayerPanel', () => {
   it('should handle undefined pixels gracefully', () => {
     const propsWithUndefinedPixels = {
       ...defaultProps,
-      pixels: undefined
+      layerPixels: undefined
     }
     
     render(<LayerPanel {...propsWithUndefinedPixels} />)
@@ -157,7 +162,7 @@ describe('LayerPanel', () => {
   it('should handle empty pixels map', () => {
     const propsWithEmptyPixels = {
       ...defaultProps,
-      pixels: new Map()
+      layerPixels: new Map()
     }
     
     render(<LayerPanel {...propsWithEmptyPixels} />)
@@ -327,4 +332,205 @@ describe('LayerPanel', () => {
     // (actual reordering logic is in App.tsx)
     expect(layerItems).toHaveLength(3)
   })
+
+  describe('Opacity and blend modes', () => {
+    const compositingProps = {
+      ...defaultProps,
+      onLayerOpacityChange: jest.fn(),
+      onLayerBlendModeChange: jest.fn()
+    }
+
+    it('should edit the opacity and blend mode of the active layer', () => {
+      render(<LayerPanel {...compositingProps} />)
+
+      const opacity = screen.getByLabelText('Layer opacity')
+      expect(opacity).toHaveValue('100')
+      fireEvent.change(opacity, { target: { value: '40' } })
+      expect(opacity).toHaveValue('40')
+      expect(screen.getByText('40%')).toBeInTheDocument()
+      expect(compositingProps.onLayerOpacityChange).not.toHaveBeenCalled()
+      fireEvent.mouseUp(opacity)
+      expect(compositingProps.onLayerOpacityChange).toHaveBeenCalledTimes(1)
+      expect(compositingProps.onLayerOpacityChange).toHaveBeenCalledWith(1, 40)
+
+      const blendMode = screen.getByLabelText('Blend mode')
+      expect(blendMode).toHaveValue('normal')
+      fireEvent.change(blendMode, { target: { value: 'multiply' } })
+      expect(compositingProps.onLayerBlendModeChange).toHaveBeenCalledWith(1, 'multiply')
+    })
+
+    it('should show the settings of the active layer and note them in the list', () => {
+      const layers: Layer[] = [
+        { id: 1, name: 'Layer 1', visible: true, active: false },
+        { id: 2, name: 'Shading', visible: true, active: true, opacity: 60, blendMode: 'overlay' }
+      ]
+      render(<LayerPanel {...compositingProps} layers={layers} />)
+
+      expect(screen.getByLabelText('Layer opacity')).toHaveValue('60')
+      expect(screen.getByLabelText('Blend mode')).toHaveValue('overlay')
+      expect(screen.getByText('Overlay · 60%')).toBeInTheDocument()
+      expect(screen.getByText('Shading')).toBeInTheDocument()
+    })
+
+    it('should hide the controls without handlers or an active layer', () => {
+      const { rerender } = render(<LayerPanel {...defaultProps} />)
+      expect(screen.queryByLabelText('Layer opacity')).not.toBeInTheDocument()
+
+      rerender(<LayerPanel {...compositingProps} layers={[]} />)
+      expect(screen.queryByLabelText('Blend mode')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Layer structure', () => {
+    const structureProps = {
+      ...defaultProps,
+      onLayerMove: jest.fn(),
+      onLayerRename: jest.fn(),
+      onLayerLockToggle: jest.fn(),
+      onDuplicateLayer: jest.fn(),
+      onMergeLayerDown: jest.fn(),
+      onFlattenImage: jest.fn()
+    }
+
+    it('should rename a layer inline on double-click', () => {
+      render(<LayerPanel {...structureProps} />)
+
+      fireEvent.doubleClick(screen.getByText('Layer 2'))
+      const input = screen.getByLabelText('Layer name')
+      expect(input).toHaveValue('Layer 2')
+
+      fireEvent.change(input, { target: { value: 'Outline' } })
+      fireEvent.keyDown(input, { key: 'Enter' })
+      expect(structureProps.onLayerRename).toHaveBeenCalledWith(2, 'Outline')
+      expect(screen.queryByLabelText('Layer name')).not.toBeInTheDocument()
+    })
+
+    it('should keep the name when renaming is cancelled', () => {
+      render(<LayerPanel {...structureProps} />)
+
+      fireEvent.doubleClick(screen.getByText('Layer 2'))
+      const input = screen.getByLabelText('Layer name')
+      fireEvent.change(input, { target: { value: 'Outline' } })
+      fireEvent.keyDown(input, { key: 'Escape' })
+
+      expect(structureProps.onLayerRename).not.toHaveBeenCalledWith(2, 'Outline')
+      expect(screen.getByText('Layer 2')).toBeInTheDocument()
+    })
+
+    it('should move a layer dropped onto another one to its position', () => {
+      render(<LayerPanel {...structureProps} />)
+      const rows = document.querySelectorAll('.layer-item')
+
+      fireEvent.dragStart(rows[2])
+      fireEvent.dragOver(rows[0])
+      fireEvent.drop(rows[0])
+      expect(structureProps.onLayerMove).toHaveBeenCalledWith(3, 0)
+    })
+
+    it('should toggle the lock without selecting the layer', () => {
+      const layers: Layer[] = [mockLayers[0], { ...mockLayers[1], locked: true }]
+      render(<LayerPanel {...structureProps} layers={layers} />)
+
+      expect(screen.getByTitle('Unlock Layer')).toHaveAttribute('aria-pressed', 'true')
+      fireEvent.click(screen.getByTitle('Lock Layer'))
+      expect(structureProps.onLayerLockToggle).toHaveBeenCalledWith(1)
+      expect(structureProps.onLayerSelect).not.toHaveBeenCalled()
+    })
+
+    it('should duplicate, merge and flatten from the active layer', () => {
+      const layers: Layer[] = [
+        { id: 1, name: 'Layer 1', visible: true, active: false },
+        { id: 2, name: 'Layer 2', visible: true, active: true }
+      ]
+      render(<LayerPanel {...structureProps} layers={layers} />)
+
+      fireEvent.click(screen.getByTitle('Duplicate Layer'))
+      fireEvent.click(screen.getByTitle('Merge Down'))
+      fireEvent.click(screen.getByTitle('Flatten Image'))
+
+      expect(structureProps.onDuplicateLayer).toHaveBeenCalledWith(2)
+      expect(structureProps.onMergeLayerDown).toHaveBeenCalledWith(2)
+      expect(structureProps.onFlattenImage).toHaveBeenCalled()
+    })
+
+    it('should not merge the bottom layer or locked layers', () => {
+      const { rerender } = render(<LayerPanel {...structureProps} />)
+      expect(screen.getByTitle('Merge Down')).toBeDisabled()
+
+      const layers: Layer[] = [
+        { id: 1, name: 'Layer 1', visible: true, active: false, locked: true },
+        { id: 2, name: 'Layer 2', visible: true, active: true }
+      ]
+      rerender(<LayerPanel {...structureProps} layers={layers} />)
+      expect(screen.getByTitle('Merge Down')).toBeDisabled()
+      expect(screen.getByTitle('Flatten Image')).toBeDisabled()
+    })
+  })
+
+  describe('Layer groups', () => {
+    const groupLayers: Layer[] = [
+      { id: 1, name: 'Body', visible: true, active: true },
+      { id: 2, name: 'Plate', visible: true, active: false, groupId: 100 },
+      { id: 3, name: 'Helmet', visible: true, active: false, groupId: 100 }
+    ]
+
+    const groupProps = {
+      ...defaultProps,
+      layers: groupLayers,
+      layerGroups: [{ id: 100, name: 'Armor', visible: true, collapsed: false, opacity: 70 }],
+      onNewGroup: jest.fn(),
+      onUngroup: jest.fn(),
+      onLayerGroupChange: jest.fn(),
+      onLayerMove: jest.fn(),
+      onGroupToggle: jest.fn(),
+      onGroupCollapseToggle: jest.fn(),
+      onGroupOpacityChange: jest.fn()
+    }
+
+    it('should show groups with their layers and controls', () => {
+      render(<LayerPanel {...groupProps} />)
+
+      expect(screen.getByText('Armor')).toBeInTheDocument()
+      expect(screen.getByText('Helmet')).toBeInTheDocument()
+      expect(screen.getByLabelText('Armor layer opacity')).toHaveValue('70')
+
+      fireEvent.click(screen.getByLabelText('Show Armor'))
+      fireEvent.change(screen.getByLabelText('Armor layer opacity'), { target: { value: '30' } })
+      fireEvent.mouseUp(screen.getByLabelText('Armor layer opacity'))
+      fireEvent.click(screen.getByTitle('Ungroup'))
+      fireEvent.click(screen.getByTitle('New Group'))
+
+      expect(groupProps.onGroupToggle).toHaveBeenCalledWith(100)
+      expect(groupProps.onGroupOpacityChange).toHaveBeenCalledWith(100, 30)
+      expect(groupProps.onUngroup).toHaveBeenCalledWith(100)
+      expect(groupProps.onNewGroup).toHaveBeenCalled()
+    })
+
+    it('should hide the layers of a collapsed group', () => {
+      const collapsed = [{ ...groupProps.layerGroups[0], collapsed: true }]
+      render(<LayerPanel {...groupProps} layerGroups={collapsed} />)
+
+      expect(screen.queryByText('Helmet')).not.toBeInTheDocument()
+      expect(screen.getByText('Body')).toBeInTheDocument()
+      fireEvent.click(screen.getByTitle('Expand Group'))
+      expect(groupProps.onGroupCollapseToggle).toHaveBeenCalledWith(100)
+    })
+
+    it('should drag layers into and out of groups', () => {
+      render(<LayerPanel {...groupProps} />)
+      const rows = document.querySelectorAll('.layer-item')
+
+      fireEvent.dragStart(rows[0])
+      fireEvent.drop(document.querySelector('.layer-group')!)
+      expect(groupProps.onLayerGroupChange).toHaveBeenCalledWith(1, 100)
+
+      fireEvent.dragStart(rows[2])
+      fireEvent.drop(rows[0])
+      expect(groupProps.onLayerGroupChange).toHaveBeenCalledWith(3, undefined, 0)
+
+      fireEvent.dragStart(rows[2])
+      fireEvent.drop(rows[1])
+      expect(groupProps.onLayerMove).toHaveBeenCalledWith(3, 1)
+    })
+  })
 })
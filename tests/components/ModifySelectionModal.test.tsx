@@ -0,0 +1,47 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import ModifySelectionModal from '../../src/components/ModifySelectionModal'
+
+describe('ModifySelectionModal', () => {
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onApply: jest.fn(),
+    hasSelection: true,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<ModifySelectionModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Grow / Shrink Selection')).not.toBeInTheDocument()
+  })
+
+  it('should grow the selection by one pixel by default', () => {
+    const props = createProps()
+    render(<ModifySelectionModal {...props} />)
+
+    fireEvent.click(screen.getByText('Apply'))
+
+    expect(props.onApply).toHaveBeenCalledWith({ type: 'grow', amount: 1 })
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should shrink by the chosen number of pixels', () => {
+    const props = createProps()
+    render(<ModifySelectionModal {...props} />)
+
+    fireEvent.click(screen.getByLabelText('Shrink'))
+    fireEvent.change(screen.getByLabelText('Pixels'), { target: { value: '3' } })
+    fireEvent.click(screen.getByText('Apply'))
+
+    expect(props.onApply).toHaveBeenCalledWith({ type: 'shrink', amount: 3 })
+  })
+
+  it('should not apply without a selection', () => {
+    render(<ModifySelectionModal {...createProps({ hasSelection: false })} />)
+
+    expect(screen.getByText('Select something first.')).toBeInTheDocument()
+    expect(screen.getByText('Apply')).toBeDisabled()
+  })
+})
@@ -0,0 +1,82 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import PaletteRemapModal from '../../src/components/PaletteRemapModal'
+import { CustomColorTemplate } from '../../src/types'
+
+describe('PaletteRemapModal', () => {
+  const templates: CustomColorTemplate[] = [
+    { id: 'warm', name: 'Warm', colors: ['#ff0000', '#ffff00', '#ff8800'] },
+    { id: 'cool', name: 'Cool', colors: ['#0000ff', '#00ffff'] }
+  ]
+
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onRemap: jest.fn(),
+    templates,
+    activeTemplateId: 'warm',
+    hasSelection: false,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<PaletteRemapModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Remap Palette')).not.toBeInTheDocument()
+  })
+
+  it('should remap the active palette to another one by index', () => {
+    const props = createProps()
+    render(<PaletteRemapModal {...props} />)
+
+    expect(screen.getByLabelText('From')).toHaveValue('warm')
+    expect(screen.getByLabelText('To')).toHaveValue('cool')
+
+    fireEvent.click(screen.getByText('Remap'))
+    expect(props.onRemap).toHaveBeenCalledWith([
+      ['#ff0000', '#0000ff'],
+      ['#ffff00', '#00ffff'],
+      ['#ff8800', '#00ffff']
+    ], 'all-layers')
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should let single entries be mapped or kept', () => {
+    const props = createProps()
+    render(<PaletteRemapModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Map #ff0000'), { target: { value: '#00ffff' } })
+    fireEvent.change(screen.getByLabelText('Map #ff8800'), { target: { value: '#ff8800' } })
+    fireEvent.click(screen.getByLabelText('Active layer'))
+    fireEvent.click(screen.getByText('Remap'))
+
+    expect(props.onRemap).toHaveBeenCalledWith([
+      ['#ff0000', '#00ffff'],
+      ['#ffff00', '#00ffff'],
+      ['#ff8800', '#ff8800']
+    ], 'layer')
+  })
+
+  it('should pair the entries again when the palettes change', () => {
+    const props = createProps()
+    render(<PaletteRemapModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: 'cool' } })
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: 'warm' } })
+    fireEvent.click(screen.getByText('Remap'))
+
+    expect(props.onRemap).toHaveBeenCalledWith([
+      ['#0000ff', '#ff0000'],
+      ['#00ffff', '#ffff00']
+    ], 'all-layers')
+  })
+
+  it('should close without remapping on cancel', () => {
+    const props = createProps()
+    render(<PaletteRemapModal {...props} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+    expect(props.onClose).toHaveBeenCalled()
+    expect(props.onRemap).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,79 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import PngExportModal from '../../src/components/PngExportModal'
+
+describe('PngExportModal', () => {
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onExport: jest.fn(),
+    canvasWidth: 32,
+    canvasHeight: 32,
+    hasSelection: false,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<PngExportModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Export PNG')).not.toBeInTheDocument()
+  })
+
+  it('should export the whole canvas at 1x with a transparent background by default', () => {
+    const props = createProps()
+    render(<PngExportModal {...props} />)
+
+    fireEvent.click(screen.getByText('Export'))
+
+    expect(props.onExport).toHaveBeenCalledWith({ scale: 1, background: null, bounds: 'canvas' })
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should export with a preset scale, solid background and trimmed bounds', () => {
+    const props = createProps()
+    render(<PngExportModal {...props} />)
+
+    fireEvent.click(screen.getByText('4x'))
+    fireEvent.change(screen.getByLabelText('Background color'), { target: { value: '#336699' } })
+    fireEvent.click(screen.getByLabelText('Trim to content'))
+    fireEvent.click(screen.getByText('Export'))
+
+    expect(props.onExport).toHaveBeenCalledWith({ scale: 4, background: '#336699', bounds: 'trim' })
+  })
+
+  it('should accept a custom scale and show the output size', () => {
+    const props = createProps()
+    render(<PngExportModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Custom scale'), { target: { value: '3' } })
+
+    expect(screen.getByText('Output Size: 96x96')).toBeInTheDocument()
+  })
+
+  it('should only allow selection bounds when there is a selection', () => {
+    const { rerender } = render(<PngExportModal {...createProps()} />)
+    expect(screen.getByLabelText('Selection only')).toBeDisabled()
+
+    const props = createProps({ hasSelection: true })
+    rerender(<PngExportModal {...props} />)
+    fireEvent.click(screen.getByLabelText('Selection only'))
+    fireEvent.click(screen.getByText('Export'))
+
+    expect(props.onExport).toHaveBeenCalledWith({ scale: 1, background: null, bounds: 'selection' })
+  })
+
+  it('should offer an indexed PNG only in indexed color mode', () => {
+    const { rerender } = render(<PngExportModal {...createProps()} />)
+    expect(screen.queryByLabelText('Indexed PNG (keep the palette order)')).not.toBeInTheDocument()
+
+    const props = createProps({ canExportIndexed: true })
+    rerender(<PngExportModal {...props} />)
+    expect(screen.getByLabelText('Indexed PNG (keep the palette order)')).toBeChecked()
+    fireEvent.click(screen.getByText('Export'))
+    expect(props.onExport).toHaveBeenCalledWith({ scale: 1, background: null, bounds: 'canvas', indexed: true })
+
+    fireEvent.click(screen.getByLabelText('Indexed PNG (keep the palette order)'))
+    fireEvent.click(screen.getByText('Export'))
+    expect(props.onExport).toHaveBeenLastCalledWith({ scale: 1, background: null, bounds: 'canvas', indexed: false })
+  })
+})
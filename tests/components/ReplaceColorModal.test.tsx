@@ -0,0 +1,67 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import ReplaceColorModal from '../../src/components/ReplaceColorModal'
+
+describe('ReplaceColorModal', () => {
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onReplace: jest.fn(),
+    initialFrom: '#000000',
+    initialTo: '#ffffff',
+    hasSelection: false,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<ReplaceColorModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Replace Color')).not.toBeInTheDocument()
+  })
+
+  it('should start from the given colors on the active layer', () => {
+    const props = createProps()
+    render(<ReplaceColorModal {...props} />)
+
+    expect(screen.getByLabelText('Find')).toHaveValue('#000000')
+    expect(screen.getByLabelText('Replace with')).toHaveValue('#ffffff')
+    expect(screen.getByLabelText('Active layer')).toBeChecked()
+
+    fireEvent.click(screen.getByText('Replace'))
+    expect(props.onReplace).toHaveBeenCalledWith('#000000', '#ffffff', 'layer')
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should replace the chosen colors on all layers', () => {
+    const props = createProps()
+    render(<ReplaceColorModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Find'), { target: { value: '#ff0000' } })
+    fireEvent.change(screen.getByLabelText('Replace with'), { target: { value: '#00ff00' } })
+    fireEvent.click(screen.getByLabelText('All layers'))
+    fireEvent.click(screen.getByText('Replace'))
+
+    expect(props.onReplace).toHaveBeenCalledWith('#ff0000', '#00ff00', 'all-layers')
+  })
+
+  it('should only offer the selection scope when there is a selection', () => {
+    const { rerender } = render(<ReplaceColorModal {...createProps()} />)
+    expect(screen.getByLabelText('Selection only')).toBeDisabled()
+
+    const props = createProps({ hasSelection: true })
+    rerender(<ReplaceColorModal {...props} />)
+    fireEvent.click(screen.getByLabelText('Selection only'))
+    fireEvent.click(screen.getByText('Replace'))
+
+    expect(props.onReplace).toHaveBeenCalledWith('#000000', '#ffffff', 'selection')
+  })
+
+  it('should close without replacing on cancel', () => {
+    const props = createProps()
+    render(<ReplaceColorModal {...props} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+    expect(props.onClose).toHaveBeenCalled()
+    expect(props.onReplace).not.toHaveBeenCalled()
+  })
+})
@@ -8,7 +8,8 @@ describe('SaveTemplateModal', () => {
     isOpen: true,
     onClose: jest.fn(),
     onSave: jest.fn(),
-    canvasSize: 32
+    canvasWidth: 32,
+    canvasHeight: 32
   }
 
   beforeEach(() => {
@@ -33,7 +34,7 @@ describe('SaveTemplateModal', () => {
   })
 
   it('shows current canvas size', () => {
-    render(<SaveTemplateModal {...defaultProps} canvasSize={64} />)
+    render(<SaveTemplateModal {...defaultProps} canvasWidth={64} canvasHeight={64} />)
     
     // Check that the canvas size information is displayed
     expect(screen.getByText(/Canvas Size:/)).toBeInTheDocument()
@@ -44,7 +45,7 @@ describe('SaveTemplateModal', () => {
   })
 
   it('shows template save location', () => {
-    render(<SaveTemplateModal {...defaultProps} canvasSize={128} />)
+    render(<SaveTemplateModal {...defaultProps} canvasWidth={128} canvasHeight={128} />)
     
     expect(screen.getByText('Template will be saved to:')).toBeInTheDocument()
     // The path is split, so we check the container has the right content
@@ -5,7 +5,8 @@ import SpriteEditor from '../../src/components/SpriteEditor'
 
 describe('SpriteEditor - Action-Based Drawing Operations', () => {
   const defaultProps = {
-    canvasSize: 32,
+    canvasWidth: 32,
+    canvasHeight: 32,
     pixelSize: 16,
     primaryColor: '#000000',
     secondaryColor: '#ffffff',
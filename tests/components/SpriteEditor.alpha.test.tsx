@@ -0,0 +1,87 @@
+import React from 'react'
+import { render, fireEvent, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { createProps as createEditorProps, twoLayers, latestFramePixels, latestCanvas, layerBuffer, loadPixels as loadFramePixels, pixelCenter, clickPixel } from './spriteEditorHarness'
+
+describe('SpriteEditor - Alpha', () => {
+  const createProps = (overrides = {}) => createEditorProps({
+    primaryColor: '#ff000080',
+    layers: twoLayers,
+    onPrimaryColorChange: jest.fn(),
+    ...overrides
+  })
+
+  const loadPixels = (canvas: HTMLCanvasElement) => loadFramePixels(canvas, new Map([
+    [1, layerBuffer(1, [1, 1, '#0000ff'])],
+    [2, layerBuffer(2, [1, 1, '#ff000080'], [2, 1, '#00ff00'], [3, 1, '#00ff00'])]
+  ]))
+
+  const colorAt = (props: ReturnType<typeof createProps>, key: string) =>
+    latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.get(key)?.color
+
+  it('should draw semi-transparent colors as they are', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+
+    const canvas = container.querySelector('canvas')!
+    clickPixel(canvas, 4, 4)
+
+    expect(colorAt(props, '4,4')).toBe('#ff000080')
+  })
+
+  it('should sample the blended color with the eyedropper', () => {
+    const props = createProps({ selectedTool: 'eyedropper' as const })
+    const { container } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    const canvas = container.querySelector('canvas')!
+    clickPixel(canvas, 1, 1)
+
+    expect(props.onPrimaryColorChange).toHaveBeenCalledWith('#80007f')
+  })
+
+  it('should keep the alpha of a sampled pixel with nothing underneath', () => {
+    const props = createProps({ selectedTool: 'eyedropper' as const, layers: [twoLayers[1]] })
+    const { container } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    const canvas = container.querySelector('canvas')!
+    clickPixel(canvas, 1, 1)
+
+    expect(props.onPrimaryColorChange).toHaveBeenCalledWith('#ff000080')
+  })
+
+  it('should fade pixels by the primary alpha with the eraser, once per stroke', () => {
+    const props = createProps({ selectedTool: 'eraser' as const, primaryColor: '#00000080' })
+    const { container } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    const canvas = container.querySelector('canvas')!
+    fireEvent.mouseDown(canvas, { clientX: pixelCenter(2), clientY: pixelCenter(1) })
+    fireEvent.mouseMove(canvas, { clientX: pixelCenter(3), clientY: pixelCenter(1) })
+    fireEvent.mouseMove(canvas, { clientX: pixelCenter(2), clientY: pixelCenter(1) })
+    fireEvent.mouseUp(canvas)
+
+    expect(colorAt(props, '2,1')).toBe('#00ff007f')
+    expect(colorAt(props, '3,1')).toBe('#00ff007f')
+
+    const operation = latestCanvas(props.onCanvasRef).getHistoryState!().undoStack[0]
+    expect(operation.tool).toBe('eraser')
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(colorAt(props, '2,1')).toBe('#00ff00')
+  })
+
+  it('should still delete pixels with an opaque primary color', () => {
+    const props = createProps({ selectedTool: 'eraser' as const, primaryColor: '#000000' })
+    const { container } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    const canvas = container.querySelector('canvas')!
+    clickPixel(canvas, 2, 1)
+
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.has('2,1')).toBe(false)
+  })
+})
@@ -5,7 +5,8 @@ import SpriteEditor from '../../src/components/SpriteEditor'
 
 describe('SpriteEditor - Canvas State History Tracking', () => {
   const defaultProps = {
-    canvasSize: 32,
+    canvasWidth: 32,
+    canvasHeight: 32,
     pixelSize: 16,
     primaryColor: '#000000',
     secondaryColor: '#ffffff',
@@ -235,7 +236,7 @@ describe('SpriteEditor - Canvas State History Tracking', () => {
     })
 
     it('should handle large canvas sizes efficiently', () => {
-      const largeCanvasProps = { ...defaultProps, canvasSize: 512 }
+      const largeCanvasProps = { ...defaultProps, canvasWidth: 512, canvasHeight: 512 }
       render(<SpriteEditor {...largeCanvasProps} />)
       
       const canvas = screen.getByTestId('sprite-canvas')
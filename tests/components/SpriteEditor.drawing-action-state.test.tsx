@@ -25,7 +25,7 @@ const mockCanvas = {
   })),
   addEventListener: jest.fn(),
   removeEventListener: jest.fn(),
-  getCanvasSize: jest.fn(() => 16)
+  getCanvasDimensions: jest.fn(() => ({ width: 16, height: 16 }))
 }
 
 // Mock the canvas ref
@@ -43,7 +43,8 @@ const defaultProps = {
   primaryColor: '#000000',
   secondaryColor: '#ffffff',
   brushSize: 1,
-  canvasSize: 16,
+  canvasWidth: 16,
+  canvasHeight: 16,
   layers: [
     { id: 1, name: 'Layer 1', visible: true, active: true }
   ],
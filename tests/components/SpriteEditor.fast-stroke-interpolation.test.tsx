@@ -37,7 +37,8 @@ const defaultProps = {
   primaryColor: '#000000' as Color,
   secondaryColor: '#ffffff' as Color,
   brushSize: 1,
-  canvasSize: 32,
+  canvasWidth: 32,
+  canvasHeight: 32,
   pixelSize: 16,
   gridSettings: {
     visible: false,
@@ -0,0 +1,171 @@
+import React from 'react'
+import { render, fireEvent, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { DEFAULT_FILL_SETTINGS } from '../../src/utils/fillRegion'
+import { FillSettings, Layer, PixelData, Tool } from '../../src/types'
+import { createProps as createEditorProps, latestCanvas, latestFramePixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Fill Options', () => {
+  // 8x8 canvas renders at 64px per pixel
+  const pixelCenter = (coord: number) => coord * 64 + 32
+
+  const layers: Layer[] = [
+    { id: 1, name: 'Layer 1', visible: true, active: true },
+    { id: 2, name: 'Layer 2', visible: true, active: false }
+  ]
+
+  const createProps = (fillSettings: Partial<FillSettings>, selectedTool: Tool = 'fill') => createEditorProps({
+    selectedTool,
+    primaryColor: '#0000ff',
+    canvasWidth: 8,
+    canvasHeight: 8,
+    layers,
+    onFillPatternChange: jest.fn(),
+    fillSettings: { ...DEFAULT_FILL_SETTINGS, ...fillSettings }
+  })
+
+  const pixel = (x: number, y: number, color: string, layerId: number): [string, PixelData] =>
+    [`${x},${y}`, { x, y, color, layerId }]
+
+  // Layer 1: a red pixel at 0,0, a slightly darker red at 1,0 and a red pixel at 1,1 that only
+  // touches 0,0 at a corner. Layer 2: a black wall down column 3
+  const setup = (fillSettings: Partial<FillSettings>, selectedTool: Tool = 'fill') => {
+    const props = createProps(fillSettings, selectedTool)
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = latestCanvas(props.onCanvasRef)
+    act(() => {
+      canvas.loadFramePixels!(new Map([
+        [1, new Map([
+          [1, new Map([pixel(0, 0, '#ff0000', 1), pixel(1, 0, '#f00000', 1), pixel(1, 1, '#ff0000', 1)])],
+          [2, new Map(Array.from({ length: 8 }, (_, y) => pixel(3, y, '#000000', 2)))]
+        ])]
+      ]))
+    })
+    return { props, canvas, element: container.querySelector('canvas')!, rerender }
+  }
+
+  const clickPixel = (element: HTMLCanvasElement, x: number, y: number) => {
+    fireEvent.mouseDown(element, { clientX: pixelCenter(x), clientY: pixelCenter(y) })
+    fireEvent.mouseUp(element)
+  }
+
+  const layerOne = (props: ReturnType<typeof createProps>) =>
+    latestFramePixels(props.onFramePixelsChange).get(1)?.get(1) ?? new Map<string, PixelData>()
+
+  it('should fill only the exact color by default', () => {
+    const { props, element } = setup({})
+    clickPixel(element, 0, 0)
+
+    expect(layerOne(props).get('0,0')?.color).toBe('#0000ff')
+    expect(layerOne(props).get('1,0')?.color).toBe('#f00000')
+    expect(layerOne(props).get('1,1')?.color).toBe('#ff0000')
+  })
+
+  it('should fill close colors within the tolerance', () => {
+    const { props, element } = setup({ tolerance: 10 })
+    clickPixel(element, 0, 0)
+
+    expect(layerOne(props).get('1,0')?.color).toBe('#0000ff')
+    // 1,1 connects through 1,0
+    expect(layerOne(props).get('1,1')?.color).toBe('#0000ff')
+  })
+
+  it('should fill across corners with 8-way connectivity', () => {
+    const { props, element } = setup({ connectivity: 8 })
+    clickPixel(element, 0, 0)
+
+    expect(layerOne(props).get('1,0')?.color).toBe('#f00000')
+    expect(layerOne(props).get('1,1')?.color).toBe('#0000ff')
+  })
+
+  it('should fill every matching pixel when not contiguous', () => {
+    const { props, element } = setup({ contiguous: false })
+    clickPixel(element, 5, 5)
+
+    // Every empty pixel on the layer, on both sides of the other layer's wall
+    expect(layerOne(props).size).toBe(64)
+    expect(layerOne(props).get('7,7')?.color).toBe('#0000ff')
+    expect(layerOne(props).get('0,0')?.color).toBe('#ff0000')
+  })
+
+  it('should stop at other layers when sampling all layers', () => {
+    const { props, element } = setup({ sampleAllLayers: true })
+    clickPixel(element, 5, 5)
+
+    expect(layerOne(props).get('4,0')?.color).toBe('#0000ff')
+    expect(layerOne(props).has('3,0')).toBe(false)
+    expect(layerOne(props).has('2,0')).toBe(false)
+  })
+
+  it('should select close colors with the magic wand and the tolerance', () => {
+    const { canvas, element } = setup({ tolerance: 10 }, 'magic-wand')
+    clickPixel(element, 0, 0)
+
+    expect(canvas.getSelectionBounds!()).toEqual({ startX: 0, startY: 0, endX: 1, endY: 1 })
+  })
+
+  it('should drag out a gradient between the primary and secondary colors', () => {
+    const { props, element } = setup({ mode: 'gradient' })
+    fireEvent.mouseDown(element, { clientX: pixelCenter(4), clientY: pixelCenter(0) })
+    fireEvent.mouseMove(element, { clientX: pixelCenter(6), clientY: pixelCenter(0) })
+    fireEvent.mouseUp(element)
+
+    // Nothing to snap to without a palette
+    expect(layerOne(props).get('4,3')?.color).toBe('#0000ff')
+    expect(layerOne(props).get('5,3')?.color).toBe('#8080ff')
+    expect(layerOne(props).get('7,3')?.color).toBe('#ffffff')
+    // The fill area is still only the clicked color
+    expect(layerOne(props).get('0,0')?.color).toBe('#ff0000')
+  })
+
+  it('should dither the fill with a click', () => {
+    const { props, element } = setup({ mode: 'dither', ditherSize: 2 })
+    clickPixel(element, 5, 5)
+
+    expect(layerOne(props).get('4,4')?.color).toBe('#ffffff')
+    expect(layerOne(props).get('5,4')?.color).toBe('#0000ff')
+    expect(layerOne(props).get('4,5')?.color).toBe('#0000ff')
+  })
+
+  it('should tile the copied pixels as a pattern', () => {
+    const { props, element, rerender } = setup({}, 'select')
+    fireEvent.mouseDown(element, { clientX: pixelCenter(0), clientY: pixelCenter(0) })
+    fireEvent.mouseMove(element, { clientX: pixelCenter(1), clientY: pixelCenter(0) })
+    fireEvent.mouseUp(element)
+    fireEvent.keyDown(document, { key: 'c', ctrlKey: true })
+    fireEvent.keyDown(document, { key: 'd', ctrlKey: true })
+
+    rerender(<SpriteEditor {...props} selectedTool="fill" fillSettings={{ ...DEFAULT_FILL_SETTINGS, mode: 'pattern' }} />)
+    clickPixel(element, 5, 5)
+
+    expect(layerOne(props).get('4,4')?.color).toBe('#ff0000')
+    expect(layerOne(props).get('5,4')?.color).toBe('#f00000')
+    expect(layerOne(props).get('6,7')?.color).toBe('#ff0000')
+  })
+
+  it('should tile the selected pixels when nothing was copied, across the whole region', () => {
+    const { props, element, rerender } = setup({}, 'select')
+    fireEvent.mouseDown(element, { clientX: pixelCenter(0), clientY: pixelCenter(0) })
+    fireEvent.mouseMove(element, { clientX: pixelCenter(1), clientY: pixelCenter(0) })
+    fireEvent.mouseUp(element)
+    expect(props.onFillPatternChange).toHaveBeenLastCalledWith(true)
+
+    rerender(<SpriteEditor {...props} selectedTool="fill" fillSettings={{ ...DEFAULT_FILL_SETTINGS, mode: 'pattern' }} />)
+    clickPixel(element, 5, 5)
+
+    // Outside the selection too: it is the pattern, not the limit of the fill
+    expect(layerOne(props).get('4,4')?.color).toBe('#ff0000')
+    expect(layerOne(props).get('5,4')?.color).toBe('#f00000')
+    expect(layerOne(props).get('6,7')?.color).toBe('#ff0000')
+  })
+
+  it('should not pattern fill with nothing copied or selected', () => {
+    const { props, element } = setup({ mode: 'pattern' })
+    const calls = props.onFramePixelsChange.mock.calls.length
+    clickPixel(element, 5, 5)
+
+    expect(props.onFillPatternChange).toHaveBeenLastCalledWith(false)
+    expect(props.onFramePixelsChange.mock.calls.length).toBe(calls)
+  })
+})
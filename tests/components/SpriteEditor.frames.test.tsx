@@ -0,0 +1,145 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { Frame, FramePixels, PixelData } from '../../src/types'
+import { createProps as createEditorProps, latestFramePixels, latestCanvas, clickPixel } from './spriteEditorHarness'
+
+describe('SpriteEditor - Animation Frames', () => {
+  const frames: Frame[] = [
+    { id: 1, duration: 100 },
+    { id: 2, duration: 100 }
+  ]
+
+  const createProps = (overrides = {}) => createEditorProps({
+    frames,
+    currentFrameId: 1,
+    onPixelsChange: jest.fn(),
+    onPrimaryColorChange: jest.fn(),
+    ...overrides
+  })
+
+  it('should keep pixels drawn on different frames separate', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+    rerender(<SpriteEditor {...props} currentFrameId={2} primaryColor="#0000ff" />)
+    clickPixel(canvas, 1, 1)
+
+    const framePixels = latestFramePixels(props.onFramePixelsChange)
+    expect(framePixels.get(1)?.get(1)?.get('0,0')?.color).toBe('#ff0000')
+    expect(framePixels.get(1)?.get(1)?.has('1,1')).toBe(false)
+    expect(framePixels.get(2)?.get(1)?.get('1,1')?.color).toBe('#0000ff')
+    expect(framePixels.get(2)?.get(1)?.has('0,0')).toBe(false)
+  })
+
+  it('should report only the current frame through onPixelsChange', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+    rerender(<SpriteEditor {...props} currentFrameId={2} />)
+
+    const calls = props.onPixelsChange.mock.calls
+    const layerPixels = calls[calls.length - 1][0]
+    expect(layerPixels.get(1)?.has('0,0')).toBeFalsy()
+  })
+
+  it('should undo an operation on the frame it was drawn on', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+    rerender(<SpriteEditor {...props} currentFrameId={2} />)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+
+    const framePixels = latestFramePixels(props.onFramePixelsChange)
+    expect(framePixels.get(1)?.get(1)?.has('0,0')).toBe(false)
+    expect(framePixels.get(2)?.get(1)?.has('0,0')).toBeFalsy()
+  })
+
+  it('should forget the history of a deleted frame', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+    rerender(<SpriteEditor {...props} currentFrameId={2} />)
+    clickPixel(canvas, 1, 1)
+    rerender(<SpriteEditor {...props} frames={[frames[1]]} currentFrameId={2} />)
+
+    expect(latestCanvas(props.onCanvasRef).getHistoryState!().undoStack.map(op => op.frameId)).toEqual([2])
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(latestFramePixels(props.onFramePixelsChange).get(2)?.get(1)?.has('1,1')).toBe(false)
+    expect(latestCanvas(props.onCanvasRef).canUndo!()).toBe(false)
+  })
+
+  it('should copy a frame\'s pixels into another frame', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 3, 4)
+    act(() => {
+      latestCanvas(props.onCanvasRef).copyFramePixels!(1, 2)
+    })
+
+    const framePixels = latestFramePixels(props.onFramePixelsChange)
+    expect(framePixels.get(2)?.get(1)?.get('3,4')?.color).toBe('#ff0000')
+    // The copy is independent of the source
+    expect(framePixels.get(2)?.get(1)).not.toBe(framePixels.get(1)?.get(1))
+  })
+
+  it('should load pixels for every frame at once', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+
+    const loaded: FramePixels = new Map([
+      [2, new Map([[1, new Map<string, PixelData>([['5,5', { x: 5, y: 5, color: '#00ff00', layerId: 1 }]])]])]
+    ])
+    act(() => {
+      latestCanvas(props.onCanvasRef).loadFramePixels!(loaded)
+    })
+
+    const framePixels = latestFramePixels(props.onFramePixelsChange)
+    expect(framePixels.get(2)?.get(1)?.get('5,5')?.color).toBe('#00ff00')
+    expect(framePixels.has(1)).toBe(false)
+  })
+
+  it('should drop the pixels of deleted frames', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} currentFrameId={2} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+    rerender(<SpriteEditor {...props} frames={[frames[0]]} currentFrameId={1} />)
+
+    expect(latestFramePixels(props.onFramePixelsChange).has(2)).toBe(false)
+  })
+
+  it('should render with onion skinning enabled', () => {
+    const props = createProps({
+      currentFrameId: 2,
+      onionSkin: {
+        enabled: true,
+        previousFrames: 1,
+        nextFrames: 1,
+        opacity: 0.5,
+        previousTint: '#ff0000',
+        nextTint: '#0000ff'
+      }
+    })
+    const { container } = render(<SpriteEditor {...props} />)
+
+    expect(container.querySelector('canvas')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,34 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { rebuildHistoryStates } from '../../src/utils/historyDiff'
+import { createProps as createEditorProps, twoLayers, latestCanvas, clickPixel } from './spriteEditorHarness'
+
+describe('SpriteEditor - History keyframes', () => {
+  const createProps = () => createEditorProps({ layers: twoLayers })
+
+  const drawAt = (element: HTMLCanvasElement, x: number) => clickPixel(element, x, 0)
+
+  it('should keep a keyframe on the first operation and only diffs after it', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+    const background = new Map([['5,5', { x: 5, y: 5, color: '#0000ff', layerId: 1 }]])
+    act(() => {
+      latestCanvas(props.onCanvasRef).loadFramePixels!(new Map([[1, new Map([[1, background]])]]))
+    })
+    const element = container.querySelector('canvas')!
+
+    drawAt(element, 0)
+    drawAt(element, 1)
+
+    const { undoStack } = latestCanvas(props.onCanvasRef).getHistoryState!()
+    expect(undoStack).toHaveLength(2)
+    expect(undoStack[0].keyframe!.pixels.get(1)).toBe(background)
+    expect(undoStack[0].keyframe!.pixels.get(2)!.get('0,0')?.color).toBe('#ff0000')
+    expect(undoStack[1].keyframe).toBeUndefined()
+
+    const state = rebuildHistoryStates(undoStack, [1]).get(1)!
+    expect(Array.from(state.pixels.get(2)!.keys()).sort()).toEqual(['0,0', '1,0'])
+  })
+})
@@ -0,0 +1,78 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { createProps as createEditorProps, twoLayers, latestFramePixels, latestCanvas, clickPixel } from './spriteEditorHarness'
+
+describe('SpriteEditor - Indexed Color Mode', () => {
+  const palette = ['#000000', '#ff0000', '#0000ff']
+
+  const createProps = (overrides = {}) => createEditorProps({
+    primaryColor: '#ee1010',
+    layers: twoLayers,
+    indexedPalette: palette,
+    ...overrides
+  })
+
+  it('should snap drawn colors to the nearest palette entry', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+
+    clickPixel(container.querySelector('canvas')!, 1, 1)
+
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.get('1,1')).toEqual({
+      x: 1, y: 1, color: '#ff0000', layerId: 2, paletteIndex: 1
+    })
+  })
+
+  it('should record the snapped color in history', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+
+    clickPixel(container.querySelector('canvas')!, 1, 1)
+
+    const operation = latestCanvas(props.onCanvasRef).getHistoryState!().undoStack[0]
+    expect(operation.pixels[0].newColor).toBe('#ff0000')
+  })
+
+  it('should recolor every layer and frame when a palette entry changes', () => {
+    const props = createProps()
+    const { rerender } = render(<SpriteEditor {...props} />)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).loadFramePixels!(new Map([
+        [1, new Map([
+          [1, new Map([['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1, paletteIndex: 1 }]])],
+          [2, new Map([['2,2', { x: 2, y: 2, color: '#ff0000', layerId: 2, paletteIndex: 1 }]])]
+        ])],
+        [2, new Map([
+          [2, new Map([['3,3', { x: 3, y: 3, color: '#0000ff', layerId: 2, paletteIndex: 2 }]])]
+        ])]
+      ]))
+    })
+    rerender(<SpriteEditor {...props} indexedPalette={['#000000', '#00ff00', '#0000ff']} />)
+
+    const framePixels = latestFramePixels(props.onFramePixelsChange)
+    expect(framePixels.get(1)?.get(1)?.get('0,0')?.color).toBe('#00ff00')
+    expect(framePixels.get(1)?.get(2)?.get('2,2')?.color).toBe('#00ff00')
+    expect(framePixels.get(2)?.get(2)?.get('3,3')?.color).toBe('#0000ff')
+  })
+
+  it('should bind existing pixels when switching to indexed mode and unbind them when leaving it', () => {
+    const props = createProps({ indexedPalette: undefined })
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+
+    clickPixel(container.querySelector('canvas')!, 4, 4)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.get('4,4')?.color).toBe('#ee1010')
+
+    rerender(<SpriteEditor {...props} indexedPalette={palette} />)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.get('4,4')).toEqual({
+      x: 4, y: 4, color: '#ff0000', layerId: 2, paletteIndex: 1
+    })
+
+    rerender(<SpriteEditor {...props} indexedPalette={undefined} />)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.get('4,4')).toEqual({
+      x: 4, y: 4, color: '#ff0000', layerId: 2
+    })
+  })
+})
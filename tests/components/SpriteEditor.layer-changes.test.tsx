@@ -0,0 +1,164 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { LayerGroup } from '../../src/types'
+import { deleteLayer, duplicateLayer, mergeLayerDown, moveLayer, setLayerLocked } from '../../src/utils/layerOperations'
+import { groupLayer } from '../../src/utils/layerGroups'
+import { createProps as createEditorProps, twoLayers as layers, latestFramePixels, latestCanvas, layerBuffer, loadPixels as loadFramePixels, clickPixel } from './spriteEditorHarness'
+
+describe('SpriteEditor - Layer changes', () => {
+  const createProps = (overrides = {}) => createEditorProps({ layers, onLayersChange: jest.fn(), ...overrides })
+
+  const loadPixels = (canvas: HTMLCanvasElement) => loadFramePixels(canvas, new Map([
+    [1, layerBuffer(1, [0, 0, '#ff0000'])],
+    [2, layerBuffer(2, [1, 1, '#0000ff'])]
+  ]))
+
+  it('should record a layer change and hand the new stack to the parent', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+
+    let changed = false
+    act(() => {
+      changed = latestCanvas(props.onCanvasRef).changeLayers!('reorder', current => moveLayer(current, 2, 0))
+    })
+
+    expect(changed).toBe(true)
+    expect(props.onLayersChange).toHaveBeenLastCalledWith([layers[1], layers[0]])
+    const history = latestCanvas(props.onCanvasRef).getHistoryState!()
+    expect(history.undoStack).toHaveLength(1)
+    expect(history.undoStack[0].tool).toBe('layer')
+    expect(history.undoStack[0].metadata?.layerChange?.action).toBe('reorder')
+  })
+
+  it('should not record changes that do nothing', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+
+    let changed = true
+    act(() => {
+      changed = latestCanvas(props.onCanvasRef).changeLayers!('lock', () => null)
+    })
+
+    expect(changed).toBe(false)
+    expect(props.onLayersChange).not.toHaveBeenCalled()
+    expect(latestCanvas(props.onCanvasRef).getHistoryState!().undoStack).toHaveLength(0)
+  })
+
+  it('should undo and redo a merge with its pixels', () => {
+    const props = createProps()
+    const { rerender } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).changeLayers!('merge-down', (current, pixels) => mergeLayerDown(current, pixels, 2))
+    })
+    const mergedLayers = props.onLayersChange.mock.calls[0][0]
+    rerender(<SpriteEditor {...props} layers={mergedLayers} />)
+
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.get(1)!.get('1,1')?.color).toBe('#0000ff')
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.has(2)).toBe(false)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(props.onLayersChange).toHaveBeenLastCalledWith(layers)
+    rerender(<SpriteEditor {...props} layers={layers} />)
+
+    const restored = latestFramePixels(props.onFramePixelsChange).get(1)!
+    expect(restored.get(1)!.has('1,1')).toBe(false)
+    expect(restored.get(2)!.get('1,1')?.color).toBe('#0000ff')
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).redo!()
+    })
+    expect(props.onLayersChange).toHaveBeenLastCalledWith(mergedLayers)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.get(1)!.get('1,1')?.color).toBe('#0000ff')
+  })
+
+  it('should remove a duplicated layer and its pixels on undo', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).changeLayers!('duplicate', (current, pixels) => duplicateLayer(current, pixels, 2, 3))
+    })
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.get(3)!.get('1,1')?.layerId).toBe(3)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.has(3)).toBe(false)
+    expect(props.onLayersChange).toHaveBeenLastCalledWith(layers)
+  })
+
+  it('should bring back a deleted layer and its pixels on undo', () => {
+    const props = createProps()
+    const { rerender } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).changeLayers!('delete', (current, pixels) => deleteLayer(current, pixels, 2))
+    })
+    const remaining = props.onLayersChange.mock.calls[0][0]
+    expect(remaining).toEqual([{ ...layers[0], active: true }])
+    rerender(<SpriteEditor {...props} layers={remaining} />)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.has(2)).toBe(false)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(props.onLayersChange).toHaveBeenLastCalledWith(layers)
+    rerender(<SpriteEditor {...props} layers={layers} />)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.get(2)!.get('1,1')?.color).toBe('#0000ff')
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).redo!()
+    })
+    expect(props.onLayersChange).toHaveBeenLastCalledWith(remaining)
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)!.has(2)).toBe(false)
+  })
+
+  it('should not draw on a locked layer', () => {
+    const lockedLayers = setLayerLocked(layers, 2, true)!.layers
+    const props = createProps({ layers: lockedLayers })
+    const { container } = render(<SpriteEditor {...props} />)
+    const element = container.querySelector('canvas')!
+
+    clickPixel(element, 3, 3)
+
+    expect(latestFramePixels(props.onFramePixelsChange).get(1)?.get(2)?.has('3,3')).toBeFalsy()
+    expect(latestCanvas(props.onCanvasRef).getHistoryState!().undoStack).toHaveLength(0)
+  })
+
+  it('should undo a group change together with the layers', () => {
+    const props = createEditorProps({ layers, onLayersChange: jest.fn(), layerGroups: [], onLayerGroupsChange: jest.fn() })
+    render(<SpriteEditor {...props} />)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).changeLayers!('group', (current, _pixels, groups) => groupLayer(current, groups, 2, 100, 'Group 1'))
+    })
+    expect(props.onLayerGroupsChange).toHaveBeenLastCalledWith([{ id: 100, name: 'Group 1', visible: true, collapsed: false }])
+    expect(props.onLayersChange.mock.calls[0][0][1].groupId).toBe(100)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(props.onLayerGroupsChange).toHaveBeenLastCalledWith([])
+    expect(props.onLayersChange).toHaveBeenLastCalledWith(layers)
+  })
+
+  it('should not draw on layers in a hidden group', () => {
+    const layerGroups: LayerGroup[] = [{ id: 100, name: 'Group 1', visible: false, collapsed: false }]
+    const props = createProps({ layers: [layers[0], { ...layers[1], groupId: 100 }], layerGroups })
+    const { container } = render(<SpriteEditor {...props} />)
+    const element = container.querySelector('canvas')!
+
+    clickPixel(element, 3, 3)
+
+    expect(latestCanvas(props.onCanvasRef).getHistoryState!().undoStack).toHaveLength(0)
+  })
+})
+
@@ -0,0 +1,116 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { Layer } from '../../src/types'
+import { createProps as createEditorProps, latestLayerPixels, clickPixel } from './spriteEditorHarness'
+
+describe('SpriteEditor - Layered Pixel Storage', () => {
+  const createLayers = (activeId: number, hiddenIds: number[] = []): Layer[] => [
+    { id: 1, name: 'Layer 1', visible: !hiddenIds.includes(1), active: activeId === 1 },
+    { id: 2, name: 'Layer 2', visible: !hiddenIds.includes(2), active: activeId === 2 }
+  ]
+
+  const createProps = (overrides = {}) => createEditorProps({
+    layers: createLayers(1),
+    onPixelsChange: jest.fn(),
+    onPrimaryColorChange: jest.fn(),
+    ...overrides
+  })
+
+  it('should keep pixels drawn on different layers separate', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+
+    const layer2Props = { ...props, primaryColor: '#0000ff', layers: createLayers(2) }
+    rerender(<SpriteEditor {...layer2Props} />)
+    clickPixel(canvas, 0, 0)
+
+    const layerPixels = latestLayerPixels(props.onPixelsChange)
+    expect(layerPixels.get(1)?.get('0,0')?.color).toBe('#ff0000')
+    expect(layerPixels.get(2)?.get('0,0')?.color).toBe('#0000ff')
+    expect(layerPixels.get(2)?.get('0,0')?.layerId).toBe(2)
+  })
+
+  it('should only flood fill the active layer', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+
+    const fillProps = { ...props, selectedTool: 'fill' as const, primaryColor: '#00ff00', layers: createLayers(2) }
+    rerender(<SpriteEditor {...fillProps} />)
+    clickPixel(canvas, 0, 0)
+
+    const layerPixels = latestLayerPixels(props.onPixelsChange)
+    // The red pixel on layer 1 does not block the fill on the empty layer 2
+    expect(layerPixels.get(2)?.size).toBe(16 * 16)
+    expect(layerPixels.get(1)?.size).toBe(1)
+    expect(layerPixels.get(1)?.get('0,0')?.color).toBe('#ff0000')
+  })
+
+  it('should sample the visible color with the eyedropper', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 3, 3)
+
+    // Layer 2 is empty, so the eyedropper sees layer 1 through it
+    const eyedropperProps = { ...props, selectedTool: 'eyedropper' as const, layers: createLayers(2) }
+    rerender(<SpriteEditor {...eyedropperProps} />)
+    clickPixel(canvas, 3, 3)
+
+    expect(props.onPrimaryColorChange).toHaveBeenCalledWith('#ff0000')
+  })
+
+  it('should keep hidden layer content when toggling visibility', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 1, 1)
+
+    rerender(<SpriteEditor {...props} layers={createLayers(2, [1])} />)
+    rerender(<SpriteEditor {...props} layers={createLayers(2)} />)
+
+    const layerPixels = latestLayerPixels(props.onPixelsChange)
+    expect(layerPixels.get(1)?.get('1,1')?.color).toBe('#ff0000')
+  })
+
+  it('should undo an operation on the layer it was recorded on', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+
+    // Switch layers before undoing
+    rerender(<SpriteEditor {...props} layers={createLayers(2)} />)
+
+    const canvasElement = props.onCanvasRef.mock.calls[props.onCanvasRef.mock.calls.length - 1][0].current
+    act(() => {
+      canvasElement.undo()
+    })
+
+    const layerPixels = latestLayerPixels(props.onPixelsChange)
+    expect(layerPixels.get(1)?.has('0,0')).toBe(false)
+  })
+
+  it('should drop the pixels of deleted layers', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    clickPixel(canvas, 0, 0)
+
+    rerender(<SpriteEditor {...props} layers={[{ id: 2, name: 'Layer 2', visible: true, active: true }]} />)
+
+    const layerPixels = latestLayerPixels(props.onPixelsChange)
+    expect(layerPixels.has(1)).toBe(false)
+  })
+})
@@ -10,7 +10,8 @@ describe('SpriteEditor - Move Selection Tool', () => {
     primaryColor: '#ff0000' as Color,
     secondaryColor: '#0000ff' as Color,
     brushSize: 1,
-    canvasSize: 16,
+    canvasWidth: 16,
+    canvasHeight: 16,
     layers: [
       { id: 1, name: 'Layer 1', visible: true, active: true }
     ],
@@ -486,7 +487,8 @@ describe('SpriteEditor - Move Selection Tool', () => {
   it('should handle move-selection with different canvas sizes', () => {
     const propsWithLargeCanvas = {
       ...defaultProps,
-      canvasSize: 32
+      canvasWidth: 32,
+      canvasHeight: 32
     }
     
     const { container } = render(<SpriteEditor {...propsWithLargeCanvas} />)
@@ -0,0 +1,114 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { createProps as createEditorProps, twoLayers, latestFramePixels, latestCanvas, layerBuffer, loadPixels as loadFramePixels, dragPixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Replace Color', () => {
+  const createProps = (overrides = {}) => createEditorProps({ layers: twoLayers, ...overrides })
+
+  // Two separate red regions on the active layer, one red pixel on the bottom layer
+  const loadPixels = (canvas: HTMLCanvasElement) => loadFramePixels(canvas, new Map([
+    [1, layerBuffer(1, [0, 0, '#ff0000'])],
+    [2, layerBuffer(2, [2, 2, '#ff0000'], [9, 9, '#ff0000'], [4, 4, '#00ff00'])]
+  ]))
+
+  const colorAt = (props: ReturnType<typeof createProps>, layerId: number, key: string) =>
+    latestFramePixels(props.onFramePixelsChange).get(1)?.get(layerId)?.get(key)?.color
+
+  it('should replace the color in disconnected regions of the active layer', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = latestCanvas(props.onCanvasRef)
+    loadPixels(canvas)
+
+    let count = 0
+    act(() => {
+      count = canvas.replaceColors!([['#ff0000', '#0000ff']], 'layer')
+    })
+
+    expect(count).toBe(2)
+    expect(colorAt(props, 2, '2,2')).toBe('#0000ff')
+    expect(colorAt(props, 2, '9,9')).toBe('#0000ff')
+    expect(colorAt(props, 2, '4,4')).toBe('#00ff00')
+    expect(colorAt(props, 1, '0,0')).toBe('#ff0000')
+  })
+
+  it('should replace the color on every layer', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = latestCanvas(props.onCanvasRef)
+    loadPixels(canvas)
+
+    act(() => {
+      canvas.replaceColors!([['#ff0000', '#0000ff']], 'all-layers')
+    })
+
+    expect(colorAt(props, 1, '0,0')).toBe('#0000ff')
+    expect(colorAt(props, 2, '2,2')).toBe('#0000ff')
+  })
+
+  it('should only replace pixels inside the selection', () => {
+    const props = createProps({ selectedTool: 'select' as const })
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = latestCanvas(props.onCanvasRef)
+    loadPixels(canvas)
+
+    const element = container.querySelector('canvas')!
+    dragPixels(element, [1, 1], [3, 3])
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).replaceColors!([['#ff0000', '#0000ff']], 'selection')
+    })
+
+    expect(colorAt(props, 2, '2,2')).toBe('#0000ff')
+    expect(colorAt(props, 2, '9,9')).toBe('#ff0000')
+  })
+
+  it('should do nothing for the selection scope without a selection', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = latestCanvas(props.onCanvasRef)
+    loadPixels(canvas)
+
+    let count = -1
+    act(() => {
+      count = canvas.replaceColors!([['#ff0000', '#0000ff']], 'selection')
+    })
+
+    expect(count).toBe(0)
+    expect(canvas.getHistoryState!().undoStack).toHaveLength(0)
+  })
+
+  it('should record one operation that a single undo reverts on every layer', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = latestCanvas(props.onCanvasRef)
+    loadPixels(canvas)
+
+    act(() => {
+      canvas.replaceColors!([['#ff0000', '#0000ff'], ['#00ff00', '#ffff00']], 'all-layers')
+    })
+
+    const history = latestCanvas(props.onCanvasRef).getHistoryState!()
+    expect(history.undoStack).toHaveLength(1)
+    expect(history.undoStack[0].tool).toBe('replace-color')
+    expect(history.undoStack[0].pixels).toHaveLength(4)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+
+    expect(colorAt(props, 1, '0,0')).toBe('#ff0000')
+    expect(colorAt(props, 2, '2,2')).toBe('#ff0000')
+    expect(colorAt(props, 2, '9,9')).toBe('#ff0000')
+    expect(colorAt(props, 2, '4,4')).toBe('#00ff00')
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).redo!()
+    })
+
+    expect(colorAt(props, 1, '0,0')).toBe('#0000ff')
+    expect(colorAt(props, 2, '4,4')).toBe('#ffff00')
+  })
+})
@@ -10,7 +10,8 @@ describe('SpriteEditor - Select Tool', () => {
     primaryColor: '#ff0000' as Color,
     secondaryColor: '#0000ff' as Color,
     brushSize: 1,
-    canvasSize: 16,
+    canvasWidth: 16,
+    canvasHeight: 16,
     layers: [
       { id: 1, name: 'Layer 1', visible: true, active: true }
     ],
@@ -83,7 +84,8 @@ describe('SpriteEditor - Select Tool', () => {
   it('should handle select tool with different canvas sizes', () => {
     const propsWithLargeCanvas = {
       ...defaultProps,
-      canvasSize: 32
+      canvasWidth: 32,
+      canvasHeight: 32
     }
     
     const { container } = render(<SpriteEditor {...propsWithLargeCanvas} />)
@@ -1430,7 +1432,7 @@ describe('SpriteEditor - Select Tool', () => {
     jest.clearAllMocks()
     
     // Create selection with maximum canvas coordinates
-    const maxCoord = (defaultProps.canvasSize - 1) * 32 // 32 is pixel size
+    const maxCoord = (defaultProps.canvasWidth - 1) * 32 // 32 is pixel size
     fireEvent.mouseDown(canvas!, { clientX: maxCoord, clientY: maxCoord })
     fireEvent.mouseMove(canvas!, { clientX: maxCoord, clientY: maxCoord })
     fireEvent.mouseUp(canvas!)
@@ -0,0 +1,94 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { Tool } from '../../src/types'
+import { createProps as createEditorProps, latestFramePixels, latestCanvas, clickPixel, dragPixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Painting Inside the Selection', () => {
+  const createProps = (overrides = {}) => createEditorProps({ selectedTool: 'select', ...overrides })
+
+  const colorAt = (props: ReturnType<typeof createProps>, key: string) =>
+    latestFramePixels(props.onFramePixelsChange).get(1)?.get(1)?.get(key)?.color
+
+  // Selects the square from 2,2 to 5,5, then switches to a painting tool
+  const setupWithSelection = (tool: Tool) => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const element = container.querySelector('canvas')!
+    dragPixels(element, [2, 2], [5, 5])
+    rerender(<SpriteEditor {...props} selectedTool={tool} />)
+    return { props, element }
+  }
+
+  it('should clip pencil strokes to the selection', () => {
+    const { props, element } = setupWithSelection('pencil')
+    dragPixels(element, [0, 3], [8, 3])
+
+    expect(colorAt(props, '0,3')).toBeUndefined()
+    expect(colorAt(props, '1,3')).toBeUndefined()
+    expect(colorAt(props, '2,3')).toBe('#ff0000')
+    expect(colorAt(props, '5,3')).toBe('#ff0000')
+    expect(colorAt(props, '6,3')).toBeUndefined()
+  })
+
+  it('should keep the selection when a stroke starts outside it', () => {
+    const { props, element } = setupWithSelection('pencil')
+    dragPixels(element, [10, 10], [10, 10])
+
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toEqual({ startX: 2, startY: 2, endX: 5, endY: 5 })
+    expect(colorAt(props, '10,10')).toBeUndefined()
+  })
+
+  it('should fill only inside the selection', () => {
+    const { props, element } = setupWithSelection('fill')
+    clickPixel(element, 3, 3)
+
+    const filled = Array.from(latestFramePixels(props.onFramePixelsChange).get(1)?.get(1)?.keys() || [])
+    expect(filled).toHaveLength(16)
+    expect(colorAt(props, '2,2')).toBe('#ff0000')
+    expect(colorAt(props, '1,1')).toBeUndefined()
+  })
+
+  it('should clip shapes and record only the painted part', () => {
+    const { props, element } = setupWithSelection('rectangle-filled')
+    dragPixels(element, [0, 0], [10, 10])
+
+    expect(colorAt(props, '3,3')).toBe('#ff0000')
+    expect(colorAt(props, '0,0')).toBeUndefined()
+    expect(colorAt(props, '7,7')).toBeUndefined()
+
+    const undoStack = latestCanvas(props.onCanvasRef).getHistoryState!().undoStack
+    const shape = undoStack.find(operation => operation.tool === 'rectangle-filled')
+    expect(shape?.pixels).toHaveLength(16)
+  })
+
+  it('should clip the eraser to the selection', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const element = container.querySelector('canvas')!
+    act(() => {
+      latestCanvas(props.onCanvasRef).loadFramePixels!(new Map([
+        [1, new Map([[1, new Map([
+          ['1,3', { x: 1, y: 3, color: '#00ff00', layerId: 1 }],
+          ['3,3', { x: 3, y: 3, color: '#00ff00', layerId: 1 }]
+        ])]])]
+      ]))
+    })
+    dragPixels(element, [2, 2], [5, 5])
+    rerender(<SpriteEditor {...props} selectedTool="eraser" />)
+    dragPixels(element, [0, 3], [8, 3])
+
+    expect(colorAt(props, '1,3')).toBe('#00ff00')
+    expect(colorAt(props, '3,3')).toBeUndefined()
+  })
+
+  it('should paint anywhere without a selection', () => {
+    const props = createProps({ selectedTool: 'pencil' as Tool })
+    const { container } = render(<SpriteEditor {...props} />)
+    dragPixels(container.querySelector('canvas')!, [0, 3], [8, 3])
+
+    expect(colorAt(props, '0,3')).toBe('#ff0000')
+    expect(colorAt(props, '8,3')).toBe('#ff0000')
+  })
+})
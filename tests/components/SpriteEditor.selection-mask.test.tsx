@@ -0,0 +1,153 @@
+import React from 'react'
+import { render, fireEvent, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { createProps as createEditorProps, latestFramePixels, latestCanvas, layerBuffer, loadPixels as loadFramePixels, dragPixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Selection Mask', () => {
+  const createProps = (overrides = {}) => createEditorProps({ selectedTool: 'select', onSelectionChange: jest.fn(), ...overrides })
+
+  // Red pixels on the diagonal at 1, 2, 5, 6 and 10
+  const loadPixels = (canvas: HTMLCanvasElement) =>
+    loadFramePixels(canvas, new Map([[1, layerBuffer(1, ...[1, 2, 5, 6, 10].map((i): [number, number, string] => [i, i, '#ff0000']))]]))
+
+  const colorAt = (props: ReturnType<typeof createProps>, key: string) =>
+    latestFramePixels(props.onFramePixelsChange).get(1)?.get(1)?.get(key)?.color
+
+  const selectRegion = (element: HTMLCanvasElement, from: number, to: number, modifiers = {}) =>
+    dragPixels(element, [from, from], [to, to], modifiers)
+
+  // Recolors the selected red pixels, to see which pixels are selected
+  const recolorSelection = (props: ReturnType<typeof createProps>) => {
+    act(() => {
+      latestCanvas(props.onCanvasRef).replaceColors!([['#ff0000', '#000000']], 'selection')
+    })
+    return [1, 2, 5, 6, 10].map(i => colorAt(props, `${i},${i}`))
+  }
+
+  const setup = (overrides = {}) => {
+    const props = createProps(overrides)
+    const utils = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+    return { props, element: utils.container.querySelector('canvas')!, ...utils }
+  }
+
+  it('should add to the selection with Shift', () => {
+    const { props, element } = setup()
+    selectRegion(element, 1, 2)
+    selectRegion(element, 5, 6, { shiftKey: true })
+
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toEqual({ startX: 1, startY: 1, endX: 6, endY: 6 })
+    expect(recolorSelection(props)).toEqual(['#000000', '#000000', '#000000', '#000000', '#ff0000'])
+  })
+
+  it('should subtract from the selection with Alt', () => {
+    const { props, element } = setup()
+    selectRegion(element, 1, 6)
+    selectRegion(element, 2, 5, { altKey: true })
+
+    expect(recolorSelection(props)).toEqual(['#000000', '#ff0000', '#ff0000', '#000000', '#ff0000'])
+  })
+
+  it('should intersect with the selection with Shift and Alt', () => {
+    const { props, element } = setup()
+    selectRegion(element, 1, 2)
+    selectRegion(element, 2, 6, { shiftKey: true, altKey: true })
+
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toEqual({ startX: 2, startY: 2, endX: 2, endY: 2 })
+    expect(recolorSelection(props)).toEqual(['#ff0000', '#000000', '#ff0000', '#ff0000', '#ff0000'])
+  })
+
+  it('should replace the selection without modifiers', () => {
+    const { props, element } = setup()
+    selectRegion(element, 1, 2)
+    selectRegion(element, 5, 6)
+
+    expect(recolorSelection(props)).toEqual(['#ff0000', '#ff0000', '#000000', '#000000', '#ff0000'])
+  })
+
+  it('should select all, deselect and invert', () => {
+    const { props, element } = setup()
+    const canvas = () => latestCanvas(props.onCanvasRef)
+
+    act(() => {
+      expect(canvas().changeSelection!({ type: 'all' })).toBe(true)
+    })
+    expect(canvas().getSelectionBounds!()).toEqual({ startX: 0, startY: 0, endX: 15, endY: 15 })
+
+    act(() => {
+      canvas().changeSelection!({ type: 'none' })
+    })
+    expect(canvas().getSelectionBounds!()).toBeNull()
+    expect(props.onSelectionChange).toHaveBeenLastCalledWith(false)
+
+    selectRegion(element, 0, 2)
+    act(() => {
+      canvas().changeSelection!({ type: 'invert' })
+    })
+    expect(recolorSelection(props)).toEqual(['#ff0000', '#ff0000', '#000000', '#000000', '#000000'])
+  })
+
+  it('should select every pixel of a color on the layer and grow or shrink the selection', () => {
+    const { props } = setup()
+    const canvas = () => latestCanvas(props.onCanvasRef)
+
+    act(() => {
+      canvas().changeSelection!({ type: 'color', color: '#ff0000' })
+    })
+    expect(canvas().getSelectionBounds!()).toEqual({ startX: 1, startY: 1, endX: 10, endY: 10 })
+
+    act(() => {
+      canvas().changeSelection!({ type: 'grow', amount: 1 })
+    })
+    expect(canvas().getSelectionBounds!()).toEqual({ startX: 0, startY: 0, endX: 11, endY: 11 })
+
+    act(() => {
+      canvas().changeSelection!({ type: 'shrink', amount: 1 })
+    })
+    // The canvas edge does not shrink the corner the grown selection reached
+    expect(canvas().getSelectionBounds!()).toEqual({ startX: 0, startY: 0, endX: 10, endY: 10 })
+    expect(recolorSelection(props)).toEqual(['#000000', '#000000', '#000000', '#000000', '#000000'])
+  })
+
+  it('should not grow or shrink a missing selection', () => {
+    const { props } = setup()
+
+    let changed = true
+    act(() => {
+      changed = latestCanvas(props.onCanvasRef).changeSelection!({ type: 'grow', amount: 2 })
+    })
+    expect(changed).toBe(false)
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toBeNull()
+  })
+
+  it('should select all and deselect from the keyboard', () => {
+    const { props } = setup()
+
+    fireEvent.keyDown(document, { key: 'a', ctrlKey: true })
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toEqual({ startX: 0, startY: 0, endX: 15, endY: 15 })
+
+    fireEvent.keyDown(document, { key: 'd', ctrlKey: true })
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toBeNull()
+  })
+
+  it('should move only the selected pixels', () => {
+    const { props, element, rerender } = setup()
+    // Select the pixels at 1,1 and 6,6 but not the ones between them
+    act(() => {
+      latestCanvas(props.onCanvasRef).changeSelection!({ type: 'color', color: '#ff0000' })
+    })
+    selectRegion(element, 2, 5, { altKey: true })
+    selectRegion(element, 10, 10, { altKey: true })
+
+    rerender(<SpriteEditor {...props} selectedTool="move-selection" />)
+    dragPixels(element, [1, 1], [2, 1])
+
+    expect(colorAt(props, '1,1')).toBeUndefined()
+    expect(colorAt(props, '2,1')).toBe('#ff0000')
+    expect(colorAt(props, '7,6')).toBe('#ff0000')
+    expect(colorAt(props, '2,2')).toBe('#ff0000')
+    expect(colorAt(props, '5,5')).toBe('#ff0000')
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toEqual({ startX: 2, startY: 1, endX: 7, endY: 6 })
+  })
+})
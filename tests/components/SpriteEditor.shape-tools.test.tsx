@@ -59,7 +59,8 @@ const defaultProps = {
   primaryColor: '#ff0000',
   secondaryColor: '#0000ff',
   brushSize: 1,
-  canvasSize: 16,
+  canvasWidth: 16,
+  canvasHeight: 16,
   layers: [
     { id: 1, name: 'Layer 1', visible: true, active: true }
   ],
@@ -136,8 +137,8 @@ jest.mock('../../src/components/SpriteEditor', () => {
       return (
         <div className="canvas-container">
           <canvas
-            width={props.canvasSize * 16}
-            height={props.canvasSize * 16}
+            width={props.canvasWidth * 16}
+            height={props.canvasHeight * 16}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
@@ -0,0 +1,103 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { SymmetrySettings } from '../../src/types'
+import { createProps as createEditorProps, latestFramePixels, latestCanvas, clickPixel, dragPixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Symmetry', () => {
+  const symmetry = (mode: SymmetrySettings['mode'], axisX = 8, axisY = 8): SymmetrySettings => ({ mode, axisX, axisY })
+
+  const createProps = (overrides = {}) => createEditorProps({ symmetry: symmetry('horizontal'), ...overrides })
+
+  const latestPixels = (onFramePixelsChange: jest.Mock) => latestFramePixels(onFramePixelsChange).get(1)?.get(1) || new Map()
+
+  const sortedKeys = (pixels: Map<string, unknown>) => Array.from(pixels.keys()).sort()
+
+  it('should mirror pencil strokes across the vertical axis', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    dragPixels(canvas, [0, 0], [2, 0])
+
+    expect(sortedKeys(latestPixels(props.onFramePixelsChange))).toEqual(['0,0', '1,0', '13,0', '14,0', '15,0', '2,0'])
+  })
+
+  it('should mirror into all four quadrants', () => {
+    const props = createProps({ symmetry: symmetry('both') })
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    dragPixels(canvas, [1, 2], [1, 2])
+
+    expect(sortedKeys(latestPixels(props.onFramePixelsChange))).toEqual(['1,13', '1,2', '14,13', '14,2'])
+  })
+
+  it('should mirror the eraser', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    dragPixels(canvas, [3, 3], [3, 3])
+    rerender(<SpriteEditor {...props} selectedTool="eraser" />)
+    dragPixels(canvas, [3, 3], [3, 3])
+
+    expect(latestPixels(props.onFramePixelsChange).size).toBe(0)
+  })
+
+  it('should mirror shapes', () => {
+    const props = createProps({ selectedTool: 'line', symmetry: symmetry('vertical') })
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    dragPixels(canvas, [0, 0], [2, 0])
+
+    expect(sortedKeys(latestPixels(props.onFramePixelsChange))).toEqual(['0,0', '0,15', '1,0', '1,15', '2,0', '2,15'])
+  })
+
+  it('should fill from the mirrored seed points', () => {
+    const props = createProps()
+    const { container, rerender } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    // The mirrored wall at columns 4 and 11 keeps each fill on its own side
+    dragPixels(canvas, [4, 0], [4, 15])
+    rerender(<SpriteEditor {...props} selectedTool="fill" primaryColor="#00ff00" />)
+    clickPixel(canvas, 0, 0)
+
+    const pixels = latestPixels(props.onFramePixelsChange)
+    expect(pixels.get('0,0')?.color).toBe('#00ff00')
+    expect(pixels.get('15,15')?.color).toBe('#00ff00')
+    expect(pixels.has('8,8')).toBe(false)
+  })
+
+  it('should record a mirrored stroke as a single undoable operation', () => {
+    const props = createProps({ symmetry: symmetry('both') })
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    dragPixels(canvas, [0, 0], [1, 0])
+
+    const editor = latestCanvas(props.onCanvasRef)
+    const history = editor.getHistoryState!()
+    expect(history.undoStack).toHaveLength(1)
+    expect(history.undoStack[0].pixels).toHaveLength(8)
+
+    act(() => {
+      editor.undo!()
+    })
+
+    expect(latestPixels(props.onFramePixelsChange).size).toBe(0)
+  })
+
+  it('should draw without mirroring when symmetry is off', () => {
+    const props = createProps({ symmetry: symmetry('none') })
+    const { container } = render(<SpriteEditor {...props} />)
+    const canvas = container.querySelector('canvas')!
+
+    dragPixels(canvas, [0, 0], [0, 0])
+
+    expect(sortedKeys(latestPixels(props.onFramePixelsChange))).toEqual(['0,0'])
+  })
+})
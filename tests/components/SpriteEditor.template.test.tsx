@@ -29,7 +29,8 @@ describe('SpriteEditor Template Integration', () => {
     primaryColor: '#FF0000' as Color,
     secondaryColor: '#00FF00' as Color,
     brushSize: 1,
-    canvasSize: 32,
+    canvasWidth: 32,
+    canvasHeight: 32,
     layers: [
       { id: 1, name: 'Layer 1', visible: true, active: true }
     ] as Layer[],
@@ -71,7 +72,7 @@ describe('SpriteEditor Template Integration', () => {
       // Check that template-related methods are exposed
       expect(typeof canvasRef.current.applyTemplate).toBe('function')
       expect(typeof canvasRef.current.getCurrentPixels).toBe('function')
-      expect(typeof canvasRef.current.getCanvasSize).toBe('function')
+      expect(typeof canvasRef.current.getCanvasDimensions).toBe('function')
     })
 
     it('should expose history methods via canvas ref', async () => {
@@ -110,20 +111,20 @@ describe('SpriteEditor Template Integration', () => {
     })
 
     it('should handle different canvas sizes', async () => {
-      const { container, rerender } = render(<SpriteEditor {...defaultProps} canvasSize={64} />)
+      const { container, rerender } = render(<SpriteEditor {...defaultProps} canvasWidth={64} canvasHeight={64} />)
       
       await waitFor(() => {
         expect(container.querySelector('canvas')).toBeTruthy()
       })
 
       const canvas = container.querySelector('canvas') as HTMLCanvasElement
-      // Canvas is scaled by Math.floor(512 / canvasSize) for display
+      // Canvas is scaled by Math.floor(512 / the larger canvas dimension) for display
       // For 64x64: pixelSize = Math.floor(512 / 64) = 8, so canvas size = 64 * 8 = 512
       expect(canvas.width).toBe(64 * 8)
       expect(canvas.height).toBe(64 * 8)
 
       // Test with different size
-      rerender(<SpriteEditor {...defaultProps} canvasSize={128} />)
+      rerender(<SpriteEditor {...defaultProps} canvasWidth={128} canvasHeight={128} />)
       
       await waitFor(() => {
         const newCanvas = container.querySelector('canvas') as HTMLCanvasElement
@@ -146,7 +147,7 @@ describe('SpriteEditor Template Integration', () => {
       
       // Template functionality should not break other features
       expect(canvas).toBeTruthy()
-      // Canvas is scaled by Math.floor(512 / canvasSize) for display
+      // Canvas is scaled by Math.floor(512 / the larger canvas dimension) for display
       // For 32x32: pixelSize = Math.floor(512 / 32) = 16, so canvas size = 32 * 16 = 512
       expect(canvas.width).toBe(32 * 16)
       expect(canvas.height).toBe(32 * 16)
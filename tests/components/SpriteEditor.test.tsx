@@ -31,7 +31,8 @@ describe('SpriteEditor', () => {
     primaryColor: '#ff0000',
     secondaryColor: '#00ff00',
     brushSize: 1,
-    canvasSize: 32,
+    canvasWidth: 32,
+    canvasHeight: 32,
     layers: [
       {
         id: 1,
@@ -59,6 +60,7 @@ describe('SpriteEditor', () => {
     // Mock HistoryManager
     const mockHistoryManager = {
       pushOperation: jest.fn(),
+      needsKeyframe: jest.fn(() => false),
       undo: jest.fn(),
       redo: jest.fn(),
       canUndo: jest.fn(() => false),
@@ -66,7 +68,8 @@ describe('SpriteEditor', () => {
       getState: jest.fn(() => ({
         undoStack: [],
         redoStack: [],
-        maxHistorySize: 100
+        maxHistorySize: 100,
+        maxHistoryBytes: 64 * 1024 * 1024
       })),
       createStrokeOperation: jest.fn((tool, layerId, pixels) => ({
         id: `test-${Date.now()}`,
@@ -147,12 +150,21 @@ describe('SpriteEditor', () => {
   })
 
   it('should handle different canvas sizes correctly', () => {
-    const largeCanvasProps = { ...defaultProps, canvasSize: 64 }
+    const largeCanvasProps = { ...defaultProps, canvasWidth: 64, canvasHeight: 64 }
     render(<SpriteEditor {...largeCanvasProps} />)
     
     expect(screen.getByTestId('sprite-canvas')).toBeInTheDocument()
   })
 
+  it('should size a non-square canvas from its larger dimension', () => {
+    render(<SpriteEditor {...defaultProps} canvasWidth={32} canvasHeight={16} />)
+
+    const canvas = screen.getByTestId('sprite-canvas') as HTMLCanvasElement
+    // 512 / 32 = 16px per sprite pixel
+    expect(canvas.width).toBe(512)
+    expect(canvas.height).toBe(256)
+  })
+
   it('should handle layer visibility correctly', () => {
     const { rerender } = render(
       <SpriteEditor
@@ -164,7 +176,7 @@ describe('SpriteEditor', () => {
         primaryColor="#ff0000"
         secondaryColor="#00ff00"
         brushSize={1}
-        canvasSize={16}
+        canvasWidth={16} canvasHeight={16}
         gridSettings={{
           visible: true,
           color: '#333',
@@ -193,7 +205,7 @@ describe('SpriteEditor', () => {
         primaryColor="#ff0000"
         secondaryColor="#00ff00"
         brushSize={1}
-        canvasSize={16}
+        canvasWidth={16} canvasHeight={16}
         gridSettings={{
           visible: true,
           color: '#333',
@@ -219,7 +231,7 @@ describe('SpriteEditor', () => {
         primaryColor="#ff0000"
         secondaryColor="#00ff00"
         brushSize={1}
-        canvasSize={16}
+        canvasWidth={16} canvasHeight={16}
         gridSettings={{
           visible: false,
           color: '#333',
@@ -463,7 +475,7 @@ describe('SpriteEditor', () => {
     })
 
     it('should handle invalid canvas sizes gracefully', () => {
-      const propsWithInvalidSize = { ...defaultProps, canvasSize: 0 }
+      const propsWithInvalidSize = { ...defaultProps, canvasWidth: 0, canvasHeight: 0 }
       render(<SpriteEditor {...propsWithInvalidSize} />)
       
       const canvas = screen.getByTestId('sprite-canvas')
@@ -471,7 +483,7 @@ describe('SpriteEditor', () => {
     })
 
     it('should handle extremely large canvas sizes', () => {
-      const propsWithLargeSize = { ...defaultProps, canvasSize: 1024 }
+      const propsWithLargeSize = { ...defaultProps, canvasWidth: 1024, canvasHeight: 1024 }
       render(<SpriteEditor {...propsWithLargeSize} />)
       
       const canvas = screen.getByTestId('sprite-canvas')
@@ -581,6 +593,7 @@ describe('SpriteEditor', () => {
         pushOperation: jest.fn().mockImplementation(() => {
           throw new Error('HistoryManager error')
         }),
+        needsKeyframe: jest.fn(() => false),
         undo: jest.fn(),
         redo: jest.fn(),
         canUndo: jest.fn(() => false),
@@ -588,7 +601,8 @@ describe('SpriteEditor', () => {
         getState: jest.fn(() => ({
           undoStack: [],
           redoStack: [],
-          maxHistorySize: 100
+          maxHistorySize: 100,
+          maxHistoryBytes: 64 * 1024 * 1024
         })),
         createStrokeOperation: jest.fn(),
         clear: jest.fn(),
@@ -627,7 +641,7 @@ describe('SpriteEditor', () => {
 
     it('should handle memory pressure gracefully', () => {
       // Test with very large canvas and many operations
-      const propsWithLargeCanvas = { ...defaultProps, canvasSize: 512 }
+      const propsWithLargeCanvas = { ...defaultProps, canvasWidth: 512, canvasHeight: 512 }
       render(<SpriteEditor {...propsWithLargeCanvas} />)
       
       const canvas = screen.getByTestId('sprite-canvas')
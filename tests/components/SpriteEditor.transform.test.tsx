@@ -0,0 +1,116 @@
+import React from 'react'
+import { render, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { PixelTransform } from '../../src/types'
+import { createProps as createEditorProps, oneLayer as layers, latestFramePixels, latestCanvas, layerBuffer, loadPixels as loadFramePixels, dragPixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Transform', () => {
+  const createProps = (overrides = {}) => createEditorProps({ selectedTool: 'select', ...overrides })
+
+  const flip: PixelTransform = { flipHorizontal: true, flipVertical: false, scaleX: 1, scaleY: 1, angle: 0 }
+
+  // A red and a green pixel side by side, and a blue pixel far away
+  const loadPixels = (canvas: HTMLCanvasElement) => loadFramePixels(canvas, new Map([
+    [1, layerBuffer(1, [1, 1, '#ff0000'], [2, 1, '#00ff00'], [10, 10, '#0000ff'])]
+  ]))
+
+  const colorAt = (props: ReturnType<typeof createProps>, key: string) =>
+    latestFramePixels(props.onFramePixelsChange).get(1)?.get(1)?.get(key)?.color
+
+  const selectRegion = (element: HTMLCanvasElement, from: number, to: number) => dragPixels(element, [from, from], [to, to])
+
+  it('should flip only the selection, as one undoable operation', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+    selectRegion(container.querySelector('canvas')!, 1, 2)
+
+    let changed = false
+    act(() => {
+      changed = latestCanvas(props.onCanvasRef).transformPixels!(flip, 'selection')
+    })
+
+    expect(changed).toBe(true)
+    expect(colorAt(props, '1,1')).toBe('#00ff00')
+    expect(colorAt(props, '2,1')).toBe('#ff0000')
+    expect(colorAt(props, '10,10')).toBe('#0000ff')
+
+    const history = latestCanvas(props.onCanvasRef).getHistoryState!()
+    expect(history.undoStack).toHaveLength(1)
+    expect(history.undoStack[0].tool).toBe('transform')
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).undo!()
+    })
+    expect(colorAt(props, '1,1')).toBe('#ff0000')
+    expect(colorAt(props, '2,1')).toBe('#00ff00')
+  })
+
+  it('should fit the selection to scaled pixels', () => {
+    const props = createProps()
+    const { container } = render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+    selectRegion(container.querySelector('canvas')!, 1, 2)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).transformPixels!({ ...flip, flipHorizontal: false, scaleX: 2, scaleY: 2 }, 'selection')
+    })
+
+    expect(latestCanvas(props.onCanvasRef).getSelectionBounds!()).toEqual({ startX: 0, startY: 0, endX: 3, endY: 3 })
+    expect(colorAt(props, '0,0')).toBe('#ff0000')
+    expect(colorAt(props, '3,1')).toBe('#00ff00')
+    expect(colorAt(props, '3,3')).toBeUndefined()
+  })
+
+  it('should transform the whole layer without a selection', () => {
+    const props = createProps({ selectedTool: 'pencil' as const })
+    render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).transformPixels!(flip, 'layer')
+    })
+
+    expect(colorAt(props, '14,1')).toBe('#ff0000')
+    expect(colorAt(props, '13,1')).toBe('#00ff00')
+    expect(colorAt(props, '5,10')).toBe('#0000ff')
+  })
+
+  it('should preview a transform without changing the document', () => {
+    const props = createProps({ selectedTool: 'pencil' as const })
+    render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).previewTransform!(flip, 'layer')
+    })
+    expect(colorAt(props, '1,1')).toBe('#ff0000')
+    expect(latestCanvas(props.onCanvasRef).getHistoryState!().undoStack).toHaveLength(0)
+
+    act(() => {
+      latestCanvas(props.onCanvasRef).previewTransform!(null, 'layer')
+    })
+    expect(colorAt(props, '1,1')).toBe('#ff0000')
+  })
+
+  it('should not transform a locked layer or a missing selection', () => {
+    const props = createProps({ layers: [{ ...layers[0], locked: true }] })
+    render(<SpriteEditor {...props} />)
+    loadPixels(latestCanvas(props.onCanvasRef))
+
+    let changed = true
+    act(() => {
+      changed = latestCanvas(props.onCanvasRef).transformPixels!(flip, 'layer')
+    })
+    expect(changed).toBe(false)
+
+    const unlocked = createProps()
+    render(<SpriteEditor {...unlocked} />)
+    act(() => {
+      changed = latestCanvas(unlocked.onCanvasRef).transformPixels!(flip, 'selection')
+    })
+    expect(changed).toBe(false)
+    expect(colorAt(props, '1,1')).toBe('#ff0000')
+  })
+})
@@ -0,0 +1,111 @@
+import React from 'react'
+import { render, fireEvent, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { createProps, latestFramePixels } from './spriteEditorHarness'
+
+describe('SpriteEditor - Zoom and Pan', () => {
+  // The 16x16 canvas renders at 32px per pixel when fitted
+  const latestPixels = (onFramePixelsChange: jest.Mock) => latestFramePixels(onFramePixelsChange).get(1)?.get(1) || new Map()
+
+  const clickAt = (canvas: HTMLElement, clientX: number, clientY: number) => {
+    fireEvent.mouseDown(canvas, { clientX, clientY })
+    fireEvent.mouseUp(canvas)
+  }
+
+  it('should zoom around the cursor with the mouse wheel and map clicks through the zoom', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = screen.getByTestId('sprite-canvas')
+
+    expect(screen.getByTestId('zoom-level')).toHaveTextContent('3200%')
+    fireEvent.wheel(canvas, { deltaY: -100, clientX: 0, clientY: 0 })
+    expect(screen.getByTestId('zoom-level')).toHaveTextContent('6400%')
+
+    // Cells are now 64px, so screen (48, 48) is still inside pixel (0, 0)
+    clickAt(canvas, 48, 48)
+    expect(Array.from(latestPixels(props.onFramePixelsChange).keys())).toEqual(['0,0'])
+  })
+
+  it('should pan with the middle mouse button without drawing', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = screen.getByTestId('sprite-canvas')
+
+    fireEvent.mouseDown(canvas, { button: 1, clientX: 0, clientY: 0 })
+    fireEvent.mouseMove(canvas, { clientX: 64, clientY: 32 })
+    fireEvent.mouseUp(canvas)
+    expect(latestPixels(props.onFramePixelsChange).size).toBe(0)
+
+    // The sprite moved 2 pixels right and 1 down
+    clickAt(canvas, 80, 48)
+    expect(Array.from(latestPixels(props.onFramePixelsChange).keys())).toEqual(['0,0'])
+  })
+
+  it('should pan while space is held', () => {
+    const props = createProps()
+    render(<SpriteEditor {...props} />)
+    const canvas = screen.getByTestId('sprite-canvas')
+
+    fireEvent.keyDown(document, { key: ' ' })
+    fireEvent.mouseDown(canvas, { clientX: 100, clientY: 100 })
+    fireEvent.mouseMove(canvas, { clientX: 132, clientY: 100 })
+    fireEvent.mouseUp(canvas)
+    fireEvent.keyUp(document, { key: ' ' })
+
+    clickAt(canvas, 48, 16)
+    expect(Array.from(latestPixels(props.onFramePixelsChange).keys())).toEqual(['0,0'])
+  })
+
+  it('should zoom with the keyboard and jump to fit and 100%', () => {
+    render(<SpriteEditor {...createProps()} />)
+    const zoomLevel = screen.getByTestId('zoom-level')
+
+    fireEvent.keyDown(document, { key: '-' })
+    expect(zoomLevel).toHaveTextContent('1600%')
+    fireEvent.keyDown(document, { key: '1' })
+    expect(zoomLevel).toHaveTextContent('100%')
+    fireEvent.keyDown(document, { key: '0' })
+    expect(zoomLevel).toHaveTextContent('3200%')
+    fireEvent.keyDown(document, { key: '+' })
+    expect(zoomLevel).toHaveTextContent('6400%')
+  })
+
+  it('should zoom from the toolbar buttons', () => {
+    render(<SpriteEditor {...createProps()} />)
+    const zoomLevel = screen.getByTestId('zoom-level')
+
+    fireEvent.click(screen.getByTitle('Zoom In (+)'))
+    expect(zoomLevel).toHaveTextContent('6400%')
+    fireEvent.click(screen.getByTitle('Actual Size (1)'))
+    expect(zoomLevel).toHaveTextContent('100%')
+    fireEvent.click(screen.getByTitle('Zoom to Fit (0)'))
+    expect(zoomLevel).toHaveTextContent('3200%')
+  })
+
+  it('should map rectangle selections through the zoom', () => {
+    const props = createProps({ selectedTool: 'select', onCanvasRef: jest.fn() })
+    render(<SpriteEditor {...props} />)
+    const canvas = screen.getByTestId('sprite-canvas')
+    const canvasElement = canvas as HTMLCanvasElement
+
+    fireEvent.wheel(canvas, { deltaY: -100, clientX: 0, clientY: 0 })
+    fireEvent.mouseDown(canvas, { clientX: 10, clientY: 10 })
+    fireEvent.mouseMove(canvas, { clientX: 130, clientY: 70 })
+    fireEvent.mouseUp(canvas)
+
+    expect(canvasElement.getSelectionBounds?.()).toEqual({ startX: 0, startY: 0, endX: 2, endY: 1 })
+  })
+
+  it('should ignore zoom keys while typing in an input', () => {
+    render(
+      <>
+        <input data-testid="text-input" />
+        <SpriteEditor {...createProps()} />
+      </>
+    )
+
+    fireEvent.keyDown(screen.getByTestId('text-input'), { key: '+' })
+    expect(screen.getByTestId('zoom-level')).toHaveTextContent('3200%')
+  })
+})
@@ -0,0 +1,60 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import SpriteSheetExportModal from '../../src/components/SpriteSheetExportModal'
+
+describe('SpriteSheetExportModal', () => {
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onExport: jest.fn(),
+    frameCount: 4,
+    ...overrides
+  })
+
+  it('should not render when closed', () => {
+    render(<SpriteSheetExportModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Export Sprite Sheet')).not.toBeInTheDocument()
+  })
+
+  it('should export with the default options', () => {
+    const props = createProps()
+    render(<SpriteSheetExportModal {...props} />)
+
+    fireEvent.click(screen.getByText('Export'))
+
+    expect(props.onExport).toHaveBeenCalledWith({ layout: 'grid', format: 'hash', columns: 0, padding: 0, scale: 1 })
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should export with the chosen options', () => {
+    const props = createProps()
+    render(<SpriteSheetExportModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Layout'), { target: { value: 'packed' } })
+    fireEvent.change(screen.getByLabelText('JSON Atlas'), { target: { value: 'array' } })
+    fireEvent.change(screen.getByLabelText('Padding'), { target: { value: '2' } })
+    fireEvent.change(screen.getByLabelText('Scale'), { target: { value: '3' } })
+    fireEvent.click(screen.getByText('Export'))
+
+    expect(props.onExport).toHaveBeenCalledWith({ layout: 'packed', format: 'array', columns: 0, padding: 2, scale: 3 })
+  })
+
+  it('should hide the column setting for packed layouts', () => {
+    render(<SpriteSheetExportModal {...createProps()} />)
+
+    expect(screen.getByLabelText('Columns (0 = auto)')).toBeInTheDocument()
+    fireEvent.change(screen.getByLabelText('Layout'), { target: { value: 'packed' } })
+    expect(screen.queryByLabelText('Columns (0 = auto)')).not.toBeInTheDocument()
+  })
+
+  it('should close without exporting on cancel', () => {
+    const props = createProps()
+    render(<SpriteSheetExportModal {...props} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+
+    expect(props.onClose).toHaveBeenCalled()
+    expect(props.onExport).not.toHaveBeenCalled()
+  })
+})
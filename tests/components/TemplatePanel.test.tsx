@@ -22,7 +22,7 @@ describe('TemplatePanel', () => {
   const mockCanvasRef = {
     current: {
       getCurrentPixels: jest.fn(() => new Map([['0,0', { x: 0, y: 0, color: '#FF0000', layerId: 1 }]])),
-      getCanvasSize: jest.fn(() => 32)
+      getCanvasDimensions: jest.fn(() => ({ width: 32, height: 32 }))
     }
   }
 
@@ -62,14 +62,14 @@ describe('TemplatePanel', () => {
 
   it('renders template panel with correct title and count', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     expect(screen.getByText('Templates (2)')).toBeInTheDocument()
   })
 
   it('filters templates by current canvas size', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Should only show 32x32 templates - get the first occurrence (main display)
     const templateNames = screen.getAllByText('Test Template 32x32')
@@ -79,13 +79,13 @@ describe('TemplatePanel', () => {
 
   it('shows message when no templates exist for current size', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([])
-    render(<TemplatePanel currentCanvasSize={16} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={16} currentCanvasHeight={16} canvasRef={mockCanvasRef as any} />)
     
     expect(screen.getByText('No templates found for 16x16 canvas')).toBeInTheDocument()
   })
 
   it('opens save modal when save button is clicked', () => {
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     const saveButton = screen.getByText('Save')
     fireEvent.click(saveButton)
@@ -94,7 +94,7 @@ describe('TemplatePanel', () => {
   })
 
   it('saves template with correct data when save form is submitted', async () => {
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Open save modal
     const saveButton = screen.getByText('Save')
@@ -127,7 +127,7 @@ describe('TemplatePanel', () => {
 
   it('shows template details correctly', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Check that the template name is visible (main display, not tooltip) - get first occurrence
     const templateNames = screen.getAllByText('Test Template 32x32')
@@ -145,7 +145,7 @@ describe('TemplatePanel', () => {
     // Mock confirm to return true
     global.confirm = jest.fn(() => true)
     
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     const deleteButton = screen.getByText('×')
     fireEvent.click(deleteButton)
@@ -156,7 +156,7 @@ describe('TemplatePanel', () => {
 
   it('filters templates by search query', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     const searchInput = screen.getByPlaceholderText('Search templates...')
     fireEvent.change(searchInput, { target: { value: 'Test' } })
@@ -168,7 +168,7 @@ describe('TemplatePanel', () => {
 
   it('shows no results message when search has no matches', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     const searchInput = screen.getByPlaceholderText('Search templates...')
     fireEvent.change(searchInput, { target: { value: 'Nonexistent' } })
@@ -178,7 +178,7 @@ describe('TemplatePanel', () => {
 
   it('collapses and expands correctly', () => {
     mockTemplateManager.getTemplatesBySize.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Initially expanded - get first occurrence (main display, not tooltip)
     const templateNames = screen.getAllByText('Test Template 32x32')
@@ -202,7 +202,7 @@ describe('TemplatePanel', () => {
 
   it('shows appropriate message when no templates exist', () => {
     mockTemplateManager.getAllTemplates.mockReturnValue([])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Should show message about creating templates manually
     expect(screen.getByText('No templates found for 32x32 canvas')).toBeInTheDocument()
@@ -213,7 +213,7 @@ describe('TemplatePanel', () => {
 
   it('displays custom tooltip on info icon hover', () => {
     mockTemplateManager.getAllTemplates.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Find the info icon button
     const infoIcon = screen.getByText('ℹ').closest('button')
@@ -239,7 +239,7 @@ describe('TemplatePanel', () => {
 
   it('displays template thumbnails correctly', () => {
     mockTemplateManager.getAllTemplates.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Check that thumbnail image is displayed
     const thumbnail = screen.getByAltText('Test Template 32x32 preview')
@@ -261,7 +261,7 @@ describe('TemplatePanel', () => {
       pixels: []
     }
     mockTemplateManager.getAllTemplates.mockReturnValue([emptyTemplate])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Should show empty template indicator instead of image
     expect(screen.getByText('○')).toBeInTheDocument()
@@ -278,7 +278,7 @@ describe('TemplatePanel', () => {
       }
     }
     
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRefWithApply as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRefWithApply as any} />)
     
     // Click on template to open confirmation modal - get first occurrence (main display)
     const templateNames = screen.getAllByText('Test Template 32x32')
@@ -314,7 +314,7 @@ describe('TemplatePanel', () => {
     }
     mockTemplateManager.getAllTemplates.mockReturnValue([wrongSizeTemplate])
     
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     // Since the template has wrong size, it should not be displayed
     // The component filters by canvas size first, so we should see "no templates found"
@@ -326,7 +326,7 @@ describe('TemplatePanel', () => {
 
   it('handles missing canvas reference gracefully', async () => {
     mockTemplateManager.getAllTemplates.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={undefined} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={undefined} />)
     
     // Click on template to open confirmation modal - get first occurrence (main display)
     const templateNames = screen.getAllByText('Test Template 32x32')
@@ -359,12 +359,12 @@ describe('TemplatePanel', () => {
     const mockCanvasRefWithoutApply = {
       current: {
         getCurrentPixels: mockCanvasRef.current.getCurrentPixels,
-        getCanvasSize: mockCanvasRef.current.getCanvasSize
+        getCanvasDimensions: mockCanvasRef.current.getCanvasDimensions
         // Note: no applyTemplate method
       }
     }
     
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRefWithoutApply as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRefWithoutApply as any} />)
     
     // Click on template to open confirmation modal - get first occurrence (main display)
     const templateNames = screen.getAllByText('Test Template 32x32')
@@ -394,7 +394,7 @@ describe('TemplatePanel', () => {
 
   it('maintains search state correctly', () => {
     mockTemplateManager.getAllTemplates.mockReturnValue([mockTemplates[0]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     const searchInput = screen.getByPlaceholderText('Search templates...')
     
@@ -410,7 +410,7 @@ describe('TemplatePanel', () => {
   it('filters templates correctly by search query', () => {
     // Mock both templates but note that the component filters by canvas size first
     mockTemplateManager.getAllTemplates.mockReturnValue([mockTemplates[0], mockTemplates[1]])
-    render(<TemplatePanel currentCanvasSize={32} canvasRef={mockCanvasRef as any} />)
+    render(<TemplatePanel currentCanvasWidth={32} currentCanvasHeight={32} canvasRef={mockCanvasRef as any} />)
     
     const searchInput = screen.getByPlaceholderText('Search templates...')
     
@@ -0,0 +1,119 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import TimelinePanel from '../../src/components/TimelinePanel'
+import { Frame, FramePixels, Layer, OnionSkinSettings, PixelData } from '../../src/types'
+
+describe('TimelinePanel', () => {
+  const layers: Layer[] = [{ id: 1, name: 'Layer 1', visible: true, active: true }]
+
+  const frames: Frame[] = [
+    { id: 1, duration: 100 },
+    { id: 2, duration: 200 },
+    { id: 3, duration: 300 }
+  ]
+
+  const framePixels: FramePixels = new Map([
+    [1, new Map([[1, new Map<string, PixelData>([['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1 }]])]])]
+  ])
+
+  const onionSkin: OnionSkinSettings = {
+    enabled: false,
+    previousFrames: 1,
+    nextFrames: 1,
+    opacity: 0.3,
+    previousTint: '#ff0000',
+    nextTint: '#0000ff'
+  }
+
+  const createProps = (overrides = {}) => ({
+    frames,
+    currentFrameId: 2,
+    framePixels,
+    layers,
+    canvasWidth: 16,
+    canvasHeight: 16,
+    isPlaying: false,
+    onionSkin,
+    onFrameSelect: jest.fn(),
+    onAddFrame: jest.fn(),
+    onDuplicateFrame: jest.fn(),
+    onDeleteFrame: jest.fn(),
+    onMoveFrame: jest.fn(),
+    onFrameDurationChange: jest.fn(),
+    onTogglePlay: jest.fn(),
+    onOnionSkinChange: jest.fn(),
+    ...overrides
+  })
+
+  it('should render a thumbnail for every frame', () => {
+    render(<TimelinePanel {...createProps()} />)
+
+    expect(screen.getByAltText('Frame 1 thumbnail')).toBeInTheDocument()
+    expect(screen.getByAltText('Frame 2 thumbnail')).toBeInTheDocument()
+    expect(screen.getByAltText('Frame 3 thumbnail')).toBeInTheDocument()
+  })
+
+  it('should select a frame when clicked', () => {
+    const props = createProps()
+    render(<TimelinePanel {...props} />)
+
+    fireEvent.click(screen.getByAltText('Frame 3 thumbnail'))
+    expect(props.onFrameSelect).toHaveBeenCalledWith(3)
+  })
+
+  it('should call the frame action handlers', () => {
+    const props = createProps()
+    render(<TimelinePanel {...props} />)
+
+    fireEvent.click(screen.getByTitle('New Frame'))
+    fireEvent.click(screen.getByTitle('Duplicate Frame'))
+    fireEvent.click(screen.getByTitle('Delete Frame'))
+    fireEvent.click(screen.getByTitle('Move Frame Left'))
+    fireEvent.click(screen.getByTitle('Move Frame Right'))
+    fireEvent.click(screen.getByTitle('Play'))
+
+    expect(props.onAddFrame).toHaveBeenCalled()
+    expect(props.onDuplicateFrame).toHaveBeenCalled()
+    expect(props.onDeleteFrame).toHaveBeenCalledWith(2)
+    expect(props.onMoveFrame).toHaveBeenCalledWith(2, -1)
+    expect(props.onMoveFrame).toHaveBeenCalledWith(2, 1)
+    expect(props.onTogglePlay).toHaveBeenCalled()
+  })
+
+  it('should disable deleting the last frame and moving past the ends', () => {
+    render(<TimelinePanel {...createProps({ frames: [frames[0]], currentFrameId: 1 })} />)
+
+    expect(screen.getByTitle('Delete Frame')).toBeDisabled()
+    expect(screen.getByTitle('Move Frame Left')).toBeDisabled()
+    expect(screen.getByTitle('Move Frame Right')).toBeDisabled()
+  })
+
+  it('should show a pause button while playing', () => {
+    render(<TimelinePanel {...createProps({ isPlaying: true })} />)
+
+    expect(screen.getByTitle('Pause')).toBeInTheDocument()
+  })
+
+  it('should edit the current frame duration', () => {
+    const props = createProps()
+    render(<TimelinePanel {...props} />)
+
+    const input = screen.getByLabelText('Frame duration')
+    expect(input).toHaveValue(200)
+
+    fireEvent.change(input, { target: { value: '150' } })
+    expect(props.onFrameDurationChange).toHaveBeenCalledWith(2, 150)
+  })
+
+  it('should update onion skin settings', () => {
+    const props = createProps()
+    render(<TimelinePanel {...props} />)
+
+    fireEvent.click(screen.getByLabelText('Onion Skin'))
+    expect(props.onOnionSkinChange).toHaveBeenCalledWith({ ...onionSkin, enabled: true })
+
+    fireEvent.change(screen.getByLabelText('Onion skin opacity'), { target: { value: '60' } })
+    expect(props.onOnionSkinChange).toHaveBeenCalledWith({ ...onionSkin, opacity: 0.6 })
+  })
+})
@@ -2,7 +2,7 @@ import React from 'react'
 import { render, screen, fireEvent } from '@testing-library/react'
 import '@testing-library/jest-dom'
 import Toolbar from '../../src/components/Toolbar'
-import { Tool, Color, GridSettings } from '../../src/types'
+import { Tool, Color, FillSettings, GridSettings } from '../../src/types'
 
 describe('Toolbar', () => {
   const defaultProps = {
@@ -764,4 +764,102 @@ describe('Toolbar', () => {
       expect(screen.getByTitle('Rectangle Tool - Currently Filled')).toBeInTheDocument()
     })
   })
+
+  describe('Symmetry', () => {
+    const symmetry = { mode: 'none' as const, axisX: 8, axisY: 8 }
+
+    it('should not show the symmetry menu without a handler', () => {
+      render(<Toolbar {...defaultProps} />)
+      expect(screen.queryByTitle('Symmetry - Currently OFF')).not.toBeInTheDocument()
+    })
+
+    it('should change the mirror mode', () => {
+      const onSymmetryChange = jest.fn()
+      render(<Toolbar {...defaultProps} symmetry={symmetry} onSymmetryChange={onSymmetryChange} canvasWidth={16} canvasHeight={16} />)
+
+      fireEvent.click(screen.getByTitle('Symmetry - Currently OFF'))
+      fireEvent.click(screen.getByTitle('Mirror Both Axes'))
+
+      expect(onSymmetryChange).toHaveBeenCalledWith({ ...symmetry, mode: 'both' })
+    })
+
+    it('should snap axis positions to half pixels inside the canvas', () => {
+      const onSymmetryChange = jest.fn()
+      render(<Toolbar {...defaultProps} symmetry={symmetry} onSymmetryChange={onSymmetryChange} canvasWidth={16} canvasHeight={16} />)
+
+      fireEvent.click(screen.getByTitle('Symmetry - Currently OFF'))
+      fireEvent.change(screen.getByLabelText('Symmetry axis X'), { target: { value: '5.3' } })
+      fireEvent.change(screen.getByLabelText('Symmetry axis Y'), { target: { value: '40' } })
+
+      expect(onSymmetryChange).toHaveBeenCalledWith({ ...symmetry, axisX: 5.5 })
+      expect(onSymmetryChange).toHaveBeenCalledWith({ ...symmetry, axisY: 16 })
+    })
+  })
+
+  describe('Fill Options', () => {
+    const fillSettings: FillSettings = {
+      mode: 'solid',
+      gradient: 'linear',
+      ditherSize: 4,
+      tolerance: 0,
+      distance: 'rgb',
+      contiguous: true,
+      connectivity: 4,
+      sampleAllLayers: false
+    }
+
+    it('should not show the fill options without a handler', () => {
+      render(<Toolbar {...defaultProps} />)
+      expect(screen.queryByTitle('Fill Options - Solid, Tolerance 0%')).not.toBeInTheDocument()
+    })
+
+    it('should change tolerance, distance, contiguity, connectivity and sampling', () => {
+      const onFillSettingsChange = jest.fn()
+      render(<Toolbar {...defaultProps} fillSettings={fillSettings} onFillSettingsChange={onFillSettingsChange} />)
+
+      fireEvent.click(screen.getByTitle('Fill Options - Solid, Tolerance 0%'))
+      fireEvent.change(screen.getByLabelText('Fill tolerance'), { target: { value: '25' } })
+      fireEvent.change(screen.getByLabelText('Color distance'), { target: { value: 'perceptual' } })
+      fireEvent.click(screen.getByLabelText('Contiguous'))
+      fireEvent.click(screen.getByLabelText('8-way'))
+      fireEvent.click(screen.getByLabelText('Sample all layers'))
+
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, tolerance: 25 })
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, distance: 'perceptual' })
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, contiguous: false })
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, connectivity: 8 })
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, sampleAllLayers: true })
+    })
+
+    it('should pick the fill mode, and the gradient shape and dither size for the modes that use them', () => {
+      const onFillSettingsChange = jest.fn()
+      const { rerender } = render(<Toolbar {...defaultProps} fillSettings={fillSettings} onFillSettingsChange={onFillSettingsChange} />)
+
+      fireEvent.click(screen.getByTitle('Fill Options - Solid, Tolerance 0%'))
+      expect(screen.queryByLabelText('Gradient shape')).not.toBeInTheDocument()
+      fireEvent.change(screen.getByLabelText('Fill mode'), { target: { value: 'dither' } })
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, mode: 'dither' })
+
+      rerender(<Toolbar {...defaultProps} fillSettings={{ ...fillSettings, mode: 'dither' }} onFillSettingsChange={onFillSettingsChange} />)
+      fireEvent.change(screen.getByLabelText('Gradient shape'), { target: { value: 'radial' } })
+      fireEvent.change(screen.getByLabelText('Dither size'), { target: { value: '8' } })
+
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, mode: 'dither', gradient: 'radial' })
+      expect(onFillSettingsChange).toHaveBeenCalledWith({ ...fillSettings, mode: 'dither', ditherSize: 8 })
+    })
+
+    it('should only offer pattern fills with copied or selected pixels', () => {
+      const { rerender } = render(<Toolbar {...defaultProps} fillSettings={fillSettings} onFillSettingsChange={jest.fn()} hasFillPattern={false} />)
+
+      fireEvent.click(screen.getByTitle('Fill Options - Solid, Tolerance 0%'))
+      expect(screen.getByText('Pattern (copied or selected pixels)')).toBeDisabled()
+
+      rerender(<Toolbar {...defaultProps} fillSettings={{ ...fillSettings, mode: 'pattern' }} onFillSettingsChange={jest.fn()} hasFillPattern={false} />)
+      expect(screen.getByText('Copy or select pixels to fill with')).toBeInTheDocument()
+
+      rerender(<Toolbar {...defaultProps} fillSettings={{ ...fillSettings, mode: 'pattern' }} onFillSettingsChange={jest.fn()} />)
+      expect(screen.getByText('Pattern (copied or selected pixels)')).not.toBeDisabled()
+      expect(screen.queryByText('Copy or select pixels to fill with')).not.toBeInTheDocument()
+    })
+  })
 })
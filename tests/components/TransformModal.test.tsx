@@ -0,0 +1,76 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import TransformModal from '../../src/components/TransformModal'
+
+describe('TransformModal', () => {
+  const createProps = (overrides = {}) => ({
+    isOpen: true,
+    onClose: jest.fn(),
+    onApply: jest.fn(),
+    onPreview: jest.fn(),
+    hasSelection: false,
+    ...overrides
+  })
+
+  const identity = { flipHorizontal: false, flipVertical: false, scaleX: 1, scaleY: 1, angle: 0 }
+
+  it('should not render when closed', () => {
+    render(<TransformModal {...createProps({ isOpen: false })} />)
+    expect(screen.queryByText('Transform')).not.toBeInTheDocument()
+  })
+
+  it('should not apply a transform that changes nothing', () => {
+    render(<TransformModal {...createProps()} />)
+    expect(screen.getByText('Apply')).toBeDisabled()
+  })
+
+  it('should apply flips and rotations to the whole layer', () => {
+    const props = createProps()
+    render(<TransformModal {...props} />)
+
+    fireEvent.click(screen.getByText('Flip Horizontal'))
+    fireEvent.click(screen.getByText('270°'))
+    fireEvent.click(screen.getByText('Apply'))
+
+    expect(props.onApply).toHaveBeenCalledWith({ ...identity, flipHorizontal: true, angle: -90 }, 'layer')
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should scale both sides together unless proportions are unlocked', () => {
+    const props = createProps({ hasSelection: true })
+    render(<TransformModal {...props} />)
+
+    fireEvent.change(screen.getByLabelText('Width %'), { target: { value: '200' } })
+    expect(screen.getByLabelText('Height %')).toHaveValue(200)
+
+    fireEvent.click(screen.getByLabelText('Keep proportions'))
+    fireEvent.change(screen.getByLabelText('Height %'), { target: { value: '50' } })
+    fireEvent.change(screen.getByLabelText('Angle'), { target: { value: '30' } })
+    fireEvent.click(screen.getByText('Apply'))
+
+    expect(props.onApply).toHaveBeenCalledWith({ ...identity, scaleX: 2, scaleY: 0.5, angle: 30 }, 'selection')
+  })
+
+  it('should preview every change and clear the preview on close', () => {
+    const props = createProps()
+    const { rerender } = render(<TransformModal {...props} />)
+
+    fireEvent.click(screen.getByText('Flip Vertical'))
+    expect(props.onPreview).toHaveBeenLastCalledWith({ ...identity, flipVertical: true }, 'layer')
+
+    rerender(<TransformModal {...props} isOpen={false} />)
+    expect(props.onPreview).toHaveBeenLastCalledWith(null, 'layer')
+  })
+
+  it('should stop previewing when the preview is turned off', () => {
+    const props = createProps()
+    render(<TransformModal {...props} />)
+
+    fireEvent.click(screen.getByLabelText('Preview'))
+    props.onPreview.mockClear()
+    fireEvent.click(screen.getByText('Flip Vertical'))
+
+    expect(props.onPreview).not.toHaveBeenCalled()
+  })
+})
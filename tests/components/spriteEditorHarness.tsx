@@ -0,0 +1,74 @@
+import React from 'react'
+import { act, fireEvent } from '@testing-library/react'
+import SpriteEditor from '../../src/components/SpriteEditor'
+import { Color, FramePixels, GridSettings, Layer, LayerPixels, PixelData, Tool } from '../../src/types'
+
+// Shared setup for the SpriteEditor tests: a 16x16 canvas, which renders at 32px per pixel
+
+type SpriteEditorProps = React.ComponentProps<typeof SpriteEditor>
+
+export const gridSettings: GridSettings = {
+  visible: false,
+  color: '#333',
+  opacity: 0.5,
+  quarter: false,
+  eighths: false,
+  sixteenths: false,
+  thirtyseconds: false,
+  sixtyfourths: false
+}
+
+export const oneLayer: Layer[] = [{ id: 1, name: 'Layer 1', visible: true, active: true }]
+
+// Layer 2 is active, so drawing lands above layer 1
+export const twoLayers: Layer[] = [
+  { id: 1, name: 'Layer 1', visible: true, active: false },
+  { id: 2, name: 'Layer 2', visible: true, active: true }
+]
+
+export const pixelCenter = (coord: number) => coord * 32 + 16
+
+export const createProps = <T extends Partial<SpriteEditorProps>>(overrides: T = {} as T) => ({
+  selectedTool: 'pencil' as Tool,
+  primaryColor: '#ff0000',
+  secondaryColor: '#ffffff',
+  brushSize: 1,
+  canvasWidth: 16,
+  canvasHeight: 16,
+  layers: oneLayer,
+  onCanvasRef: jest.fn(),
+  onFramePixelsChange: jest.fn(),
+  gridSettings,
+  ...overrides
+})
+
+export const latestFramePixels = (onFramePixelsChange: jest.Mock): FramePixels =>
+  onFramePixelsChange.mock.calls[onFramePixelsChange.mock.calls.length - 1][0]
+
+export const latestLayerPixels = (onPixelsChange: jest.Mock): LayerPixels =>
+  onPixelsChange.mock.calls[onPixelsChange.mock.calls.length - 1][0]
+
+export const latestCanvas = (onCanvasRef: jest.Mock): HTMLCanvasElement =>
+  onCanvasRef.mock.calls[onCanvasRef.mock.calls.length - 1][0].current
+
+// A layer buffer from [x, y, color] triples
+export const layerBuffer = (layerId: number, ...pixels: Array<[number, number, Color]>): Map<string, PixelData> =>
+  new Map(pixels.map(([x, y, color]) => [`${x},${y}`, { x, y, color, layerId }]))
+
+// Replaces the pixels of a frame, by layer
+export const loadPixels = (canvas: HTMLCanvasElement, layerPixels: LayerPixels, frameId = 1) => {
+  act(() => {
+    canvas.loadFramePixels!(new Map([[frameId, layerPixels]]))
+  })
+}
+
+export const clickPixel = (element: HTMLElement, x: number, y: number) => {
+  fireEvent.mouseDown(element, { clientX: pixelCenter(x), clientY: pixelCenter(y) })
+  fireEvent.mouseUp(element)
+}
+
+export const dragPixels = (element: HTMLElement, from: [number, number], to: [number, number], modifiers = {}) => {
+  fireEvent.mouseDown(element, { clientX: pixelCenter(from[0]), clientY: pixelCenter(from[1]), ...modifiers })
+  fireEvent.mouseMove(element, { clientX: pixelCenter(to[0]), clientY: pixelCenter(to[1]) })
+  fireEvent.mouseUp(element)
+}
@@ -0,0 +1,134 @@
+import {
+  isAutosaveAvailable,
+  createAutosaveSnapshot,
+  saveAutosave,
+  loadAutosave,
+  clearAutosave
+} from '../../src/utils/autosave'
+import { StrokeOperation } from '../../src/types'
+
+// Just enough of IndexedDB for one key-value store; requests and transactions complete asynchronously
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, any>>()
+
+  const later = (callback: () => void) => setTimeout(callback, 0)
+
+  const createRequest = (run: () => any) => {
+    const request: any = { result: undefined, error: null }
+    later(() => {
+      request.result = run()
+      request.onsuccess?.()
+    })
+    return request
+  }
+
+  const database = {
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => {
+      const store = stores.get(name)!
+      const transaction: any = {
+        objectStore: () => ({
+          put: (value: any, key: string) => createRequest(() => {
+            store.set(key, { ...value })
+            return key
+          }),
+          get: (key: string) => createRequest(() => store.get(key)),
+          delete: (key: string) => createRequest(() => store.delete(key))
+        })
+      }
+      later(() => later(() => transaction.oncomplete?.()))
+      return transaction
+    },
+    close: jest.fn()
+  }
+
+  return {
+    open: () => {
+      const request: any = { result: database, error: null }
+      later(() => {
+        if (stores.size === 0) request.onupgradeneeded?.()
+        request.onsuccess?.()
+      })
+      return request
+    }
+  }
+}
+
+describe('autosave', () => {
+  const operation = (id: string): StrokeOperation => ({
+    id,
+    tool: 'pencil',
+    layerId: 1,
+    pixels: [{ x: 0, y: 0, previousColor: 'transparent', newColor: '#ff0000' }],
+    timestamp: 1
+  })
+
+  describe('createAutosaveSnapshot', () => {
+    it('should keep the operations closest to the current state', () => {
+      const undoStack = ['a', 'b', 'c'].map(operation)
+      const redoStack = ['d', 'e', 'f'].map(operation)
+
+      const snapshot = createAutosaveSnapshot('{}', { undoStack, redoStack }, 2)
+
+      expect(snapshot.project).toBe('{}')
+      expect(snapshot.undoStack.map(op => op.id)).toEqual(['b', 'c'])
+      expect(snapshot.redoStack.map(op => op.id)).toEqual(['e', 'f'])
+      expect(createAutosaveSnapshot('{}', { undoStack, redoStack }, 0).undoStack).toEqual([])
+    })
+
+    it('should give the first kept operation of a frame the keyframe it was rebuilt from', () => {
+      const undoStack = [
+        { ...operation('a'), frameId: 1, keyframe: { layers: [], groups: [], pixels: new Map() } },
+        { ...operation('b'), frameId: 1, pixels: [{ x: 1, y: 0, previousColor: 'transparent', newColor: '#00ff00' }] },
+        { ...operation('c'), frameId: 1 }
+      ]
+
+      const snapshot = createAutosaveSnapshot('{}', { undoStack, redoStack: [] }, 2)
+
+      expect(Array.from(snapshot.undoStack[0].keyframe!.pixels.get(1)!.keys())).toEqual(['1,0'])
+      expect(snapshot.undoStack[1]).toBe(undoStack[2])
+    })
+  })
+
+  describe('without IndexedDB', () => {
+    it('should report autosave as unavailable and fail to load', async () => {
+      expect(isAutosaveAvailable()).toBe(false)
+      await expect(loadAutosave()).rejects.toThrow('IndexedDB is not available')
+    })
+  })
+
+  describe('with IndexedDB', () => {
+    beforeEach(() => {
+      ;(globalThis as any).indexedDB = createFakeIndexedDB()
+    })
+
+    afterEach(() => {
+      delete (globalThis as any).indexedDB
+    })
+
+    it('should save, load and clear the last session', async () => {
+      expect(isAutosaveAvailable()).toBe(true)
+      expect(await loadAutosave()).toBeNull()
+
+      const snapshot = createAutosaveSnapshot('{"format":"spritemaker"}', { undoStack: [operation('a')], redoStack: [] })
+      await saveAutosave(snapshot)
+      expect(await loadAutosave()).toEqual(snapshot)
+
+      await clearAutosave()
+      expect(await loadAutosave()).toBeNull()
+    })
+
+    it('should replace the previous session', async () => {
+      await saveAutosave(createAutosaveSnapshot('first', { undoStack: [], redoStack: [] }))
+      await saveAutosave(createAutosaveSnapshot('second', { undoStack: [], redoStack: [] }))
+
+      expect((await loadAutosave())?.project).toBe('second')
+    })
+
+    it('should fill in missing history stacks', async () => {
+      await saveAutosave({ project: 'doc', savedAt: 1 } as any)
+
+      expect(await loadAutosave()).toEqual({ project: 'doc', savedAt: 1, undoStack: [], redoStack: [] })
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { BLEND_MODES, blendLayerColor, getLayerOpacity } from '../../src/utils/blendModes'
+import { Layer } from '../../src/types'
+
+describe('blendModes', () => {
+  describe('getLayerOpacity', () => {
+    const layer: Layer = { id: 1, name: 'Layer 1', visible: true, active: true }
+
+    it('should treat layers without an opacity as opaque', () => {
+      expect(getLayerOpacity(layer)).toBe(1)
+    })
+
+    it('should convert and clamp percentages', () => {
+      expect(getLayerOpacity({ ...layer, opacity: 25 })).toBe(0.25)
+      expect(getLayerOpacity({ ...layer, opacity: 150 })).toBe(1)
+      expect(getLayerOpacity({ ...layer, opacity: -10 })).toBe(0)
+    })
+  })
+
+  describe('blendLayerColor', () => {
+    it('should list every blend mode once', () => {
+      expect(BLEND_MODES.map(mode => mode.id)).toEqual([
+        'normal', 'multiply', 'screen', 'overlay', 'add', 'subtract', 'darken', 'lighten'
+      ])
+    })
+
+    it('should blend over an opaque backdrop with each mode', () => {
+      expect(blendLayerColor('#ff0000', '#808080', 'normal')).toBe('#ff0000')
+      expect(blendLayerColor('#ff0000', '#808080', 'multiply')).toBe('#800000')
+      expect(blendLayerColor('#ff0000', '#808080', 'screen')).toBe('#ff8080')
+      expect(blendLayerColor('#ff0000', '#404040', 'overlay')).toBe('#800000')
+      expect(blendLayerColor('#ff0000', '#c0c0c0', 'overlay')).toBe('#ff8181')
+      expect(blendLayerColor('#ff0000', '#808080', 'add')).toBe('#ff8080')
+      expect(blendLayerColor('#ff0000', '#808080', 'subtract')).toBe('#008080')
+      expect(blendLayerColor('#ff0000', '#808080', 'darken')).toBe('#800000')
+      expect(blendLayerColor('#ff0000', '#808080', 'lighten')).toBe('#ff8080')
+    })
+
+    it('should apply the layer opacity', () => {
+      expect(blendLayerColor('#ff0000', '#0000ff', 'normal', 0.5)).toBe('#800080')
+      expect(blendLayerColor('#ff0000', '#0000ff', 'normal', 0)).toBe('#0000ff')
+    })
+
+    it('should combine the layer opacity with the pixel alpha', () => {
+      expect(blendLayerColor('#ff000080', 'transparent', 'normal', 0.5)).toBe('#ff000040')
+    })
+
+    it('should not blend where there is no backdrop', () => {
+      expect(blendLayerColor('#ff0000', 'transparent', 'multiply')).toBe('#ff0000')
+      expect(blendLayerColor('#ff0000', 'transparent', 'subtract', 0.5)).toBe('#ff000080')
+    })
+
+    it('should leave the backdrop for colors it cannot read', () => {
+      expect(blendLayerColor('red', '#0000ff', 'multiply')).toBe('#0000ff')
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { getResizeOffset, resizeLayerPixels, resizeFramePixels } from '../../src/utils/canvasResize'
+import { FramePixels, PixelData } from '../../src/types'
+
+describe('canvasResize', () => {
+  const pixel = (x: number, y: number, color = '#ff0000'): PixelData => ({ x, y, color, layerId: 1 })
+
+  const createPixels = (...pixels: PixelData[]) =>
+    new Map(pixels.map(p => [`${p.x},${p.y}`, p] as [string, PixelData]))
+
+  describe('getResizeOffset', () => {
+    it('should not move pixels when anchored top-left', () => {
+      expect(getResizeOffset(16, 16, 32, 24, 'top-left')).toEqual({ dx: 0, dy: 0 })
+    })
+
+    it('should push pixels to the far edges when anchored bottom-right', () => {
+      expect(getResizeOffset(16, 16, 32, 24, 'bottom-right')).toEqual({ dx: 16, dy: 8 })
+    })
+
+    it('should split the change evenly when centered', () => {
+      expect(getResizeOffset(16, 16, 32, 24, 'center')).toEqual({ dx: 8, dy: 4 })
+      expect(getResizeOffset(16, 16, 8, 8, 'center')).toEqual({ dx: -4, dy: -4 })
+    })
+
+    it('should combine edge anchors per axis', () => {
+      expect(getResizeOffset(16, 16, 20, 20, 'top')).toEqual({ dx: 2, dy: 0 })
+      expect(getResizeOffset(16, 16, 20, 20, 'right')).toEqual({ dx: 4, dy: 2 })
+      expect(getResizeOffset(16, 16, 20, 20, 'bottom-left')).toEqual({ dx: 0, dy: 4 })
+    })
+  })
+
+  describe('resizeLayerPixels', () => {
+    it('should move pixels and update their keys', () => {
+      const resized = resizeLayerPixels(createPixels(pixel(1, 2)), { dx: 3, dy: 4 }, 16, 16)
+
+      expect(resized.get('4,6')).toEqual(pixel(4, 6))
+      expect(resized.has('1,2')).toBe(false)
+    })
+
+    it('should crop pixels that fall outside the new canvas', () => {
+      const resized = resizeLayerPixels(
+        createPixels(pixel(0, 0), pixel(7, 3), pixel(8, 3), pixel(3, 4)),
+        { dx: 0, dy: 0 },
+        8,
+        4
+      )
+
+      expect(Array.from(resized.keys())).toEqual(['0,0', '7,3'])
+    })
+  })
+
+  describe('resizeFramePixels', () => {
+    it('should resize every layer of every frame', () => {
+      const framePixels: FramePixels = new Map([
+        [1, new Map([[1, createPixels(pixel(0, 0))], [2, createPixels(pixel(15, 15))]])],
+        [2, new Map([[1, createPixels(pixel(5, 5))]])]
+      ])
+
+      const resized = resizeFramePixels(framePixels, 16, 16, 8, 8, 'bottom-right')
+
+      expect(resized.get(1)?.get(1)?.size).toBe(0)
+      expect(resized.get(1)?.get(2)?.get('7,7')?.color).toBe('#ff0000')
+      expect(resized.get(2)?.get(1)?.has('0,0')).toBe(false)
+      expect(resized.get(2)?.get(1)?.size).toBe(0)
+    })
+
+    it('should not modify the original pixels', () => {
+      const layer = createPixels(pixel(2, 2))
+      const framePixels: FramePixels = new Map([[1, new Map([[1, layer]])]])
+
+      resizeFramePixels(framePixels, 16, 16, 32, 32, 'center')
+
+      expect(layer.get('2,2')).toEqual(pixel(2, 2))
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { buildPaletteMapping, findColorReplacements, applyColorChanges } from '../../src/utils/colorReplace'
+import { LayerPixels, PixelData } from '../../src/types'
+
+describe('colorReplace', () => {
+  const pixel = (x: number, y: number, color: string, layerId: number): [string, PixelData] =>
+    [`${x},${y}`, { x, y, color, layerId }]
+
+  const layerPixels: LayerPixels = new Map([
+    [1, new Map([pixel(0, 0, '#FF0000', 1), pixel(5, 5, '#ff0000', 1), pixel(1, 1, '#00ff00', 1)])],
+    [2, new Map([pixel(2, 2, '#ff0000', 2), pixel(3, 3, '#0000ff', 2)])]
+  ])
+
+  describe('buildPaletteMapping', () => {
+    it('should pair entries by index', () => {
+      expect(buildPaletteMapping(['#000000', '#ffffff'], ['#111111', '#eeeeee'])).toEqual([
+        ['#000000', '#111111'],
+        ['#ffffff', '#eeeeee']
+      ])
+    })
+
+    it('should map entries past the end of the target palette to the nearest color', () => {
+      expect(buildPaletteMapping(['#000000', '#ffffff', '#f00000'], ['#010101', '#ff0000'])).toEqual([
+        ['#000000', '#010101'],
+        ['#ffffff', '#ff0000'],
+        ['#f00000', '#ff0000']
+      ])
+    })
+
+    it('should keep colors when the target palette is empty', () => {
+      expect(buildPaletteMapping(['#123456'], [])).toEqual([['#123456', '#123456']])
+    })
+  })
+
+  describe('findColorReplacements', () => {
+    it('should find matching pixels in disconnected regions, ignoring case', () => {
+      const changes = findColorReplacements(layerPixels, [1], [['#ff0000', '#ffff00']])
+
+      expect(changes).toEqual([
+        { x: 0, y: 0, layerId: 1, previousColor: '#FF0000', newColor: '#ffff00' },
+        { x: 5, y: 5, layerId: 1, previousColor: '#ff0000', newColor: '#ffff00' }
+      ])
+    })
+
+    it('should search every given layer', () => {
+      const changes = findColorReplacements(layerPixels, [1, 2], [['#ff0000', '#ffff00']])
+
+      expect(changes.map(c => c.layerId)).toEqual([1, 1, 2])
+    })
+
+    it('should only replace pixels inside the bounds', () => {
+      const changes = findColorReplacements(layerPixels, [1, 2], [['#ff0000', '#ffff00']], {
+        startX: 0, startY: 0, endX: 2, endY: 2
+      })
+
+      expect(changes.map(c => `${c.x},${c.y}`)).toEqual(['0,0', '2,2'])
+    })
+
+    it('should apply several pairs at once without chaining them', () => {
+      const changes = findColorReplacements(layerPixels, [2], [['#ff0000', '#0000ff'], ['#0000ff', '#ff0000']])
+
+      expect(changes).toEqual([
+        { x: 2, y: 2, layerId: 2, previousColor: '#ff0000', newColor: '#0000ff' },
+        { x: 3, y: 3, layerId: 2, previousColor: '#0000ff', newColor: '#ff0000' }
+      ])
+    })
+
+    it('should use the first pair when a color is listed twice', () => {
+      const changes = findColorReplacements(layerPixels, [2], [['#0000ff', '#111111'], ['#0000FF', '#222222']])
+
+      expect(changes).toEqual([{ x: 3, y: 3, layerId: 2, previousColor: '#0000ff', newColor: '#111111' }])
+    })
+
+    it('should skip pixels that already have the target color', () => {
+      expect(findColorReplacements(layerPixels, [1], [['#00ff00', '#00FF00']])).toEqual([])
+    })
+
+    it('should ignore layers without pixels', () => {
+      expect(findColorReplacements(layerPixels, [99], [['#ff0000', '#ffff00']])).toEqual([])
+    })
+  })
+
+  describe('applyColorChanges', () => {
+    const changes = [{ x: 0, y: 0, previousColor: '#ff0000', newColor: '#ffff00' }]
+
+    it('should set the new colors', () => {
+      const result = applyColorChanges(layerPixels.get(1)!, changes, 1)
+
+      expect(result.get('0,0')).toEqual({ x: 0, y: 0, color: '#ffff00', layerId: 1 })
+      expect(result.get('5,5')?.color).toBe('#ff0000')
+      expect(layerPixels.get(1)!.get('0,0')?.color).toBe('#FF0000')
+    })
+
+    it('should restore the previous colors in reverse', () => {
+      const result = applyColorChanges(new Map([pixel(0, 0, '#ffff00', 1)]), changes, 1, true)
+
+      expect(result.get('0,0')?.color).toBe('#ff0000')
+    })
+
+    it('should delete pixels whose color becomes transparent', () => {
+      const result = applyColorChanges(
+        new Map([pixel(4, 4, '#ffffff', 1)]),
+        [{ x: 4, y: 4, previousColor: 'transparent', newColor: '#ffffff' }],
+        1,
+        true
+      )
+
+      expect(result.has('4,4')).toBe(false)
+    })
+  })
+})
@@ -5,7 +5,14 @@ import {
   rgbToHsv,
   createSafeGradient,
   safeFillRect,
-  getSafeColor
+  getSafeColor,
+  mixColors,
+  hexToRgb,
+  hexToRgba,
+  rgbaToHex,
+  getAlpha,
+  withAlpha,
+  blendColors
 } from '../../src/utils/colorUtils';
 
 describe('colorUtils', () => {
@@ -219,4 +226,68 @@ describe('colorUtils', () => {
       expect(getSafeColor('', '#ff0000')).toBe('#ff0000');
     });
   });
+
+  describe('mixColors', () => {
+    it('should blend two hex colors by the given amount', () => {
+      expect(mixColors('#000000', '#ffffff', 0)).toBe('#000000');
+      expect(mixColors('#000000', '#ffffff', 1)).toBe('#ffffff');
+      expect(mixColors('#ff0000', '#0000ff', 0.5)).toBe('#800080');
+    });
+
+    it('should clamp the amount and leave non-hex colors unchanged', () => {
+      expect(mixColors('#000000', '#ffffff', 2)).toBe('#ffffff');
+      expect(mixColors('red', '#ffffff', 0.5)).toBe('red');
+    });
+
+    it('should blend alpha as well', () => {
+      expect(mixColors('#00000000', '#ffffff', 0.5)).toBe('#80808080');
+    });
+  });
+
+  describe('alpha', () => {
+    it('should accept #rrggbbaa colors', () => {
+      expect(isValidHexColor('#ff000080')).toBe(true);
+      expect(isValidHexColor('#FF0000AA')).toBe(true);
+      expect(isValidHexColor('#ff00008')).toBe(false);
+      expect(isValidHexColor('#ff0000800')).toBe(false);
+    });
+
+    it('should append alpha to HSV colors only when not opaque', () => {
+      expect(hsvToRgb(0, 100, 100, 255)).toBe('#ff0000');
+      expect(hsvToRgb(0, 100, 100, 128)).toBe('#ff000080');
+      expect(hsvToRgb(0, 100, 100, 0)).toBe('#ff000000');
+    });
+
+    it('should ignore alpha when converting to HSV', () => {
+      expect(rgbToHsv('#ff000080')).toEqual({ h: 0, s: 100, v: 100 });
+    });
+
+    it('should parse and format RGBA channels', () => {
+      expect(hexToRgba('#11223344')).toEqual({ r: 0x11, g: 0x22, b: 0x33, a: 0x44 });
+      expect(hexToRgba('#112233')).toEqual({ r: 0x11, g: 0x22, b: 0x33, a: 255 });
+      expect(hexToRgba('#abc')).toEqual({ r: 0xaa, g: 0xbb, b: 0xcc, a: 255 });
+      expect(hexToRgba('transparent')).toBeNull();
+      expect(hexToRgb('#11223344')).toEqual({ r: 0x11, g: 0x22, b: 0x33 });
+      expect(rgbaToHex(255, 0, 0, 255)).toBe('#ff0000');
+      expect(rgbaToHex(255, 0, 0, 127.6)).toBe('#ff000080');
+    });
+
+    it('should read and replace the alpha of a color', () => {
+      expect(getAlpha('#ff000080')).toBe(128);
+      expect(getAlpha('#ff0000')).toBe(255);
+      expect(getAlpha('transparent')).toBe(0);
+      expect(withAlpha('#ff0000', 64)).toBe('#ff000040');
+      expect(withAlpha('#ff000040', 255)).toBe('#ff0000');
+      expect(withAlpha('transparent', 64)).toBe('transparent');
+    });
+
+    it('should composite a semi-transparent color over another', () => {
+      expect(blendColors('#ff000080', '#0000ff')).toBe('#80007f');
+      expect(blendColors('#ff000080', '#0000ff80')).toBe('#aa0055c0');
+      expect(blendColors('#ff0000', '#0000ff')).toBe('#ff0000');
+      expect(blendColors('#ff000080', 'transparent')).toBe('#ff000080');
+      expect(blendColors('transparent', '#0000ff')).toBe('#0000ff');
+      expect(blendColors('#ff000000', '#0000ff')).toBe('#0000ff');
+    });
+  });
 });
@@ -0,0 +1,66 @@
+import { DEFAULT_FILL_SETTINGS, colorDistance, findFillRegion } from '../../src/utils/fillRegion'
+import { Color, FillSettings } from '../../src/types'
+
+describe('fillRegion', () => {
+  const keys = (mask: Set<string>) => Array.from(mask).sort()
+
+  describe('colorDistance', () => {
+    it('should run from 0 for the same color to 1 for black against white', () => {
+      expect(colorDistance('#FF0000', '#ff0000', 'rgb')).toBe(0)
+      expect(colorDistance('#000000', '#ffffff', 'rgb')).toBeCloseTo(Math.sqrt(3) / 2)
+      expect(colorDistance('#000000', '#ffffff', 'perceptual')).toBeCloseTo(1)
+    })
+
+    it('should treat every fully transparent color as the same', () => {
+      expect(colorDistance('transparent', '#ff000000', 'rgb')).toBe(0)
+      expect(colorDistance('transparent', '#ff000000', 'perceptual')).toBe(0)
+      expect(colorDistance('transparent', '#ff0000', 'rgb')).toBeCloseTo(Math.SQRT1_2)
+      expect(colorDistance('transparent', '#ff0000', 'perceptual')).toBe(1)
+    })
+
+    it('should see the same step as bigger in the darks when perceptual', () => {
+      const darkStep = colorDistance('#202020', '#404040', 'perceptual')
+      const lightStep = colorDistance('#c0c0c0', '#e0e0e0', 'perceptual')
+      expect(colorDistance('#202020', '#404040', 'rgb')).toBeCloseTo(colorDistance('#c0c0c0', '#e0e0e0', 'rgb'))
+      expect(darkStep).toBeGreaterThan(lightStep)
+    })
+  })
+
+  describe('findFillRegion', () => {
+    // A 4x3 image: a red ring of slightly different reds around a dark center, with a red
+    // pixel at 3,2 that only touches the ring at a corner
+    const image: Record<string, Color> = {
+      '0,0': '#ff0000', '1,0': '#f80000', '2,0': '#ff0000',
+      '0,1': '#ff0000', '1,1': '#000000', '2,1': '#fa0000',
+      '0,2': '#000000', '1,2': '#000000', '2,2': '#000000', '3,2': '#ff0000'
+    }
+    const getColor = (x: number, y: number) => image[`${x},${y}`] ?? 'transparent'
+    const find = (settings: Partial<FillSettings>, isIncluded?: (x: number, y: number) => boolean) =>
+      keys(findFillRegion(getColor, [{ x: 0, y: 0 }], '#ff0000', 4, 3, { ...DEFAULT_FILL_SETTINGS, ...settings }, isIncluded))
+
+    it('should match only the exact color with no tolerance', () => {
+      expect(find({})).toEqual(['0,0', '0,1'])
+    })
+
+    it('should match close colors within the tolerance', () => {
+      expect(find({ tolerance: 5 })).toEqual(['0,0', '0,1', '1,0', '2,0', '2,1'])
+    })
+
+    it('should connect corners with 8-way connectivity', () => {
+      expect(find({ tolerance: 5, connectivity: 8 })).toEqual(['0,0', '0,1', '1,0', '2,0', '2,1', '3,2'])
+    })
+
+    it('should match the whole canvas when not contiguous', () => {
+      expect(find({ contiguous: false })).toEqual(['0,0', '0,1', '2,0', '3,2'])
+    })
+
+    it('should neither take nor cross pixels that are not included', () => {
+      expect(find({ tolerance: 5 }, (x) => x !== 1)).toEqual(['0,0', '0,1'])
+    })
+
+    it('should start from every start point', () => {
+      const region = findFillRegion(getColor, [{ x: 0, y: 0 }, { x: 3, y: 2 }, { x: 9, y: 9 }], '#ff0000', 4, 3, DEFAULT_FILL_SETTINGS)
+      expect(keys(region)).toEqual(['0,0', '0,1', '3,2'])
+    })
+  })
+})
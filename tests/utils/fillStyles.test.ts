@@ -0,0 +1,89 @@
+import { DEFAULT_FILL_SETTINGS } from '../../src/utils/fillRegion'
+import { createFillPainter, getBayerMatrix, getGradientAmount } from '../../src/utils/fillStyles'
+import { FillSettings, PixelData } from '../../src/types'
+
+describe('fillStyles', () => {
+  const options = {
+    primaryColor: '#000000',
+    secondaryColor: '#ffffff',
+    start: { x: 0, y: 0 },
+    end: { x: 4, y: 0 }
+  }
+  const painter = (settings: Partial<FillSettings>, overrides = {}) =>
+    createFillPainter({ ...DEFAULT_FILL_SETTINGS, ...settings }, { ...options, ...overrides })
+
+  describe('getBayerMatrix', () => {
+    it('should build the standard ordered dither matrices', () => {
+      expect(getBayerMatrix(2)).toEqual([[0, 2], [3, 1]])
+      expect(getBayerMatrix(4)).toEqual([
+        [0, 8, 2, 10],
+        [12, 4, 14, 6],
+        [3, 11, 1, 9],
+        [15, 7, 13, 5]
+      ])
+    })
+
+    it('should use every threshold once', () => {
+      const values = getBayerMatrix(8).flat().sort((a, b) => a - b)
+      expect(values).toEqual(Array.from({ length: 64 }, (_, i) => i))
+    })
+  })
+
+  describe('getGradientAmount', () => {
+    it('should run along the line from start to end and stop at both ends', () => {
+      expect(getGradientAmount(2, 5, { x: 0, y: 0 }, { x: 4, y: 0 }, 'linear')).toBe(0.5)
+      expect(getGradientAmount(-3, 0, { x: 0, y: 0 }, { x: 4, y: 0 }, 'linear')).toBe(0)
+      expect(getGradientAmount(9, 0, { x: 0, y: 0 }, { x: 4, y: 0 }, 'linear')).toBe(1)
+    })
+
+    it('should run outward from the center when radial', () => {
+      expect(getGradientAmount(0, 2, { x: 0, y: 0 }, { x: 4, y: 0 }, 'radial')).toBe(0.5)
+      expect(getGradientAmount(-4, 0, { x: 0, y: 0 }, { x: 4, y: 0 }, 'radial')).toBe(1)
+    })
+
+    it('should sit halfway when the gradient has no length', () => {
+      expect(getGradientAmount(3, 3, { x: 1, y: 1 }, { x: 1, y: 1 }, 'linear')).toBe(0.5)
+    })
+  })
+
+  describe('createFillPainter', () => {
+    it('should paint the primary color when solid', () => {
+      expect(painter({})(3, 3)).toBe('#000000')
+    })
+
+    it('should blend from the primary to the secondary color, snapped to the palette', () => {
+      const gradient = painter({ mode: 'gradient' })
+      expect(gradient(0, 0)).toBe('#000000')
+      expect(gradient(2, 0)).toBe('#808080')
+      expect(gradient(4, 0)).toBe('#ffffff')
+
+      const snapped = painter({ mode: 'gradient' }, { palette: ['#000000', '#404040', '#ffffff'] })
+      expect([0, 1, 2, 3, 4].map(x => snapped(x, 0))).toEqual(['#000000', '#404040', '#404040', '#ffffff', '#ffffff'])
+    })
+
+    it('should dither between just the two colors', () => {
+      // Halfway through a 2x2 dither is a checkerboard
+      const dither = painter({ mode: 'dither', ditherSize: 2 }, { end: { x: 0, y: 0 } })
+      expect([dither(0, 0), dither(1, 0), dither(0, 1), dither(1, 1)]).toEqual(['#ffffff', '#000000', '#000000', '#ffffff'])
+      expect(dither(2, 2)).toBe(dither(0, 0))
+
+      const ramp = painter({ mode: 'dither', ditherSize: 4 }, { end: { x: 15, y: 0 } })
+      expect(ramp(0, 0)).toBe('#000000')
+      expect(ramp(15, 3)).toBe('#ffffff')
+    })
+
+    it('should tile the pattern from where it was copied and skip its empty pixels', () => {
+      const pattern = {
+        pixels: new Map<string, PixelData>([['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1 }]]),
+        bounds: { startX: 5, startY: 5, endX: 6, endY: 5 }
+      }
+      const tiled = painter({ mode: 'pattern' }, { pattern })
+
+      expect(tiled(5, 5)).toBe('#ff0000')
+      expect(tiled(6, 5)).toBeNull()
+      expect(tiled(1, 0)).toBe('#ff0000')
+      expect(tiled(-1, 2)).toBe('#ff0000')
+      expect(painter({ mode: 'pattern' })(0, 0)).toBeNull()
+    })
+  })
+})
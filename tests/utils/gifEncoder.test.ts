@@ -0,0 +1,168 @@
+import { encodeGif, lzwEncode, quantizeColors, GifFrame } from '../../src/utils/gifEncoder'
+import { PixelData } from '../../src/types'
+
+// Minimal GIF LZW decoder used to check the encoder output round-trips
+const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number): number[] => {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let table: number[][] = []
+  const reset = () => {
+    table = []
+    for (let i = 0; i < clearCode; i++) table.push([i])
+    table.push([], [])
+    codeSize = minCodeSize + 1
+  }
+  reset()
+
+  const output: number[] = []
+  let bitPos = 0
+  let previous: number[] | null = null
+  while (output.length < pixelCount) {
+    let code = 0
+    for (let i = 0; i < codeSize; i++) {
+      const bit = (data[(bitPos + i) >> 3] >> ((bitPos + i) & 7)) & 1
+      code |= bit << i
+    }
+    bitPos += codeSize
+
+    if (code === clearCode) {
+      reset()
+      previous = null
+      continue
+    }
+    if (code === endCode) break
+
+    let entry: number[]
+    if (code < table.length) {
+      entry = table[code]
+    } else {
+      entry = [...previous!, previous![0]]
+    }
+    output.push(...entry)
+    if (previous) {
+      table.push([...previous, entry[0]])
+      if (table.length === (1 << codeSize) && codeSize < 12) codeSize++
+    }
+    previous = entry
+  }
+  return output
+}
+
+// Joins the image data sub-blocks that start at offset
+const readSubBlocks = (bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } => {
+  const chunks: number[] = []
+  let position = offset
+  while (bytes[position] !== 0) {
+    const size = bytes[position]
+    chunks.push(...bytes.subarray(position + 1, position + 1 + size))
+    position += size + 1
+  }
+  return { data: new Uint8Array(chunks), end: position + 1 }
+}
+
+describe('gifEncoder', () => {
+  const createPixels = (entries: Array<[number, number, string]>): Map<string, PixelData> =>
+    new Map(entries.map(([x, y, color]) => [`${x},${y}`, { x, y, color, layerId: 1 }]))
+
+  describe('lzwEncode', () => {
+    it('should round-trip a short run of indices', () => {
+      const indices = new Uint8Array([0, 1, 1, 1, 2, 2, 3, 0, 1, 1, 1, 2])
+      const decoded = lzwDecode(lzwEncode(indices, 2), 2, indices.length)
+      expect(decoded).toEqual(Array.from(indices))
+    })
+
+    it('should round-trip data long enough to fill the code table', () => {
+      const indices = new Uint8Array(20000)
+      let seed = 7
+      for (let i = 0; i < indices.length; i++) {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff
+        indices[i] = seed % 200
+      }
+
+      const decoded = lzwDecode(lzwEncode(indices, 8), 8, indices.length)
+      expect(decoded).toEqual(Array.from(indices))
+    })
+  })
+
+  describe('quantizeColors', () => {
+    it('should keep palettes that already fit', () => {
+      const colors = new Map([
+        ['#ff0000', { rgb: [255, 0, 0] as [number, number, number], count: 1 }],
+        ['#00ff00', { rgb: [0, 255, 0] as [number, number, number], count: 1 }]
+      ])
+      expect(quantizeColors(colors, 255)).toEqual([[255, 0, 0], [0, 255, 0]])
+    })
+
+    it('should reduce large palettes to the limit', () => {
+      const colors = new Map<string, { rgb: [number, number, number]; count: number }>()
+      for (let i = 0; i < 300; i++) {
+        colors.set(`c${i}`, { rgb: [i % 256, (i * 7) % 256, (i * 13) % 256], count: 1 })
+      }
+      expect(quantizeColors(colors, 255)).toHaveLength(255)
+    })
+  })
+
+  describe('encodeGif', () => {
+    const frames: GifFrame[] = [
+      { pixels: createPixels([[0, 0, '#ff0000'], [1, 1, '#0000ff']]), delay: 100 },
+      { pixels: createPixels([[1, 0, '#00ff00']]), delay: 250 }
+    ]
+
+    it('should write a GIF89a header and logical screen size', () => {
+      const bytes = encodeGif(frames, 2, 2)
+
+      expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a')
+      expect(bytes[6] | (bytes[7] << 8)).toBe(2)
+      expect(bytes[8] | (bytes[9] << 8)).toBe(2)
+      expect(bytes[bytes.length - 1]).toBe(0x3b)
+    })
+
+    it('should apply the scale to the image size', () => {
+      const bytes = encodeGif(frames, 2, 2, { scale: 4 })
+      expect(bytes[6] | (bytes[7] << 8)).toBe(8)
+    })
+
+    it('should write the loop count and per-frame delays', () => {
+      const bytes = Array.from(encodeGif(frames, 2, 2, { loop: 3 }))
+      const text = String.fromCharCode(...bytes)
+
+      const netscape = text.indexOf('NETSCAPE2.0')
+      expect(netscape).toBeGreaterThan(0)
+      expect(bytes[netscape + 13] | (bytes[netscape + 14] << 8)).toBe(3)
+
+      const delays: number[] = []
+      bytes.forEach((byte, i) => {
+        if (byte === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 0x04) {
+          expect(bytes[i + 3] & 0x01).toBe(1) // Transparency flag
+          delays.push(bytes[i + 4] | (bytes[i + 5] << 8))
+        }
+      })
+      expect(delays).toEqual([10, 25])
+    })
+
+    it('should encode pixels as palette indices with transparency at index 0', () => {
+      const bytes = encodeGif([frames[0]], 2, 2)
+
+      // Header (13) + 4-entry color table (12); a single frame has no loop extension
+      const palette = Array.from(bytes.subarray(13, 25))
+      expect(palette).toEqual([0, 0, 0, 255, 0, 0, 0, 0, 255, 0, 0, 0])
+
+      // Graphic control extension (8) + image descriptor (10), then the LZW minimum code size
+      const imageData = 25 + 8 + 10
+      const { data } = readSubBlocks(bytes, imageData + 1)
+      expect(lzwDecode(data, bytes[imageData], 4)).toEqual([1, 0, 0, 2])
+    })
+
+    it('should drop mostly transparent pixels and make the rest opaque', () => {
+      const bytes = encodeGif([{ pixels: createPixels([[0, 0, '#ff000080'], [1, 0, '#0000ff7f']]), delay: 100 }], 2, 1)
+
+      // Header (13) + 2-entry color table (6): only the kept color is in the palette
+      expect(Array.from(bytes.subarray(13, 19))).toEqual([0, 0, 0, 255, 0, 0])
+
+      const imageData = 19 + 8 + 10
+      const { data } = readSubBlocks(bytes, imageData + 1)
+      expect(lzwDecode(data, bytes[imageData], 2)).toEqual([1, 0])
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import {
+  HISTORY_KEYFRAME_INTERVAL,
+  estimateOperationBytes,
+  applyOperationToFrame,
+  createHistoryKeyframe,
+  rebuildHistoryStates,
+  dropOldestOperations
+} from '../../src/utils/historyDiff'
+import { Layer, LayerPixels, PixelData, StrokeOperation } from '../../src/types'
+
+describe('historyDiff', () => {
+  const layers: Layer[] = [
+    { id: 1, name: 'Background', visible: true, active: false },
+    { id: 2, name: 'Ink', visible: true, active: true }
+  ]
+
+  const buffer = (...pixels: Array<[number, number, string, number]>): Map<string, PixelData> =>
+    new Map(pixels.map(([x, y, color, layerId]) => [`${x},${y}`, { x, y, color, layerId }]))
+
+  const draw = (id: string, layerId: number, x: number, color: string, frameId = 1): StrokeOperation => ({
+    id,
+    tool: 'pencil',
+    layerId,
+    frameId,
+    pixels: [{ x, y: 0, previousColor: 'transparent', newColor: color }],
+    timestamp: 0
+  })
+
+  describe('estimateOperationBytes', () => {
+    it('should grow with the diff and with kept pixel buffers', () => {
+      const small = draw('a', 1, 0, '#ff0000')
+      const keyframed = { ...small, keyframe: { layers, groups: [], pixels: new Map([[1, buffer([0, 0, '#ff0000', 1], [1, 0, '#ff0000', 1])]]) } }
+
+      expect(estimateOperationBytes(small)).toBeGreaterThan(0)
+      expect(estimateOperationBytes(keyframed)).toBeGreaterThan(estimateOperationBytes(small))
+    })
+
+    it('should count buffers already counted only once', () => {
+      const shared = buffer([0, 0, '#ff0000', 1], [1, 0, '#ff0000', 1])
+      const small = draw('a', 1, 0, '#ff0000')
+      const keyframed = { ...small, keyframe: { layers, groups: [], pixels: new Map([[1, shared]]) } }
+      const counted = new WeakSet<object>()
+
+      expect(estimateOperationBytes(keyframed, counted)).toBeGreaterThan(estimateOperationBytes(small))
+      expect(estimateOperationBytes({ ...keyframed, id: 'b' }, counted)).toBe(estimateOperationBytes(small))
+    })
+  })
+
+  describe('applyOperationToFrame', () => {
+    it('should apply the diff to the layer it belongs to and share the other buffers', () => {
+      const background = buffer([0, 0, '#000000', 1])
+      const state = { layers, groups: [], pixels: new Map([[1, background]]) as LayerPixels }
+
+      const after = applyOperationToFrame(state, draw('a', 2, 3, '#ff0000'))
+
+      expect(after.pixels.get(2)!.get('3,0')?.color).toBe('#ff0000')
+      expect(after.pixels.get(1)).toBe(background)
+      expect(state.pixels.has(2)).toBe(false)
+    })
+
+    it('should add layers it does not know about on top', () => {
+      const after = applyOperationToFrame({ layers, groups: [], pixels: new Map() }, draw('a', 9, 0, '#00ff00'))
+      expect(after.layers.map(l => l.id)).toEqual([1, 2, 9])
+    })
+
+    it('should put back the buffers and layers of a layer change', () => {
+      const kept = buffer([1, 1, '#0000ff', 2])
+      const deletion: StrokeOperation = {
+        id: 'delete',
+        tool: 'layer',
+        layerId: 2,
+        frameId: 1,
+        pixels: [],
+        timestamp: 0,
+        metadata: {
+          layerChange: {
+            action: 'delete',
+            layersBefore: layers,
+            layersAfter: [layers[0]],
+            layerIds: [2],
+            pixelsBefore: new Map([[1, new Map([[2, kept]])]]),
+            pixelsAfter: new Map()
+          }
+        }
+      }
+
+      const after = applyOperationToFrame({ layers, groups: [], pixels: new Map([[2, kept]]) }, deletion)
+
+      expect(after.layers).toEqual([layers[0]])
+      expect(after.pixels.has(2)).toBe(false)
+    })
+  })
+
+  describe('createHistoryKeyframe', () => {
+    it('should hold the frame after the operation whether or not it was already applied', () => {
+      const operation = draw('a', 2, 0, '#ff0000')
+      const before: LayerPixels = new Map()
+      const after: LayerPixels = new Map([[2, buffer([0, 0, '#ff0000', 2])]])
+
+      expect(createHistoryKeyframe(layers, [], before, operation).pixels).toEqual(after)
+      expect(createHistoryKeyframe(layers, [], after, operation).pixels).toEqual(after)
+    })
+  })
+
+  describe('rebuildHistoryStates', () => {
+    it('should replay the diffs after the nearest keyframe', () => {
+      const base = draw('a', 1, 0, '#ff0000')
+      const operations = [
+        { ...base, keyframe: createHistoryKeyframe(layers, [], new Map([[1, buffer([5, 5, '#ffffff', 1])]]), base) },
+        draw('b', 2, 1, '#00ff00'),
+        draw('c', 2, 2, '#0000ff')
+      ]
+
+      const states = rebuildHistoryStates(operations, [2])
+      const state = states.get(2)!
+
+      expect(state.pixels.get(1)!.get('5,5')?.color).toBe('#ffffff')
+      expect(state.pixels.get(1)!.get('0,0')?.color).toBe('#ff0000')
+      expect(state.pixels.get(2)!.size).toBe(2)
+      expect(states.has(0)).toBe(false)
+    })
+
+    it('should keep frames apart', () => {
+      const operations = [draw('a', 1, 0, '#ff0000', 1), draw('b', 1, 1, '#00ff00', 2), draw('c', 1, 2, '#0000ff', 1)]
+
+      const states = rebuildHistoryStates(operations, [1, 2])
+
+      expect(Array.from(states.get(1)!.pixels.get(1)!.keys())).toEqual(['1,0'])
+      expect(Array.from(states.get(2)!.pixels.get(1)!.keys())).toEqual(['0,0', '2,0'])
+    })
+
+    it('should apply layer changes made on one frame to the others', () => {
+      const copy = buffer([0, 0, '#ff0000', 3])
+      const duplicate: StrokeOperation = {
+        ...draw('dup', 1, 0, '#ff0000', 1),
+        tool: 'layer',
+        pixels: [],
+        metadata: {
+          layerChange: {
+            action: 'duplicate',
+            layersBefore: layers,
+            layersAfter: [...layers, { id: 3, name: 'Background copy', visible: true, active: true }],
+            layerIds: [3],
+            pixelsBefore: new Map(),
+            pixelsAfter: new Map([[2, new Map([[3, copy]])]])
+          }
+        }
+      }
+      const operations = [draw('a', 1, 0, '#ff0000', 2), duplicate, draw('b', 2, 1, '#00ff00', 2)]
+
+      const state = rebuildHistoryStates(operations, [2]).get(2)!
+
+      expect(state.layers.map(l => l.id)).toEqual([1, 2, 3])
+      expect(state.pixels.get(3)).toBe(copy)
+      expect(state.pixels.get(2)!.get('1,0')?.color).toBe('#00ff00')
+    })
+
+    it('should not replay operations before the keyframe', () => {
+      const operations = Array.from({ length: HISTORY_KEYFRAME_INTERVAL }, (_, i) => draw(`op${i}`, 1, i, '#ff0000'))
+      const last = operations.length - 1
+      operations[last] = { ...operations[last], keyframe: { layers, groups: [], pixels: new Map() } }
+
+      expect(rebuildHistoryStates(operations, [last]).get(last)!.pixels.size).toBe(0)
+    })
+  })
+
+  describe('dropOldestOperations', () => {
+    it('should move a dropped keyframe to the next operation of its frame', () => {
+      const base = draw('a', 1, 0, '#ff0000')
+      const operations = [
+        { ...base, keyframe: createHistoryKeyframe(layers, [], new Map([[1, buffer([5, 5, '#ffffff', 1])]]), base) },
+        draw('b', 1, 1, '#00ff00', 2),
+        draw('c', 2, 2, '#0000ff'),
+        draw('d', 2, 3, '#0000ff')
+      ]
+
+      const kept = dropOldestOperations(operations, 1)
+      const keyframe = kept[1].keyframe!
+
+      expect(kept).toHaveLength(3)
+      expect(keyframe.pixels.get(1)!.get('5,5')?.color).toBe('#ffffff')
+      expect(keyframe.pixels.get(1)!.get('0,0')?.color).toBe('#ff0000')
+      expect(keyframe.pixels.get(2)!.get('2,0')?.color).toBe('#0000ff')
+      // Frame 2 lost no keyframe and the rest of frame 1 replays from the new one
+      expect(kept[0]).toBe(operations[1])
+      expect(kept[2]).toBe(operations[3])
+      expect(rebuildHistoryStates(kept, [2]).get(2)).toEqual(rebuildHistoryStates(operations, [3]).get(3))
+    })
+  })
+})
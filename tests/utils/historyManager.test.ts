@@ -200,6 +200,125 @@ describe('HistoryManager', () => {
     })
   })
 
+  describe('restore', () => {
+    it('should replace both stacks', () => {
+      historyManager.pushOperation(createMockOperation('pencil', 1, 1))
+      const undoStack = [createMockOperation('fill', 1, 2)]
+      const redoStack = [createMockOperation('eraser', 1, 3)]
+
+      historyManager.restore(undoStack, redoStack)
+
+      expect(historyManager.getState().undoStack).toEqual(undoStack)
+      expect(historyManager.getState().redoStack).toEqual(redoStack)
+      expect(historyManager.undo()).toBe(undoStack[0])
+    })
+
+    it('should keep only the most recent operations that fit', () => {
+      const undoStack = Array.from({ length: 7 }, (_, i) => createMockOperation('pencil', 1, i + 1))
+
+      historyManager.restore(undoStack, [])
+
+      expect(historyManager.getState().undoStack).toEqual(undoStack.slice(2))
+    })
+  })
+
+  describe('memory budget', () => {
+    it('should drop the oldest operations once the history is over budget', () => {
+      const manager = new HistoryManager(Infinity, 0)
+      const first = createMockOperation('pencil', 1, 10)
+      const second = createMockOperation('pencil', 1, 10)
+
+      manager.pushOperation(first)
+      manager.pushOperation(second)
+
+      // The latest operation is kept even when it alone is over budget
+      expect(manager.getState().undoStack).toEqual([second])
+      expect(manager.getState().maxHistoryBytes).toBe(0)
+    })
+
+    it('should count both stacks', () => {
+      const operation = createMockOperation('pencil', 1, 10)
+      historyManager.pushOperation(operation)
+      const bytes = historyManager.getHistoryBytes()
+
+      historyManager.undo()
+
+      expect(bytes).toBeGreaterThan(0)
+      expect(historyManager.getHistoryBytes()).toBe(bytes)
+    })
+
+    it('should count a buffer shared between operations once and drop only what frees enough', () => {
+      const shared = new Map(Array.from({ length: 1000 }, (_, i) => [`${i},0`, { x: i, y: 0, color: '#ff0000', layerId: 1 }]))
+      const keyframed = () => ({ ...createMockOperation('pencil', 1, 1), frameId: 1, keyframe: { layers: [], groups: [], pixels: new Map([[1, shared]]) } })
+      const measure = new HistoryManager(Infinity)
+      measure.pushOperation(keyframed())
+      const single = measure.getHistoryBytes()
+      measure.pushOperation(keyframed())
+      expect(measure.getHistoryBytes()).toBeLessThan(single * 1.5)
+
+      // The budget holds the shared buffer once, so nothing is dropped
+      const manager = new HistoryManager(Infinity, single * 1.5)
+      manager.pushOperation(keyframed())
+      manager.pushOperation(keyframed())
+      manager.pushOperation(createMockOperation('pencil', 1, 1))
+      expect(manager.getUndoCount()).toBe(3)
+    })
+  })
+
+  describe('needsKeyframe', () => {
+    it('should ask for a keyframe on the first operation of each frame and then periodically', () => {
+      const manager = new HistoryManager(Infinity)
+      expect(manager.needsKeyframe(1)).toBe(true)
+
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 1, keyframe: { layers: [], groups: [], pixels: new Map() } })
+      expect(manager.needsKeyframe(1)).toBe(false)
+      expect(manager.needsKeyframe(2)).toBe(true)
+
+      for (let i = 0; i < 23; i++) {
+        manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 1 })
+      }
+      expect(manager.needsKeyframe(1)).toBe(false)
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 1 })
+      expect(manager.needsKeyframe(1)).toBe(true)
+    })
+  })
+
+  describe('trimming', () => {
+    it('should move a dropped keyframe to the next operation of its frame', () => {
+      const manager = new HistoryManager(2)
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 1, keyframe: { layers: [], groups: [], pixels: new Map() } })
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 2), frameId: 1 })
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 1 })
+
+      const [first, second] = manager.getState().undoStack
+      expect(first.keyframe?.pixels.get(1)?.size).toBe(2)
+      expect(second.keyframe).toBeUndefined()
+      expect(manager.needsKeyframe(1)).toBe(false)
+    })
+  })
+
+  describe('removeFrameOperations', () => {
+    it('should drop operations of deleted frames from both stacks but keep layer changes', () => {
+      const manager = new HistoryManager(Infinity)
+      const layerChange = {
+        ...createMockOperation('layer', 1, 0),
+        frameId: 2,
+        metadata: { layerChange: { action: 'add' as const, layersBefore: [], layersAfter: [], layerIds: [], pixelsBefore: new Map(), pixelsAfter: new Map() } }
+      }
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 1 })
+      manager.pushOperation({ ...createMockOperation('pencil', 1, 1), frameId: 2 })
+      manager.pushOperation(layerChange)
+      manager.pushOperation({ ...createMockOperation('fill', 1, 1), frameId: 2 })
+      manager.undo()
+
+      expect(manager.removeFrameOperations(new Set([1]))).toBe(true)
+      expect(manager.getState().undoStack.map(op => op.frameId)).toEqual([1, 2])
+      expect(manager.getState().undoStack[1]).toBe(layerChange)
+      expect(manager.canRedo()).toBe(false)
+      expect(manager.removeFrameOperations(new Set([1]))).toBe(false)
+    })
+  })
+
   describe('getState', () => {
     it('should return a copy of the current state', () => {
       const operation = createMockOperation('pencil', 1, 2)
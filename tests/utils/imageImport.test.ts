@@ -0,0 +1,94 @@
+import { imageToPixels, nearestPaletteColor, RgbaImage } from '../../src/utils/imageImport'
+
+describe('imageImport', () => {
+  // Builds an RGBA image from rows of [r, g, b, a] tuples
+  const createImage = (rows: number[][][]): RgbaImage => ({
+    width: rows[0].length,
+    height: rows.length,
+    data: rows.flat(2)
+  })
+
+  const RED = [255, 0, 0, 255]
+  const BLUE = [0, 0, 255, 255]
+  const CLEAR = [0, 0, 0, 0]
+
+  describe('nearestPaletteColor', () => {
+    it('should pick the closest palette color', () => {
+      expect(nearestPaletteColor(250, 10, 10, ['#000000', '#ff0000', '#ffffff'])).toBe('#ff0000')
+      expect(nearestPaletteColor(200, 200, 200, ['#000000', '#ff0000', '#ffffff'])).toBe('#ffffff')
+    })
+
+    it('should return null for an empty palette', () => {
+      expect(nearestPaletteColor(0, 0, 0, [])).toBeNull()
+    })
+  })
+
+  describe('imageToPixels', () => {
+    it('should keep a same-size image pixel for pixel', () => {
+      const image = createImage([[RED, BLUE], [BLUE, RED]])
+      const pixels = imageToPixels(image, 2, 2, 7, { placement: 'center', alphaThreshold: 128 })
+
+      expect(pixels.size).toBe(4)
+      expect(pixels.get('0,0')).toEqual({ x: 0, y: 0, color: '#ff0000', layerId: 7 })
+      expect(pixels.get('1,0')?.color).toBe('#0000ff')
+    })
+
+    it('should map pixels below the alpha threshold to transparent', () => {
+      const image = createImage([[RED, [0, 255, 0, 100]], [CLEAR, BLUE]])
+      const pixels = imageToPixels(image, 2, 2, 1, { placement: 'center', alphaThreshold: 128 })
+
+      expect(pixels.has('1,0')).toBe(false)
+      expect(pixels.has('0,1')).toBe(false)
+      expect(pixels.size).toBe(2)
+    })
+
+    it('should scale an image up to fit the canvas with nearest-neighbour sampling', () => {
+      const image = createImage([[RED, BLUE]])
+      const pixels = imageToPixels(image, 4, 4, 1, { placement: 'fit', alphaThreshold: 1 })
+
+      // 2x1 scales to 4x2, centered vertically
+      expect(pixels.size).toBe(8)
+      expect(pixels.has('0,0')).toBe(false)
+      expect(pixels.get('0,1')?.color).toBe('#ff0000')
+      expect(pixels.get('1,2')?.color).toBe('#ff0000')
+      expect(pixels.get('2,1')?.color).toBe('#0000ff')
+      expect(pixels.get('3,2')?.color).toBe('#0000ff')
+    })
+
+    it('should scale to cover the canvas and crop the overflow when filling', () => {
+      const image = createImage([[RED, BLUE, RED, BLUE]])
+      const pixels = imageToPixels(image, 2, 2, 1, { placement: 'fill', alphaThreshold: 1 })
+
+      // 4x1 scales to 8x2; only the middle two source columns land on the canvas
+      expect(pixels.size).toBe(4)
+      expect(pixels.get('0,0')?.color).toBe('#0000ff')
+      expect(pixels.get('1,0')?.color).toBe('#ff0000')
+      expect(pixels.get('1,1')?.color).toBe('#ff0000')
+    })
+
+    it('should center a larger image without scaling and crop it', () => {
+      const image = createImage([
+        [RED, RED, RED, RED],
+        [RED, BLUE, BLUE, RED],
+        [RED, BLUE, BLUE, RED],
+        [RED, RED, RED, RED]
+      ])
+      const pixels = imageToPixels(image, 2, 2, 1, { placement: 'center', alphaThreshold: 1 })
+
+      expect(Array.from(pixels.values()).every(pixel => pixel.color === '#0000ff')).toBe(true)
+      expect(pixels.size).toBe(4)
+    })
+
+    it('should snap colors to the palette when one is given', () => {
+      const image = createImage([[[240, 20, 20, 255], [10, 10, 200, 255]]])
+      const pixels = imageToPixels(image, 2, 2, 1, {
+        placement: 'center',
+        alphaThreshold: 1,
+        palette: ['#ff0000', '#000080']
+      })
+
+      expect(pixels.get('0,0')?.color).toBe('#ff0000')
+      expect(pixels.get('1,0')?.color).toBe('#000080')
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import {
+  applyPaletteToFramePixels,
+  applyPaletteToPixels,
+  bindPixelsToPalette,
+  clearPaletteIndices,
+  nearestPaletteIndex
+} from '../../src/utils/indexedColor'
+import { FramePixels, PixelData } from '../../src/types'
+
+describe('indexedColor', () => {
+  const palette = ['#000000', '#ff0000', '#00ff00', '#0000ff']
+
+  const pixel = (x: number, y: number, color: string, paletteIndex?: number): PixelData =>
+    paletteIndex === undefined ? { x, y, color, layerId: 1 } : { x, y, color, layerId: 1, paletteIndex }
+
+  const createPixels = (...pixels: PixelData[]) =>
+    new Map(pixels.map(p => [`${p.x},${p.y}`, p] as [string, PixelData]))
+
+  describe('nearestPaletteIndex', () => {
+    it('should find the closest entry', () => {
+      expect(nearestPaletteIndex(250, 10, 10, palette)).toBe(1)
+      expect(nearestPaletteIndex(10, 10, 10, palette)).toBe(0)
+    })
+
+    it('should return -1 for an unusable palette', () => {
+      expect(nearestPaletteIndex(0, 0, 0, [])).toBe(-1)
+      expect(nearestPaletteIndex(0, 0, 0, ['transparent'])).toBe(-1)
+    })
+  })
+
+  describe('bindPixelsToPalette', () => {
+    it('should snap off-palette colors to the nearest entry and store the index', () => {
+      const result = bindPixelsToPalette(createPixels(pixel(0, 0, '#ee1111'), pixel(1, 0, '#00FF00')), palette)
+
+      expect(result.get('0,0')).toEqual(pixel(0, 0, '#ff0000', 1))
+      expect(result.get('1,0')).toEqual(pixel(1, 0, '#00ff00', 2))
+    })
+
+    it('should leave transparent pixels alone', () => {
+      const pixels = createPixels(pixel(0, 0, 'transparent'))
+      expect(bindPixelsToPalette(pixels, palette)).toBe(pixels)
+    })
+
+    it('should return the same map when every pixel is already bound', () => {
+      const pixels = createPixels(pixel(0, 0, '#0000ff', 3))
+      expect(bindPixelsToPalette(pixels, palette)).toBe(pixels)
+    })
+
+    it('should follow the color when a tool changed it under an old index', () => {
+      const result = bindPixelsToPalette(createPixels(pixel(0, 0, '#0000ff', 1)), palette)
+      expect(result.get('0,0')?.paletteIndex).toBe(3)
+    })
+  })
+
+  describe('applyPaletteToPixels', () => {
+    it('should recolor pixels from their index', () => {
+      const edited = ['#000000', '#ffff00', '#00ff00', '#0000ff']
+      const result = applyPaletteToPixels(createPixels(pixel(0, 0, '#ff0000', 1), pixel(1, 0, '#000000', 0)), edited)
+
+      expect(result.get('0,0')).toEqual(pixel(0, 0, '#ffff00', 1))
+      expect(result.get('1,0')).toEqual(pixel(1, 0, '#000000', 0))
+    })
+
+    it('should snap pixels without a valid index by color', () => {
+      const result = applyPaletteToPixels(createPixels(pixel(0, 0, '#0000fe'), pixel(1, 0, '#ff0000', 9)), palette)
+
+      expect(result.get('0,0')).toEqual(pixel(0, 0, '#0000ff', 3))
+      expect(result.get('1,0')).toEqual(pixel(1, 0, '#ff0000', 1))
+    })
+  })
+
+  describe('frame helpers', () => {
+    it('should recolor every layer of every frame', () => {
+      const framePixels: FramePixels = new Map([
+        [1, new Map([[1, createPixels(pixel(0, 0, '#ff0000', 1))], [2, createPixels(pixel(0, 0, '#000000', 0))]])],
+        [2, new Map([[1, createPixels(pixel(3, 3, '#ff0000', 1))]])]
+      ])
+      const edited = ['#000000', '#ffffff', '#00ff00', '#0000ff']
+
+      const result = applyPaletteToFramePixels(framePixels, edited)
+
+      expect(result.get(1)?.get(1)?.get('0,0')?.color).toBe('#ffffff')
+      expect(result.get(2)?.get(1)?.get('3,3')?.color).toBe('#ffffff')
+      // Untouched buffers are reused
+      expect(result.get(1)?.get(2)).toBe(framePixels.get(1)?.get(2))
+    })
+
+    it('should return the same frames when nothing changes', () => {
+      const framePixels: FramePixels = new Map([[1, new Map([[1, createPixels(pixel(0, 0, '#ff0000', 1))]])]])
+      expect(applyPaletteToFramePixels(framePixels, palette)).toBe(framePixels)
+    })
+
+    it('should drop palette indices but keep colors', () => {
+      const framePixels: FramePixels = new Map([[1, new Map([[1, createPixels(pixel(0, 0, '#ff0000', 1))]])]])
+
+      const result = clearPaletteIndices(framePixels)
+
+      expect(result.get(1)?.get(1)?.get('0,0')).toEqual(pixel(0, 0, '#ff0000'))
+      expect(clearPaletteIndices(result)).toBe(result)
+    })
+  })
+})
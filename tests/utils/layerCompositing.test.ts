@@ -0,0 +1,126 @@
+import { compositeLayers, getCompositeColorAt, getLayerPixels } from '../../src/utils/layerCompositing'
+import { Layer, LayerPixels, PixelData } from '../../src/types'
+
+describe('layerCompositing', () => {
+  const createLayer = (id: number, visible: boolean = true): Layer => ({
+    id,
+    name: `Layer ${id}`,
+    visible,
+    active: false
+  })
+
+  const createBuffer = (layerId: number, entries: Array<[number, number, string]>): Map<string, PixelData> => {
+    const buffer = new Map<string, PixelData>()
+    entries.forEach(([x, y, color]) => {
+      buffer.set(`${x},${y}`, { x, y, color, layerId })
+    })
+    return buffer
+  }
+
+  let layerPixels: LayerPixels
+
+  beforeEach(() => {
+    layerPixels = new Map([
+      [1, createBuffer(1, [[0, 0, '#ff0000'], [1, 0, '#ff0000']])],
+      [2, createBuffer(2, [[0, 0, '#0000ff'], [2, 0, '#0000ff']])]
+    ])
+  })
+
+  describe('getLayerPixels', () => {
+    it('should return the buffer for an existing layer', () => {
+      expect(getLayerPixels(layerPixels, 1).size).toBe(2)
+    })
+
+    it('should return an empty buffer for an unknown layer', () => {
+      expect(getLayerPixels(layerPixels, 99).size).toBe(0)
+      expect(getLayerPixels(undefined, 1).size).toBe(0)
+    })
+  })
+
+  describe('compositeLayers', () => {
+    it('should let upper layers cover lower layers', () => {
+      const composite = compositeLayers([createLayer(1), createLayer(2)], layerPixels)
+
+      expect(composite.get('0,0')?.color).toBe('#0000ff')
+      expect(composite.get('1,0')?.color).toBe('#ff0000')
+      expect(composite.get('2,0')?.color).toBe('#0000ff')
+    })
+
+    it('should respect layer order', () => {
+      const composite = compositeLayers([createLayer(2), createLayer(1)], layerPixels)
+
+      expect(composite.get('0,0')?.color).toBe('#ff0000')
+    })
+
+    it('should reveal lower layers when an upper layer is hidden', () => {
+      const composite = compositeLayers([createLayer(1), createLayer(2, false)], layerPixels)
+
+      expect(composite.get('0,0')?.color).toBe('#ff0000')
+      expect(composite.has('2,0')).toBe(false)
+    })
+
+    it('should not modify the layer buffers', () => {
+      compositeLayers([createLayer(1), createLayer(2)], layerPixels)
+
+      expect(layerPixels.get(1)?.get('0,0')?.color).toBe('#ff0000')
+      expect(layerPixels.get(2)?.get('0,0')?.color).toBe('#0000ff')
+    })
+
+    it('should blend semi-transparent pixels with the layers below', () => {
+      layerPixels.set(3, createBuffer(3, [[0, 0, '#ffffff80'], [3, 0, '#ffffff80']]))
+      const composite = compositeLayers([createLayer(1), createLayer(2), createLayer(3)], layerPixels)
+
+      expect(composite.get('0,0')).toEqual({ x: 0, y: 0, color: '#8080ff', layerId: 3 })
+      expect(composite.get('3,0')?.color).toBe('#ffffff80')
+      expect(layerPixels.get(3)!.get('0,0')?.color).toBe('#ffffff80')
+    })
+
+    it('should apply layer opacity and blend modes', () => {
+      const layers = [createLayer(1), { ...createLayer(2), blendMode: 'screen' as const, opacity: 50 }]
+      const composite = compositeLayers(layers, layerPixels)
+
+      // Screen of blue over red is magenta, mixed halfway back to red
+      expect(composite.get('0,0')?.color).toBe('#ff0080')
+      // Nothing to blend with: only the opacity applies
+      expect(composite.get('2,0')?.color).toBe('#0000ff80')
+      expect(composite.get('1,0')?.color).toBe('#ff0000')
+    })
+
+    it('should skip fully transparent layers', () => {
+      const composite = compositeLayers([createLayer(1), { ...createLayer(2), opacity: 0 }], layerPixels)
+
+      expect(composite.get('0,0')?.color).toBe('#ff0000')
+      expect(composite.has('2,0')).toBe(false)
+    })
+
+    it('should handle missing buffers', () => {
+      expect(compositeLayers([createLayer(3)], layerPixels).size).toBe(0)
+      expect(compositeLayers([createLayer(1)], undefined).size).toBe(0)
+    })
+  })
+
+  describe('getCompositeColorAt', () => {
+    it('should return the top-most visible color', () => {
+      expect(getCompositeColorAt([createLayer(1), createLayer(2)], layerPixels, 0, 0)).toBe('#0000ff')
+      expect(getCompositeColorAt([createLayer(1), createLayer(2, false)], layerPixels, 0, 0)).toBe('#ff0000')
+    })
+
+    it('should blend semi-transparent pixels and keep the alpha of what remains', () => {
+      layerPixels.set(3, createBuffer(3, [[0, 0, '#ffffff80'], [5, 5, '#ffffff80']]))
+      const layers = [createLayer(1), createLayer(2), createLayer(3)]
+
+      expect(getCompositeColorAt(layers, layerPixels, 0, 0)).toBe('#8080ff')
+      expect(getCompositeColorAt(layers, layerPixels, 5, 5)).toBe('#ffffff80')
+    })
+
+    it('should respect layer blend modes', () => {
+      const layers = [createLayer(1), { ...createLayer(2), blendMode: 'multiply' as const }]
+      expect(getCompositeColorAt(layers, layerPixels, 0, 0)).toBe('#000000')
+    })
+
+    it('should return transparent where no visible layer has a pixel', () => {
+      expect(getCompositeColorAt([createLayer(1), createLayer(2)], layerPixels, 5, 5)).toBe('transparent')
+      expect(getCompositeColorAt([createLayer(1, false)], layerPixels, 1, 0)).toBe('transparent')
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import {
+  getGroupPath,
+  resolveLayerGroups,
+  buildLayerTree,
+  moveLayerToGroup,
+  groupLayer,
+  ungroupLayers,
+  setGroupVisible,
+  setGroupOpacity
+} from '../../src/utils/layerGroups'
+import { Layer, LayerGroup } from '../../src/types'
+
+describe('layerGroups', () => {
+  // Body at the bottom, then armor parts (with a nested trim group), then a top level effect layer
+  const groups: LayerGroup[] = [
+    { id: 100, name: 'Armor', visible: true, collapsed: false, opacity: 50 },
+    { id: 101, name: 'Trim', visible: true, collapsed: false, opacity: 50, parentId: 100 }
+  ]
+
+  const layers: Layer[] = [
+    { id: 1, name: 'Body', visible: true, active: false },
+    { id: 2, name: 'Plate', visible: true, active: false, groupId: 100 },
+    { id: 3, name: 'Gold', visible: true, active: true, groupId: 101, opacity: 80 },
+    { id: 4, name: 'Glow', visible: true, active: false }
+  ]
+
+  describe('getGroupPath', () => {
+    it('should list the groups from the outermost one', () => {
+      expect(getGroupPath(groups, 101).map(g => g.id)).toEqual([100, 101])
+      expect(getGroupPath(groups, undefined)).toEqual([])
+      expect(getGroupPath(groups, 999)).toEqual([])
+    })
+
+    it('should stop at groups nested in themselves', () => {
+      const cyclic: LayerGroup[] = [
+        { id: 1, name: 'A', visible: true, collapsed: false, parentId: 2 },
+        { id: 2, name: 'B', visible: true, collapsed: false, parentId: 1 }
+      ]
+      expect(getGroupPath(cyclic, 1).map(g => g.id)).toEqual([2, 1])
+    })
+  })
+
+  describe('resolveLayerGroups', () => {
+    it('should multiply group opacities into the layer opacity', () => {
+      const resolved = resolveLayerGroups(layers, groups)
+
+      expect(resolved[0]).toBe(layers[0])
+      expect(resolved[1].opacity).toBe(50)
+      expect(resolved[2].opacity).toBe(20)
+      expect(resolved[3]).toBe(layers[3])
+    })
+
+    it('should hide the layers of hidden groups', () => {
+      const hidden = groups.map(g => g.id === 100 ? { ...g, visible: false } : g)
+      expect(resolveLayerGroups(layers, hidden).map(l => l.visible)).toEqual([true, false, false, true])
+    })
+
+    it('should return the same layers when nothing is grouped', () => {
+      expect(resolveLayerGroups(layers, [])).toBe(layers)
+      expect(resolveLayerGroups(layers, undefined)).toBe(layers)
+    })
+  })
+
+  describe('buildLayerTree', () => {
+    it('should nest consecutive layers of a group under one node', () => {
+      const tree = buildLayerTree(layers, groups)
+
+      expect(tree.map(node => node.type)).toEqual(['layer', 'group', 'layer'])
+      const armor = tree[1]
+      if (armor.type !== 'group') throw new Error('expected a group')
+      expect(armor.group.id).toBe(100)
+      expect(armor.children.map(node => node.type === 'layer' ? node.layer.id : node.group.id)).toEqual([2, 101])
+
+      const trim = armor.children[1]
+      if (trim.type !== 'group') throw new Error('expected a group')
+      expect(trim.depth).toBe(1)
+      expect(trim.children).toEqual([{ type: 'layer', layer: layers[2], index: 2, depth: 2 }])
+    })
+
+    it('should list empty groups inside their parent', () => {
+      const empty: LayerGroup = { id: 102, name: 'Empty', visible: true, collapsed: false, parentId: 100 }
+      const tree = buildLayerTree(layers, [...groups, empty])
+      const armor = tree[1]
+      if (armor.type !== 'group') throw new Error('expected a group')
+
+      expect(armor.children[2]).toEqual({ type: 'group', group: empty, depth: 1, children: [] })
+    })
+  })
+
+  describe('moveLayerToGroup', () => {
+    it('should put the layer just above the other layers of the group', () => {
+      const result = moveLayerToGroup(layers, groups, 4, 100)!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 2, 3, 4])
+      expect(result.layers[3].groupId).toBe(100)
+
+      const fromBelow = moveLayerToGroup(layers, groups, 1, 101)!
+      expect(fromBelow.layers.map(l => l.id)).toEqual([2, 3, 1, 4])
+      expect(fromBelow.layers[2].groupId).toBe(101)
+    })
+
+    it('should move a layer out of its group to the given index', () => {
+      const result = moveLayerToGroup(layers, groups, 2, undefined, 3)!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 3, 4, 2])
+      expect(result.layers[3]).not.toHaveProperty('groupId')
+    })
+
+    it('should ignore moves that change nothing', () => {
+      expect(moveLayerToGroup(layers, groups, 2, 100)).toBeNull()
+      expect(moveLayerToGroup(layers, groups, 99, 100)).toBeNull()
+    })
+  })
+
+  describe('groupLayer and ungroupLayers', () => {
+    it('should create a group around a layer inside its current group', () => {
+      const result = groupLayer(layers, groups, 2, 200, 'Shoulders')!
+
+      expect(result.groups![2]).toEqual({ id: 200, name: 'Shoulders', visible: true, collapsed: false, parentId: 100 })
+      expect(result.layers[1].groupId).toBe(200)
+    })
+
+    it('should move the contents of a removed group into its parent', () => {
+      const result = ungroupLayers(layers, groups, 101)!
+
+      expect(result.groups).toEqual([groups[0]])
+      expect(result.layers[2].groupId).toBe(100)
+    })
+
+    it('should move the contents of a removed top level group to the top level', () => {
+      const result = ungroupLayers(layers, groups, 100)!
+
+      expect(result.groups).toEqual([{ id: 101, name: 'Trim', visible: true, collapsed: false, opacity: 50 }])
+      expect(result.layers[1]).not.toHaveProperty('groupId')
+      expect(result.layers[2].groupId).toBe(101)
+      expect(ungroupLayers(layers, groups, 999)).toBeNull()
+    })
+  })
+
+  describe('setGroupVisible and setGroupOpacity', () => {
+    it('should hide a group and leave its layers alone', () => {
+      const result = setGroupVisible(layers, groups, 101, false)!
+
+      expect(result.groups![1].visible).toBe(false)
+      expect(result.layers).toBe(layers)
+      expect(setGroupVisible(layers, groups, 101, true)).toBeNull()
+    })
+
+    it('should set the opacity of a group', () => {
+      expect(setGroupOpacity(layers, groups, 100, 30)?.groups![0].opacity).toBe(30)
+      expect(setGroupOpacity(layers, groups, 100, 50)).toBeNull()
+      expect(setGroupOpacity(layers, groups, 999, 30)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,212 @@
+import {
+  addLayer,
+  deleteLayer,
+  setLayerVisible,
+  moveLayer,
+  renameLayer,
+  setLayerLocked,
+  setLayerOpacity,
+  setLayerBlendMode,
+  duplicateLayer,
+  mergeLayerDown,
+  flattenLayers,
+  getChangedLayerIds,
+  pickLayerBuffers,
+  restoreLayerBuffers
+} from '../../src/utils/layerOperations'
+import { FramePixels, Layer, PixelData } from '../../src/types'
+
+describe('layerOperations', () => {
+  const pixel = (x: number, y: number, color: string, layerId: number): [string, PixelData] =>
+    [`${x},${y}`, { x, y, color, layerId }]
+
+  const layers: Layer[] = [
+    { id: 1, name: 'Background', visible: true, active: false },
+    { id: 2, name: 'Sketch', visible: true, active: false },
+    { id: 3, name: 'Ink', visible: true, active: true }
+  ]
+
+  // Two frames; layer 3 has no pixels in frame 20
+  const framePixels: FramePixels = new Map([
+    [10, new Map([
+      [1, new Map([pixel(0, 0, '#ff0000', 1), pixel(1, 0, '#ff0000', 1)])],
+      [2, new Map([pixel(0, 0, '#0000ff', 2)])],
+      [3, new Map([pixel(1, 0, '#00ff00', 3)])]
+    ])],
+    [20, new Map([
+      [1, new Map([pixel(2, 2, '#ffffff', 1)])],
+      [2, new Map([pixel(3, 3, '#000000', 2)])]
+    ])]
+  ])
+
+  describe('addLayer, deleteLayer and setLayerVisible', () => {
+    it('should add an active layer on top', () => {
+      const result = addLayer(layers, { id: 4, name: 'Layer 4', visible: true, active: true })!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 2, 3, 4])
+      expect(result.layers.filter(l => l.active).map(l => l.id)).toEqual([4])
+      expect(addLayer(layers, { id: 2, name: 'Taken', visible: true, active: true })).toBeNull()
+    })
+
+    it('should delete a layer with its pixels in every frame', () => {
+      const result = deleteLayer(layers, framePixels, 2)!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 3])
+      expect(result.framePixels!.get(10)!.has(2)).toBe(false)
+      expect(result.framePixels!.get(20)!.has(2)).toBe(false)
+      expect(result.framePixels!.get(10)!.get(1)).toBe(framePixels.get(10)!.get(1))
+      expect(framePixels.get(10)!.has(2)).toBe(true)
+      expect(getChangedLayerIds(framePixels, result.framePixels!)).toEqual([2])
+    })
+
+    it('should activate the bottom layer when the active layer is deleted', () => {
+      expect(deleteLayer(layers, framePixels, 3)!.layers.map(l => l.active)).toEqual([true, false])
+      expect(deleteLayer([layers[0]], framePixels, 1)!.layers).toEqual([])
+      expect(deleteLayer(layers, framePixels, 99)).toBeNull()
+    })
+
+    it('should show and hide a layer', () => {
+      const hidden = setLayerVisible(layers, 2, false)!.layers
+      expect(hidden[1].visible).toBe(false)
+      expect(setLayerVisible(hidden, 2, false)).toBeNull()
+      expect(setLayerVisible(hidden, 2, true)?.layers[1].visible).toBe(true)
+    })
+  })
+
+  describe('moveLayer', () => {
+    it('should move a layer to the given index', () => {
+      expect(moveLayer(layers, 3, 0)?.layers.map(l => l.id)).toEqual([3, 1, 2])
+      expect(moveLayer(layers, 1, 1)?.layers.map(l => l.id)).toEqual([2, 1, 3])
+    })
+
+    it('should clamp the index and ignore moves that change nothing', () => {
+      expect(moveLayer(layers, 1, 10)?.layers.map(l => l.id)).toEqual([2, 3, 1])
+      expect(moveLayer(layers, 3, 2)).toBeNull()
+      expect(moveLayer(layers, 99, 0)).toBeNull()
+    })
+  })
+
+  describe('renameLayer and setLayerLocked', () => {
+    it('should rename a layer, trimming the name', () => {
+      expect(renameLayer(layers, 2, '  Lines ')?.layers[1].name).toBe('Lines')
+    })
+
+    it('should ignore empty or unchanged names', () => {
+      expect(renameLayer(layers, 2, '   ')).toBeNull()
+      expect(renameLayer(layers, 2, 'Sketch')).toBeNull()
+    })
+
+    it('should lock and unlock a layer', () => {
+      const locked = setLayerLocked(layers, 1, true)!.layers
+      expect(locked[0].locked).toBe(true)
+      expect(setLayerLocked(locked, 1, true)).toBeNull()
+      expect(setLayerLocked(locked, 1, false)?.layers[0].locked).toBe(false)
+    })
+  })
+
+  describe('setLayerOpacity and setLayerBlendMode', () => {
+    it('should set the opacity, treating a missing one as fully opaque', () => {
+      expect(setLayerOpacity(layers, 2, 40)?.layers[1].opacity).toBe(40)
+      expect(setLayerOpacity(layers, 2, 100)).toBeNull()
+      expect(setLayerOpacity(layers, 99, 40)).toBeNull()
+    })
+
+    it('should set the blend mode, treating a missing one as normal', () => {
+      expect(setLayerBlendMode(layers, 3, 'multiply')?.layers[2].blendMode).toBe('multiply')
+      expect(setLayerBlendMode(layers, 3, 'normal')).toBeNull()
+    })
+  })
+
+  describe('duplicateLayer', () => {
+    it('should insert an active copy above the layer with its pixels in every frame', () => {
+      const result = duplicateLayer(layers, framePixels, 2, 4)!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 2, 4, 3])
+      expect(result.layers[2]).toEqual({ id: 4, name: 'Sketch copy', visible: true, active: true })
+      expect(result.layers.filter(l => l.active)).toHaveLength(1)
+      expect(result.framePixels!.get(10)!.get(4)!.get('0,0')).toEqual({ x: 0, y: 0, color: '#0000ff', layerId: 4 })
+      expect(result.framePixels!.get(20)!.get(4)!.get('3,3')?.layerId).toBe(4)
+    })
+
+    it('should keep the copy independent of the original', () => {
+      const result = duplicateLayer(layers, framePixels, 2, 4)!
+      expect(result.framePixels!.get(10)!.get(4)).not.toBe(framePixels.get(10)!.get(2))
+      expect(framePixels.get(10)!.has(4)).toBe(false)
+    })
+  })
+
+  describe('mergeLayerDown', () => {
+    it('should composite the layer onto the one below in every frame', () => {
+      const result = mergeLayerDown(layers, framePixels, 2)!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 3])
+      expect(result.layers[0].active).toBe(true)
+      const merged = result.framePixels!.get(10)!.get(1)!
+      expect(merged.get('0,0')).toEqual({ x: 0, y: 0, color: '#0000ff', layerId: 1 })
+      expect(merged.get('1,0')?.color).toBe('#ff0000')
+      expect(result.framePixels!.get(10)!.has(2)).toBe(false)
+      expect(result.framePixels!.get(20)!.get(1)!.get('3,3')?.layerId).toBe(1)
+    })
+
+    it('should apply the upper layer opacity and blend mode', () => {
+      const blended: Layer[] = [layers[0], { ...layers[1], opacity: 50 }]
+      const result = mergeLayerDown(blended, framePixels, 2)!
+
+      expect(result.framePixels!.get(10)!.get(1)!.get('0,0')?.color).toBe('#800080')
+    })
+
+    it('should drop a hidden upper layer without merging its pixels', () => {
+      const hidden = layers.map(l => l.id === 2 ? { ...l, visible: false } : l)
+      const result = mergeLayerDown(hidden, framePixels, 2)!
+
+      expect(result.layers.map(l => l.id)).toEqual([1, 3])
+      expect(result.layers[0].active).toBe(true)
+      expect(result.framePixels!.get(10)!.get(1)).toBe(framePixels.get(10)!.get(1))
+      expect(result.framePixels!.get(10)!.has(2)).toBe(false)
+    })
+
+    it('should not merge the bottom layer or locked layers', () => {
+      expect(mergeLayerDown(layers, framePixels, 1)).toBeNull()
+      expect(mergeLayerDown([{ ...layers[0], locked: true }, layers[1]], framePixels, 2)).toBeNull()
+    })
+  })
+
+  describe('flattenLayers', () => {
+    it('should composite the visible layers into the bottom layer', () => {
+      const hidden = layers.map(l => l.id === 2 ? { ...l, visible: false } : l)
+      const result = flattenLayers(hidden, framePixels)!
+
+      expect(result.layers).toEqual([{ id: 1, name: 'Background', visible: true, active: true }])
+      const flattened = result.framePixels!.get(10)!
+      expect(Array.from(flattened.keys())).toEqual([1])
+      expect(flattened.get(1)!.get('0,0')?.color).toBe('#ff0000')
+      expect(flattened.get(1)!.get('1,0')).toEqual({ x: 1, y: 0, color: '#00ff00', layerId: 1 })
+    })
+
+    it('should need at least two unlocked layers', () => {
+      expect(flattenLayers([layers[0]], framePixels)).toBeNull()
+      expect(flattenLayers([...layers.slice(0, 2), { ...layers[2], locked: true }], framePixels)).toBeNull()
+    })
+  })
+
+  describe('layer buffer snapshots', () => {
+    it('should find the layers whose buffers changed', () => {
+      const result = mergeLayerDown(layers, framePixels, 2)!
+      expect(getChangedLayerIds(framePixels, result.framePixels!).sort()).toEqual([1, 2])
+      expect(getChangedLayerIds(framePixels, framePixels)).toEqual([])
+    })
+
+    it('should restore picked buffers and drop the ones that did not exist', () => {
+      const result = duplicateLayer(layers, framePixels, 2, 4)!
+      const saved = pickLayerBuffers(framePixels, [4])
+      expect(saved.size).toBe(0)
+
+      const restored = restoreLayerBuffers(result.framePixels!, saved, [4])
+      expect(restored.get(10)!.has(4)).toBe(false)
+      expect(restored.get(10)!.get(2)).toBe(framePixels.get(10)!.get(2))
+
+      const redone = restoreLayerBuffers(restored, pickLayerBuffers(result.framePixels!, [4]), [4])
+      expect(redone.get(20)!.get(4)).toBe(result.framePixels!.get(20)!.get(4))
+    })
+  })
+})
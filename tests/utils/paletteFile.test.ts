@@ -0,0 +1,153 @@
+import {
+  getPaletteFormat,
+  parseAse,
+  parseGpl,
+  parseHex,
+  parsePal,
+  parsePaletteFile,
+  serializeAse,
+  serializeGpl,
+  serializeHex,
+  serializePal,
+  serializePalette
+} from '../../src/utils/paletteFile'
+import { CustomColorTemplate } from '../../src/types'
+
+describe('paletteFile', () => {
+  const palette: CustomColorTemplate = {
+    id: 'game',
+    name: 'Game Palette',
+    colors: ['#000000', '#ff8000', '#1d2b53']
+  }
+
+  const toBuffer = (content: string | Uint8Array): ArrayBuffer => {
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+  }
+
+  describe('getPaletteFormat', () => {
+    it('should detect the format from the extension', () => {
+      expect(getPaletteFormat('pico-8.gpl')).toBe('gpl')
+      expect(getPaletteFormat('PICO-8.PAL')).toBe('pal')
+      expect(getPaletteFormat('colors.hex')).toBe('hex')
+      expect(getPaletteFormat('swatches.ase')).toBe('ase')
+      expect(getPaletteFormat('sprite.png')).toBeNull()
+    })
+  })
+
+  describe('GIMP palettes', () => {
+    it('should parse names, comments and color rows', () => {
+      const text = 'GIMP Palette\nName: PICO-8\nColumns: 4\n#\n# A comment\n  0   0   0\tblack\n255 128   0 Orange\n'
+      expect(parseGpl(text)).toEqual({ name: 'PICO-8', colors: ['#000000', '#ff8000'] })
+    })
+
+    it('should reject files without the header', () => {
+      expect(() => parseGpl('0 0 0')).toThrow('Not a GIMP palette')
+    })
+
+    it('should reject out-of-range channels', () => {
+      expect(() => parseGpl('GIMP Palette\n300 0 0')).toThrow('Invalid color entry')
+    })
+
+    it('should round-trip through serializeGpl', () => {
+      expect(parseGpl(serializeGpl(palette))).toEqual({ name: 'Game Palette', colors: palette.colors })
+    })
+  })
+
+  describe('JASC palettes', () => {
+    it('should parse the declared number of colors', () => {
+      expect(parsePal('JASC-PAL\r\n0100\r\n2\r\n0 0 0\r\n255 128 0\r\n1 2 3\r\n')).toEqual({ colors: ['#000000', '#ff8000'] })
+    })
+
+    it('should reject files without the header', () => {
+      expect(() => parsePal('GIMP Palette')).toThrow('Not a JASC palette')
+    })
+
+    it('should round-trip through serializePal', () => {
+      const text = serializePal(palette)
+      expect(text.startsWith('JASC-PAL\r\n0100\r\n3\r\n')).toBe(true)
+      expect(parsePal(text).colors).toEqual(palette.colors)
+    })
+  })
+
+  describe('hex palettes', () => {
+    it('should accept colors with or without # and drop alpha', () => {
+      expect(parseHex('FF8000\n#1d2b53\n\n000000ff\n').colors).toEqual(['#ff8000', '#1d2b53', '#000000'])
+    })
+
+    it('should reject malformed lines', () => {
+      expect(() => parseHex('ff80')).toThrow('Invalid color entry')
+    })
+
+    it('should write one color per line without #', () => {
+      expect(serializeHex(palette)).toBe('000000\nff8000\n1d2b53\n')
+    })
+  })
+
+  describe('Adobe Swatch Exchange', () => {
+    it('should round-trip RGB swatches and the group name', () => {
+      expect(parseAse(toBuffer(serializeAse(palette)))).toEqual({ name: 'Game Palette', colors: palette.colors })
+    })
+
+    it('should write the ASEF header and block count', () => {
+      const bytes = serializeAse(palette)
+      const view = new DataView(toBuffer(bytes))
+      expect(String.fromCharCode(...Array.from(bytes.slice(0, 4)))).toBe('ASEF')
+      expect(view.getUint16(4)).toBe(1)
+      expect(view.getUint32(8)).toBe(5)
+    })
+
+    it('should read CMYK and grayscale swatches', () => {
+      const entry = (model: string, values: number[]) => {
+        const view = new DataView(new ArrayBuffer(6 + 4 + 4 + values.length * 4 + 2))
+        view.setUint16(0, 0x0001)
+        view.setUint32(2, view.byteLength - 6)
+        view.setUint16(6, 1) // Empty name: just the terminator
+        for (let i = 0; i < 4; i++) view.setUint8(10 + i, model.charCodeAt(i))
+        values.forEach((value, i) => view.setFloat32(14 + i * 4, value))
+        return new Uint8Array(view.buffer)
+      }
+      const cmyk = entry('CMYK', [0, 1, 1, 0])
+      const gray = entry('Gray', [0.5])
+      const header = new DataView(new ArrayBuffer(12))
+      'ASEF'.split('').forEach((c, i) => header.setUint8(i, c.charCodeAt(0)))
+      header.setUint16(4, 1)
+      header.setUint32(8, 2)
+
+      const file = new Uint8Array([...new Uint8Array(header.buffer), ...cmyk, ...gray])
+      expect(parseAse(file.buffer)).toEqual({ name: undefined, colors: ['#ff0000', '#808080'] })
+    })
+
+    it('should reject other binary files', () => {
+      expect(() => parseAse(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]).buffer)).toThrow('missing "ASEF" signature')
+    })
+
+    it('should reject truncated files', () => {
+      expect(() => parseAse(toBuffer(serializeAse(palette)).slice(0, 40))).toThrow('truncated')
+    })
+  })
+
+  describe('parsePaletteFile', () => {
+    it('should build a template named after the palette', () => {
+      const template = parsePaletteFile(toBuffer(serializePalette(palette, 'gpl')), 'exported.gpl')
+      expect(template.name).toBe('Game Palette')
+      expect(template.colors).toEqual(palette.colors)
+      expect(template.id).toBeTruthy()
+    })
+
+    it('should fall back to the file name for unnamed palettes', () => {
+      expect(parsePaletteFile(toBuffer(serializePalette(palette, 'hex')), 'endesga-32.hex').name).toBe('endesga-32')
+    })
+
+    it('should read every supported format', () => {
+      ;(['gpl', 'pal', 'hex', 'ase'] as const).forEach(format => {
+        expect(parsePaletteFile(toBuffer(serializePalette(palette, format)), `game.${format}`).colors).toEqual(palette.colors)
+      })
+    })
+
+    it('should reject unknown extensions and empty palettes', () => {
+      expect(() => parsePaletteFile(toBuffer('000000'), 'colors.txt')).toThrow('Unsupported palette file')
+      expect(() => parsePaletteFile(toBuffer('\n'), 'empty.hex')).toThrow('No colors found')
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { inflateSync } from 'zlib'
+import { adler32, crc32, encodeIndexedPng, getIndexedBitDepth, zlibStore } from '../../src/utils/pngEncoder'
+
+describe('pngEncoder', () => {
+  // Splits a PNG into its chunks, checking each CRC on the way
+  const readChunks = (png: Uint8Array) => {
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+    const chunks: { type: string; data: Uint8Array }[] = []
+    let offset = 8
+    while (offset < png.length) {
+      const length = view.getUint32(offset)
+      const type = String.fromCharCode(...Array.from(png.slice(offset + 4, offset + 8)))
+      const data = png.slice(offset + 8, offset + 8 + length)
+      expect(view.getUint32(offset + 8 + length)).toBe(crc32(png.slice(offset + 4, offset + 8 + length)))
+      chunks.push({ type, data })
+      offset += 12 + length
+    }
+    return chunks
+  }
+
+  it('should compute standard checksums', () => {
+    const bytes = Array.from('123456789', c => c.charCodeAt(0))
+    expect(crc32(bytes)).toBe(0xcbf43926)
+    expect(adler32(Array.from('Wikipedia', c => c.charCodeAt(0)))).toBe(0x11e60398)
+  })
+
+  it('should produce zlib streams that inflate back to the input', () => {
+    const small = new Uint8Array([1, 2, 3, 4])
+    const large = new Uint8Array(70000).map((_, i) => i % 251)
+
+    expect(Array.from(inflateSync(Buffer.from(zlibStore(small))))).toEqual([1, 2, 3, 4])
+    expect(inflateSync(Buffer.from(zlibStore(large))).equals(Buffer.from(large))).toBe(true)
+    expect(Array.from(inflateSync(Buffer.from(zlibStore(new Uint8Array(0)))))).toEqual([])
+  })
+
+  it('should pick the smallest bit depth for the palette', () => {
+    expect(getIndexedBitDepth(2)).toBe(1)
+    expect(getIndexedBitDepth(4)).toBe(2)
+    expect(getIndexedBitDepth(5)).toBe(4)
+    expect(getIndexedBitDepth(17)).toBe(8)
+  })
+
+  it('should write a palette-based PNG with packed scanlines', () => {
+    const png = encodeIndexedPng(3, 2, new Uint8Array([0, 1, 2, 2, 1, 0]), ['#000000', '#ff0000', '#0000ff'], 2)
+
+    expect(Array.from(png.slice(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    const chunks = readChunks(png)
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'PLTE', 'tRNS', 'IDAT', 'IEND'])
+
+    const header = new DataView(chunks[0].data.buffer)
+    expect(header.getUint32(0)).toBe(3)
+    expect(header.getUint32(4)).toBe(2)
+    expect(chunks[0].data[8]).toBe(2) // Bit depth
+    expect(chunks[0].data[9]).toBe(3) // Color type: indexed
+
+    expect(Array.from(chunks[1].data)).toEqual([0, 0, 0, 255, 0, 0, 0, 0, 255])
+    expect(Array.from(chunks[2].data)).toEqual([255, 255, 0])
+
+    // Filter byte, then 2-bit indices packed from the high bits
+    expect(Array.from(inflateSync(Buffer.from(chunks[3].data)))).toEqual([0, 0b00011000, 0, 0b10010000])
+  })
+
+  it('should skip tRNS without a transparent entry', () => {
+    const chunks = readChunks(encodeIndexedPng(1, 1, new Uint8Array([0]), ['#123456']))
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'PLTE', 'IDAT', 'IEND'])
+  })
+
+  it('should reject palettes it cannot store', () => {
+    expect(() => encodeIndexedPng(1, 1, new Uint8Array([0]), [])).toThrow('1 to 256 palette colors')
+    expect(() => encodeIndexedPng(2, 1, new Uint8Array([0]), ['#000000'])).toThrow('Expected 2 palette indices')
+  })
+})
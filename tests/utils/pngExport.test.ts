@@ -0,0 +1,120 @@
+import { inflateSync } from 'zlib'
+import { getExportRegion, renderPixelsToCanvas, renderPixelsToIndexedPng } from '../../src/utils/pngExport'
+import { PixelData } from '../../src/types'
+
+describe('pngExport', () => {
+  const pixels = new Map<string, PixelData>([
+    ['2,3', { x: 2, y: 3, color: '#ff0000', layerId: 1 }],
+    ['5,6', { x: 5, y: 6, color: '#00ff00', layerId: 1 }]
+  ])
+
+  describe('getExportRegion', () => {
+    it('should cover the whole canvas', () => {
+      expect(getExportRegion(pixels, 16, 16, 'canvas')).toEqual({ x: 0, y: 0, w: 16, h: 16 })
+      expect(getExportRegion(pixels, 24, 8, 'canvas')).toEqual({ x: 0, y: 0, w: 24, h: 8 })
+    })
+
+    it('should trim to the drawn content', () => {
+      expect(getExportRegion(pixels, 16, 16, 'trim')).toEqual({ x: 2, y: 3, w: 4, h: 4 })
+      expect(getExportRegion(new Map(), 16, 16, 'trim')).toBeNull()
+    })
+
+    it('should use the selection clamped to the canvas', () => {
+      const selection = { startX: -2, startY: 4, endX: 3, endY: 20 }
+      expect(getExportRegion(pixels, 16, 16, 'selection', selection)).toEqual({ x: 0, y: 4, w: 4, h: 12 })
+    })
+
+    it('should return null for a selection export without a selection', () => {
+      expect(getExportRegion(pixels, 16, 16, 'selection', null)).toBeNull()
+    })
+  })
+
+  describe('renderPixelsToCanvas', () => {
+    const createContext = () => ({
+      clearRect: jest.fn(),
+      fillRect: jest.fn(),
+      fillStyle: ''
+    })
+
+    let context: ReturnType<typeof createContext>
+
+    beforeEach(() => {
+      context = createContext()
+      // setup.ts replaces the global HTMLCanvasElement, so spy on the prototype jsdom actually creates
+      const canvasPrototype = Object.getPrototypeOf(document.createElement('canvas'))
+      jest.spyOn(canvasPrototype, 'getContext').mockReturnValue(context)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should size the canvas to the region times the scale', () => {
+      const canvas = renderPixelsToCanvas(pixels, { x: 2, y: 3, w: 4, h: 4 }, 8)
+
+      expect(canvas.width).toBe(32)
+      expect(canvas.height).toBe(32)
+    })
+
+    it('should draw pixels relative to the region at the given scale', () => {
+      renderPixelsToCanvas(pixels, { x: 2, y: 3, w: 4, h: 4 }, 2)
+
+      expect(context.fillRect).toHaveBeenCalledWith(0, 0, 2, 2)
+      expect(context.fillRect).toHaveBeenCalledWith(6, 6, 2, 2)
+    })
+
+    it('should skip pixels outside the region', () => {
+      renderPixelsToCanvas(pixels, { x: 0, y: 0, w: 4, h: 4 }, 1)
+
+      expect(context.fillRect).toHaveBeenCalledTimes(1)
+      expect(context.fillRect).toHaveBeenCalledWith(2, 3, 1, 1)
+    })
+
+    it('should fill a solid background first when one is given', () => {
+      renderPixelsToCanvas(pixels, { x: 0, y: 0, w: 16, h: 16 }, 1, '#123456')
+
+      expect(context.fillRect.mock.calls[0]).toEqual([0, 0, 16, 16])
+      expect(context.fillRect).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('renderPixelsToIndexedPng', () => {
+    const palette = ['#000000', '#ff0000', '#00ff00']
+
+    // Chunk types and data in file order
+    const readChunks = (png: Uint8Array) => {
+      const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+      const chunks = new Map<string, Uint8Array>()
+      for (let offset = 8; offset < png.length;) {
+        const length = view.getUint32(offset)
+        chunks.set(String.fromCharCode(...Array.from(png.slice(offset + 4, offset + 8))), png.slice(offset + 8, offset + 8 + length))
+        offset += 12 + length
+      }
+      return chunks
+    }
+
+    it('should keep palette indices and add a transparent entry after the palette', () => {
+      const chunks = readChunks(renderPixelsToIndexedPng(pixels, { x: 2, y: 3, w: 4, h: 1 }, 1, palette))
+
+      expect(chunks.get('PLTE')).toHaveLength(12)
+      expect(Array.from(chunks.get('tRNS')!)).toEqual([255, 255, 255, 0])
+      // 2-bit indices: red, then three transparent pixels
+      expect(Array.from(inflateSync(Buffer.from(chunks.get('IDAT')!)))).toEqual([0, 0b01111111])
+    })
+
+    it('should use the nearest palette entry for a solid background and scale up', () => {
+      const chunks = readChunks(renderPixelsToIndexedPng(pixels, { x: 2, y: 3, w: 2, h: 1 }, 2, palette, '#010101'))
+
+      expect(chunks.has('tRNS')).toBe(false)
+      const header = new DataView(chunks.get('IHDR')!.buffer)
+      expect(header.getUint32(0)).toBe(4)
+      expect(header.getUint32(4)).toBe(2)
+      expect(Array.from(inflateSync(Buffer.from(chunks.get('IDAT')!)))).toEqual([0, 0b01010000, 0, 0b01010000])
+    })
+
+    it('should refuse transparency when the palette is full', () => {
+      const fullPalette = Array.from({ length: 256 }, (_, i) => `#${i.toString(16).padStart(2, '0')}0000`)
+      expect(() => renderPixelsToIndexedPng(pixels, { x: 0, y: 0, w: 8, h: 8 }, 1, fullPalette)).toThrow('no entry for transparency')
+    })
+  })
+})
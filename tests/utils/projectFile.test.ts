@@ -0,0 +1,321 @@
+import { serializeProject, parseProject, migrateProject, PROJECT_FILE_VERSION } from '../../src/utils/projectFile'
+import { CustomColorTemplate, PixelData, ProjectDocument } from '../../src/types'
+
+describe('projectFile', () => {
+  const fallbackPalette: CustomColorTemplate = {
+    id: 'default',
+    name: 'Default',
+    colors: ['#000000', '#ffffff']
+  }
+
+  const createDocument = (): ProjectDocument => ({
+    canvasWidth: 16,
+    canvasHeight: 16,
+    layers: [
+      { id: 1, name: 'Background', visible: true, active: false },
+      { id: 2, name: 'Details', visible: false, active: true }
+    ],
+    frames: [
+      { id: 1, duration: 100 },
+      { id: 2, duration: 250 }
+    ],
+    framePixels: new Map([
+      [1, new Map([
+        [1, new Map<string, PixelData>([
+          ['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1 }]
+        ])],
+        [2, new Map<string, PixelData>([
+          ['0,0', { x: 0, y: 0, color: '#0000ff', layerId: 2 }],
+          ['5,7', { x: 5, y: 7, color: '#00ff00', layerId: 2 }]
+        ])]
+      ])],
+      [2, new Map([
+        [1, new Map<string, PixelData>([
+          ['3,3', { x: 3, y: 3, color: '#ffff00', layerId: 1 }]
+        ])]
+      ])]
+    ]),
+    primaryColor: '#123456',
+    secondaryColor: '#abcdef',
+    gridSettings: {
+      visible: true,
+      color: '#444',
+      opacity: 0.3,
+      quarter: true,
+      eighths: false,
+      sixteenths: false,
+      thirtyseconds: false,
+      sixtyfourths: false
+    },
+    palette: { id: 'game', name: 'Game Palette', colors: ['#111111', '#222222'] }
+  })
+
+  describe('serializeProject', () => {
+    it('should write the current version and canvas size', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+
+      expect(data.version).toBe(PROJECT_FILE_VERSION)
+      expect(data.width).toBe(16)
+      expect(data.height).toBe(16)
+      expect(data.layers).toHaveLength(2)
+    })
+
+    it('should skip transparent pixels', () => {
+      const document = createDocument()
+      document.framePixels.get(1)!.get(1)!.set('1,1', { x: 1, y: 1, color: 'transparent', layerId: 1 })
+
+      const data = JSON.parse(serializeProject(document))
+      expect(data.frames[0].cels[0].pixels).toHaveLength(1)
+    })
+  })
+
+  describe('parseProject', () => {
+    it('should round-trip a document', () => {
+      const original = createDocument()
+      const restored = parseProject(serializeProject(original), fallbackPalette)
+
+      expect(restored.canvasWidth).toBe(16)
+      expect(restored.canvasHeight).toBe(16)
+      expect(restored.layers).toEqual(original.layers)
+      expect(restored.primaryColor).toBe('#123456')
+      expect(restored.secondaryColor).toBe('#abcdef')
+      expect(restored.gridSettings).toEqual(original.gridSettings)
+      expect(restored.palette).toEqual(original.palette)
+      expect(restored.frames).toEqual(original.frames)
+      expect(restored.framePixels.get(1)?.get(1)?.get('0,0')?.color).toBe('#ff0000')
+      expect(restored.framePixels.get(1)?.get(2)?.get('0,0')?.color).toBe('#0000ff')
+      expect(restored.framePixels.get(1)?.get(2)?.get('5,7')).toEqual({ x: 5, y: 7, color: '#00ff00', layerId: 2 })
+      expect(restored.framePixels.get(2)?.get(1)?.get('3,3')?.color).toBe('#ffff00')
+      expect(restored.framePixels.get(2)?.get(2)?.size).toBe(0)
+    })
+
+    it('should activate the first layer when none is active', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.layers.forEach((layer: any) => { layer.active = false })
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.layers[0].active).toBe(true)
+    })
+
+    it('should keep only the first active layer active', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.layers.forEach((layer: any) => { layer.active = true })
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.layers.map(layer => layer.active)).toEqual([true, false])
+    })
+
+    it('should drop pixels outside the canvas', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.frames[0].cels[0].pixels.push({ x: 16, y: 0, color: '#ffffff' })
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.framePixels.get(1)?.get(1)?.size).toBe(1)
+    })
+
+    it('should keep non-square canvas dimensions', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.width = 24
+      data.height = 8
+      data.frames[0].cels[0].pixels.push({ x: 20, y: 7, color: '#ffffff' }, { x: 4, y: 8, color: '#ffffff' })
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.canvasWidth).toBe(24)
+      expect(restored.canvasHeight).toBe(8)
+      expect(restored.framePixels.get(1)?.get(1)?.has('20,7')).toBe(true)
+      expect(restored.framePixels.get(1)?.get(1)?.has('4,8')).toBe(false)
+    })
+
+    it('should create a single frame when the file has none', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.frames = []
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.frames).toEqual([{ id: 1, duration: 100 }])
+    })
+
+    it('should fall back to the given palette', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      delete data.palette
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.palette).toBe(fallbackPalette)
+    })
+
+    it('should keep the color mode and palette indices of indexed projects', () => {
+      const document: ProjectDocument = {
+        ...createDocument(),
+        colorMode: 'indexed',
+        framePixels: new Map([[1, new Map([[1, new Map<string, PixelData>([
+          ['1,1', { x: 1, y: 1, color: '#222222', layerId: 1, paletteIndex: 1 }]
+        ])]])]])
+      }
+
+      const restored = parseProject(serializeProject(document), fallbackPalette)
+
+      expect(restored.colorMode).toBe('indexed')
+      expect(restored.framePixels.get(1)?.get(1)?.get('1,1')).toEqual({ x: 1, y: 1, color: '#222222', layerId: 1, paletteIndex: 1 })
+    })
+
+    it('should keep layer opacity and blend modes', () => {
+      const document = createDocument()
+      document.layers[1] = { ...document.layers[1], opacity: 40, blendMode: 'multiply' }
+
+      const data = JSON.parse(serializeProject(document))
+      expect(data.layers[0]).toEqual({ id: 1, name: 'Background', visible: true, active: false })
+      expect(data.layers[1]).toMatchObject({ opacity: 40, blendMode: 'multiply' })
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.layers).toEqual(document.layers)
+    })
+
+    it('should keep locked layers locked', () => {
+      const document = createDocument()
+      document.layers[0] = { ...document.layers[0], locked: true }
+
+      const data = JSON.parse(serializeProject(document))
+      expect(data.layers[0].locked).toBe(true)
+      expect(data.layers[1].locked).toBeUndefined()
+      expect(parseProject(JSON.stringify(data), fallbackPalette).layers).toEqual(document.layers)
+    })
+
+    it('should keep layer groups and the layers inside them', () => {
+      const document = {
+        ...createDocument(),
+        layerGroups: [
+          { id: 100, name: 'Armor', visible: false, collapsed: true, opacity: 60 },
+          { id: 101, name: 'Trim', visible: true, collapsed: false, parentId: 100 }
+        ]
+      }
+      document.layers[1] = { ...document.layers[1], groupId: 101 }
+
+      const data = JSON.parse(serializeProject(document))
+      expect(data.groups).toHaveLength(2)
+      expect(data.layers[0].groupId).toBeUndefined()
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.layerGroups).toEqual(document.layerGroups)
+      expect(restored.layers).toEqual(document.layers)
+    })
+
+    it('should drop links to groups that are not in the file', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      expect(data.groups).toBeUndefined()
+      data.layers[0].groupId = 5
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.layerGroups).toEqual([])
+      expect(restored.layers[0].groupId).toBeUndefined()
+    })
+
+    it('should break group parent cycles', () => {
+      const data = JSON.parse(serializeProject({
+        ...createDocument(),
+        layerGroups: [
+          { id: 100, name: 'Armor', visible: true, collapsed: false, parentId: 101 },
+          { id: 101, name: 'Trim', visible: true, collapsed: false, parentId: 100 },
+          { id: 102, name: 'Gems', visible: true, collapsed: false, parentId: 101 }
+        ]
+      }))
+
+      const restored = parseProject(JSON.stringify(data), fallbackPalette)
+      expect(restored.layerGroups?.map(group => group.parentId)).toEqual([undefined, 100, 101])
+    })
+
+    it('should ignore unknown blend modes', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.layers[0].blendMode = 'dissolve'
+
+      expect(parseProject(JSON.stringify(data), fallbackPalette).layers[0].blendMode).toBeUndefined()
+    })
+
+    it('should open files without a color mode as RGB', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      delete data.colorMode
+
+      expect(parseProject(JSON.stringify(data), fallbackPalette).colorMode).toBe('rgb')
+    })
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseProject('not json', fallbackPalette)).toThrow('not valid JSON')
+    })
+
+    it('should reject files without layers', () => {
+      expect(() => parseProject(JSON.stringify({ version: 1, width: 16, height: 16 }), fallbackPalette))
+        .toThrow('missing canvas size or layers')
+    })
+
+    it('should reject canvas sizes that are not whole numbers above 0', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      ;[-16, 12.5, '32', 0].forEach(width => {
+        expect(() => parseProject(JSON.stringify({ ...data, width }), fallbackPalette)).toThrow('Invalid project file')
+      })
+      expect(() => parseProject(JSON.stringify({ ...data, height: -1 }), fallbackPalette))
+        .toThrow('canvas size must be whole numbers above 0')
+    })
+
+    it('should reject files with an empty layer list', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+
+      expect(() => parseProject(JSON.stringify({ ...data, layers: [] }), fallbackPalette)).toThrow('Invalid project file: no layers')
+    })
+
+    it('should reject duplicate layer ids', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.layers[1].id = data.layers[0].id
+
+      expect(() => parseProject(JSON.stringify(data), fallbackPalette)).toThrow('Invalid project file: duplicate layer id 1')
+    })
+
+    it('should reject duplicate frame ids', () => {
+      const data = JSON.parse(serializeProject(createDocument()))
+      data.frames[1].id = data.frames[0].id
+
+      expect(() => parseProject(JSON.stringify(data), fallbackPalette)).toThrow('Invalid project file: duplicate frame id 1')
+    })
+  })
+
+  describe('migrateProject', () => {
+    it('should open an unversioned saved template as a single-layer project', () => {
+      const template = {
+        name: 'Mushroom',
+        width: 16,
+        height: 16,
+        pixels: [{ x: 2, y: 3, color: '#ff0000', layerId: 1 }]
+      }
+
+      const restored = parseProject(JSON.stringify(template), fallbackPalette)
+      expect(restored.layers).toEqual([{ id: 1, name: 'Mushroom', visible: true, active: true }])
+      expect(restored.framePixels.get(1)?.get(1)?.get('2,3')?.color).toBe('#ff0000')
+      expect(restored.palette).toBe(fallbackPalette)
+    })
+
+    it('should move version 1 layer pixels into a single frame', () => {
+      const v1 = {
+        format: 'spritemaker',
+        version: 1,
+        width: 16,
+        height: 16,
+        layers: [
+          { id: 1, name: 'Layer 1', visible: true, active: true, pixels: [{ x: 1, y: 2, color: '#00ff00' }] }
+        ]
+      }
+
+      const migrated = migrateProject(v1)
+      expect(migrated.version).toBe(PROJECT_FILE_VERSION)
+      expect(migrated.layers[0]).not.toHaveProperty('pixels')
+
+      const restored = parseProject(JSON.stringify(v1), fallbackPalette)
+      expect(restored.frames).toEqual([{ id: 1, duration: 100 }])
+      expect(restored.framePixels.get(1)?.get(1)?.get('1,2')?.color).toBe('#00ff00')
+    })
+
+    it('should reject files from a newer version', () => {
+      expect(() => migrateProject({ version: PROJECT_FILE_VERSION + 1 })).toThrow('newer than this editor supports')
+    })
+
+    it('should reject non-object data', () => {
+      expect(() => migrateProject(null)).toThrow('not a JSON object')
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import {
+  clipToMask,
+  combineMasks,
+  createColorMask,
+  createLassoMask,
+  createRectMask,
+  getMaskBounds,
+  getMaskContent,
+  getMaskOutline,
+  getSelectionMode,
+  growMask,
+  invertMask,
+  shrinkMask,
+  translateMask
+} from '../../src/utils/selectionMask'
+import { PixelData } from '../../src/types'
+
+describe('selectionMask', () => {
+  const keys = (mask: Set<string>) => Array.from(mask).sort()
+
+  describe('getSelectionMode', () => {
+    it('should map modifier keys to selection modes', () => {
+      expect(getSelectionMode(false, false)).toBe('replace')
+      expect(getSelectionMode(true, false)).toBe('add')
+      expect(getSelectionMode(false, true)).toBe('subtract')
+      expect(getSelectionMode(true, true)).toBe('intersect')
+    })
+  })
+
+  describe('createRectMask', () => {
+    it('should select the rectangle, clipped to the canvas', () => {
+      expect(keys(createRectMask({ startX: -1, startY: 2, endX: 1, endY: 5 }, 4, 4))).toEqual(['0,2', '0,3', '1,2', '1,3'])
+    })
+  })
+
+  describe('createLassoMask', () => {
+    it('should select the path and the pixels inside it', () => {
+      const path = [
+        { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 3, y: 1 },
+        { x: 3, y: 2 }, { x: 3, y: 3 },
+        { x: 2, y: 3 }, { x: 1, y: 3 },
+        { x: 1, y: 2 }
+      ]
+      const mask = createLassoMask(path, 8, 8)
+
+      expect(mask.size).toBe(9)
+      expect(mask.has('2,2')).toBe(true)
+      expect(mask.has('0,0')).toBe(false)
+      expect(mask.has('4,2')).toBe(false)
+    })
+
+    it('should select only the points of a path too short to enclose anything', () => {
+      expect(keys(createLassoMask([{ x: 1, y: 1 }, { x: 2, y: 1 }], 8, 8))).toEqual(['1,1', '2,1'])
+    })
+  })
+
+  describe('createColorMask', () => {
+    const pixels = new Map<string, PixelData>([
+      ['0,0', { x: 0, y: 0, color: '#FF0000', layerId: 1 }],
+      ['2,1', { x: 2, y: 1, color: '#ff0000', layerId: 1 }],
+      ['1,0', { x: 1, y: 0, color: '#00ff00', layerId: 1 }]
+    ])
+
+    it('should select every pixel of a color, touching or not', () => {
+      expect(keys(createColorMask(pixels, '#ff0000', 3, 2))).toEqual(['0,0', '2,1'])
+    })
+
+    it('should select the empty pixels for transparent', () => {
+      expect(keys(createColorMask(pixels, 'transparent', 3, 2))).toEqual(['0,1', '1,1', '2,0'])
+    })
+  })
+
+  describe('combineMasks', () => {
+    const current = new Set(['0,0', '1,0'])
+    const mask = new Set(['1,0', '2,0'])
+
+    it('should add, subtract and intersect', () => {
+      expect(keys(combineMasks(current, mask, 'replace'))).toEqual(['1,0', '2,0'])
+      expect(keys(combineMasks(current, mask, 'add'))).toEqual(['0,0', '1,0', '2,0'])
+      expect(keys(combineMasks(current, mask, 'subtract'))).toEqual(['0,0'])
+      expect(keys(combineMasks(current, mask, 'intersect'))).toEqual(['1,0'])
+    })
+
+    it('should treat a missing selection as empty', () => {
+      expect(keys(combineMasks(null, mask, 'add'))).toEqual(['1,0', '2,0'])
+      expect(combineMasks(null, mask, 'subtract').size).toBe(0)
+      expect(combineMasks(null, mask, 'intersect').size).toBe(0)
+    })
+  })
+
+  describe('invertMask', () => {
+    it('should select everything else on the canvas', () => {
+      expect(keys(invertMask(new Set(['0,0', '1,1']), 2, 2))).toEqual(['0,1', '1,0'])
+    })
+  })
+
+  describe('growMask and shrinkMask', () => {
+    it('should grow by whole rings, diagonals included', () => {
+      const grown = growMask(new Set(['4,4']), 2, 16, 16)
+
+      expect(grown.size).toBe(25)
+      expect(grown.has('2,2')).toBe(true)
+      expect(grown.has('1,4')).toBe(false)
+    })
+
+    it('should stop growing at the canvas edge', () => {
+      expect(keys(growMask(new Set(['0,0']), 1, 16, 16))).toEqual(['0,0', '0,1', '1,0', '1,1'])
+    })
+
+    it('should shrink from unselected sides but not from the canvas edge', () => {
+      const square = createRectMask({ startX: 2, startY: 2, endX: 6, endY: 6 }, 16, 16)
+      expect(keys(shrinkMask(square, 1, 16, 16))).toEqual(keys(createRectMask({ startX: 3, startY: 3, endX: 5, endY: 5 }, 16, 16)))
+      expect(shrinkMask(square, 3, 16, 16).size).toBe(0)
+
+      const corner = createRectMask({ startX: 0, startY: 0, endX: 2, endY: 2 }, 16, 16)
+      expect(keys(shrinkMask(corner, 1, 16, 16))).toEqual(['0,0', '0,1', '1,0', '1,1'])
+    })
+  })
+
+  describe('translateMask', () => {
+    it('should move the selection and drop what leaves the canvas', () => {
+      expect(keys(translateMask(new Set(['0,0', '3,3']), 1, 0, 4, 4))).toEqual(['1,0'])
+    })
+  })
+
+  describe('getMaskBounds and getMaskContent', () => {
+    it('should box the selection and take its pixels relative to the box', () => {
+      const mask = new Set(['2,1', '3,2'])
+      const pixels = new Map<string, PixelData>([
+        ['2,1', { x: 2, y: 1, color: '#ff0000', layerId: 1 }],
+        ['2,2', { x: 2, y: 2, color: '#00ff00', layerId: 1 }]
+      ])
+      const bounds = getMaskBounds(mask)!
+
+      expect(bounds).toEqual({ startX: 2, startY: 1, endX: 3, endY: 2 })
+      expect(Array.from(getMaskContent(mask, pixels, bounds).entries())).toEqual([
+        ['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1 }]
+      ])
+      expect(getMaskBounds(new Set())).toBeNull()
+    })
+  })
+
+  describe('clipToMask', () => {
+    it('should keep changes inside the selection and undo the rest', () => {
+      const red = { x: 0, y: 0, color: '#ff0000', layerId: 1 }
+      const blue = { x: 3, y: 0, color: '#0000ff', layerId: 1 }
+      const before = new Map<string, PixelData>([['0,0', red], ['3,0', blue]])
+      const after = new Map<string, PixelData>([
+        ['0,0', { ...red, color: '#000000' }],
+        ['1,0', { x: 1, y: 0, color: '#000000', layerId: 1 }],
+        ['2,0', { x: 2, y: 0, color: '#000000', layerId: 1 }]
+      ])
+      const clipped = clipToMask(before, after, new Set(['0,0', '1,0']))
+
+      expect(clipped.get('0,0')?.color).toBe('#000000')
+      expect(clipped.get('1,0')?.color).toBe('#000000')
+      expect(clipped.has('2,0')).toBe(false)
+      expect(clipped.get('3,0')).toBe(blue)
+    })
+  })
+
+  describe('getMaskOutline', () => {
+    it('should trace only the edges between selected and unselected pixels', () => {
+      expect(getMaskOutline(new Set(['0,0'])).length).toBe(4)
+      // Two pixels side by side share an edge that is not drawn
+      const outline = getMaskOutline(new Set(['0,0', '1,0']))
+      expect(outline.length).toBe(6)
+      expect(outline).not.toContainEqual({ x1: 1, y1: 0, x2: 1, y2: 1 })
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { diffLayerPixels, isIdentityTransform, transformRegion } from '../../src/utils/selectionTransform'
+import { PixelData, PixelTransform } from '../../src/types'
+
+describe('selectionTransform', () => {
+  const pixel = (x: number, y: number, color: string): [string, PixelData] =>
+    [`${x},${y}`, { x, y, color, layerId: 1 }]
+
+  const transform = (overrides: Partial<PixelTransform> = {}): PixelTransform => ({
+    flipHorizontal: false,
+    flipVertical: false,
+    scaleX: 1,
+    scaleY: 1,
+    angle: 0,
+    ...overrides
+  })
+
+  const colors = (pixels: Map<string, PixelData>) =>
+    Object.fromEntries(Array.from(pixels.entries()).map(([key, p]) => [key, p.color]))
+
+  // A 3x2 region at (1,1): red green blue on top, yellow below the red one
+  const region = new Map([
+    pixel(1, 1, '#ff0000'), pixel(2, 1, '#00ff00'), pixel(3, 1, '#0000ff'),
+    pixel(1, 2, '#ffff00'),
+    pixel(9, 9, '#ffffff')
+  ])
+  const bounds = { startX: 1, startY: 1, endX: 3, endY: 2 }
+
+  describe('isIdentityTransform', () => {
+    it('should recognise transforms that change nothing', () => {
+      expect(isIdentityTransform(transform())).toBe(true)
+      expect(isIdentityTransform(transform({ angle: 360 }))).toBe(true)
+      expect(isIdentityTransform(transform({ angle: 90 }))).toBe(false)
+      expect(isIdentityTransform(transform({ flipVertical: true }))).toBe(false)
+      expect(isIdentityTransform(transform({ scaleX: 2 }))).toBe(false)
+    })
+  })
+
+  describe('transformRegion', () => {
+    it('should flip the region in place and leave other pixels alone', () => {
+      const result = transformRegion(region, bounds, transform({ flipHorizontal: true }), 16, 16)
+
+      expect(colors(result.pixels)).toEqual({
+        '1,1': '#0000ff', '2,1': '#00ff00', '3,1': '#ff0000',
+        '3,2': '#ffff00',
+        '9,9': '#ffffff'
+      })
+      expect(result.bounds).toEqual(bounds)
+    })
+
+    it('should flip vertically', () => {
+      const result = transformRegion(region, bounds, transform({ flipVertical: true }), 16, 16)
+
+      expect(colors(result.pixels)).toMatchObject({ '1,1': '#ffff00', '1,2': '#ff0000', '3,2': '#0000ff' })
+      expect(result.pixels.has('2,1')).toBe(false)
+    })
+
+    it('should rotate by quarter turns exactly, about the region center', () => {
+      const result = transformRegion(region, bounds, transform({ angle: 90 }), 16, 16)
+
+      // 3x2 turns into 2x3, centered on the same spot
+      expect(result.bounds).toEqual({ startX: 1, startY: 0, endX: 2, endY: 2 })
+      expect(colors(result.pixels)).toEqual({
+        '1,0': '#ffff00', '2,0': '#ff0000',
+        '2,1': '#00ff00',
+        '2,2': '#0000ff',
+        '9,9': '#ffffff'
+      })
+    })
+
+    it('should treat 270 degrees as a quarter turn back', () => {
+      const clockwise = transformRegion(region, bounds, transform({ angle: 270 }), 16, 16)
+      const counterClockwise = transformRegion(region, bounds, transform({ angle: -90 }), 16, 16)
+
+      expect(colors(clockwise.pixels)).toEqual(colors(counterClockwise.pixels))
+      expect(colors(clockwise.pixels)['1,0']).toBe('#0000ff')
+    })
+
+    it('should scale with nearest neighbour and keep the colors', () => {
+      const single = new Map([pixel(4, 4, '#ff0000'), pixel(5, 4, '#0000ff')])
+      const result = transformRegion(single, { startX: 4, startY: 4, endX: 5, endY: 4 }, transform({ scaleX: 2, scaleY: 2 }), 16, 16)
+
+      expect(result.bounds).toEqual({ startX: 3, startY: 3, endX: 6, endY: 4 })
+      expect(colors(result.pixels)).toEqual({
+        '3,3': '#ff0000', '4,3': '#ff0000', '5,3': '#0000ff', '6,3': '#0000ff',
+        '3,4': '#ff0000', '4,4': '#ff0000', '5,4': '#0000ff', '6,4': '#0000ff'
+      })
+    })
+
+    it('should rotate by other angles without adding colors', () => {
+      const square = new Map<string, PixelData>()
+      for (let y = 4; y < 8; y++) {
+        for (let x = 4; x < 8; x++) {
+          square.set(...pixel(x, y, x < 6 ? '#ff0000' : '#0000ff'))
+        }
+      }
+      const result = transformRegion(square, { startX: 4, startY: 4, endX: 7, endY: 7 }, transform({ angle: 45 }), 16, 16)
+
+      expect(result.bounds!.endX - result.bounds!.startX).toBeGreaterThan(3)
+      expect(new Set(Array.from(result.pixels.values()).map(p => p.color))).toEqual(new Set(['#ff0000', '#0000ff']))
+      // The corners of a square turned 45 degrees point up, down, left and right
+      expect(result.pixels.has(`${result.bounds!.startX},${result.bounds!.startY}`)).toBe(false)
+      expect(result.pixels.size).toBeGreaterThan(10)
+    })
+
+    it('should drop pixels that land off the canvas', () => {
+      const edge = new Map([pixel(0, 0, '#ff0000'), pixel(1, 0, '#00ff00')])
+      const result = transformRegion(edge, { startX: 0, startY: 0, endX: 1, endY: 0 }, transform({ scaleX: 3 }), 4, 4)
+
+      expect(result.bounds).toEqual({ startX: 0, startY: 0, endX: 3, endY: 0 })
+      expect(colors(result.pixels)).toEqual({ '0,0': '#ff0000', '1,0': '#00ff00', '2,0': '#00ff00', '3,0': '#00ff00' })
+    })
+
+    it('should only transform the masked pixels and report where the selection went', () => {
+      // Red and the empty pixel below green are selected; green and yellow stay where they are
+      const mask = new Set(['1,1', '2,2'])
+      const result = transformRegion(region, { startX: 1, startY: 1, endX: 2, endY: 2 }, transform({ flipHorizontal: true }), 16, 16, mask)
+
+      expect(colors(result.pixels)).toMatchObject({ '2,1': '#ff0000', '1,2': '#ffff00', '3,1': '#0000ff' })
+      expect(result.pixels.has('1,1')).toBe(false)
+      expect(Array.from(result.mask).sort()).toEqual(['1,2', '2,1'])
+    })
+
+    it('should keep the palette index of moved pixels', () => {
+      const indexed = new Map<string, PixelData>([['0,0', { x: 0, y: 0, color: '#ff0000', layerId: 1, paletteIndex: 3 }]])
+      const result = transformRegion(indexed, { startX: 0, startY: 0, endX: 1, endY: 0 }, transform({ flipHorizontal: true }), 4, 4)
+
+      expect(result.pixels.get('1,0')).toEqual({ x: 1, y: 0, color: '#ff0000', layerId: 1, paletteIndex: 3 })
+    })
+  })
+
+  describe('diffLayerPixels', () => {
+    it('should list removed, added and recolored pixels', () => {
+      const before = new Map([pixel(0, 0, '#ff0000'), pixel(1, 0, '#00ff00'), pixel(2, 0, '#0000ff')])
+      const after = new Map([pixel(1, 0, '#ffffff'), pixel(2, 0, '#0000ff'), pixel(3, 0, '#000000')])
+
+      expect(diffLayerPixels(before, after)).toEqual([
+        { x: 0, y: 0, previousColor: '#ff0000', newColor: 'transparent' },
+        { x: 1, y: 0, previousColor: '#00ff00', newColor: '#ffffff' },
+        { x: 3, y: 0, previousColor: 'transparent', newColor: '#000000' }
+      ])
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { getPixelBounds, layoutSpriteSheet, buildSpriteSheetAtlas, renderSpriteSheet, SpriteSheetFrame } from '../../src/utils/spriteSheet'
+import { PixelData } from '../../src/types'
+
+describe('spriteSheet', () => {
+  const createPixels = (coords: Array<[number, number]>, color = '#ff0000'): Map<string, PixelData> =>
+    new Map(coords.map(([x, y]) => [`${x},${y}`, { x, y, color, layerId: 1 }]))
+
+  const createFrames = (count: number): SpriteSheetFrame[] =>
+    Array.from({ length: count }, (_, i) => ({
+      name: `sprite ${i}`,
+      pixels: createPixels([[i, i]]),
+      duration: 100 * (i + 1)
+    }))
+
+  describe('getPixelBounds', () => {
+    it('should return the box around visible pixels', () => {
+      expect(getPixelBounds(createPixels([[2, 3], [5, 4]]))).toEqual({ x: 2, y: 3, w: 4, h: 2 })
+    })
+
+    it('should ignore transparent pixels and return null when empty', () => {
+      expect(getPixelBounds(createPixels([[1, 1]], 'transparent'))).toBeNull()
+      expect(getPixelBounds(new Map())).toBeNull()
+    })
+  })
+
+  describe('layoutSpriteSheet', () => {
+    it('should place frames in a roughly square grid by default', () => {
+      const layout = layoutSpriteSheet(createFrames(5), 16, 16, { layout: 'grid', columns: 0, padding: 0, scale: 1 })
+
+      expect(layout.width).toBe(48)
+      expect(layout.height).toBe(32)
+      expect(layout.placements[3].frame).toEqual({ x: 0, y: 16, w: 16, h: 16 })
+      expect(layout.placements[4].trimmed).toBe(false)
+    })
+
+    it('should apply columns, padding and scale to the grid', () => {
+      const layout = layoutSpriteSheet(createFrames(3), 8, 8, { layout: 'grid', columns: 3, padding: 1, scale: 2 })
+
+      expect(layout.width).toBe(3 * 16 + 2 * 2)
+      expect(layout.height).toBe(16)
+      expect(layout.placements[2].frame).toEqual({ x: 36, y: 0, w: 16, h: 16 })
+      expect(layout.placements[2].sourceSize).toEqual({ w: 16, h: 16 })
+    })
+
+    it('should trim frames to their content when packing', () => {
+      const frames: SpriteSheetFrame[] = [
+        { name: 'a', pixels: createPixels([[4, 4], [5, 6]]), duration: 100 },
+        { name: 'b', pixels: createPixels([[0, 0]]), duration: 100 }
+      ]
+      const layout = layoutSpriteSheet(frames, 16, 16, { layout: 'packed', columns: 0, padding: 0, scale: 1 })
+
+      expect(layout.placements[0].frame).toEqual({ x: 0, y: 0, w: 2, h: 3 })
+      expect(layout.placements[0].spriteSourceSize).toEqual({ x: 4, y: 4, w: 2, h: 3 })
+      expect(layout.placements[0].trimmed).toBe(true)
+      expect(layout.placements[1].frame).toEqual({ x: 2, y: 0, w: 1, h: 1 })
+    })
+
+    it('should return an empty sheet for no frames', () => {
+      const layout = layoutSpriteSheet([], 16, 16, { layout: 'grid', columns: 0, padding: 0, scale: 1 })
+      expect(layout).toEqual({ width: 0, height: 0, scale: 1, placements: [] })
+    })
+  })
+
+  describe('buildSpriteSheetAtlas', () => {
+    const layout = layoutSpriteSheet(createFrames(2), 16, 16, { layout: 'grid', columns: 0, padding: 0, scale: 1 })
+
+    it('should key frames by name in hash format', () => {
+      const atlas = buildSpriteSheetAtlas(layout, 'sheet.png', 'hash', 'walk')
+      const frames = atlas.frames as Record<string, any>
+
+      expect(Object.keys(frames)).toEqual(['sprite 0', 'sprite 1'])
+      expect(frames['sprite 1'].frame).toEqual({ x: 16, y: 0, w: 16, h: 16 })
+      expect(frames['sprite 1'].duration).toBe(200)
+      expect(frames['sprite 1']).not.toHaveProperty('filename')
+    })
+
+    it('should list frames in order in array format', () => {
+      const atlas = buildSpriteSheetAtlas(layout, 'sheet.png', 'array')
+      const frames = atlas.frames as any[]
+
+      expect(frames.map(frame => frame.filename)).toEqual(['sprite 0', 'sprite 1'])
+    })
+
+    it('should describe the sheet in meta', () => {
+      const atlas = buildSpriteSheetAtlas(layout, 'sheet.png', 'hash', 'walk')
+
+      expect(atlas.meta.image).toBe('sheet.png')
+      expect(atlas.meta.size).toEqual({ w: 32, h: 16 })
+      expect(atlas.meta.scale).toBe('1')
+      expect(atlas.meta.frameTags).toEqual([{ name: 'walk', from: 0, to: 1, direction: 'forward' }])
+    })
+  })
+
+  describe('renderSpriteSheet', () => {
+    it('should create a canvas the size of the sheet', () => {
+      const frames = createFrames(4)
+      const layout = layoutSpriteSheet(frames, 16, 16, { layout: 'grid', columns: 4, padding: 0, scale: 2 })
+      const canvas = renderSpriteSheet(frames, layout)
+
+      expect(canvas.width).toBe(128)
+      expect(canvas.height).toBe(32)
+    })
+  })
+})
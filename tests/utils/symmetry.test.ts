@@ -0,0 +1,75 @@
+import { getCenteredSymmetry, getMirrorPoints, mirrorPixelChanges } from '../../src/utils/symmetry'
+import { PixelData, SymmetrySettings } from '../../src/types'
+
+describe('symmetry', () => {
+  const pixel = (x: number, y: number, color = '#ff0000'): PixelData => ({ x, y, color, layerId: 1 })
+
+  const createPixels = (...pixels: PixelData[]) =>
+    new Map(pixels.map(p => [`${p.x},${p.y}`, p] as [string, PixelData]))
+
+  const settings = (mode: SymmetrySettings['mode'], axisX = 8, axisY = 8): SymmetrySettings => ({ mode, axisX, axisY })
+
+  describe('getCenteredSymmetry', () => {
+    it('should put both axes through the middle of the canvas', () => {
+      expect(getCenteredSymmetry(16, 9)).toEqual({ mode: 'none', axisX: 8, axisY: 4.5 })
+      expect(getCenteredSymmetry(16, 16, 'both').mode).toBe('both')
+    })
+  })
+
+  describe('getMirrorPoints', () => {
+    it('should return only the original point without symmetry', () => {
+      expect(getMirrorPoints(2, 3)).toEqual([{ x: 2, y: 3 }])
+      expect(getMirrorPoints(2, 3, settings('none'))).toEqual([{ x: 2, y: 3 }])
+    })
+
+    it('should mirror across the vertical axis for horizontal symmetry', () => {
+      expect(getMirrorPoints(2, 3, settings('horizontal'))).toEqual([{ x: 2, y: 3 }, { x: 13, y: 3 }])
+    })
+
+    it('should mirror across the horizontal axis for vertical symmetry', () => {
+      expect(getMirrorPoints(2, 3, settings('vertical'))).toEqual([{ x: 2, y: 3 }, { x: 2, y: 12 }])
+    })
+
+    it('should mirror into all four quadrants for both axes', () => {
+      expect(getMirrorPoints(2, 3, settings('both'))).toEqual([
+        { x: 2, y: 3 }, { x: 13, y: 3 }, { x: 2, y: 12 }, { x: 13, y: 12 }
+      ])
+    })
+
+    it('should not duplicate pixels that lie on a half-pixel axis', () => {
+      expect(getMirrorPoints(8, 3, settings('horizontal', 8.5))).toEqual([{ x: 8, y: 3 }])
+      expect(getMirrorPoints(6, 3, settings('horizontal', 8.5))).toEqual([{ x: 6, y: 3 }, { x: 10, y: 3 }])
+    })
+  })
+
+  describe('mirrorPixelChanges', () => {
+    it('should repeat added pixels at their mirror positions', () => {
+      const before = createPixels()
+      const after = createPixels(pixel(1, 1))
+
+      const result = mirrorPixelChanges(before, after, settings('both'), 16, 16)
+
+      expect(Array.from(result.keys()).sort()).toEqual(['1,1', '1,14', '14,1', '14,14'])
+      expect(result.get('14,14')).toEqual(pixel(14, 14))
+      expect(after.size).toBe(1)
+    })
+
+    it('should repeat erased pixels at their mirror positions', () => {
+      const before = createPixels(pixel(1, 1), pixel(14, 1), pixel(5, 5))
+      const after = createPixels(pixel(5, 5))
+
+      const result = mirrorPixelChanges(before, after, settings('horizontal'), 16, 16)
+
+      expect(Array.from(result.keys())).toEqual(['5,5'])
+    })
+
+    it('should leave unchanged pixels alone and drop mirrors outside the canvas', () => {
+      const before = createPixels(pixel(0, 0, '#00ff00'))
+      const after = createPixels(pixel(0, 0, '#00ff00'), pixel(2, 0))
+
+      const result = mirrorPixelChanges(before, after, settings('horizontal', 20), 16, 16)
+
+      expect(Array.from(result.keys())).toEqual(['0,0', '2,0'])
+    })
+  })
+})
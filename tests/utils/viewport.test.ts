@@ -0,0 +1,47 @@
+import { DEFAULT_VIEWPORT, getZoomLimits, zoomViewportAt, getActualSizeViewport, screenToPixel } from '../../src/utils/viewport'
+
+describe('viewport', () => {
+  describe('getZoomLimits', () => {
+    it('should allow zooming out to 100% and in to the largest cell size', () => {
+      expect(getZoomLimits(32)).toEqual({ min: 1 / 32, max: 4 })
+      expect(getZoomLimits(2)).toEqual({ min: 0.5, max: 64 })
+    })
+
+    it('should always allow the fit-to-view zoom', () => {
+      expect(getZoomLimits(1)).toEqual({ min: 1, max: 128 })
+      expect(getZoomLimits(256)).toEqual({ min: 1 / 256, max: 1 })
+    })
+  })
+
+  describe('zoomViewportAt', () => {
+    it('should keep the anchor point over the same sprite position', () => {
+      const zoomed = zoomViewportAt(DEFAULT_VIEWPORT, 2, 100, 60, 8)
+
+      expect(zoomed).toEqual({ zoom: 2, panX: -100, panY: -60 })
+      // Screen point (100, 60) was sprite pixel (12, 7) before and after
+      expect(screenToPixel(DEFAULT_VIEWPORT, 8, 100, 60)).toEqual({ x: 12, y: 7 })
+      expect(screenToPixel(zoomed, 8, 100, 60)).toEqual({ x: 12, y: 7 })
+    })
+
+    it('should clamp the zoom to the allowed range', () => {
+      expect(zoomViewportAt(DEFAULT_VIEWPORT, 1000, 0, 0, 32).zoom).toBe(4)
+      expect(zoomViewportAt(DEFAULT_VIEWPORT, 0.0001, 0, 0, 32).zoom).toBe(1 / 32)
+    })
+  })
+
+  describe('getActualSizeViewport', () => {
+    it('should show one screen pixel per sprite pixel, centered', () => {
+      expect(getActualSizeViewport(32, 16, 16)).toEqual({ zoom: 1 / 32, panX: 248, panY: 248 })
+    })
+  })
+
+  describe('screenToPixel', () => {
+    it('should map through the zoom and pan', () => {
+      const viewport = { zoom: 4, panX: -64, panY: 32 }
+
+      expect(screenToPixel(viewport, 8, 0, 32)).toEqual({ x: 2, y: 0 })
+      expect(screenToPixel(viewport, 8, 95, 63)).toEqual({ x: 4, y: 0 })
+      expect(screenToPixel(viewport, 8, 0, 0)).toEqual({ x: 2, y: -1 })
+    })
+  })
+})